@@ -3,9 +3,11 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { I18nProvider } from "@/lib/i18n";
 import Home from "@/pages/home";
 import CountryList from "@/pages/country-list";
 import ThreatMap from "@/pages/threat-map";
+import Trips from "@/pages/trips";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -15,6 +17,7 @@ function Router() {
       <Route path="/countries" component={CountryList} />
       <Route path="/map" component={ThreatMap} />
       <Route path="/threat-map" component={ThreatMap} />
+      <Route path="/trips" component={Trips} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -23,10 +26,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <I18nProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </I18nProvider>
     </QueryClientProvider>
   );
 }
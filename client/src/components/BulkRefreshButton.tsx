@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import {
@@ -9,25 +9,104 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Progress } from "@/components/ui/progress";
-import { Database, CheckCircle2, XCircle, Loader2, AlertCircle } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Database, CheckCircle2, XCircle, Loader2, AlertCircle, Clock, RotateCcw } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Badge } from "@/components/ui/badge";
+import { useI18n, type I18n } from "@/lib/i18n";
 
 interface BulkJobProgress {
   jobId: string;
-  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
   totalCountries: number;
   processedCountries: number;
   failedCountries: number;
   currentCountry: string | null;
-  startedAt: string;
+  queuedAt: string;
+  startedAt: string | null;
   completedAt: string | null;
   errors: Array<{ country: string; error: string }>;
+  estimatedSecondsRemaining: number | null;
+  parentJobId: string | null;
+  aiCache: { hits: number; misses: number };
+}
+
+interface JobCountryProgress {
+  id: string;
+  countryName: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  error: string | null;
+  retryCount: number;
+  completedAt: string | null;
+}
+
+// Events sent by /api/jobs/:id/events
+type JobStreamEvent =
+  | { type: 'country-started'; country: string }
+  | { type: 'country-retry'; country: string; attempt: number; maxAttempts: number; error: string }
+  | { type: 'country-completed'; country: string; processedCountries: number; failedCountries: number }
+  | { type: 'country-failed'; country: string; error: string; processedCountries: number; failedCountries: number }
+  | { type: 'status'; status: BulkJobProgress['status']; totalCountries: number; processedCountries: number; failedCountries: number; aiCache?: BulkJobProgress['aiCache'] }
+  | { type: 'eta'; estimatedSecondsRemaining: number };
+
+const STREAM_EVENT_TYPES: JobStreamEvent['type'][] = ['country-started', 'country-retry', 'country-completed', 'country-failed', 'status', 'eta'];
+
+const isFinished = (status: BulkJobProgress['status']) =>
+  status === 'completed' || status === 'failed' || status === 'cancelled';
+
+/**
+ * Fold a streamed event into the progress last received
+ */
+function applyJobEvent(progress: BulkJobProgress, event: JobStreamEvent): BulkJobProgress {
+  switch (event.type) {
+    case 'country-started':
+      return { ...progress, currentCountry: event.country };
+    case 'country-retry':
+      return progress;
+    case 'country-completed':
+      return { ...progress, processedCountries: event.processedCountries, failedCountries: event.failedCountries };
+    case 'country-failed':
+      return {
+        ...progress,
+        processedCountries: event.processedCountries,
+        failedCountries: event.failedCountries,
+        errors: [...progress.errors, { country: event.country, error: event.error }],
+      };
+    case 'status':
+      return {
+        ...progress,
+        status: event.status,
+        totalCountries: event.totalCountries,
+        processedCountries: event.processedCountries,
+        failedCountries: event.failedCountries,
+        aiCache: event.aiCache ?? progress.aiCache,
+        currentCountry: event.status === 'running' ? progress.currentCountry : null,
+        completedAt: isFinished(event.status) ? new Date().toISOString() : progress.completedAt,
+        estimatedSecondsRemaining: event.status === 'running' ? progress.estimatedSecondsRemaining : null,
+      };
+    case 'eta':
+      return { ...progress, estimatedSecondsRemaining: event.estimatedSecondsRemaining };
+  }
+}
+
+function formatEta(seconds: number, { t, tp }: I18n): string {
+  if (seconds < 60) return t("bulk.etaUnderMinute");
+  return tp("bulk.etaMinutes", Math.round(seconds / 60));
 }
 
 export function BulkRefreshButton() {
   const [showDialog, setShowDialog] = useState(false);
   const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const i18n = useI18n();
+  const { t } = i18n;
 
   // Mutation to trigger bulk refresh
   const startRefreshMutation = useMutation({
@@ -57,8 +136,82 @@ export function BulkRefreshButton() {
     enabled: !!activeJobId && showDialog,
     refetchInterval: (query) => {
       const data = query.state.data;
-      // Refetch every 2 seconds if job is running, stop if completed/failed/cancelled
-      return data?.status === 'running' ? 2000 : false;
+      // Poll every 2 seconds while the job is queued or running, unless the event stream is delivering updates
+      if (isStreaming) return false;
+      return data?.status === 'running' || data?.status === 'queued' ? 2000 : false;
+    },
+  });
+
+  // Follow the job over Server-Sent Events; if the stream can't be opened or drops, polling takes over
+  useEffect(() => {
+    if (!activeJobId || !showDialog || typeof EventSource === "undefined") return;
+
+    const queryKey = ["/api/refresh-status", activeJobId];
+    const source = new EventSource(`/api/jobs/${activeJobId}/events`);
+    let finished = false;
+
+    const stop = () => {
+      source.close();
+      setIsStreaming(false);
+    };
+
+    source.onopen = () => setIsStreaming(true);
+    source.onerror = () => {
+      stop();
+      if (!finished) refetchProgress();
+    };
+
+    source.addEventListener("snapshot", (message) => {
+      const progress = JSON.parse((message as MessageEvent).data) as BulkJobProgress;
+      queryClient.setQueryData(queryKey, progress);
+      if (isFinished(progress.status)) {
+        finished = true;
+        stop();
+      }
+    });
+
+    for (const type of STREAM_EVENT_TYPES) {
+      source.addEventListener(type, (message) => {
+        const event = JSON.parse((message as MessageEvent).data) as JobStreamEvent;
+        queryClient.setQueryData<BulkJobProgress | null>(queryKey, (current) =>
+          current ? applyJobEvent(current, event) : current
+        );
+        if (event.type === 'status' && isFinished(event.status)) {
+          finished = true;
+          stop();
+        }
+      });
+    }
+
+    return stop;
+  }, [activeJobId, showDialog]);
+
+  const isFinishedWithFailures = !!jobProgress && isFinished(jobProgress.status) && jobProgress.failedCountries > 0;
+
+  // Countries the finished job failed on, with their last error
+  const { data: failedCountryData } = useQuery<{ countries: JobCountryProgress[] }>({
+    queryKey: ["/api/refresh-status", activeJobId, "countries", "failed"],
+    queryFn: async () => {
+      const response = await fetch(`/api/refresh-status/${activeJobId}/countries?status=failed`);
+      if (!response.ok) throw new Error("Failed to fetch failed countries");
+      return response.json();
+    },
+    enabled: !!activeJobId && showDialog && isFinishedWithFailures,
+  });
+  const failedCountries = failedCountryData?.countries || [];
+
+  // Mutation to retry only the failed countries in a new job, which the dialog then follows
+  const retryFailedMutation = useMutation({
+    mutationFn: async () => {
+      if (!activeJobId) throw new Error("No active job");
+      const response = await apiRequest("POST", `/api/refresh-retry/${activeJobId}`);
+      return response.json() as Promise<{ jobId: string }>;
+    },
+    onSuccess: (data) => {
+      setActiveJobId(data.jobId);
+    },
+    onError: (error: any) => {
+      console.error("Failed to retry failed countries:", error);
     },
   });
 
@@ -81,9 +234,12 @@ export function BulkRefreshButton() {
     cancelJobMutation.mutate();
   };
 
+  // Queued jobs wait for higher priority or earlier jobs to finish
+  const isJobActive = jobProgress?.status === 'running' || jobProgress?.status === 'queued';
+
   const handleCloseDialog = () => {
     setShowDialog(false);
-    if (jobProgress?.status !== 'running') {
+    if (!isJobActive) {
       setActiveJobId(null);
     }
   };
@@ -96,32 +252,39 @@ export function BulkRefreshButton() {
     if (!jobProgress) return null;
 
     switch (jobProgress.status) {
+      case 'queued':
+        return (
+          <Badge variant="secondary" data-testid="badge-status-queued">
+            <Clock className="w-3 h-3 mr-1" />
+            {t("bulk.status.queued")}
+          </Badge>
+        );
       case 'running':
         return (
           <Badge variant="default" className="bg-blue-500" data-testid="badge-status-running">
             <Loader2 className="w-3 h-3 mr-1 animate-spin" />
-            Running
+            {t("bulk.status.running")}
           </Badge>
         );
       case 'completed':
         return (
           <Badge variant="default" className="bg-green-500" data-testid="badge-status-completed">
             <CheckCircle2 className="w-3 h-3 mr-1" />
-            Completed
+            {t("bulk.status.completed")}
           </Badge>
         );
       case 'failed':
         return (
           <Badge variant="destructive" data-testid="badge-status-failed">
             <XCircle className="w-3 h-3 mr-1" />
-            Failed
+            {t("bulk.status.failed")}
           </Badge>
         );
       case 'cancelled':
         return (
           <Badge variant="secondary" data-testid="badge-status-cancelled">
             <AlertCircle className="w-3 h-3 mr-1" />
-            Cancelled
+            {t("bulk.status.cancelled")}
           </Badge>
         );
     }
@@ -133,13 +296,13 @@ export function BulkRefreshButton() {
         variant="outline"
         size="sm"
         onClick={handleStartRefresh}
-        disabled={startRefreshMutation.isPending || jobProgress?.status === 'running'}
+        disabled={startRefreshMutation.isPending || isJobActive}
         className="gap-2"
         data-testid="button-bulk-refresh"
       >
         <Database className="w-4 h-4" />
-        <span className="hidden sm:inline">Refresh US State Dept Data</span>
-        <span className="sm:hidden">Refresh Data</span>
+        <span className="hidden sm:inline">{t("bulk.button")}</span>
+        <span className="sm:hidden">{t("bulk.buttonShort")}</span>
       </Button>
 
       <Dialog open={showDialog} onOpenChange={handleCloseDialog}>
@@ -147,11 +310,11 @@ export function BulkRefreshButton() {
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <Database className="w-5 h-5" />
-              Bulk Data Refresh
+              {t("bulk.title")}
               {getStatusBadge()}
             </DialogTitle>
             <DialogDescription>
-              Downloading and AI-enhancing US State Department travel advisories for all countries
+              {t("bulk.description")}
             </DialogDescription>
           </DialogHeader>
 
@@ -160,7 +323,7 @@ export function BulkRefreshButton() {
               {/* Progress Bar */}
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
-                  <span className="text-muted-foreground">Progress</span>
+                  <span className="text-muted-foreground">{t("bulk.progress")}</span>
                   <span className="font-medium" data-testid="text-progress-percentage">
                     {progressPercentage}%
                   </span>
@@ -168,20 +331,25 @@ export function BulkRefreshButton() {
                 <Progress value={progressPercentage} className="h-2" data-testid="progress-bar" />
                 <div className="flex justify-between text-xs text-muted-foreground">
                   <span data-testid="text-processed-count">
-                    {jobProgress.processedCountries} / {jobProgress.totalCountries} countries processed
+                    {t("bulk.processed", { processed: jobProgress.processedCountries, total: jobProgress.totalCountries })}
                   </span>
                   {jobProgress.failedCountries > 0 && (
                     <span className="text-destructive" data-testid="text-failed-count">
-                      {jobProgress.failedCountries} failed
+                      {t("bulk.failedCount", { count: jobProgress.failedCountries })}
                     </span>
                   )}
                 </div>
+                {jobProgress.status === 'running' && jobProgress.estimatedSecondsRemaining !== null && (
+                  <div className="text-xs text-muted-foreground" data-testid="text-eta">
+                    {t("bulk.remaining", { eta: formatEta(jobProgress.estimatedSecondsRemaining, i18n) })}
+                  </div>
+                )}
               </div>
 
               {/* Current Country */}
               {jobProgress.currentCountry && jobProgress.status === 'running' && (
                 <div className="bg-muted rounded-lg p-3" data-testid="current-country-indicator">
-                  <div className="text-sm text-muted-foreground mb-1">Currently processing</div>
+                  <div className="text-sm text-muted-foreground mb-1">{t("bulk.currentlyProcessing")}</div>
                   <div className="font-medium flex items-center gap-2">
                     <Loader2 className="w-4 h-4 animate-spin text-blue-500" />
                     {jobProgress.currentCountry}
@@ -189,6 +357,13 @@ export function BulkRefreshButton() {
                 </div>
               )}
 
+              {/* Queued Message */}
+              {jobProgress.status === 'queued' && (
+                <div className="bg-muted rounded-lg p-3 text-sm text-muted-foreground" data-testid="queued-message">
+                  {t("bulk.queued")}
+                </div>
+              )}
+
               {/* Completed Message */}
               {jobProgress.status === 'completed' && (
                 <div className="bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 rounded-lg p-4" data-testid="completion-message">
@@ -196,11 +371,16 @@ export function BulkRefreshButton() {
                     <CheckCircle2 className="w-5 h-5 text-green-600 dark:text-green-400 mt-0.5" />
                     <div>
                       <div className="font-medium text-green-900 dark:text-green-100">
-                        Refresh Completed Successfully
+                        {t("bulk.completedTitle")}
                       </div>
                       <div className="text-sm text-green-700 dark:text-green-300 mt-1">
-                        All {jobProgress.processedCountries} countries have been updated with the latest travel advisories and AI enhancements.
+                        {t("bulk.completedDescription", { count: jobProgress.processedCountries })}
                       </div>
+                      {jobProgress.aiCache && jobProgress.aiCache.hits + jobProgress.aiCache.misses > 0 && (
+                        <div className="text-xs text-green-700 dark:text-green-300 mt-1" data-testid="text-ai-cache">
+                          {t("bulk.aiCache", { hits: jobProgress.aiCache.hits, misses: jobProgress.aiCache.misses })}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -213,10 +393,10 @@ export function BulkRefreshButton() {
                     <XCircle className="w-5 h-5 text-destructive mt-0.5" />
                     <div>
                       <div className="font-medium text-destructive">
-                        Refresh Failed
+                        {t("bulk.failedTitle")}
                       </div>
                       <div className="text-sm text-destructive/80 mt-1">
-                        The bulk refresh encountered an error. You can retry the operation.
+                        {t("bulk.failedDescription")}
                       </div>
                     </div>
                   </div>
@@ -230,20 +410,47 @@ export function BulkRefreshButton() {
                     <AlertCircle className="w-5 h-5 text-muted-foreground mt-0.5" />
                     <div>
                       <div className="font-medium">
-                        Refresh Cancelled
+                        {t("bulk.cancelledTitle")}
                       </div>
                       <div className="text-sm text-muted-foreground mt-1">
-                        The bulk refresh was cancelled. Progress has been saved.
+                        {t("bulk.cancelledDescription")}
                       </div>
                     </div>
                   </div>
                 </div>
               )}
 
-              {/* Error Log (if there are errors) */}
-              {jobProgress.errors && jobProgress.errors.length > 0 && (
+              {/* Failed Countries (once the job has finished) */}
+              {isFinishedWithFailures && failedCountries.length > 0 && (
+                <div className="space-y-2">
+                  <div className="text-sm font-medium text-destructive">{t("bulk.failedCountries", { count: failedCountries.length })}</div>
+                  <div className="border border-destructive/20 rounded-lg max-h-56 overflow-y-auto" data-testid="table-failed-countries">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>{t("bulk.country")}</TableHead>
+                          <TableHead>{t("bulk.error")}</TableHead>
+                          <TableHead className="text-right">{t("bulk.attempts")}</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {failedCountries.map(country => (
+                          <TableRow key={country.id} data-testid={`row-failed-${country.countryName}`}>
+                            <TableCell className="font-medium capitalize">{country.countryName}</TableCell>
+                            <TableCell className="text-xs text-destructive/90">{country.error || t("bulk.unknownError")}</TableCell>
+                            <TableCell className="text-right">{country.retryCount + 1}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+
+              {/* Error Log (while running, or when failures aren't tied to countries) */}
+              {jobProgress.errors && jobProgress.errors.length > 0 && failedCountries.length === 0 && (
                 <div className="space-y-2">
-                  <div className="text-sm font-medium text-destructive">Errors ({jobProgress.errors.length})</div>
+                  <div className="text-sm font-medium text-destructive">{t("bulk.errors", { count: jobProgress.errors.length })}</div>
                   <div className="bg-destructive/5 border border-destructive/20 rounded-lg p-3 max-h-40 overflow-y-auto" data-testid="error-log">
                     <ul className="space-y-1 text-xs text-destructive/90">
                       {jobProgress.errors.slice(0, 10).map((error, index) => (
@@ -253,7 +460,7 @@ export function BulkRefreshButton() {
                       ))}
                       {jobProgress.errors.length > 10 && (
                         <li className="text-muted-foreground">
-                          ... and {jobProgress.errors.length - 10} more errors
+                          {t("bulk.moreErrors", { count: jobProgress.errors.length - 10 })}
                         </li>
                       )}
                     </ul>
@@ -263,7 +470,19 @@ export function BulkRefreshButton() {
 
               {/* Action Buttons */}
               <div className="flex justify-end gap-2 pt-2">
-                {jobProgress.status === 'running' && (
+                {isFinishedWithFailures && failedCountries.length > 0 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => retryFailedMutation.mutate()}
+                    disabled={retryFailedMutation.isPending}
+                    data-testid="button-retry-failed"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    {t("bulk.retryFailed", { count: failedCountries.length })}
+                  </Button>
+                )}
+                {isJobActive && (
                   <Button
                     variant="outline"
                     size="sm"
@@ -271,16 +490,16 @@ export function BulkRefreshButton() {
                     disabled={cancelJobMutation.isPending}
                     data-testid="button-cancel-job"
                   >
-                    Cancel
+                    {t("bulk.cancel")}
                   </Button>
                 )}
                 <Button
-                  variant={jobProgress.status === 'running' ? 'ghost' : 'default'}
+                  variant={isJobActive ? 'ghost' : 'default'}
                   size="sm"
                   onClick={handleCloseDialog}
                   data-testid="button-close-dialog"
                 >
-                  {jobProgress.status === 'running' ? 'Run in Background' : 'Close'}
+                  {isJobActive ? t("bulk.runInBackground") : t("bulk.close")}
                 </Button>
               </div>
             </div>
@@ -1,16 +1,40 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { AlertTriangle, FileText, ExternalLink, Globe, Brain, Shield, MapPin, Building2, Phone } from "lucide-react";
-import { type CountryData } from "@shared/schema";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, FileText, ExternalLink, Globe, Brain, Shield, MapPin, Building2, Phone, BookOpen, Stamp } from "lucide-react";
+import { type CountryData, type EntryRequirement } from "@shared/schema";
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { isUnverified } from "@/lib/aiConfidence";
+import { useI18n } from "@/lib/i18n";
 
 interface CountryCardProps {
   countryData: CountryData;
 }
 
 export function CountryCard({ countryData }: CountryCardProps) {
-  const { country, alerts, background, embassies } = countryData;
+  const { country, alerts, background, embassies, sections } = countryData;
   const [flagError, setFlagError] = useState(false);
+  const [selectedNationality, setSelectedNationality] = useState<string | null>(null);
+  const { t, locale, formatDate, formatNumber } = useI18n();
+
+  const { data: entryData } = useQuery<{ requirements: EntryRequirement[]; nationalities: string[] }>({
+    queryKey: [`/api/entry-requirements?destination=${encodeURIComponent(country.name)}`],
+  });
+  const nationalities = entryData?.nationalities ?? [];
+  const nationality = selectedNationality && nationalities.includes(selectedNationality)
+    ? selectedNationality
+    : nationalities[0];
+  const entryRequirements = (entryData?.requirements ?? []).filter(requirement => requirement.nationality === nationality);
+
+  const getNationalityName = (code: string) => {
+    try {
+      return new Intl.DisplayNames([locale], { type: "region" }).of(code) ?? code;
+    } catch {
+      return code;
+    }
+  };
 
   // Find US State Department alert and extract threat level
   const getStateDeptThreatLevel = () => {
@@ -40,15 +64,15 @@ export function CountryCard({ countryData }: CountryCardProps) {
   const getThreatLevelText = (level: number | null) => {
     switch (level) {
       case 1:
-        return "Level 1: Exercise Normal Precautions";
+        return t("threat.level1");
       case 2:
-        return "Level 2: Exercise Increased Caution";
+        return t("threat.level2");
       case 3:
-        return "Level 3: Reconsider Travel";
+        return t("threat.level3");
       case 4:
-        return "Level 4: Do Not Travel";
+        return t("threat.level4");
       default:
-        return "Travel Advisory Level Not Available";
+        return t("threat.levelNotAvailable");
     }
   };
 
@@ -85,7 +109,7 @@ export function CountryCard({ countryData }: CountryCardProps) {
             {country.flagUrl && !flagError ? (
               <img
                 src={country.flagUrl}
-                alt={`${country.name} flag`}
+                alt={t("card.flagAlt", { country: country.name })}
                 className="w-8 h-6 rounded border"
                 data-testid={`img-flag-${country.id}`}
                 onError={() => setFlagError(true)}
@@ -106,7 +130,7 @@ export function CountryCard({ countryData }: CountryCardProps) {
         <div className="mb-6">
           <h4 className="text-lg font-medium text-foreground mb-3 flex items-center">
             <AlertTriangle className="w-5 h-5 mr-2 text-primary" />
-            Current Alerts
+            {t("card.currentAlerts")}
           </h4>
 
           {alerts.length > 0 ? (
@@ -126,7 +150,7 @@ export function CountryCard({ countryData }: CountryCardProps) {
                         {alert.source}
                       </Badge>
                       <span className="text-xs text-muted-foreground" data-testid={`text-date-${country.id}-${index}`}>
-                        {new Date(alert.date).toLocaleDateString()}
+                        {formatDate(alert.date)}
                       </span>
                     </div>
                     {alert.level && (
@@ -151,7 +175,7 @@ export function CountryCard({ countryData }: CountryCardProps) {
                       <div className="flex items-center mb-2">
                         <Brain className="w-4 h-4 mr-1 text-blue-600" />
                         <span className="text-xs font-medium text-foreground border border-gray-300 px-2 py-1 rounded">
-                          AI Enhanced Analysis
+                          {t("card.aiEnhanced")}
                         </span>
                       </div>
                       
@@ -159,12 +183,17 @@ export function CountryCard({ countryData }: CountryCardProps) {
                         <div className="mb-3">
                           <div className="flex items-center mb-1">
                             <AlertTriangle className="w-3 h-3 mr-1 text-red-500" />
-                            <span className="text-sm font-semibold text-gray-700">Key Risks</span>
+                            <span className="text-sm font-semibold text-gray-700">{t("common.keyRisks")}</span>
                           </div>
                           <ul className="text-sm text-gray-600 ml-4 space-y-0.5">
                             {alert.keyRisks.slice(0, 4).map((risk, riskIndex) => (
                               <li key={riskIndex} className="list-disc" data-testid={`text-risk-${country.id}-${index}-${riskIndex}`}>
                                 {risk}
+                                {isUnverified(alert.aiConfidence, "keyRisks", risk) && (
+                                  <span className="ml-1 text-xs text-amber-600" title={t("common.unverifiedHint")} data-testid={`unverified-risk-${country.id}-${index}-${riskIndex}`}>
+                                    ({t("common.unverified")})
+                                  </span>
+                                )}
                               </li>
                             ))}
                           </ul>
@@ -175,7 +204,7 @@ export function CountryCard({ countryData }: CountryCardProps) {
                         <div className="mb-3">
                           <div className="flex items-center mb-1">
                             <Shield className="w-3 h-3 mr-1 text-green-500" />
-                            <span className="text-sm font-semibold text-gray-700">Safety Recommendations</span>
+                            <span className="text-sm font-semibold text-gray-700">{t("common.safetyRecommendations")}</span>
                           </div>
                           <ul className="text-sm text-gray-600 ml-4 space-y-0.5">
                             {alert.safetyRecommendations.slice(0, 4).map((rec, recIndex) => (
@@ -191,10 +220,18 @@ export function CountryCard({ countryData }: CountryCardProps) {
                         <div className="mb-2">
                           <div className="flex items-center mb-1">
                             <MapPin className="w-3 h-3 mr-1 text-purple-500" />
-                            <span className="text-sm font-semibold text-gray-700">Specific Areas</span>
+                            <span className="text-sm font-semibold text-gray-700">{t("card.specificAreas")}</span>
                           </div>
                           <p className="text-sm text-gray-600 ml-4" data-testid={`text-areas-${country.id}-${index}`}>
-                            {alert.specificAreas.slice(0, 5).join(", ")}
+                            {alert.specificAreas.slice(0, 5).map((area, areaIndex) => (
+                              <span key={areaIndex}>
+                                {areaIndex > 0 && ", "}
+                                {area}
+                                {isUnverified(alert.aiConfidence, "specificAreas", area) && (
+                                  <span className="ml-1 text-xs text-amber-600" title={t("common.unverifiedHint")}>({t("common.unverified")})</span>
+                                )}
+                              </span>
+                            ))}
                           </p>
                         </div>
                       )}
@@ -208,7 +245,7 @@ export function CountryCard({ countryData }: CountryCardProps) {
                     rel="noopener noreferrer"
                     data-testid={`link-alert-${country.id}-${index}`}
                   >
-                    View full advisory
+                    {t("card.viewAdvisory")}
                     <ExternalLink className="w-3 h-3 ml-1" />
                   </a>
                 </div>
@@ -216,55 +253,140 @@ export function CountryCard({ countryData }: CountryCardProps) {
             </div>
           ) : (
             <div className="text-center py-4 text-muted-foreground" data-testid={`text-no-alerts-${country.id}`}>
-              No current alerts available
+              {t("card.noAlerts")}
             </div>
           )}
         </div>
 
+        {/* Entry requirements, per traveler nationality since each source writes for its own citizens */}
+        {nationality && entryRequirements.length > 0 && (
+          <div className="border-t border-border pt-4 mb-6" data-testid={`entry-requirements-${country.id}`}>
+            <h4 className="text-lg font-medium text-foreground mb-3 flex items-center">
+              <Stamp className="w-5 h-5 mr-2 text-primary" />
+              {t("entry.title")}
+            </h4>
+            <div className="flex flex-wrap items-center gap-2 mb-3">
+              <span className="text-sm text-muted-foreground">{t("entry.passport")}</span>
+              {nationalities.map(code => (
+                <Button
+                  key={code}
+                  size="sm"
+                  variant={code === nationality ? "default" : "outline"}
+                  onClick={() => setSelectedNationality(code)}
+                  data-testid={`button-entry-nationality-${country.id}-${code}`}
+                >
+                  {getNationalityName(code)}
+                </Button>
+              ))}
+            </div>
+            <dl className="space-y-3">
+              {entryRequirements.map(requirement => (
+                <div key={requirement.id} className="text-sm" data-testid={`entry-requirement-${country.id}-${requirement.requirement}`}>
+                  <dt className="font-medium text-foreground">{t(`entry.type.${requirement.requirement}`)}</dt>
+                  <dd className="text-muted-foreground">{requirement.details}</dd>
+                  <dd className="mt-1 text-xs text-muted-foreground flex flex-wrap items-center gap-x-2">
+                    <span>{t("entry.verified", { source: requirement.source, date: formatDate(requirement.lastVerified) })}</span>
+                    <a
+                      href={requirement.link}
+                      className="text-primary hover:text-primary/80 font-medium inline-flex items-center"
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      data-testid={`link-entry-requirement-${country.id}-${requirement.requirement}`}
+                    >
+                      {t("entry.viewSource")}
+                      <ExternalLink className="w-3 h-3 ml-1" />
+                    </a>
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        )}
+
+        {/* Full travel advice by section; the HTML is sanitized on the server when stored */}
+        {sections && sections.length > 0 && (
+          <div className="border-t border-border pt-4 mb-6">
+            <h4 className="text-lg font-medium text-foreground mb-1 flex items-center">
+              <BookOpen className="w-5 h-5 mr-2 text-primary" />
+              {t("card.fullAdvice")}
+            </h4>
+            <Accordion type="multiple" data-testid={`advice-sections-${country.id}`}>
+              {sections.map(section => (
+                <AccordionItem key={section.id} value={section.id} data-testid={`advice-section-${country.id}-${section.slug}`}>
+                  <AccordionTrigger className="py-3 text-left text-sm">
+                    <span className="flex flex-col">
+                      <span>{section.title}</span>
+                      <span className="text-xs font-normal text-muted-foreground">
+                        {t("card.sectionMeta", { source: section.source, date: formatDate(section.updatedAt) })}
+                      </span>
+                    </span>
+                  </AccordionTrigger>
+                  <AccordionContent>
+                    <div
+                      className="prose prose-sm max-w-none dark:prose-invert"
+                      dangerouslySetInnerHTML={{ __html: section.html }}
+                    />
+                    <a
+                      href={section.link}
+                      className="mt-2 text-sm text-primary hover:text-primary/80 font-medium inline-flex items-center"
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      data-testid={`link-advice-section-${country.id}-${section.slug}`}
+                    >
+                      {t("card.viewSection")}
+                      <ExternalLink className="w-3 h-3 ml-1" />
+                    </a>
+                  </AccordionContent>
+                </AccordionItem>
+              ))}
+            </Accordion>
+          </div>
+        )}
+
         {/* Background Information */}
         <div className="border-t border-border pt-4">
           <h4 className="text-lg font-medium text-foreground mb-3 flex items-center">
             <FileText className="w-5 h-5 mr-2 text-primary" />
-            Background Info
+            {t("card.backgroundInfo")}
           </h4>
 
           {background ? (
             <>
               <div className="grid grid-cols-2 gap-4 text-sm">
                 <div>
-                  <dt className="font-medium text-muted-foreground">Languages</dt>
+                  <dt className="font-medium text-muted-foreground">{t("card.languages")}</dt>
                   <dd className="text-foreground" data-testid={`text-languages-${country.id}`}>
-                    {background.languages?.join(", ") || "Unknown"}
+                    {background.languages?.join(", ") || t("common.unknown")}
                   </dd>
                 </div>
                 <div>
-                  <dt className="font-medium text-muted-foreground">Religion</dt>
+                  <dt className="font-medium text-muted-foreground">{t("card.religion")}</dt>
                   <dd className="text-foreground" data-testid={`text-religion-${country.id}`}>
-                    {background.religion || "Unknown"}
+                    {background.religion || t("common.unknown")}
                   </dd>
                 </div>
                 <div>
-                  <dt className="font-medium text-muted-foreground">GDP per capita</dt>
+                  <dt className="font-medium text-muted-foreground">{t("card.gdpPerCapita")}</dt>
                   <dd className="text-foreground" data-testid={`text-gdp-${country.id}`}>
-                    {background.gdpPerCapita ? `$${background.gdpPerCapita.toLocaleString()}` : "Unknown"}
+                    {background.gdpPerCapita ? `$${formatNumber(background.gdpPerCapita)}` : t("common.unknown")}
                   </dd>
                 </div>
                 <div>
-                  <dt className="font-medium text-muted-foreground">Population</dt>
+                  <dt className="font-medium text-muted-foreground">{t("card.population")}</dt>
                   <dd className="text-foreground" data-testid={`text-population-${country.id}`}>
-                    {background.population || "Unknown"}
+                    {background.population || t("common.unknown")}
                   </dd>
                 </div>
                 <div>
-                  <dt className="font-medium text-muted-foreground">Capital</dt>
+                  <dt className="font-medium text-muted-foreground">{t("card.capital")}</dt>
                   <dd className="text-foreground" data-testid={`text-capital-${country.id}`}>
-                    {background.capital || "Unknown"}
+                    {background.capital || t("common.unknown")}
                   </dd>
                 </div>
                 <div>
-                  <dt className="font-medium text-muted-foreground">Currency</dt>
+                  <dt className="font-medium text-muted-foreground">{t("card.currency")}</dt>
                   <dd className="text-foreground" data-testid={`text-currency-${country.id}`}>
-                    {background.currency || "Unknown"}
+                    {background.currency || t("common.unknown")}
                   </dd>
                 </div>
               </div>
@@ -278,7 +400,7 @@ export function CountryCard({ countryData }: CountryCardProps) {
                     rel="noopener noreferrer"
                     data-testid={`link-wiki-${country.id}`}
                   >
-                    View travel guide on Wikivoyage
+                    {t("card.wikivoyage")}
                     <ExternalLink className="w-3 h-3 ml-1" />
                   </a>
                 </div>
@@ -286,7 +408,7 @@ export function CountryCard({ countryData }: CountryCardProps) {
             </>
           ) : (
             <div className="text-center py-4 text-muted-foreground" data-testid={`text-no-background-${country.id}`}>
-              Background information not available
+              {t("card.noBackground")}
             </div>
           )}
         </div>
@@ -296,7 +418,7 @@ export function CountryCard({ countryData }: CountryCardProps) {
           <div className="border-t border-border pt-4 mt-4">
             <h4 className="text-lg font-medium text-foreground mb-3 flex items-center">
               <Building2 className="w-5 h-5 mr-2 text-primary" />
-              US Embassy & Consulates
+              {t("card.embassies")}
             </h4>
             <div className="space-y-3">
               {embassies.map((embassy, index) => (
@@ -340,7 +462,7 @@ export function CountryCard({ countryData }: CountryCardProps) {
                       rel="noopener noreferrer"
                       data-testid={`link-embassy-website-${country.id}-${index}`}
                     >
-                      Visit website
+                      {t("card.visitWebsite")}
                       <ExternalLink className="w-3 h-3 ml-1" />
                     </a>
                   )}
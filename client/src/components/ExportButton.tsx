@@ -2,6 +2,7 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Download, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/lib/i18n";
 import { type SearchResult } from "@shared/schema";
 
 interface ExportButtonProps {
@@ -12,12 +13,13 @@ interface ExportButtonProps {
 export function ExportButton({ searchResults, searchQuery }: ExportButtonProps) {
   const [isExporting, setIsExporting] = useState(false);
   const { toast } = useToast();
+  const { t, tp } = useI18n();
 
   const handleExport = async () => {
     if (!searchResults || searchResults.length === 0) {
       toast({
-        title: "No data to export",
-        description: "Please search for countries first",
+        title: t("export.noData"),
+        description: t("export.searchFirst"),
         variant: "destructive",
       });
       return;
@@ -38,7 +40,7 @@ export function ExportButton({ searchResults, searchQuery }: ExportButtonProps)
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || "Failed to generate PDF report");
+        throw new Error(errorData.error || t("export.failedDefault"));
       }
 
       // Get the PDF blob
@@ -62,15 +64,15 @@ export function ExportButton({ searchResults, searchQuery }: ExportButtonProps)
       window.URL.revokeObjectURL(url);
 
       toast({
-        title: "PDF exported successfully",
-        description: `Travel advisory report for ${searchResults.length} ${searchResults.length === 1 ? 'country' : 'countries'} downloaded`,
+        title: t("export.success"),
+        description: t("export.successDescription", { countries: tp("common.countries", searchResults.length) }),
       });
 
     } catch (error: any) {
       console.error("Export error:", error);
       toast({
-        title: "Export failed",
-        description: error.message || "Failed to generate PDF report. Please try again.",
+        title: t("common.exportFailed"),
+        description: error.message || t("export.failedRetry"),
         variant: "destructive",
       });
     } finally {
@@ -89,12 +91,12 @@ export function ExportButton({ searchResults, searchQuery }: ExportButtonProps)
       {isExporting ? (
         <>
           <Loader2 className="w-4 h-4 animate-spin" />
-          Generating PDF...
+          {t("common.generatingPdf")}
         </>
       ) : (
         <>
           <Download className="w-4 h-4" />
-          Download PDF Report
+          {t("export.button")}
         </>
       )}
     </Button>
@@ -4,18 +4,24 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Map, Search, List, Menu, Check } from "lucide-react";
+import { Map, Search, List, Plane, Menu, Check, Languages } from "lucide-react";
+import { LOCALES, useI18n, type Locale } from "@/lib/i18n";
+import type { MessageKey } from "@/locales/en";
 
-const pages = [
-  { path: "/", label: "Search", icon: Search },
-  { path: "/map", label: "Threat Map", icon: Map },
-  { path: "/countries", label: "Country List", icon: List },
+const pages: Array<{ path: string; id: string; labelKey: MessageKey; icon: typeof Search }> = [
+  { path: "/", id: "search", labelKey: "nav.search", icon: Search },
+  { path: "/map", id: "threat-map", labelKey: "nav.threatMap", icon: Map },
+  { path: "/countries", id: "country-list", labelKey: "nav.countryList", icon: List },
+  { path: "/trips", id: "trips", labelKey: "nav.trips", icon: Plane },
 ];
 
 export function Navigation() {
   const [location] = useLocation();
+  const { t, locale, setLocale } = useI18n();
 
   return (
     <DropdownMenu modal={true}>
@@ -27,7 +33,7 @@ export function Navigation() {
           data-testid="button-navigation-menu"
         >
           <Menu className="w-4 h-4" />
-          <span>Menu</span>
+          <span>{t("nav.menu")}</span>
         </Button>
       </DropdownMenuTrigger>
       <DropdownMenuContent align="end" className="w-48 z-[9999]">
@@ -37,11 +43,11 @@ export function Navigation() {
           
           return (
             <Link key={page.path} href={page.path}>
-              <DropdownMenuItem className="cursor-pointer" data-testid={`menu-item-${page.label.toLowerCase().replace(/\s+/g, "-")}`}>
+              <DropdownMenuItem className="cursor-pointer" data-testid={`menu-item-${page.id}`}>
                 <div className="flex items-center justify-between w-full">
                   <div className="flex items-center space-x-2">
                     <Icon className="w-4 h-4" />
-                    <span>{page.label}</span>
+                    <span>{t(page.labelKey)}</span>
                   </div>
                   {isActive && <Check className="w-4 h-4 text-primary" />}
                 </div>
@@ -49,6 +55,24 @@ export function Navigation() {
             </Link>
           );
         })}
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="flex items-center space-x-2 text-xs font-medium text-muted-foreground">
+          <Languages className="w-4 h-4" />
+          <span>{t("nav.language")}</span>
+        </DropdownMenuLabel>
+        {(Object.keys(LOCALES) as Locale[]).map((code) => (
+          <DropdownMenuItem
+            key={code}
+            className="cursor-pointer"
+            onSelect={() => setLocale(code)}
+            data-testid={`menu-item-locale-${code}`}
+          >
+            <div className="flex items-center justify-between w-full">
+              <span lang={code}>{LOCALES[code].label}</span>
+              {code === locale && <Check className="w-4 h-4 text-primary" />}
+            </div>
+          </DropdownMenuItem>
+        ))}
       </DropdownMenuContent>
     </DropdownMenu>
   );
@@ -2,6 +2,7 @@ import { useState } from "react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Search } from "lucide-react";
+import { useI18n } from "@/lib/i18n";
 
 interface SearchSectionProps {
   onSearch: (countries: string[]) => void;
@@ -10,6 +11,7 @@ interface SearchSectionProps {
 
 export function SearchSection({ onSearch, isLoading }: SearchSectionProps) {
   const [searchQuery, setSearchQuery] = useState("");
+  const { t } = useI18n();
 
   const handleSearch = () => {
     if (!searchQuery.trim()) return;
@@ -36,10 +38,10 @@ export function SearchSection({ onSearch, isLoading }: SearchSectionProps) {
         <div className="max-w-2xl mx-auto">
           <div className="text-center mb-6">
             <h2 className="text-2xl font-semibold text-foreground mb-2">
-              Search Travel Advisories
+              {t("search.title")}
             </h2>
             <p className="text-muted-foreground">
-              Enter one or more countries (comma-separated) to view current travel alerts and background information
+              {t("search.description")}
             </p>
           </div>
           <div className="relative">
@@ -48,7 +50,7 @@ export function SearchSection({ onSearch, isLoading }: SearchSectionProps) {
             </div>
             <Input
               type="text"
-              placeholder="e.g., Thailand, Japan, United Kingdom"
+              placeholder={t("search.placeholder")}
               className="w-full pl-10 pr-4 py-3 text-foreground placeholder-muted-foreground"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
@@ -62,7 +64,7 @@ export function SearchSection({ onSearch, isLoading }: SearchSectionProps) {
               className="absolute inset-y-0 right-0 pr-3 flex items-center text-primary hover:text-primary/80 transition-colors bg-transparent border-none shadow-none hover:bg-transparent"
               data-testid="button-search"
             >
-              <span className="text-sm font-medium">Search</span>
+              <span className="text-sm font-medium">{t("search.button")}</span>
             </Button>
           </div>
         </div>
@@ -0,0 +1,292 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Eye, Plus, Trash2, X, Search } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useI18n } from "@/lib/i18n";
+import { type Watchlist, type WatchlistSubscription } from "@shared/schema";
+
+interface AlertSourceSummary {
+  id: string;
+  label: string;
+  enabled: boolean;
+}
+
+type Severity = WatchlistSubscription["minSeverity"];
+
+const SEVERITIES: Severity[] = ["info", "low", "medium", "high"];
+
+interface WatchlistPanelProps {
+  onViewCountries: (countries: string[]) => void;
+}
+
+const capitalize = (name: string) => name.replace(/\b[a-z]/g, c => c.toUpperCase());
+
+export function WatchlistPanel({ onViewCountries }: WatchlistPanelProps) {
+  const [newWatchlistName, setNewWatchlistName] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [countryInput, setCountryInput] = useState("");
+  const [minSeverity, setMinSeverity] = useState<Severity>("medium");
+  const [selectedSources, setSelectedSources] = useState<string[]>([]);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const { t } = useI18n();
+
+  const { data: watchlistData } = useQuery<{ watchlists: Watchlist[] }>({
+    queryKey: ["/api/watchlists"],
+  });
+
+  const { data: sourceData } = useQuery<{ sources: AlertSourceSummary[] }>({
+    queryKey: ["/api/sources"],
+  });
+
+  const watchlists = watchlistData?.watchlists || [];
+  const sources = sourceData?.sources.filter(source => source.enabled) || [];
+  const selected = watchlists.find(w => w.id === selectedId) || watchlists[0] || null;
+
+  const handleError = (error: any) => {
+    const details = error?.response?.data?.details as string[] | undefined;
+    setErrorMessage(details?.join(" ") || error?.response?.data?.error || t("watchlist.updateFailed"));
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest("POST", "/api/watchlists", { name, countries: [] });
+      return response.json() as Promise<Watchlist>;
+    },
+    onSuccess: (watchlist) => {
+      setNewWatchlistName("");
+      setSelectedId(watchlist.id);
+      setErrorMessage(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/watchlists"] });
+    },
+    onError: handleError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, countries }: { id: string; countries: WatchlistSubscription[] }) => {
+      const response = await apiRequest("PATCH", `/api/watchlists/${id}`, { countries });
+      return response.json() as Promise<Watchlist>;
+    },
+    onSuccess: () => {
+      setCountryInput("");
+      setErrorMessage(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/watchlists"] });
+    },
+    onError: handleError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/watchlists/${id}`);
+    },
+    onSuccess: () => {
+      setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/watchlists"] });
+    },
+    onError: handleError,
+  });
+
+  const handleCreate = () => {
+    if (!newWatchlistName.trim()) return;
+    createMutation.mutate(newWatchlistName.trim());
+  };
+
+  const handleAddCountry = () => {
+    if (!selected || !countryInput.trim()) return;
+    updateMutation.mutate({
+      id: selected.id,
+      countries: [
+        ...selected.countries,
+        { countryName: countryInput.trim(), sources: selectedSources, minSeverity },
+      ],
+    });
+  };
+
+  const handleRemoveCountry = (countryName: string) => {
+    if (!selected) return;
+    updateMutation.mutate({
+      id: selected.id,
+      countries: selected.countries.filter(c => c.countryName !== countryName),
+    });
+  };
+
+  const toggleSource = (sourceId: string, checked: boolean) => {
+    setSelectedSources(current =>
+      checked ? [...current, sourceId] : current.filter(id => id !== sourceId)
+    );
+  };
+
+  const sourceLabel = (sourceId: string) => sources.find(s => s.id === sourceId)?.label || sourceId;
+
+  return (
+    <Card className="mb-8" data-testid="watchlist-panel">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Eye className="w-5 h-5 text-primary" />
+          {t("watchlist.title")}
+        </CardTitle>
+        <CardDescription>
+          {t("watchlist.description")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Watchlist selector and creation */}
+        <div className="flex flex-wrap items-center gap-2">
+          {watchlists.map(watchlist => (
+            <Button
+              key={watchlist.id}
+              variant={selected?.id === watchlist.id ? "default" : "outline"}
+              size="sm"
+              onClick={() => setSelectedId(watchlist.id)}
+              data-testid={`button-watchlist-${watchlist.id}`}
+            >
+              {watchlist.name} ({watchlist.countries.length})
+            </Button>
+          ))}
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder={t("watchlist.newName")}
+              className="h-9 w-48"
+              value={newWatchlistName}
+              onChange={(e) => setNewWatchlistName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+              data-testid="input-watchlist-name"
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleCreate}
+              disabled={createMutation.isPending || !newWatchlistName.trim()}
+              data-testid="button-create-watchlist"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              {t("watchlist.create")}
+            </Button>
+          </div>
+        </div>
+
+        {errorMessage && (
+          <p className="text-sm text-destructive" data-testid="text-watchlist-error">{errorMessage}</p>
+        )}
+
+        {selected && (
+          <div className="space-y-4">
+            {/* Subscribed countries */}
+            {selected.countries.length > 0 ? (
+              <ul className="divide-y divide-border border border-border rounded-md" data-testid="list-watchlist-countries">
+                {selected.countries.map(subscription => (
+                  <li key={subscription.countryName} className="flex items-center justify-between px-3 py-2 text-sm">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium text-foreground">{capitalize(subscription.countryName)}</span>
+                      <Badge variant="outline">≥ {t(`severity.${subscription.minSeverity}`)}</Badge>
+                      {subscription.sources.length === 0 ? (
+                        <Badge variant="secondary">{t("watchlist.allSources")}</Badge>
+                      ) : (
+                        subscription.sources.map(sourceId => (
+                          <Badge key={sourceId} variant="secondary">{sourceLabel(sourceId)}</Badge>
+                        ))
+                      )}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemoveCountry(subscription.countryName)}
+                      disabled={updateMutation.isPending}
+                      data-testid={`button-remove-${subscription.countryName}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">{t("watchlist.empty")}</p>
+            )}
+
+            {/* Add a country subscription */}
+            <div className="space-y-3 rounded-md bg-muted/50 p-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <Input
+                  placeholder={t("watchlist.countryPlaceholder")}
+                  className="h-9 w-56"
+                  value={countryInput}
+                  onChange={(e) => setCountryInput(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleAddCountry()}
+                  data-testid="input-watchlist-country"
+                />
+                <Select value={minSeverity} onValueChange={(value) => setMinSeverity(value as Severity)}>
+                  <SelectTrigger className="h-9 w-40" data-testid="select-min-severity">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SEVERITIES.map(severity => (
+                      <SelectItem key={severity} value={severity}>{t("watchlist.minSeverity", { severity: t(`severity.${severity}`) })}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  onClick={handleAddCountry}
+                  disabled={updateMutation.isPending || !countryInput.trim()}
+                  data-testid="button-add-watchlist-country"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  {t("watchlist.addCountry")}
+                </Button>
+              </div>
+              <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                <span>{t("watchlist.notifyOn")}</span>
+                {sources.map(source => (
+                  <label key={source.id} className="flex items-center gap-1.5">
+                    <Checkbox
+                      checked={selectedSources.includes(source.id)}
+                      onCheckedChange={(checked) => toggleSource(source.id, checked === true)}
+                      data-testid={`checkbox-source-${source.id}`}
+                    />
+                    {source.label}
+                  </label>
+                ))}
+                {selectedSources.length === 0 && <span className="italic">{t("watchlist.allSourcesHint")}</span>}
+              </div>
+            </div>
+
+            <div className="flex justify-between">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onViewCountries(selected.countries.map(c => c.countryName))}
+                disabled={selected.countries.length === 0}
+                data-testid="button-view-watchlist"
+              >
+                <Search className="w-4 h-4 mr-1" />
+                {t("watchlist.viewAdvisories")}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-destructive"
+                onClick={() => deleteMutation.mutate(selected.id)}
+                disabled={deleteMutation.isPending}
+                data-testid="button-delete-watchlist"
+              >
+                <Trash2 className="w-4 h-4 mr-1" />
+                {t("watchlist.delete")}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
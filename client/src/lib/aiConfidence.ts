@@ -0,0 +1,13 @@
+import type { AIConfidence } from "@shared/schema";
+
+/**
+ * Whether an AI-extracted key risk or area could not be confirmed against the advisory text.
+ * Alerts enhanced before confidence was recorded have nothing to check, so nothing is marked.
+ */
+export function isUnverified(
+  confidence: AIConfidence | null | undefined,
+  field: keyof AIConfidence,
+  item: string
+): boolean {
+  return confidence?.[field]?.some(entry => entry.item === item && entry.confidence === "unverified") ?? false;
+}
@@ -0,0 +1,102 @@
+import { createContext, useContext, useEffect, useState, type ReactNode } from "react";
+import { queryClient, setRequestLanguage } from "@/lib/queryClient";
+import { en, type MessageKey, type Messages } from "@/locales/en";
+import { es } from "@/locales/es";
+import { fr } from "@/locales/fr";
+
+export const LOCALES = {
+  en: { label: "English", messages: en as Messages },
+  es: { label: "Español", messages: es },
+  fr: { label: "Français", messages: fr },
+};
+
+export type Locale = keyof typeof LOCALES;
+
+// Keys with `.one`/`.other` forms, without the suffix
+type PluralBase<K> = K extends `${infer Base}.one` ? Base : never;
+export type PluralKey = PluralBase<MessageKey>;
+
+type Params = Record<string, string | number>;
+
+export interface I18n {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: Params) => string;
+  tp: (key: PluralKey, count: number, params?: Params) => string;
+  formatDate: (date: Date | string, options?: Intl.DateTimeFormatOptions) => string;
+  formatNumber: (value: number) => string;
+}
+
+const STORAGE_KEY = "locale";
+
+const isLocale = (value: string | null | undefined): value is Locale =>
+  !!value && Object.prototype.hasOwnProperty.call(LOCALES, value);
+
+/**
+ * The locale picked last time, otherwise the browser's language when we have it, otherwise English
+ */
+function detectLocale(): Locale {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // Storage can be unavailable (e.g. private browsing)
+  }
+  const browser = typeof navigator !== "undefined" ? navigator.language?.split("-")[0].toLowerCase() : undefined;
+  return isLocale(browser) ? browser : "en";
+}
+
+function interpolate(message: string, params?: Params): string {
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+}
+
+function createI18n(locale: Locale, setLocale: (locale: Locale) => void): I18n {
+  const messages = LOCALES[locale].messages;
+  const pluralRules = new Intl.PluralRules(locale);
+  const t = (key: MessageKey, params?: Params) => interpolate(messages[key] ?? en[key] ?? key, params);
+
+  return {
+    locale,
+    setLocale,
+    t,
+    tp: (key, count, params) =>
+      t(`${key}.${pluralRules.select(count) === "one" ? "one" : "other"}` as MessageKey, { count, ...params }),
+    formatDate: (date, options) => new Date(date).toLocaleDateString(locale, options),
+    formatNumber: (value) => value.toLocaleString(locale),
+  };
+}
+
+const I18nContext = createContext<I18n>(createI18n("en", () => {}));
+
+export function I18nProvider({ children }: { children: ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(() => {
+    const initial = detectLocale();
+    // Set before any child query runs, so the first requests already ask for this language
+    setRequestLanguage(initial);
+    return initial;
+  });
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = (next: Locale) => {
+    if (next === locale) return;
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // The choice just won't survive a reload
+    }
+    setRequestLanguage(next);
+    setLocaleState(next);
+    // Refetch so AI summaries come back in the new language
+    queryClient.invalidateQueries();
+  };
+
+  return <I18nContext.Provider value={createI18n(locale, setLocale)}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18n {
+  return useContext(I18nContext);
+}
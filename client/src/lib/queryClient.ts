@@ -1,5 +1,16 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// Sent as Accept-Language, so the API returns AI summaries in the UI's language when it has them
+let requestLanguage: string | null = null;
+
+export function setRequestLanguage(language: string) {
+  requestLanguage = language;
+}
+
+function languageHeaders(): Record<string, string> {
+  return requestLanguage ? { "Accept-Language": requestLanguage } : {};
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
@@ -28,7 +39,7 @@ export async function apiRequest(
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: data ? { ...languageHeaders(), "Content-Type": "application/json" } : languageHeaders(),
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -44,6 +55,7 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const res = await fetch(queryKey.join("/") as string, {
+      headers: languageHeaders(),
       credentials: "include",
     });
 
@@ -0,0 +1,18 @@
+import type { RiskDisagreement } from "@shared/schema";
+import type { I18n } from "@/lib/i18n";
+
+/**
+ * Band (1-4) of a composite risk score, so it can share the advisory level colors
+ */
+export function getRiskScoreBand(score: number | null | undefined): number | null {
+  if (score === null || score === undefined) return null;
+  if (score >= 75) return 4;
+  if (score >= 50) return 3;
+  if (score >= 25) return 2;
+  return 1;
+}
+
+export function describeDisagreement(disagreement: RiskDisagreement, t: I18n["t"]): string {
+  const side = ({ source, level }: RiskDisagreement["higher"]) => (level ? `${source} (${level})` : source);
+  return t("risk.disagreement", { higher: side(disagreement.higher), lower: side(disagreement.lower) });
+}
@@ -0,0 +1,282 @@
+/**
+ * English UI strings. Keys are shared by every locale; `{name}` placeholders are filled in by `t`,
+ * and keys ending in `.one`/`.other` are plural forms picked by `tp`.
+ */
+export const en = {
+  // Shared
+  "common.appName": "Global Travel Advisory",
+  "common.notAvailable": "N/A",
+  "common.unknown": "Unknown",
+  "common.tryAgain": "Try Again",
+  "common.exportFailed": "Export failed",
+  "common.generatingPdf": "Generating PDF...",
+  "common.unverified": "unverified",
+  "common.unverifiedBadge": "Unverified",
+  "common.unverifiedHint": "Not clearly stated in the advisory text; the AI may have inferred or invented it",
+  "common.keyRisks": "Key Risks",
+  "common.safetyRecommendations": "Safety Recommendations",
+  "common.contact": "For more information contact Matt Covington -",
+  "common.countries.one": "{count} country",
+  "common.countries.other": "{count} countries",
+
+  "threat.level": "Level {level}",
+  "threat.level1": "Level 1: Exercise Normal Precautions",
+  "threat.level2": "Level 2: Exercise Increased Caution",
+  "threat.level3": "Level 3: Reconsider Travel",
+  "threat.level4": "Level 4: Do Not Travel",
+  "threat.noAdvisory": "No Advisory",
+  "threat.levelNotAvailable": "Travel Advisory Level Not Available",
+  "threat.advice1": "Exercise Normal Precautions",
+  "threat.advice2": "Exercise Increased Caution",
+  "threat.advice3": "Reconsider Travel",
+  "threat.advice4": "Do Not Travel",
+
+  "severity.info": "info",
+  "severity.low": "low",
+  "severity.medium": "medium",
+  "severity.high": "high",
+
+  // Composite risk score
+  "risk.score": "Risk Score",
+  "risk.scoreValue": "{score}/100",
+  "risk.composite": "Composite risk: {score}/100",
+  "risk.notScored": "Not scored",
+  "risk.breakdown": "Risk by Source",
+  "risk.sourceWeight": "weight {weight}",
+  "risk.disagreementTitle": "Sources disagree",
+  "risk.disagreement": "{higher} rates this destination much higher than {lower}",
+  "risk.colorBy": "Color by",
+  "risk.colorByLevel": "US level",
+  "risk.colorByScore": "Risk score",
+  "risk.legendTitle": "Composite Risk",
+  "risk.legend1": "0-24 - Low",
+  "risk.legend2": "25-49 - Moderate",
+  "risk.legend3": "50-74 - High",
+  "risk.legend4": "75-100 - Severe",
+
+  // Navigation
+  "nav.menu": "Menu",
+  "nav.search": "Search",
+  "nav.threatMap": "Threat Map",
+  "nav.countryList": "Country List",
+  "nav.trips": "Trips",
+  "nav.language": "Language",
+
+  // Home
+  "home.lastUpdated": "Last updated: {time}",
+  "home.countryNotFound": "Country Not Found",
+  "home.checkSpelling": "Please check the spelling and try again.",
+  "home.unableToLoad": "Unable to Load Data",
+  "home.sourcesUnavailable": "Some data sources are currently unavailable. Please try again later.",
+  "home.searchResults": "Search Results ({countries})",
+  "home.noResults": "No Results Found",
+  "home.noResultsDescription": "No travel information found for the requested countries. Please check the spelling and try again.",
+  "home.emptyTitle": "Search for Countries",
+  "home.emptyDescription": "Enter one or more country names above to view current travel advisories, alerts, and background information.",
+  "home.footer.dataSources": "Data Sources",
+  "home.footer.stateDept": "US State Department Travel Advisories",
+  "home.footer.fcdo": "UK FCDO Foreign Travel Advice",
+  "home.footer.cdc": "CDC Travel Health Notices",
+  "home.footer.usgs": "USGS Earthquake Data",
+  "home.footer.reliefWeb": "ReliefWeb Crisis Updates",
+  "home.footer.background": "Background Information",
+  "home.footer.factbook": "CIA World Factbook",
+  "home.footer.worldBank": "World Bank Country Indicators",
+  "home.footer.wikivoyage": "Wikivoyage Travel Guides",
+  "home.footer.updateFrequency": "Update Frequency",
+  "home.footer.stateDeptSchedule": "US State Dept (all countries): Weekly (Sundays 1 AM) with AI enhancement",
+  "home.footer.watchedSchedule": "Watched and recently accessed countries: Every 6 hours (watched first)",
+  "home.footer.backgroundSchedule": "Background data: Weekly",
+  "home.footer.earthquakeSchedule": "Earthquake data: Real-time",
+  "home.footer.disclaimer": "This tool aggregates publicly available travel and safety information. Always consult official government sources for the most current travel guidance.",
+
+  // Search
+  "search.title": "Search Travel Advisories",
+  "search.description": "Enter one or more countries (comma-separated) to view current travel alerts and background information",
+  "search.placeholder": "e.g., Thailand, Japan, United Kingdom",
+  "search.button": "Search",
+
+  // Country card
+  "card.flagAlt": "{country} flag",
+  "card.currentAlerts": "Current Alerts",
+  "card.aiEnhanced": "AI Enhanced Analysis",
+  "card.specificAreas": "Specific Areas",
+  "card.viewAdvisory": "View full advisory",
+  "card.noAlerts": "No current alerts available",
+  "card.fullAdvice": "Full Travel Advice",
+  "card.sectionMeta": "{source} · updated {date}",
+  "card.viewSection": "View section",
+  "entry.title": "Entry Requirements",
+  "entry.passport": "Passport:",
+  "entry.verified": "{source} · verified {date}",
+  "entry.viewSource": "View source",
+  "entry.type.visa": "Visa",
+  "entry.type.passport-validity": "Passport validity",
+  "entry.type.blank-pages": "Blank passport pages",
+  "entry.type.vaccinations": "Vaccinations",
+  "entry.type.currency": "Currency rules",
+  "card.backgroundInfo": "Background Info",
+  "card.languages": "Languages",
+  "card.religion": "Religion",
+  "card.gdpPerCapita": "GDP per capita",
+  "card.population": "Population",
+  "card.capital": "Capital",
+  "card.currency": "Currency",
+  "card.wikivoyage": "View travel guide on Wikivoyage",
+  "card.noBackground": "Background information not available",
+  "card.embassies": "US Embassy & Consulates",
+  "card.visitWebsite": "Visit website",
+
+  // PDF export
+  "export.noData": "No data to export",
+  "export.searchFirst": "Please search for countries first",
+  "export.failedDefault": "Failed to generate PDF report",
+  "export.failedRetry": "Failed to generate PDF report. Please try again.",
+  "export.success": "PDF exported successfully",
+  "export.successDescription": "Travel advisory report for {countries} downloaded",
+  "export.button": "Download PDF Report",
+
+  // Watchlists
+  "watchlist.title": "Watchlists",
+  "watchlist.description": "Watched countries are refreshed first and trigger notifications when an advisory changes.",
+  "watchlist.updateFailed": "Failed to update watchlist",
+  "watchlist.newName": "New watchlist name",
+  "watchlist.create": "Create",
+  "watchlist.allSources": "All sources",
+  "watchlist.empty": "No countries in this watchlist yet.",
+  "watchlist.countryPlaceholder": "Country, e.g. Thailand",
+  "watchlist.minSeverity": "Min: {severity}",
+  "watchlist.addCountry": "Add country",
+  "watchlist.notifyOn": "Notify on:",
+  "watchlist.allSourcesHint": "all sources",
+  "watchlist.viewAdvisories": "View advisories",
+  "watchlist.delete": "Delete watchlist",
+
+  // Bulk refresh
+  "bulk.etaUnderMinute": "less than a minute",
+  "bulk.etaMinutes.one": "about {count} minute",
+  "bulk.etaMinutes.other": "about {count} minutes",
+  "bulk.status.queued": "Queued",
+  "bulk.status.running": "Running",
+  "bulk.status.completed": "Completed",
+  "bulk.status.failed": "Failed",
+  "bulk.status.cancelled": "Cancelled",
+  "bulk.button": "Refresh US State Dept Data",
+  "bulk.buttonShort": "Refresh Data",
+  "bulk.title": "Bulk Data Refresh",
+  "bulk.description": "Downloading and AI-enhancing US State Department travel advisories for all countries",
+  "bulk.progress": "Progress",
+  "bulk.processed": "{processed} / {total} countries processed",
+  "bulk.failedCount": "{count} failed",
+  "bulk.remaining": "{eta} remaining",
+  "bulk.currentlyProcessing": "Currently processing",
+  "bulk.queued": "Waiting in the job queue. Higher priority jobs run first.",
+  "bulk.completedTitle": "Refresh Completed Successfully",
+  "bulk.completedDescription": "All {count} countries have been updated with the latest travel advisories and AI enhancements.",
+  "bulk.aiCache": "AI analysis reused for {hits} unchanged advisories, run for {misses}.",
+  "bulk.failedTitle": "Refresh Failed",
+  "bulk.failedDescription": "The bulk refresh encountered an error. You can retry the operation.",
+  "bulk.cancelledTitle": "Refresh Cancelled",
+  "bulk.cancelledDescription": "The bulk refresh was cancelled. Progress has been saved.",
+  "bulk.failedCountries": "Failed countries ({count})",
+  "bulk.country": "Country",
+  "bulk.error": "Error",
+  "bulk.attempts": "Attempts",
+  "bulk.unknownError": "Unknown error",
+  "bulk.errors": "Errors ({count})",
+  "bulk.moreErrors": "... and {count} more errors",
+  "bulk.retryFailed": "Retry {count} failed",
+  "bulk.cancel": "Cancel",
+  "bulk.runInBackground": "Run in Background",
+  "bulk.close": "Close",
+
+  // Country list
+  "countryList.title": "Cached Countries",
+  "countryList.loading": "Loading countries...",
+  "countryList.loadFailed": "Failed to Load Countries",
+  "countryList.tryLater": "Please try again later.",
+  "countryList.emptyTitle": "No Countries Found",
+  "countryList.emptyDescription": "No travel advisory data has been downloaded yet.",
+  "countryList.startSearching": "Start Searching",
+  "countryList.countryName": "Country Name",
+  "countryList.threatLevel": "Threat Level",
+  "countryList.lastRefreshed": "Last Refreshed",
+  "countryList.bulkHint": "Download latest advisories for all countries",
+  "countryList.loadingSummary": "Loading AI-enhanced summary...",
+  "countryList.noSummary": "No AI-enhanced summary available for this country.",
+  "countryList.specificAreas": "Specific Areas of Concern",
+  "countryList.enhancedOn": "AI-enhanced on {date}",
+
+  // Threat map
+  "map.loading": "Loading global threat map...",
+  "map.title": "Global Threat Map",
+  "map.subtitle": "Real-time US State Dept advisories",
+  "map.popupLevel": "Threat Level {level}:",
+  "map.activeAlerts": "{count} active alerts",
+  "map.updated": "Updated: {date}",
+  "map.embassyUpdated": "Embassy data updated",
+  "map.embassyUpdatedDescription": "Successfully downloaded {count} US embassies worldwide",
+  "map.downloadFailed": "Download failed",
+  "map.embassyFailed": "Failed to download embassy data",
+  "map.type": "Type:",
+  "map.address": "Address:",
+  "map.phone": "Phone:",
+  "map.website": "Website:",
+  "map.visit": "Visit",
+  "map.legendTitle": "Threat Levels",
+  "map.legend1": "Level 1 - Normal Precautions",
+  "map.legend2": "Level 2 - Increased Caution",
+  "map.legend3": "Level 3 - Reconsider Travel",
+  "map.legend4": "Level 4 - Do Not Travel",
+  "map.noData": "No Data",
+  "map.regionLevel": "Regional advisory: Level {level}",
+  "map.regionsHint": "Zoom in to see provinces with their own advisory level",
+  "map.regionsShown": "Outlined provinces have their own advisory level",
+  "map.syncing": "Syncing...",
+  "map.syncEmbassies": "Sync Embassies ({count})",
+
+  // Trips
+  "trips.title": "Trip Planner",
+  "trips.count.one": "{count} trip",
+  "trips.count.other": "{count} trips",
+  "trips.createFailed": "Failed to create trip",
+  "trips.briefingFailed": "Failed to generate trip briefing",
+  "trips.briefingFailedRetry": "Failed to generate trip briefing. Please try again.",
+  "trips.briefingExported": "Briefing exported",
+  "trips.briefingExportedDescription": "Pre-travel briefing for {name} downloaded",
+  "trips.yourTrip": "your trip",
+  "trips.yourTrips": "Your Trips",
+  "trips.loading": "Loading trips...",
+  "trips.none": "No trips yet. Plan one below.",
+  "trips.legs.one": "{count} leg",
+  "trips.legs.other": "{count} legs",
+  "trips.newTrip": "New Trip",
+  "trips.name": "Trip name",
+  "trips.notes": "Notes (optional)",
+  "trips.leg": "Leg {number}",
+  "trips.country": "Country",
+  "trips.city": "City (optional)",
+  "trips.addLeg": "Add leg",
+  "trips.save": "Save trip",
+  "trips.emptyTitle": "Plan a Trip",
+  "trips.emptyDescription": "Add each country you will visit to see the risk for every leg and the nearest US embassy.",
+  "trips.assessing": "Assessing trip...",
+  "trips.assessFailed": "Unable to Assess Trip",
+  "trips.downloadBriefing": "Download Briefing",
+  "trips.highestLevel": "Highest level on this trip: {level}",
+  "trips.destination": "Destination",
+  "trips.dates": "Dates",
+  "trips.advisory": "Advisory",
+  "trips.nearestEmbassy": "Nearest US Embassy",
+  "trips.alerts.one": "{count} alert, highest {severity}",
+  "trips.alerts.other": "{count} alerts, highest {severity}",
+  "trips.distance": "{distance} km away",
+  "trips.notAvailable": "Not available",
+
+  // Not found
+  "notFound.title": "404 Page Not Found",
+  "notFound.description": "Did you forget to add the page to the router?",
+} as const;
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
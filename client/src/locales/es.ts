@@ -0,0 +1,277 @@
+import type { Messages } from "./en";
+
+export const es: Messages = {
+  // Shared
+  "common.appName": "Avisos de Viaje Globales",
+  "common.notAvailable": "N/D",
+  "common.unknown": "Desconocido",
+  "common.tryAgain": "Reintentar",
+  "common.exportFailed": "Error al exportar",
+  "common.generatingPdf": "Generando PDF...",
+  "common.unverified": "sin verificar",
+  "common.unverifiedBadge": "Sin verificar",
+  "common.unverifiedHint": "No aparece claramente en el texto del aviso; la IA puede haberlo deducido o inventado",
+  "common.keyRisks": "Riesgos principales",
+  "common.safetyRecommendations": "Recomendaciones de seguridad",
+  "common.contact": "Para más información, contacte con Matt Covington -",
+  "common.countries.one": "{count} país",
+  "common.countries.other": "{count} países",
+
+  "threat.level": "Nivel {level}",
+  "threat.level1": "Nivel 1: Tome las precauciones normales",
+  "threat.level2": "Nivel 2: Extreme las precauciones",
+  "threat.level3": "Nivel 3: Reconsidere el viaje",
+  "threat.level4": "Nivel 4: No viaje",
+  "threat.noAdvisory": "Sin aviso",
+  "threat.levelNotAvailable": "Nivel de aviso de viaje no disponible",
+  "threat.advice1": "Tome las precauciones normales",
+  "threat.advice2": "Extreme las precauciones",
+  "threat.advice3": "Reconsidere el viaje",
+  "threat.advice4": "No viaje",
+
+  "severity.info": "informativa",
+  "severity.low": "baja",
+  "severity.medium": "media",
+  "severity.high": "alta",
+
+  // Composite risk score
+  "risk.score": "Puntuación de riesgo",
+  "risk.scoreValue": "{score}/100",
+  "risk.composite": "Riesgo combinado: {score}/100",
+  "risk.notScored": "Sin puntuación",
+  "risk.breakdown": "Riesgo por fuente",
+  "risk.sourceWeight": "peso {weight}",
+  "risk.disagreementTitle": "Las fuentes no coinciden",
+  "risk.disagreement": "{higher} considera este destino mucho más peligroso que {lower}",
+  "risk.colorBy": "Colorear por",
+  "risk.colorByLevel": "Nivel de EE. UU.",
+  "risk.colorByScore": "Puntuación de riesgo",
+  "risk.legendTitle": "Riesgo combinado",
+  "risk.legend1": "0-24 - Bajo",
+  "risk.legend2": "25-49 - Moderado",
+  "risk.legend3": "50-74 - Alto",
+  "risk.legend4": "75-100 - Muy alto",
+
+  // Navigation
+  "nav.menu": "Menú",
+  "nav.search": "Buscar",
+  "nav.threatMap": "Mapa de amenazas",
+  "nav.countryList": "Lista de países",
+  "nav.trips": "Viajes",
+  "nav.language": "Idioma",
+
+  // Home
+  "home.lastUpdated": "Última actualización: {time}",
+  "home.countryNotFound": "País no encontrado",
+  "home.checkSpelling": "Compruebe la ortografía e inténtelo de nuevo.",
+  "home.unableToLoad": "No se pudieron cargar los datos",
+  "home.sourcesUnavailable": "Algunas fuentes de datos no están disponibles en este momento. Inténtelo más tarde.",
+  "home.searchResults": "Resultados de búsqueda ({countries})",
+  "home.noResults": "No se encontraron resultados",
+  "home.noResultsDescription": "No se encontró información de viaje para los países solicitados. Compruebe la ortografía e inténtelo de nuevo.",
+  "home.emptyTitle": "Buscar países",
+  "home.emptyDescription": "Introduzca arriba uno o más países para ver los avisos de viaje, alertas e información general actuales.",
+  "home.footer.dataSources": "Fuentes de datos",
+  "home.footer.stateDept": "Avisos de viaje del Departamento de Estado de EE. UU.",
+  "home.footer.fcdo": "Consejos de viaje del FCDO del Reino Unido",
+  "home.footer.cdc": "Avisos sanitarios para viajeros de los CDC",
+  "home.footer.usgs": "Datos sísmicos del USGS",
+  "home.footer.reliefWeb": "Actualizaciones de crisis de ReliefWeb",
+  "home.footer.background": "Información general",
+  "home.footer.factbook": "CIA World Factbook",
+  "home.footer.worldBank": "Indicadores por país del Banco Mundial",
+  "home.footer.wikivoyage": "Guías de viaje de Wikiviajes",
+  "home.footer.updateFrequency": "Frecuencia de actualización",
+  "home.footer.stateDeptSchedule": "Departamento de Estado de EE. UU. (todos los países): semanal (domingos a la 1:00) con mejora por IA",
+  "home.footer.watchedSchedule": "Países vigilados y consultados recientemente: cada 6 horas (primero los vigilados)",
+  "home.footer.backgroundSchedule": "Información general: semanal",
+  "home.footer.earthquakeSchedule": "Datos sísmicos: en tiempo real",
+  "home.footer.disclaimer": "Esta herramienta reúne información pública sobre viajes y seguridad. Consulte siempre las fuentes oficiales del gobierno para obtener las recomendaciones de viaje más actuales.",
+
+  // Search
+  "search.title": "Buscar avisos de viaje",
+  "search.description": "Introduzca uno o más países (separados por comas) para ver las alertas de viaje y la información general actuales",
+  "search.placeholder": "p. ej., Tailandia, Japón, Reino Unido",
+  "search.button": "Buscar",
+
+  // Country card
+  "card.flagAlt": "Bandera de {country}",
+  "card.currentAlerts": "Alertas actuales",
+  "card.aiEnhanced": "Análisis mejorado por IA",
+  "card.specificAreas": "Zonas concretas",
+  "card.viewAdvisory": "Ver el aviso completo",
+  "card.noAlerts": "No hay alertas actuales",
+  "card.fullAdvice": "Recomendaciones de viaje completas",
+  "card.sectionMeta": "{source} · actualizado el {date}",
+  "card.viewSection": "Ver sección",
+  "entry.title": "Requisitos de entrada",
+  "entry.passport": "Pasaporte:",
+  "entry.verified": "{source} · verificado el {date}",
+  "entry.viewSource": "Ver fuente",
+  "entry.type.visa": "Visado",
+  "entry.type.passport-validity": "Validez del pasaporte",
+  "entry.type.blank-pages": "Páginas en blanco del pasaporte",
+  "entry.type.vaccinations": "Vacunas",
+  "entry.type.currency": "Normas sobre divisas",
+  "card.backgroundInfo": "Información general",
+  "card.languages": "Idiomas",
+  "card.religion": "Religión",
+  "card.gdpPerCapita": "PIB per cápita",
+  "card.population": "Población",
+  "card.capital": "Capital",
+  "card.currency": "Moneda",
+  "card.wikivoyage": "Ver la guía de viaje en Wikiviajes",
+  "card.noBackground": "Información general no disponible",
+  "card.embassies": "Embajada y consulados de EE. UU.",
+  "card.visitWebsite": "Visitar el sitio web",
+
+  // PDF export
+  "export.noData": "No hay datos para exportar",
+  "export.searchFirst": "Busque primero algún país",
+  "export.failedDefault": "No se pudo generar el informe PDF",
+  "export.failedRetry": "No se pudo generar el informe PDF. Inténtelo de nuevo.",
+  "export.success": "PDF exportado correctamente",
+  "export.successDescription": "Informe de avisos de viaje para {countries} descargado",
+  "export.button": "Descargar informe PDF",
+
+  // Watchlists
+  "watchlist.title": "Listas de seguimiento",
+  "watchlist.description": "Los países vigilados se actualizan primero y generan notificaciones cuando cambia un aviso.",
+  "watchlist.updateFailed": "No se pudo actualizar la lista de seguimiento",
+  "watchlist.newName": "Nombre de la nueva lista",
+  "watchlist.create": "Crear",
+  "watchlist.allSources": "Todas las fuentes",
+  "watchlist.empty": "Esta lista todavía no tiene países.",
+  "watchlist.countryPlaceholder": "País, p. ej. Tailandia",
+  "watchlist.minSeverity": "Mín.: {severity}",
+  "watchlist.addCountry": "Añadir país",
+  "watchlist.notifyOn": "Notificar sobre:",
+  "watchlist.allSourcesHint": "todas las fuentes",
+  "watchlist.viewAdvisories": "Ver avisos",
+  "watchlist.delete": "Eliminar lista",
+
+  // Bulk refresh
+  "bulk.etaUnderMinute": "menos de un minuto",
+  "bulk.etaMinutes.one": "aproximadamente {count} minuto",
+  "bulk.etaMinutes.other": "aproximadamente {count} minutos",
+  "bulk.status.queued": "En cola",
+  "bulk.status.running": "En curso",
+  "bulk.status.completed": "Completado",
+  "bulk.status.failed": "Fallido",
+  "bulk.status.cancelled": "Cancelado",
+  "bulk.button": "Actualizar datos del Departamento de Estado",
+  "bulk.buttonShort": "Actualizar datos",
+  "bulk.title": "Actualización masiva de datos",
+  "bulk.description": "Descargando y mejorando con IA los avisos de viaje del Departamento de Estado de EE. UU. para todos los países",
+  "bulk.progress": "Progreso",
+  "bulk.processed": "{processed} / {total} países procesados",
+  "bulk.failedCount": "{count} con errores",
+  "bulk.remaining": "Quedan {eta}",
+  "bulk.currentlyProcessing": "Procesando",
+  "bulk.queued": "En espera en la cola de trabajos. Los trabajos de mayor prioridad se ejecutan primero.",
+  "bulk.completedTitle": "Actualización completada correctamente",
+  "bulk.completedDescription": "Los {count} países se han actualizado con los últimos avisos de viaje y mejoras por IA.",
+  "bulk.aiCache": "Análisis de IA reutilizado para {hits} avisos sin cambios y ejecutado para {misses}.",
+  "bulk.failedTitle": "Error en la actualización",
+  "bulk.failedDescription": "La actualización masiva encontró un error. Puede volver a intentarlo.",
+  "bulk.cancelledTitle": "Actualización cancelada",
+  "bulk.cancelledDescription": "La actualización masiva se canceló. El progreso se ha guardado.",
+  "bulk.failedCountries": "Países con errores ({count})",
+  "bulk.country": "País",
+  "bulk.error": "Error",
+  "bulk.attempts": "Intentos",
+  "bulk.unknownError": "Error desconocido",
+  "bulk.errors": "Errores ({count})",
+  "bulk.moreErrors": "... y {count} errores más",
+  "bulk.retryFailed": "Reintentar {count} con errores",
+  "bulk.cancel": "Cancelar",
+  "bulk.runInBackground": "Ejecutar en segundo plano",
+  "bulk.close": "Cerrar",
+
+  // Country list
+  "countryList.title": "Países en caché",
+  "countryList.loading": "Cargando países...",
+  "countryList.loadFailed": "No se pudieron cargar los países",
+  "countryList.tryLater": "Inténtelo más tarde.",
+  "countryList.emptyTitle": "No se encontraron países",
+  "countryList.emptyDescription": "Todavía no se han descargado datos de avisos de viaje.",
+  "countryList.startSearching": "Empezar a buscar",
+  "countryList.countryName": "Nombre del país",
+  "countryList.threatLevel": "Nivel de amenaza",
+  "countryList.lastRefreshed": "Última actualización",
+  "countryList.bulkHint": "Descargar los últimos avisos de todos los países",
+  "countryList.loadingSummary": "Cargando el resumen mejorado por IA...",
+  "countryList.noSummary": "No hay resumen mejorado por IA para este país.",
+  "countryList.specificAreas": "Zonas de especial riesgo",
+  "countryList.enhancedOn": "Mejorado por IA el {date}",
+
+  // Threat map
+  "map.loading": "Cargando el mapa mundial de amenazas...",
+  "map.title": "Mapa mundial de amenazas",
+  "map.subtitle": "Avisos del Departamento de Estado de EE. UU. en tiempo real",
+  "map.popupLevel": "Nivel de amenaza {level}:",
+  "map.activeAlerts": "{count} alertas activas",
+  "map.updated": "Actualizado: {date}",
+  "map.embassyUpdated": "Datos de embajadas actualizados",
+  "map.embassyUpdatedDescription": "Se descargaron correctamente {count} embajadas de EE. UU. en todo el mundo",
+  "map.downloadFailed": "Error en la descarga",
+  "map.embassyFailed": "No se pudieron descargar los datos de embajadas",
+  "map.type": "Tipo:",
+  "map.address": "Dirección:",
+  "map.phone": "Teléfono:",
+  "map.website": "Sitio web:",
+  "map.visit": "Visitar",
+  "map.legendTitle": "Niveles de amenaza",
+  "map.legend1": "Nivel 1 - Precauciones normales",
+  "map.legend2": "Nivel 2 - Mayor precaución",
+  "map.legend3": "Nivel 3 - Reconsidere el viaje",
+  "map.legend4": "Nivel 4 - No viaje",
+  "map.noData": "Sin datos",
+  "map.regionLevel": "Aviso regional: Nivel {level}",
+  "map.regionsHint": "Acerque el mapa para ver las provincias con su propio nivel de aviso",
+  "map.regionsShown": "Las provincias delimitadas tienen su propio nivel de aviso",
+  "map.syncing": "Sincronizando...",
+  "map.syncEmbassies": "Sincronizar embajadas ({count})",
+
+  // Trips
+  "trips.title": "Planificador de viajes",
+  "trips.count.one": "{count} viaje",
+  "trips.count.other": "{count} viajes",
+  "trips.createFailed": "No se pudo crear el viaje",
+  "trips.briefingFailed": "No se pudo generar el informe del viaje",
+  "trips.briefingFailedRetry": "No se pudo generar el informe del viaje. Inténtelo de nuevo.",
+  "trips.briefingExported": "Informe exportado",
+  "trips.briefingExportedDescription": "Informe previo al viaje para {name} descargado",
+  "trips.yourTrip": "su viaje",
+  "trips.yourTrips": "Sus viajes",
+  "trips.loading": "Cargando viajes...",
+  "trips.none": "Todavía no hay viajes. Planifique uno abajo.",
+  "trips.legs.one": "{count} etapa",
+  "trips.legs.other": "{count} etapas",
+  "trips.newTrip": "Nuevo viaje",
+  "trips.name": "Nombre del viaje",
+  "trips.notes": "Notas (opcional)",
+  "trips.leg": "Etapa {number}",
+  "trips.country": "País",
+  "trips.city": "Ciudad (opcional)",
+  "trips.addLeg": "Añadir etapa",
+  "trips.save": "Guardar viaje",
+  "trips.emptyTitle": "Planifique un viaje",
+  "trips.emptyDescription": "Añada cada país que vaya a visitar para ver el riesgo de cada etapa y la embajada de EE. UU. más cercana.",
+  "trips.assessing": "Evaluando el viaje...",
+  "trips.assessFailed": "No se pudo evaluar el viaje",
+  "trips.downloadBriefing": "Descargar informe",
+  "trips.highestLevel": "Nivel más alto de este viaje: {level}",
+  "trips.destination": "Destino",
+  "trips.dates": "Fechas",
+  "trips.advisory": "Aviso",
+  "trips.nearestEmbassy": "Embajada de EE. UU. más cercana",
+  "trips.alerts.one": "{count} alerta, gravedad máxima {severity}",
+  "trips.alerts.other": "{count} alertas, gravedad máxima {severity}",
+  "trips.distance": "A {distance} km",
+  "trips.notAvailable": "No disponible",
+
+  // Not found
+  "notFound.title": "404 Página no encontrada",
+  "notFound.description": "¿Olvidó añadir la página al enrutador?",
+};
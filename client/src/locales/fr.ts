@@ -0,0 +1,277 @@
+import type { Messages } from "./en";
+
+export const fr: Messages = {
+  // Shared
+  "common.appName": "Conseils aux voyageurs dans le monde",
+  "common.notAvailable": "N/D",
+  "common.unknown": "Inconnu",
+  "common.tryAgain": "Réessayer",
+  "common.exportFailed": "Échec de l'export",
+  "common.generatingPdf": "Génération du PDF...",
+  "common.unverified": "non vérifié",
+  "common.unverifiedBadge": "Non vérifié",
+  "common.unverifiedHint": "Pas clairement indiqué dans le texte de l'avis ; l'IA a pu le déduire ou l'inventer",
+  "common.keyRisks": "Risques principaux",
+  "common.safetyRecommendations": "Recommandations de sécurité",
+  "common.contact": "Pour plus d'informations, contactez Matt Covington -",
+  "common.countries.one": "{count} pays",
+  "common.countries.other": "{count} pays",
+
+  "threat.level": "Niveau {level}",
+  "threat.level1": "Niveau 1 : Précautions normales",
+  "threat.level2": "Niveau 2 : Vigilance renforcée",
+  "threat.level3": "Niveau 3 : Reconsidérer le voyage",
+  "threat.level4": "Niveau 4 : Ne pas voyager",
+  "threat.noAdvisory": "Aucun avis",
+  "threat.levelNotAvailable": "Niveau d'avis aux voyageurs non disponible",
+  "threat.advice1": "Précautions normales",
+  "threat.advice2": "Vigilance renforcée",
+  "threat.advice3": "Reconsidérer le voyage",
+  "threat.advice4": "Ne pas voyager",
+
+  "severity.info": "information",
+  "severity.low": "faible",
+  "severity.medium": "moyenne",
+  "severity.high": "élevée",
+
+  // Composite risk score
+  "risk.score": "Score de risque",
+  "risk.scoreValue": "{score}/100",
+  "risk.composite": "Risque combiné : {score}/100",
+  "risk.notScored": "Non évalué",
+  "risk.breakdown": "Risque par source",
+  "risk.sourceWeight": "poids {weight}",
+  "risk.disagreementTitle": "Les sources divergent",
+  "risk.disagreement": "{higher} juge cette destination bien plus risquée que {lower}",
+  "risk.colorBy": "Colorer selon",
+  "risk.colorByLevel": "Niveau américain",
+  "risk.colorByScore": "Score de risque",
+  "risk.legendTitle": "Risque combiné",
+  "risk.legend1": "0-24 - Faible",
+  "risk.legend2": "25-49 - Modéré",
+  "risk.legend3": "50-74 - Élevé",
+  "risk.legend4": "75-100 - Très élevé",
+
+  // Navigation
+  "nav.menu": "Menu",
+  "nav.search": "Recherche",
+  "nav.threatMap": "Carte des menaces",
+  "nav.countryList": "Liste des pays",
+  "nav.trips": "Voyages",
+  "nav.language": "Langue",
+
+  // Home
+  "home.lastUpdated": "Dernière mise à jour : {time}",
+  "home.countryNotFound": "Pays introuvable",
+  "home.checkSpelling": "Vérifiez l'orthographe et réessayez.",
+  "home.unableToLoad": "Impossible de charger les données",
+  "home.sourcesUnavailable": "Certaines sources de données sont actuellement indisponibles. Veuillez réessayer plus tard.",
+  "home.searchResults": "Résultats de la recherche ({countries})",
+  "home.noResults": "Aucun résultat",
+  "home.noResultsDescription": "Aucune information de voyage trouvée pour les pays demandés. Vérifiez l'orthographe et réessayez.",
+  "home.emptyTitle": "Rechercher des pays",
+  "home.emptyDescription": "Saisissez un ou plusieurs pays ci-dessus pour consulter les avis aux voyageurs, alertes et informations générales actuels.",
+  "home.footer.dataSources": "Sources de données",
+  "home.footer.stateDept": "Avis aux voyageurs du Département d'État américain",
+  "home.footer.fcdo": "Conseils aux voyageurs du FCDO britannique",
+  "home.footer.cdc": "Avis sanitaires aux voyageurs des CDC",
+  "home.footer.usgs": "Données sismiques de l'USGS",
+  "home.footer.reliefWeb": "Actualités de crise ReliefWeb",
+  "home.footer.background": "Informations générales",
+  "home.footer.factbook": "CIA World Factbook",
+  "home.footer.worldBank": "Indicateurs par pays de la Banque mondiale",
+  "home.footer.wikivoyage": "Guides de voyage Wikivoyage",
+  "home.footer.updateFrequency": "Fréquence de mise à jour",
+  "home.footer.stateDeptSchedule": "Département d'État américain (tous les pays) : hebdomadaire (dimanche à 1 h) avec enrichissement par IA",
+  "home.footer.watchedSchedule": "Pays suivis et consultés récemment : toutes les 6 heures (pays suivis en premier)",
+  "home.footer.backgroundSchedule": "Informations générales : hebdomadaire",
+  "home.footer.earthquakeSchedule": "Données sismiques : en temps réel",
+  "home.footer.disclaimer": "Cet outil rassemble des informations publiques sur les voyages et la sécurité. Consultez toujours les sources gouvernementales officielles pour les recommandations de voyage les plus récentes.",
+
+  // Search
+  "search.title": "Rechercher des avis aux voyageurs",
+  "search.description": "Saisissez un ou plusieurs pays (séparés par des virgules) pour consulter les alertes et informations générales actuelles",
+  "search.placeholder": "p. ex. Thaïlande, Japon, Royaume-Uni",
+  "search.button": "Rechercher",
+
+  // Country card
+  "card.flagAlt": "Drapeau : {country}",
+  "card.currentAlerts": "Alertes en cours",
+  "card.aiEnhanced": "Analyse enrichie par IA",
+  "card.specificAreas": "Zones concernées",
+  "card.viewAdvisory": "Voir l'avis complet",
+  "card.noAlerts": "Aucune alerte en cours",
+  "card.fullAdvice": "Conseils aux voyageurs complets",
+  "card.sectionMeta": "{source} · mis à jour le {date}",
+  "card.viewSection": "Voir la section",
+  "entry.title": "Conditions d'entrée",
+  "entry.passport": "Passeport :",
+  "entry.verified": "{source} · vérifié le {date}",
+  "entry.viewSource": "Voir la source",
+  "entry.type.visa": "Visa",
+  "entry.type.passport-validity": "Validité du passeport",
+  "entry.type.blank-pages": "Pages vierges du passeport",
+  "entry.type.vaccinations": "Vaccinations",
+  "entry.type.currency": "Règles sur les devises",
+  "card.backgroundInfo": "Informations générales",
+  "card.languages": "Langues",
+  "card.religion": "Religion",
+  "card.gdpPerCapita": "PIB par habitant",
+  "card.population": "Population",
+  "card.capital": "Capitale",
+  "card.currency": "Monnaie",
+  "card.wikivoyage": "Voir le guide de voyage sur Wikivoyage",
+  "card.noBackground": "Informations générales non disponibles",
+  "card.embassies": "Ambassade et consulats des États-Unis",
+  "card.visitWebsite": "Visiter le site web",
+
+  // PDF export
+  "export.noData": "Aucune donnée à exporter",
+  "export.searchFirst": "Recherchez d'abord des pays",
+  "export.failedDefault": "Impossible de générer le rapport PDF",
+  "export.failedRetry": "Impossible de générer le rapport PDF. Veuillez réessayer.",
+  "export.success": "PDF exporté",
+  "export.successDescription": "Rapport d'avis aux voyageurs pour {countries} téléchargé",
+  "export.button": "Télécharger le rapport PDF",
+
+  // Watchlists
+  "watchlist.title": "Listes de suivi",
+  "watchlist.description": "Les pays suivis sont actualisés en premier et déclenchent des notifications lorsqu'un avis change.",
+  "watchlist.updateFailed": "Impossible de mettre à jour la liste de suivi",
+  "watchlist.newName": "Nom de la nouvelle liste",
+  "watchlist.create": "Créer",
+  "watchlist.allSources": "Toutes les sources",
+  "watchlist.empty": "Aucun pays dans cette liste pour l'instant.",
+  "watchlist.countryPlaceholder": "Pays, p. ex. Thaïlande",
+  "watchlist.minSeverity": "Min. : {severity}",
+  "watchlist.addCountry": "Ajouter un pays",
+  "watchlist.notifyOn": "Notifier pour :",
+  "watchlist.allSourcesHint": "toutes les sources",
+  "watchlist.viewAdvisories": "Voir les avis",
+  "watchlist.delete": "Supprimer la liste",
+
+  // Bulk refresh
+  "bulk.etaUnderMinute": "moins d'une minute",
+  "bulk.etaMinutes.one": "environ {count} minute",
+  "bulk.etaMinutes.other": "environ {count} minutes",
+  "bulk.status.queued": "En file d'attente",
+  "bulk.status.running": "En cours",
+  "bulk.status.completed": "Terminé",
+  "bulk.status.failed": "Échec",
+  "bulk.status.cancelled": "Annulé",
+  "bulk.button": "Actualiser les données du Département d'État",
+  "bulk.buttonShort": "Actualiser",
+  "bulk.title": "Actualisation globale des données",
+  "bulk.description": "Téléchargement et enrichissement par IA des avis aux voyageurs du Département d'État américain pour tous les pays",
+  "bulk.progress": "Progression",
+  "bulk.processed": "{processed} / {total} pays traités",
+  "bulk.failedCount": "{count} en échec",
+  "bulk.remaining": "{eta} restantes",
+  "bulk.currentlyProcessing": "En cours de traitement",
+  "bulk.queued": "En attente dans la file des tâches. Les tâches prioritaires passent en premier.",
+  "bulk.completedTitle": "Actualisation terminée",
+  "bulk.completedDescription": "Les {count} pays ont été mis à jour avec les derniers avis aux voyageurs et enrichissements par IA.",
+  "bulk.aiCache": "Analyse IA réutilisée pour {hits} avis inchangés, exécutée pour {misses}.",
+  "bulk.failedTitle": "Échec de l'actualisation",
+  "bulk.failedDescription": "L'actualisation globale a rencontré une erreur. Vous pouvez relancer l'opération.",
+  "bulk.cancelledTitle": "Actualisation annulée",
+  "bulk.cancelledDescription": "L'actualisation globale a été annulée. La progression a été enregistrée.",
+  "bulk.failedCountries": "Pays en échec ({count})",
+  "bulk.country": "Pays",
+  "bulk.error": "Erreur",
+  "bulk.attempts": "Tentatives",
+  "bulk.unknownError": "Erreur inconnue",
+  "bulk.errors": "Erreurs ({count})",
+  "bulk.moreErrors": "... et {count} autres erreurs",
+  "bulk.retryFailed": "Relancer les {count} échecs",
+  "bulk.cancel": "Annuler",
+  "bulk.runInBackground": "Continuer en arrière-plan",
+  "bulk.close": "Fermer",
+
+  // Country list
+  "countryList.title": "Pays en cache",
+  "countryList.loading": "Chargement des pays...",
+  "countryList.loadFailed": "Impossible de charger les pays",
+  "countryList.tryLater": "Veuillez réessayer plus tard.",
+  "countryList.emptyTitle": "Aucun pays trouvé",
+  "countryList.emptyDescription": "Aucune donnée d'avis aux voyageurs n'a encore été téléchargée.",
+  "countryList.startSearching": "Lancer une recherche",
+  "countryList.countryName": "Nom du pays",
+  "countryList.threatLevel": "Niveau de menace",
+  "countryList.lastRefreshed": "Dernière actualisation",
+  "countryList.bulkHint": "Télécharger les derniers avis pour tous les pays",
+  "countryList.loadingSummary": "Chargement du résumé enrichi par IA...",
+  "countryList.noSummary": "Aucun résumé enrichi par IA disponible pour ce pays.",
+  "countryList.specificAreas": "Zones à risque",
+  "countryList.enhancedOn": "Enrichi par IA le {date}",
+
+  // Threat map
+  "map.loading": "Chargement de la carte mondiale des menaces...",
+  "map.title": "Carte mondiale des menaces",
+  "map.subtitle": "Avis du Département d'État américain en temps réel",
+  "map.popupLevel": "Niveau de menace {level} :",
+  "map.activeAlerts": "{count} alertes actives",
+  "map.updated": "Mis à jour : {date}",
+  "map.embassyUpdated": "Données des ambassades mises à jour",
+  "map.embassyUpdatedDescription": "{count} ambassades américaines dans le monde téléchargées",
+  "map.downloadFailed": "Échec du téléchargement",
+  "map.embassyFailed": "Impossible de télécharger les données des ambassades",
+  "map.type": "Type :",
+  "map.address": "Adresse :",
+  "map.phone": "Téléphone :",
+  "map.website": "Site web :",
+  "map.visit": "Visiter",
+  "map.legendTitle": "Niveaux de menace",
+  "map.legend1": "Niveau 1 - Précautions normales",
+  "map.legend2": "Niveau 2 - Vigilance renforcée",
+  "map.legend3": "Niveau 3 - Reconsidérer le voyage",
+  "map.legend4": "Niveau 4 - Ne pas voyager",
+  "map.noData": "Aucune donnée",
+  "map.regionLevel": "Avis régional : niveau {level}",
+  "map.regionsHint": "Zoomez pour voir les provinces ayant leur propre niveau d'avis",
+  "map.regionsShown": "Les provinces délimitées ont leur propre niveau d'avis",
+  "map.syncing": "Synchronisation...",
+  "map.syncEmbassies": "Synchroniser les ambassades ({count})",
+
+  // Trips
+  "trips.title": "Planificateur de voyage",
+  "trips.count.one": "{count} voyage",
+  "trips.count.other": "{count} voyages",
+  "trips.createFailed": "Impossible de créer le voyage",
+  "trips.briefingFailed": "Impossible de générer la note de voyage",
+  "trips.briefingFailedRetry": "Impossible de générer la note de voyage. Veuillez réessayer.",
+  "trips.briefingExported": "Note exportée",
+  "trips.briefingExportedDescription": "Note préalable au voyage pour {name} téléchargée",
+  "trips.yourTrip": "votre voyage",
+  "trips.yourTrips": "Vos voyages",
+  "trips.loading": "Chargement des voyages...",
+  "trips.none": "Aucun voyage pour l'instant. Planifiez-en un ci-dessous.",
+  "trips.legs.one": "{count} étape",
+  "trips.legs.other": "{count} étapes",
+  "trips.newTrip": "Nouveau voyage",
+  "trips.name": "Nom du voyage",
+  "trips.notes": "Notes (facultatif)",
+  "trips.leg": "Étape {number}",
+  "trips.country": "Pays",
+  "trips.city": "Ville (facultatif)",
+  "trips.addLeg": "Ajouter une étape",
+  "trips.save": "Enregistrer le voyage",
+  "trips.emptyTitle": "Planifier un voyage",
+  "trips.emptyDescription": "Ajoutez chaque pays que vous visiterez pour voir le risque de chaque étape et l'ambassade américaine la plus proche.",
+  "trips.assessing": "Évaluation du voyage...",
+  "trips.assessFailed": "Impossible d'évaluer le voyage",
+  "trips.downloadBriefing": "Télécharger la note",
+  "trips.highestLevel": "Niveau le plus élevé de ce voyage : {level}",
+  "trips.destination": "Destination",
+  "trips.dates": "Dates",
+  "trips.advisory": "Avis",
+  "trips.nearestEmbassy": "Ambassade américaine la plus proche",
+  "trips.alerts.one": "{count} alerte, gravité maximale {severity}",
+  "trips.alerts.other": "{count} alertes, gravité maximale {severity}",
+  "trips.distance": "À {distance} km",
+  "trips.notAvailable": "Non disponible",
+
+  // Not found
+  "notFound.title": "404 Page introuvable",
+  "notFound.description": "Avez-vous oublié d'ajouter la page au routeur ?",
+};
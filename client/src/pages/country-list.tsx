@@ -18,8 +18,12 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { Globe, ArrowUp, ArrowDown, AlertCircle, X } from "lucide-react";
+import { Globe, ArrowUp, ArrowDown, AlertCircle, AlertTriangle, Gauge, X } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { isUnverified } from "@/lib/aiConfidence";
+import { useI18n } from "@/lib/i18n";
+import { describeDisagreement, getRiskScoreBand } from "@/lib/riskScore";
+import type { AIConfidence, CompositeRiskScore } from "@shared/schema";
 
 interface CountryListItem {
   country: {
@@ -30,6 +34,7 @@ interface CountryListItem {
     lastUpdated: Date | null;
   };
   threatLevel: number | null; // 1-4 or null
+  riskScore: CompositeRiskScore | null;
   lastUpdated: Date | null;
   alertCount: number;
 }
@@ -47,6 +52,7 @@ interface Alert {
   safetyRecommendations?: string[];
   specificAreas?: string[];
   aiEnhanced?: Date | null;
+  aiConfidence?: AIConfidence | null;
 }
 
 interface CountryData {
@@ -60,13 +66,14 @@ interface CountryData {
   backgroundInfo: any;
 }
 
-type SortField = "name" | "threat" | "lastUpdated";
+type SortField = "name" | "threat" | "score" | "lastUpdated";
 type SortDirection = "asc" | "desc";
 
 export default function CountryList() {
   const [sortField, setSortField] = useState<SortField>("threat");
   const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
   const [selectedCountry, setSelectedCountry] = useState<string | null>(null);
+  const { t, tp, formatDate: formatLocaleDate } = useI18n();
 
   const { data, isLoading, error } = useQuery({
     queryKey: ["/api/countries"],
@@ -85,7 +92,7 @@ export default function CountryList() {
       setSortDirection(sortDirection === "asc" ? "desc" : "asc");
     } else {
       setSortField(field);
-      setSortDirection(field === "threat" ? "desc" : "asc");
+      setSortDirection(field === "threat" || field === "score" ? "desc" : "asc");
     }
   };
 
@@ -110,6 +117,9 @@ export default function CountryList() {
         const levelB = b.threatLevel || 0;
         comparison = levelA - levelB;
         break;
+      case "score":
+        comparison = (a.riskScore?.score ?? -1) - (b.riskScore?.score ?? -1);
+        break;
       case "lastUpdated":
         const dateA = a.lastUpdated ? new Date(a.lastUpdated).getTime() : 0;
         const dateB = b.lastUpdated ? new Date(b.lastUpdated).getTime() : 0;
@@ -138,21 +148,21 @@ export default function CountryList() {
   const getThreatLevelText = (level: number | null) => {
     switch (level) {
       case 1:
-        return "Level 1: Exercise Normal Precautions";
+        return t("threat.level1");
       case 2:
-        return "Level 2: Exercise Increased Caution";
+        return t("threat.level2");
       case 3:
-        return "Level 3: Reconsider Travel";
+        return t("threat.level3");
       case 4:
-        return "Level 4: Do Not Travel";
+        return t("threat.level4");
       default:
-        return "No Advisory";
+        return t("threat.noAdvisory");
     }
   };
 
   const formatDate = (date: Date | null) => {
-    if (!date) return "N/A";
-    return new Date(date).toLocaleDateString("en-US", {
+    if (!date) return t("common.notAvailable");
+    return formatLocaleDate(date, {
       year: "numeric",
       month: "short",
       day: "numeric",
@@ -163,6 +173,8 @@ export default function CountryList() {
     setSelectedCountry(countryName);
   };
 
+  const selectedRiskScore = countries.find(item => item.country.name === selectedCountry)?.riskScore ?? null;
+
   const getAIEnhancedAlert = () => {
     if (!countryDetail?.alerts) return null;
     return countryDetail.alerts.find(alert => 
@@ -178,11 +190,11 @@ export default function CountryList() {
           <div className="flex items-center justify-between h-16">
             <div className="flex items-center space-x-2">
               <Globe className="w-8 h-8 text-primary" />
-              <h1 className="text-xl font-bold text-foreground">Cached Countries</h1>
+              <h1 className="text-xl font-bold text-foreground">{t("countryList.title")}</h1>
             </div>
             <div className="flex items-center space-x-4">
               <span className="text-sm text-muted-foreground" data-testid="text-country-count">
-                {countries.length} {countries.length === 1 ? "country" : "countries"}
+                {tp("common.countries", countries.length)}
               </span>
               <Navigation />
             </div>
@@ -196,7 +208,7 @@ export default function CountryList() {
         {isLoading && (
           <div className="flex flex-col items-center justify-center py-12" data-testid="loading-state">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mb-4"></div>
-            <p className="text-muted-foreground">Loading countries...</p>
+            <p className="text-muted-foreground">{t("countryList.loading")}</p>
           </div>
         )}
 
@@ -204,8 +216,8 @@ export default function CountryList() {
         {error && (
           <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-6 text-center" data-testid="error-state">
             <AlertCircle className="w-12 h-12 text-destructive mx-auto mb-4" />
-            <h3 className="text-lg font-semibold text-destructive mb-2">Failed to Load Countries</h3>
-            <p className="text-destructive/80">Please try again later.</p>
+            <h3 className="text-lg font-semibold text-destructive mb-2">{t("countryList.loadFailed")}</h3>
+            <p className="text-destructive/80">{t("countryList.tryLater")}</p>
           </div>
         )}
 
@@ -213,13 +225,13 @@ export default function CountryList() {
         {!isLoading && !error && countries.length === 0 && (
           <div className="bg-card border border-border rounded-lg p-12 text-center" data-testid="empty-state">
             <Globe className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
-            <h3 className="text-lg font-semibold text-foreground mb-2">No Countries Found</h3>
+            <h3 className="text-lg font-semibold text-foreground mb-2">{t("countryList.emptyTitle")}</h3>
             <p className="text-muted-foreground mb-4">
-              No travel advisory data has been downloaded yet.
+              {t("countryList.emptyDescription")}
             </p>
             <Link href="/">
               <Button data-testid="button-start-search">
-                Start Searching
+                {t("countryList.startSearching")}
               </Button>
             </Link>
           </div>
@@ -238,7 +250,7 @@ export default function CountryList() {
                       className="flex items-center font-semibold hover:text-primary transition-colors"
                       data-testid="sort-name"
                     >
-                      Country Name
+                      {t("countryList.countryName")}
                       {getSortIcon("name")}
                     </button>
                   </TableHead>
@@ -248,17 +260,27 @@ export default function CountryList() {
                       className="flex items-center font-semibold hover:text-primary transition-colors"
                       data-testid="sort-threat"
                     >
-                      Threat Level
+                      {t("countryList.threatLevel")}
                       {getSortIcon("threat")}
                     </button>
                   </TableHead>
+                  <TableHead>
+                    <button
+                      onClick={() => handleSort("score")}
+                      className="flex items-center font-semibold hover:text-primary transition-colors"
+                      data-testid="sort-score"
+                    >
+                      {t("risk.score")}
+                      {getSortIcon("score")}
+                    </button>
+                  </TableHead>
                   <TableHead>
                     <button
                       onClick={() => handleSort("lastUpdated")}
                       className="flex items-center font-semibold hover:text-primary transition-colors"
                       data-testid="sort-lastUpdated"
                     >
-                      Last Refreshed
+                      {t("countryList.lastRefreshed")}
                       {getSortIcon("lastUpdated")}
                     </button>
                   </TableHead>
@@ -276,7 +298,7 @@ export default function CountryList() {
                       {item.country.flagUrl && (
                         <img
                           src={item.country.flagUrl}
-                          alt={`${item.country.name} flag`}
+                          alt={t("card.flagAlt", { country: item.country.name })}
                           className="w-8 h-6 object-cover rounded"
                           data-testid={`img-flag-${item.country.id}`}
                         />
@@ -287,7 +309,22 @@ export default function CountryList() {
                     </TableCell>
                     <TableCell data-testid={`text-threat-${item.country.id}`}>
                       <div className={`px-3 py-1.5 rounded text-sm font-semibold inline-block ${getThreatLevelColor(item.threatLevel)}`}>
-                        {item.threatLevel ? `Level ${item.threatLevel}` : "N/A"}
+                        {item.threatLevel ? t("threat.level", { level: item.threatLevel }) : t("common.notAvailable")}
+                      </div>
+                    </TableCell>
+                    <TableCell data-testid={`text-score-${item.country.id}`}>
+                      <div className="flex items-center gap-2">
+                        <div className={`px-3 py-1.5 rounded text-sm font-semibold inline-block ${getThreatLevelColor(getRiskScoreBand(item.riskScore?.score))}`}>
+                          {item.riskScore?.score != null ? item.riskScore.score : t("common.notAvailable")}
+                        </div>
+                        {item.riskScore && item.riskScore.disagreements.length > 0 && (
+                          <span
+                            title={item.riskScore.disagreements.map(d => describeDisagreement(d, t)).join("\n")}
+                            data-testid={`disagreement-${item.country.id}`}
+                          >
+                            <AlertTriangle className="w-4 h-4 text-amber-600" aria-label={t("risk.disagreementTitle")} />
+                          </span>
+                        )}
                       </div>
                     </TableCell>
                     <TableCell
@@ -307,7 +344,7 @@ export default function CountryList() {
         {!isLoading && !error && countries.length > 0 && (
           <div className="mt-8 text-center pb-8">
             <div className="text-xs text-muted-foreground mb-3">
-              Download latest advisories for all countries
+              {t("countryList.bulkHint")}
             </div>
             <BulkRefreshButton />
           </div>
@@ -318,7 +355,7 @@ export default function CountryList() {
       <footer className="bg-muted border-t border-border mt-16">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 text-center">
           <p className="text-xs text-muted-foreground" data-testid="contact-info">
-            For more information contact Matt Covington -{" "}
+            {t("common.contact")}{" "}
             <a href="mailto:mattcov@gmail.com" className="text-primary hover:underline">
               mattcov@gmail.com
             </a>
@@ -334,7 +371,7 @@ export default function CountryList() {
               {selectedCountry && countryDetail?.country.flagUrl && (
                 <img
                   src={countryDetail.country.flagUrl}
-                  alt={`${selectedCountry} flag`}
+                  alt={t("card.flagAlt", { country: selectedCountry })}
                   className="w-10 h-7 object-cover rounded"
                 />
               )}
@@ -342,10 +379,50 @@ export default function CountryList() {
             </DialogTitle>
           </DialogHeader>
 
+          {/* Composite risk score by source */}
+          {selectedRiskScore && (
+            <div className="rounded-lg border border-border p-4 space-y-3" data-testid="risk-score-breakdown">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+                  <Gauge className="w-5 h-5 text-primary" />
+                  {t("risk.breakdown")}
+                </h3>
+                <div className={`px-3 py-1 rounded text-sm font-semibold ${getThreatLevelColor(getRiskScoreBand(selectedRiskScore.score))}`}>
+                  {selectedRiskScore.score !== null ? t("risk.scoreValue", { score: selectedRiskScore.score }) : t("risk.notScored")}
+                </div>
+              </div>
+              <ul className="space-y-1 text-sm">
+                {selectedRiskScore.sources.map(source => (
+                  <li key={source.sourceId} className="flex items-center justify-between gap-4" data-testid={`risk-source-${source.sourceId}`}>
+                    <span className="text-foreground">
+                      {source.source}
+                      {source.level && <span className="text-muted-foreground"> - {source.level}</span>}
+                    </span>
+                    <span className="whitespace-nowrap text-muted-foreground">
+                      {t("risk.scoreValue", { score: source.score })} · {t("risk.sourceWeight", { weight: source.weight })}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              {selectedRiskScore.disagreements.map((disagreement, index) => (
+                <div
+                  key={index}
+                  className="flex items-start gap-2 rounded-md border border-amber-300 bg-amber-50 p-2 text-sm text-amber-800 dark:bg-amber-950 dark:text-amber-200"
+                  data-testid={`risk-disagreement-${index}`}
+                >
+                  <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span>
+                    <span className="font-medium">{t("risk.disagreementTitle")}:</span> {describeDisagreement(disagreement, t)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
           {isLoadingDetail && (
             <div className="flex flex-col items-center justify-center py-12">
               <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mb-4"></div>
-              <p className="text-muted-foreground">Loading AI-enhanced summary...</p>
+              <p className="text-muted-foreground">{t("countryList.loadingSummary")}</p>
             </div>
           )}
 
@@ -357,7 +434,7 @@ export default function CountryList() {
                 <div className="py-8 text-center">
                   <AlertCircle className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
                   <p className="text-muted-foreground">
-                    No AI-enhanced summary available for this country.
+                    {t("countryList.noSummary")}
                   </p>
                 </div>
               );
@@ -370,7 +447,7 @@ export default function CountryList() {
                   <div>
                     <h3 className="text-lg font-semibold mb-3 text-foreground flex items-center gap-2">
                       <AlertCircle className="w-5 h-5 text-orange-500" />
-                      Key Risks
+                      {t("common.keyRisks")}
                     </h3>
                     <ul className="space-y-2">
                       {aiAlert.keyRisks.map((risk, index) => (
@@ -380,7 +457,14 @@ export default function CountryList() {
                           data-testid={`key-risk-${index}`}
                         >
                           <span className="text-orange-500 mt-1">•</span>
-                          <span>{risk}</span>
+                          <span>
+                            {risk}
+                            {isUnverified(aiAlert.aiConfidence, "keyRisks", risk) && (
+                              <Badge variant="outline" className="ml-2 text-amber-600 border-amber-300" title={t("common.unverifiedHint")} data-testid={`key-risk-unverified-${index}`}>
+                                {t("common.unverifiedBadge")}
+                              </Badge>
+                            )}
+                          </span>
                         </li>
                       ))}
                     </ul>
@@ -392,7 +476,7 @@ export default function CountryList() {
                   <div>
                     <h3 className="text-lg font-semibold mb-3 text-foreground flex items-center gap-2">
                       <Globe className="w-5 h-5 text-blue-500" />
-                      Safety Recommendations
+                      {t("common.safetyRecommendations")}
                     </h3>
                     <ul className="space-y-2">
                       {aiAlert.safetyRecommendations.map((rec, index) => (
@@ -414,7 +498,7 @@ export default function CountryList() {
                   <div>
                     <h3 className="text-lg font-semibold mb-3 text-foreground flex items-center gap-2">
                       <Globe className="w-5 h-5 text-purple-500" />
-                      Specific Areas of Concern
+                      {t("countryList.specificAreas")}
                     </h3>
                     <ul className="space-y-2">
                       {aiAlert.specificAreas.map((area, index) => (
@@ -424,7 +508,14 @@ export default function CountryList() {
                           data-testid={`specific-area-${index}`}
                         >
                           <span className="text-purple-500 mt-1">•</span>
-                          <span>{area}</span>
+                          <span>
+                            {area}
+                            {isUnverified(aiAlert.aiConfidence, "specificAreas", area) && (
+                              <Badge variant="outline" className="ml-2 text-amber-600 border-amber-300" title={t("common.unverifiedHint")} data-testid={`specific-area-unverified-${index}`}>
+                                {t("common.unverifiedBadge")}
+                              </Badge>
+                            )}
+                          </span>
                         </li>
                       ))}
                     </ul>
@@ -435,7 +526,7 @@ export default function CountryList() {
                 {aiAlert.aiEnhanced && (
                   <div className="pt-4 border-t border-border">
                     <p className="text-sm text-muted-foreground">
-                      AI-enhanced on {formatDate(aiAlert.aiEnhanced)}
+                      {t("countryList.enhancedOn", { date: formatDate(aiAlert.aiEnhanced) })}
                     </p>
                   </div>
                 )}
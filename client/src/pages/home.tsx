@@ -5,13 +5,16 @@ import { CountryCard } from "@/components/CountryCard";
 import { LoadingState } from "@/components/LoadingState";
 import { ExportButton } from "@/components/ExportButton";
 import { Navigation } from "@/components/Navigation";
+import { WatchlistPanel } from "@/components/WatchlistPanel";
 import { Button } from "@/components/ui/button";
+import { useI18n } from "@/lib/i18n";
 import { RefreshCw, Globe, AlertCircle, Search } from "lucide-react";
 import { type SearchResult } from "@shared/schema";
 
 export default function Home() {
   const [searchCountries, setSearchCountries] = useState<string[]>([]);
   const [hasSearched, setHasSearched] = useState(false);
+  const { t, tp, locale } = useI18n();
 
   const { data, isLoading, error, refetch } = useQuery({
     queryKey: [`/api/search?countries=${encodeURIComponent(searchCountries.join(","))}`],
@@ -46,7 +49,7 @@ export default function Home() {
     refetch();
   };
 
-  const currentTime = new Date().toLocaleString("en-US", {
+  const currentTime = new Date().toLocaleString(locale, {
     year: "numeric",
     month: "short",
     day: "numeric",
@@ -64,12 +67,12 @@ export default function Home() {
             <div className="flex items-center space-x-4">
               <div className="flex items-center space-x-2">
                 <Globe className="w-8 h-8 text-primary" />
-                <h1 className="text-xl font-bold text-foreground">Global Travel Advisory</h1>
+                <h1 className="text-xl font-bold text-foreground">{t("common.appName")}</h1>
               </div>
             </div>
             <div className="flex items-center space-x-4">
               <span className="text-sm text-muted-foreground hidden md:block" data-testid="text-last-updated">
-                Last updated: {currentTime}
+                {t("home.lastUpdated", { time: currentTime })}
               </span>
               <Navigation />
               <Button
@@ -92,6 +95,9 @@ export default function Home() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Watchlists */}
+        <WatchlistPanel onViewCountries={handleSearch} />
+
         {/* Loading State */}
         {isLoading && <LoadingState count={searchCountries.length} />}
 
@@ -102,9 +108,9 @@ export default function Home() {
             {/* Check if this is a country validation error (400 status) */}
             {(error as any)?.response?.status === 400 ? (
               <>
-                <h3 className="text-lg font-semibold text-destructive mb-2">Country Not Found</h3>
+                <h3 className="text-lg font-semibold text-destructive mb-2">{t("home.countryNotFound")}</h3>
                 <p className="text-destructive/80 mb-4" data-testid="text-error-message">
-                  Please check the spelling and try again.
+                  {t("home.checkSpelling")}
                 </p>
                 {/* Show specific error details if available */}
                 {(error as any)?.response?.data?.details && (
@@ -121,22 +127,22 @@ export default function Home() {
                   className="bg-primary text-primary-foreground hover:bg-primary/90"
                   data-testid="button-retry"
                 >
-                  Try Again
+                  {t("common.tryAgain")}
                 </Button>
               </>
             ) : (
               /* Default error for API/network issues */
               <>
-                <h3 className="text-lg font-semibold text-destructive mb-2">Unable to Load Data</h3>
+                <h3 className="text-lg font-semibold text-destructive mb-2">{t("home.unableToLoad")}</h3>
                 <p className="text-destructive/80 mb-4" data-testid="text-error-message">
-                  Some data sources are currently unavailable. Please try again later.
+                  {t("home.sourcesUnavailable")}
                 </p>
                 <Button
                   onClick={handleRefresh}
                   className="bg-primary text-primary-foreground hover:bg-primary/90"
                   data-testid="button-retry"
                 >
-                  Try Again
+                  {t("common.tryAgain")}
                 </Button>
               </>
             )}
@@ -150,7 +156,7 @@ export default function Home() {
             <div className="flex justify-between items-center mb-6">
               <div className="flex items-center gap-4">
                 <h2 className="text-xl font-semibold text-foreground">
-                  Search Results ({searchResults.length} {searchResults.length === 1 ? 'country' : 'countries'})
+                  {t("home.searchResults", { countries: tp("common.countries", searchResults.length) })}
                 </h2>
                 <ExportButton
                   searchResults={searchResults}
@@ -172,9 +178,9 @@ export default function Home() {
         {!isLoading && !error && hasSearched && searchResults.length === 0 && (
           <div className="text-center py-12" data-testid="no-results-state">
             <AlertCircle className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
-            <h3 className="text-xl font-semibold text-foreground mb-2">No Results Found</h3>
+            <h3 className="text-xl font-semibold text-foreground mb-2">{t("home.noResults")}</h3>
             <p className="text-muted-foreground max-w-md mx-auto">
-              No travel information found for the requested countries. Please check the spelling and try again.
+              {t("home.noResultsDescription")}
             </p>
           </div>
         )}
@@ -183,9 +189,9 @@ export default function Home() {
         {!hasSearched && !isLoading && (
           <div className="text-center py-12" data-testid="empty-state">
             <Search className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
-            <h3 className="text-xl font-semibold text-foreground mb-2">Search for Countries</h3>
+            <h3 className="text-xl font-semibold text-foreground mb-2">{t("home.emptyTitle")}</h3>
             <p className="text-muted-foreground max-w-md mx-auto">
-              Enter one or more country names above to view current travel advisories, alerts, and background information.
+              {t("home.emptyDescription")}
             </p>
           </div>
         )}
@@ -196,37 +202,37 @@ export default function Home() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
           <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
             <div>
-              <h3 className="font-semibold text-foreground mb-3">Data Sources</h3>
+              <h3 className="font-semibold text-foreground mb-3">{t("home.footer.dataSources")}</h3>
               <ul className="space-y-2 text-sm text-muted-foreground">
-                <li>• US State Department Travel Advisories</li>
-                <li>• UK FCDO Foreign Travel Advice</li>
-                <li>• CDC Travel Health Notices</li>
-                <li>• USGS Earthquake Data</li>
-                <li>• ReliefWeb Crisis Updates</li>
+                <li>• {t("home.footer.stateDept")}</li>
+                <li>• {t("home.footer.fcdo")}</li>
+                <li>• {t("home.footer.cdc")}</li>
+                <li>• {t("home.footer.usgs")}</li>
+                <li>• {t("home.footer.reliefWeb")}</li>
               </ul>
             </div>
             <div>
-              <h3 className="font-semibold text-foreground mb-3">Background Information</h3>
+              <h3 className="font-semibold text-foreground mb-3">{t("home.footer.background")}</h3>
               <ul className="space-y-2 text-sm text-muted-foreground">
-                <li>• CIA World Factbook</li>
-                <li>• World Bank Country Indicators</li>
-                <li>• Wikivoyage Travel Guides</li>
+                <li>• {t("home.footer.factbook")}</li>
+                <li>• {t("home.footer.worldBank")}</li>
+                <li>• {t("home.footer.wikivoyage")}</li>
               </ul>
             </div>
             <div>
-              <h3 className="font-semibold text-foreground mb-3">Update Frequency</h3>
+              <h3 className="font-semibold text-foreground mb-3">{t("home.footer.updateFrequency")}</h3>
               <ul className="space-y-2 text-sm text-muted-foreground">
-                <li>• US State Dept (all countries): Weekly (Sundays 1 AM) with AI enhancement</li>
-                <li>• Recently accessed countries: Every 6 hours</li>
-                <li>• Background data: Weekly</li>
-                <li>• Earthquake data: Real-time</li>
+                <li>• {t("home.footer.stateDeptSchedule")}</li>
+                <li>• {t("home.footer.watchedSchedule")}</li>
+                <li>• {t("home.footer.backgroundSchedule")}</li>
+                <li>• {t("home.footer.earthquakeSchedule")}</li>
               </ul>
             </div>
           </div>
           <div className="border-t border-border mt-8 pt-6 text-center text-sm text-muted-foreground">
-            <p className="mb-3">This tool aggregates publicly available travel and safety information. Always consult official government sources for the most current travel guidance.</p>
+            <p className="mb-3">{t("home.footer.disclaimer")}</p>
             <p className="text-xs" data-testid="contact-info">
-              For more information contact Matt Covington -{" "}
+              {t("common.contact")}{" "}
               <a href="mailto:mattcov@gmail.com" className="text-primary hover:underline">
                 mattcov@gmail.com
               </a>
@@ -1,7 +1,10 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { AlertCircle } from "lucide-react";
+import { useI18n } from "@/lib/i18n";
 
 export default function NotFound() {
+  const { t } = useI18n();
+
   return (
     <div className="min-h-screen w-full flex flex-col bg-gray-50">
       <div className="flex-1 flex items-center justify-center">
@@ -9,11 +12,11 @@ export default function NotFound() {
           <CardContent className="pt-6">
             <div className="flex mb-4 gap-2">
               <AlertCircle className="h-8 w-8 text-red-500" />
-              <h1 className="text-2xl font-bold text-gray-900">404 Page Not Found</h1>
+              <h1 className="text-2xl font-bold text-gray-900">{t("notFound.title")}</h1>
             </div>
 
             <p className="mt-4 text-sm text-gray-600">
-              Did you forget to add the page to the router?
+              {t("notFound.description")}
             </p>
           </CardContent>
         </Card>
@@ -21,7 +24,7 @@ export default function NotFound() {
       
       <footer className="py-4 text-center">
         <p className="text-xs text-gray-600" data-testid="contact-info">
-          For more information contact Matt Covington -{" "}
+          {t("common.contact")}{" "}
           <a href="mailto:mattcov@gmail.com" className="text-blue-600 hover:underline">
             mattcov@gmail.com
           </a>
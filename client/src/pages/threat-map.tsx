@@ -1,12 +1,16 @@
-import { useQuery, useMutation } from "@tanstack/react-query";
-import { MapContainer, TileLayer, GeoJSON, Marker, Popup } from "react-leaflet";
-import { useEffect, useState } from "react";
+import { useQuery, useQueries, useMutation } from "@tanstack/react-query";
+import { MapContainer, TileLayer, GeoJSON, Marker, Popup, useMapEvents } from "react-leaflet";
+import { useEffect, useMemo, useState } from "react";
 import { Loader2, AlertTriangle, Shield, AlertCircle, Ban, Globe, Building2, Download } from "lucide-react";
 import { Navigation } from "@/components/Navigation";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useI18n, type I18n } from "@/lib/i18n";
+import { describeDisagreement, getRiskScoreBand } from "@/lib/riskScore";
 import type { GeoJsonObject } from "geojson";
+import type { CompositeRiskScore, RegionAdvisory, RegionBoundaryProperties } from "@shared/schema";
+import { getCountryByCode, resolveCountry } from "@shared/countries";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
 
@@ -18,10 +22,13 @@ interface CountryData {
     flagUrl?: string;
   };
   threatLevel: number | null;
+  riskScore: CompositeRiskScore | null;
   lastUpdated: string | null;
   alertCount: number;
 }
 
+type ColorBy = "level" | "score";
+
 interface ThreatMapData {
   countries: CountryData[];
 }
@@ -44,6 +51,36 @@ interface EmbassyResponse {
   count: number;
 }
 
+interface RegionBoundaryCollection {
+  type: "FeatureCollection";
+  features: Array<{ type: "Feature"; id: string; geometry: unknown; properties: RegionBoundaryProperties }>;
+}
+
+// Provinces with their own advisory are drawn from this zoom level in
+const REGION_LAYER_MIN_ZOOM = 4;
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+interface Viewport {
+  zoom: number;
+  bounds: L.LatLngBounds | null;
+}
+
+// Reports the map's zoom level and visible area so layers can depend on them
+function ViewportWatcher({ onChange }: { onChange: (viewport: Viewport) => void }) {
+  const map = useMapEvents({
+    moveend: () => onChange({ zoom: map.getZoom(), bounds: map.getBounds() }),
+  });
+  return null;
+}
+
+// Boundary features carry an ISO alpha-3 id; fall back to the display name
+const getFeatureCountryName = (feature: any): string | undefined => {
+  const country = getCountryByCode(feature.id) || resolveCountry(feature.properties.name);
+  return country?.name || feature.properties.name?.toLowerCase();
+};
+
 const getThreatColor = (level: number | null): string => {
   if (level === null) return "#94a3b8";
   switch (level) {
@@ -60,19 +97,19 @@ const getThreatColor = (level: number | null): string => {
   }
 };
 
-const getThreatLabel = (level: number | null): string => {
-  if (level === null) return "Unknown";
+const getThreatLabel = (level: number | null, t: I18n["t"]): string => {
+  if (level === null) return t("common.unknown");
   switch (level) {
     case 1:
-      return "Exercise Normal Precautions";
+      return t("threat.advice1");
     case 2:
-      return "Exercise Increased Caution";
+      return t("threat.advice2");
     case 3:
-      return "Reconsider Travel";
+      return t("threat.advice3");
     case 4:
-      return "Do Not Travel";
+      return t("threat.advice4");
     default:
-      return "Unknown";
+      return t("common.unknown");
   }
 };
 
@@ -128,7 +165,10 @@ const createEmbassyIcon = () => {
 export default function ThreatMap() {
   const [geoData, setGeoData] = useState<GeoJsonObject | null>(null);
   const [loadingGeo, setLoadingGeo] = useState(true);
+  const [colorBy, setColorBy] = useState<ColorBy>("level");
+  const [viewport, setViewport] = useState<Viewport>({ zoom: 2, bounds: null });
   const { toast } = useToast();
+  const { t, locale, formatDate } = useI18n();
 
   const { data: threatData, isLoading: isLoadingThreat } = useQuery<ThreatMapData>({
     queryKey: ["/api/countries"],
@@ -138,6 +178,39 @@ export default function ThreatMap() {
     queryKey: ["/api/embassies"],
   });
 
+  const showRegions = viewport.zoom >= REGION_LAYER_MIN_ZOOM;
+  const { data: regionAdvisoryData } = useQuery<{ regions: RegionAdvisory[] }>({
+    queryKey: ["/api/region-advisories"],
+    enabled: showRegions,
+  });
+
+  // Extent of each country on the world layer, to tell which ones are in view
+  const countryBounds = useMemo(() => {
+    const bounds = new Map<string, L.LatLngBounds>();
+    for (const feature of (geoData as any)?.features ?? []) {
+      const countryName = getFeatureCountryName(feature);
+      if (countryName) bounds.set(countryName, L.geoJSON(feature).getBounds());
+    }
+    return bounds;
+  }, [geoData]);
+
+  // Boundaries are requested per country in view that has region advisories, and stay cached
+  // as the map pans, so no request has to load every country's provinces
+  const visibleRegionCountries = useMemo(() => {
+    if (!showRegions || !viewport.bounds || !regionAdvisoryData) return [];
+    const countryIds = new Set(regionAdvisoryData.regions.map(region => region.countryId));
+    return (threatData?.countries ?? [])
+      .filter(({ country }) => countryIds.has(country.id))
+      .map(({ country }) => country.name.toLowerCase())
+      .filter(countryName => countryBounds.get(countryName)?.intersects(viewport.bounds!));
+  }, [showRegions, viewport.bounds, regionAdvisoryData, threatData, countryBounds]);
+
+  const regionQueries = useQueries({
+    queries: visibleRegionCountries.map(countryName => ({
+      queryKey: [`/api/region-advisories/boundaries?countries=${encodeURIComponent(countryName)}`],
+    })),
+  });
+
   const embassyRefreshMutation = useMutation({
     mutationFn: async () => {
       const response = await apiRequest('POST', '/api/embassies/refresh');
@@ -146,14 +219,14 @@ export default function ThreatMap() {
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/embassies"] });
       toast({
-        title: "Embassy data updated",
-        description: `Successfully downloaded ${data.count} US embassies worldwide`,
+        title: t("map.embassyUpdated"),
+        description: t("map.embassyUpdatedDescription", { count: data.count }),
       });
     },
     onError: (error: Error) => {
       toast({
-        title: "Download failed",
-        description: error.message || "Failed to download embassy data",
+        title: t("map.downloadFailed"),
+        description: error.message || t("map.embassyFailed"),
         variant: "destructive",
       });
     },
@@ -177,7 +250,7 @@ export default function ThreatMap() {
       <div className="flex items-center justify-center min-h-screen bg-background">
         <div className="text-center space-y-4">
           <Loader2 className="w-12 h-12 animate-spin mx-auto text-primary" />
-          <p className="text-muted-foreground">Loading global threat map...</p>
+          <p className="text-muted-foreground">{t("map.loading")}</p>
         </div>
       </div>
     );
@@ -190,12 +263,13 @@ export default function ThreatMap() {
   });
 
   const getCountryStyle = (feature: any) => {
-    const countryName = feature.properties.name?.toLowerCase();
-    const countryData = threatMap.get(countryName);
+    const countryName = getFeatureCountryName(feature);
+    const countryData = countryName ? threatMap.get(countryName) : undefined;
     const threatLevel = countryData?.threatLevel ?? null;
+    const band = colorBy === "score" ? getRiskScoreBand(countryData?.riskScore?.score) : threatLevel;
 
     return {
-      fillColor: getThreatColor(threatLevel),
+      fillColor: getThreatColor(band),
       weight: 1,
       opacity: 1,
       color: "#ffffff",
@@ -205,8 +279,8 @@ export default function ThreatMap() {
 
   const onEachCountry = (feature: any, layer: L.Layer) => {
     const countryName = feature.properties.name;
-    const normalizedName = countryName?.toLowerCase();
-    const countryData = threatMap.get(normalizedName);
+    const normalizedName = getFeatureCountryName(feature);
+    const countryData = normalizedName ? threatMap.get(normalizedName) : undefined;
     const threatLevel = countryData?.threatLevel ?? null;
 
     layer.on({
@@ -227,6 +301,8 @@ export default function ThreatMap() {
     });
 
     if (countryData) {
+      const riskScore = countryData.riskScore;
+      const disagreements = riskScore?.disagreements.map(d => `<p>${describeDisagreement(d, t)}</p>`).join('') ?? '';
       const popupContent = `
         <div class="p-2 min-w-[200px]" data-testid="map-popup-${countryData.country.id}">
           <div class="flex items-center gap-2 mb-2">
@@ -234,12 +310,14 @@ export default function ThreatMap() {
             <h3 class="font-bold text-lg">${countryName}</h3>
           </div>
           <div class="flex items-center gap-2 mb-1">
-            <span class="text-sm font-medium">Threat Level ${threatLevel || 'N/A'}:</span>
+            <span class="text-sm font-medium">${t("map.popupLevel", { level: threatLevel || t("common.notAvailable") })}</span>
           </div>
-          <p class="text-sm text-gray-600 dark:text-gray-300 mb-2">${getThreatLabel(threatLevel)}</p>
+          <p class="text-sm text-gray-600 dark:text-gray-300 mb-2">${getThreatLabel(threatLevel, t)}</p>
+          ${riskScore?.score != null ? `<p class="text-sm font-medium mb-1">${t("risk.composite", { score: riskScore.score })}</p>` : ''}
+          ${disagreements ? `<div class="text-xs text-amber-700 mb-2">${disagreements}</div>` : ''}
           <div class="text-xs text-gray-500 dark:text-gray-400">
-            <p>${countryData.alertCount} active alerts</p>
-            ${countryData.lastUpdated ? `<p>Updated: ${new Date(countryData.lastUpdated).toLocaleDateString()}</p>` : ''}
+            <p>${t("map.activeAlerts", { count: countryData.alertCount })}</p>
+            ${countryData.lastUpdated ? `<p>${t("map.updated", { date: formatDate(countryData.lastUpdated) })}</p>` : ''}
           </div>
         </div>
       `;
@@ -247,6 +325,32 @@ export default function ThreatMap() {
     }
   };
 
+  const getRegionStyle = (feature: any) => ({
+    fillColor: getThreatColor(feature.properties.level),
+    weight: 1.5,
+    opacity: 1,
+    color: "#1f2937",
+    dashArray: "4",
+    fillOpacity: 0.75,
+  });
+
+  const onEachRegion = (feature: any, layer: L.Layer) => {
+    const region = feature.properties as RegionBoundaryProperties;
+    const advisories = region.advisories
+      .map(advisory => `<p class="mb-1"><span class="font-medium">${escapeHtml(advisory.source)}:</span> ${escapeHtml(advisory.sourceText)}</p>`)
+      .join('');
+
+    (layer as any).bindPopup(`
+      <div class="p-2 min-w-[220px] max-w-[320px]" data-testid="region-popup-${region.countryId}-${region.admin1Code}">
+        <h3 class="font-bold text-base">${escapeHtml(region.regionName)}</h3>
+        <p class="text-xs text-gray-500 dark:text-gray-400 mb-2">${escapeHtml(region.countryName)}</p>
+        <p class="text-sm font-medium mb-1">${t("map.regionLevel", { level: region.level })}</p>
+        <p class="text-sm text-gray-600 dark:text-gray-300 mb-2">${getThreatLabel(region.level, t)}</p>
+        <div class="text-xs text-gray-600 dark:text-gray-300">${advisories}</div>
+      </div>
+    `);
+  };
+
   return (
     <div className="flex flex-col h-screen bg-background" data-testid="page-threat-map">
       <header className="bg-card border-b border-border shadow-sm relative z-[1001]">
@@ -254,11 +358,11 @@ export default function ThreatMap() {
           <div className="flex items-center justify-between h-16">
             <div className="flex items-center space-x-2">
               <Globe className="w-8 h-8 text-primary" />
-              <h1 className="text-xl font-bold text-foreground">Global Threat Map</h1>
+              <h1 className="text-xl font-bold text-foreground">{t("map.title")}</h1>
             </div>
             <div className="flex items-center space-x-4">
               <span className="text-sm text-muted-foreground hidden md:block">
-                Real-time US State Dept advisories
+                {t("map.subtitle")}
               </span>
               <Navigation />
             </div>
@@ -272,26 +376,41 @@ export default function ThreatMap() {
           zoom={2}
           className="h-full w-full"
           minZoom={2}
-          maxZoom={6}
+          maxZoom={8}
           data-testid="map-container"
         >
+          <ViewportWatcher onChange={setViewport} />
           <TileLayer
             attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
             url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
           />
           {geoData && (
+            // Styles and popups are bound once per layer, so rebuild the layer when the language or coloring changes
             <GeoJSON
+              key={`${locale}-${colorBy}`}
               data={geoData}
               style={getCountryStyle}
               onEachFeature={onEachCountry}
             />
           )}
+          {regionQueries.map(({ data, dataUpdatedAt }, index) => {
+            const regionData = data as RegionBoundaryCollection | undefined;
+            if (!regionData || regionData.features.length === 0) return null;
+            return (
+              <GeoJSON
+                key={`regions-${locale}-${visibleRegionCountries[index]}-${dataUpdatedAt}`}
+                data={regionData as unknown as GeoJsonObject}
+                style={getRegionStyle}
+                onEachFeature={onEachRegion}
+              />
+            );
+          })}
           {embassyData?.embassies.map((embassy) => {
             // Get country name from code
             const countryData = Array.from(threatMap.values()).find(
               (c) => c.country.code === embassy.countryCode
             );
-            const countryName = countryData?.country.name || embassy.countryCode;
+            const countryName = countryData?.country.name || getCountryByCode(embassy.countryCode)?.commonName || embassy.countryCode;
             
             return (
               <Marker
@@ -307,11 +426,11 @@ export default function ThreatMap() {
                     </div>
                     <div className="space-y-1 text-sm">
                       <p className="text-gray-600 dark:text-gray-300">
-                        <span className="font-medium">Type:</span> {embassy.type}
+                        <span className="font-medium">{t("map.type")}</span> {embassy.type}
                       </p>
                       {(embassy.streetAddress || embassy.city) && (
                         <div className="text-gray-600 dark:text-gray-300">
-                          <span className="font-medium">Address:</span>
+                          <span className="font-medium">{t("map.address")}</span>
                           <div className="ml-0 mt-1">
                             {embassy.streetAddress && <div>{embassy.streetAddress}</div>}
                             {embassy.city && <div>{embassy.city}</div>}
@@ -321,7 +440,7 @@ export default function ThreatMap() {
                       )}
                       {embassy.phone && (
                         <p className="text-gray-600 dark:text-gray-300">
-                          <span className="font-medium">Phone:</span>{" "}
+                          <span className="font-medium">{t("map.phone")}</span>{" "}
                           <a href={`tel:${embassy.phone}`} className="text-blue-600 hover:underline">
                             {embassy.phone}
                           </a>
@@ -329,14 +448,14 @@ export default function ThreatMap() {
                       )}
                       {embassy.website && (
                         <p className="text-gray-600 dark:text-gray-300">
-                          <span className="font-medium">Website:</span>{" "}
+                          <span className="font-medium">{t("map.website")}</span>{" "}
                           <a 
                             href={embassy.website} 
                             target="_blank" 
                             rel="noopener noreferrer"
                             className="text-blue-600 hover:underline"
                           >
-                            Visit
+                            {t("map.visit")}
                           </a>
                         </p>
                       )}
@@ -349,34 +468,58 @@ export default function ThreatMap() {
         </MapContainer>
 
         <div className="absolute top-4 right-4 bg-card border shadow-lg rounded-lg p-4 max-w-xs z-[1000]" data-testid="map-legend">
-          <h3 className="font-bold text-sm mb-3">Threat Levels</h3>
+          <h3 className="font-bold text-sm mb-2">{colorBy === "score" ? t("risk.legendTitle") : t("map.legendTitle")}</h3>
+          <div className="flex items-center gap-1 mb-3 text-xs" data-testid="map-color-by">
+            <span className="text-muted-foreground mr-1">{t("risk.colorBy")}</span>
+            <Button
+              size="sm"
+              variant={colorBy === "level" ? "default" : "outline"}
+              className="h-7 px-2 text-xs"
+              onClick={() => setColorBy("level")}
+              data-testid="button-color-by-level"
+            >
+              {t("risk.colorByLevel")}
+            </Button>
+            <Button
+              size="sm"
+              variant={colorBy === "score" ? "default" : "outline"}
+              className="h-7 px-2 text-xs"
+              onClick={() => setColorBy("score")}
+              data-testid="button-color-by-score"
+            >
+              {t("risk.colorByScore")}
+            </Button>
+          </div>
           <div className="space-y-2 text-sm">
             <div className="flex items-center gap-2">
               <div className="w-6 h-4 rounded" style={{ backgroundColor: getThreatColor(1) }}></div>
               <Shield className="w-4 h-4 text-green-500" />
-              <span>Level 1 - Normal Precautions</span>
+              <span>{colorBy === "score" ? t("risk.legend1") : t("map.legend1")}</span>
             </div>
             <div className="flex items-center gap-2">
               <div className="w-6 h-4 rounded" style={{ backgroundColor: getThreatColor(2) }}></div>
               <AlertCircle className="w-4 h-4 text-yellow-500" />
-              <span>Level 2 - Increased Caution</span>
+              <span>{colorBy === "score" ? t("risk.legend2") : t("map.legend2")}</span>
             </div>
             <div className="flex items-center gap-2">
               <div className="w-6 h-4 rounded" style={{ backgroundColor: getThreatColor(3) }}></div>
               <AlertTriangle className="w-4 h-4 text-orange-500" />
-              <span>Level 3 - Reconsider Travel</span>
+              <span>{colorBy === "score" ? t("risk.legend3") : t("map.legend3")}</span>
             </div>
             <div className="flex items-center gap-2">
               <div className="w-6 h-4 rounded" style={{ backgroundColor: getThreatColor(4) }}></div>
               <Ban className="w-4 h-4 text-red-500" />
-              <span>Level 4 - Do Not Travel</span>
+              <span>{colorBy === "score" ? t("risk.legend4") : t("map.legend4")}</span>
             </div>
             <div className="flex items-center gap-2">
               <div className="w-6 h-4 rounded bg-gray-400"></div>
               <AlertCircle className="w-4 h-4 text-gray-500" />
-              <span>No Data</span>
+              <span>{t("map.noData")}</span>
             </div>
           </div>
+          <p className="mt-3 text-xs text-muted-foreground" data-testid="text-region-hint">
+            {showRegions ? t("map.regionsShown") : t("map.regionsHint")}
+          </p>
         </div>
 
         <div className="absolute bottom-4 left-4 z-[1000]" data-testid="embassy-sync-controls">
@@ -391,12 +534,12 @@ export default function ThreatMap() {
             {embassyRefreshMutation.isPending ? (
               <>
                 <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                Syncing...
+                {t("map.syncing")}
               </>
             ) : (
               <>
                 <Building2 className="w-4 h-4 mr-2" />
-                Sync Embassies ({embassyData?.count || 0})
+                {t("map.syncEmbassies", { count: embassyData?.count || 0 })}
               </>
             )}
           </Button>
@@ -404,7 +547,7 @@ export default function ThreatMap() {
 
         <div className="absolute bottom-4 right-4 bg-card/95 backdrop-blur-sm border shadow-sm rounded px-3 py-2 z-[1000]" data-testid="contact-info">
           <p className="text-xs text-muted-foreground">
-            For more information contact Matt Covington -{" "}
+            {t("common.contact")}{" "}
             <a href="mailto:mattcov@gmail.com" className="text-primary hover:underline">
               mattcov@gmail.com
             </a>
@@ -0,0 +1,432 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Navigation } from "@/components/Navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Plane, Plus, Trash2, X, Download, Loader2, AlertCircle, Building2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useI18n, type I18n } from "@/lib/i18n";
+import type { MessageKey } from "@/locales/en";
+import { type Trip, type TripAssessment } from "@shared/schema";
+
+interface LegDraft {
+  countryName: string;
+  city: string;
+  startDate: string;
+  endDate: string;
+}
+
+const emptyLeg = (): LegDraft => ({ countryName: "", city: "", startDate: "", endDate: "" });
+
+const capitalize = (name: string) => name.replace(/\b[a-z]/g, c => c.toUpperCase());
+
+const getThreatLevelColor = (level: number | null) => {
+  switch (level) {
+    case 1:
+      return "bg-green-600 text-white";
+    case 2:
+      return "bg-yellow-500 text-white";
+    case 3:
+      return "bg-orange-500 text-white";
+    case 4:
+      return "bg-red-600 text-white";
+    default:
+      return "bg-gray-500 text-white";
+  }
+};
+
+const getThreatLevelText = (level: number | null, t: I18n["t"]) => {
+  switch (level) {
+    case 1:
+      return t("threat.level1");
+    case 2:
+      return t("threat.level2");
+    case 3:
+      return t("threat.level3");
+    case 4:
+      return t("threat.level4");
+    default:
+      return t("threat.noAdvisory");
+  }
+};
+
+export default function Trips() {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [tripName, setTripName] = useState("");
+  const [tripNotes, setTripNotes] = useState("");
+  const [legs, setLegs] = useState<LegDraft[]>([emptyLeg()]);
+  const [formErrors, setFormErrors] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+  const { t, tp } = useI18n();
+
+  const { data: tripsData, isLoading: isLoadingTrips } = useQuery<{ trips: Trip[] }>({
+    queryKey: ["/api/trips"],
+  });
+
+  const trips = tripsData?.trips || [];
+  const selectedTripId = selectedId || trips[0]?.id || null;
+
+  const { data: assessment, isLoading: isLoadingAssessment, error: assessmentError } = useQuery<TripAssessment>({
+    queryKey: ["/api/trips", selectedTripId, "assessment"],
+    enabled: !!selectedTripId,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/trips", {
+        name: tripName,
+        notes: tripNotes.trim() || null,
+        legs: legs.map(leg => ({
+          countryName: leg.countryName.trim(),
+          city: leg.city.trim() || null,
+          startDate: leg.startDate,
+          endDate: leg.endDate,
+        })),
+      });
+      return response.json() as Promise<Trip>;
+    },
+    onSuccess: (trip) => {
+      setTripName("");
+      setTripNotes("");
+      setLegs([emptyLeg()]);
+      setFormErrors([]);
+      setSelectedId(trip.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+    },
+    onError: (error: any) => {
+      setFormErrors(error?.response?.data?.details || [error?.response?.data?.error || t("trips.createFailed")]);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/trips/${id}`);
+    },
+    onSuccess: () => {
+      setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+    },
+  });
+
+  const updateLeg = (index: number, field: keyof LegDraft, value: string) => {
+    setLegs(current => current.map((leg, i) => (i === index ? { ...leg, [field]: value } : leg)));
+  };
+
+  const canCreate = tripName.trim() && legs.every(leg => leg.countryName.trim() && leg.startDate && leg.endDate);
+
+  const handleExport = async () => {
+    if (!selectedTripId) return;
+    setIsExporting(true);
+
+    try {
+      const response = await fetch(`/api/trips/${selectedTripId}/export/pdf`, { method: "POST" });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || t("trips.briefingFailed"));
+      }
+
+      const pdfBlob = await response.blob();
+      const url = window.URL.createObjectURL(pdfBlob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `trip-briefing-${new Date().toISOString().split('T')[0]}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+
+      toast({
+        title: t("trips.briefingExported"),
+        description: t("trips.briefingExportedDescription", { name: assessment?.trip.name || t("trips.yourTrip") }),
+      });
+    } catch (error: any) {
+      console.error("Trip export error:", error);
+      toast({
+        title: t("common.exportFailed"),
+        description: error.message || t("trips.briefingFailedRetry"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-card border-b border-border sticky top-0 z-50 shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center space-x-2">
+              <Plane className="w-8 h-8 text-primary" />
+              <h1 className="text-xl font-bold text-foreground">{t("trips.title")}</h1>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-sm text-muted-foreground" data-testid="text-trip-count">
+                {tp("trips.count", trips.length)}
+              </span>
+              <Navigation />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid gap-8 lg:grid-cols-3">
+        {/* Trip list and creation */}
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("trips.yourTrips")}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {isLoadingTrips && <p className="text-sm text-muted-foreground">{t("trips.loading")}</p>}
+              {!isLoadingTrips && trips.length === 0 && (
+                <p className="text-sm text-muted-foreground" data-testid="text-no-trips">{t("trips.none")}</p>
+              )}
+              {trips.map(trip => (
+                <Button
+                  key={trip.id}
+                  variant={trip.id === selectedTripId ? "default" : "outline"}
+                  className="w-full justify-between"
+                  onClick={() => setSelectedId(trip.id)}
+                  data-testid={`button-trip-${trip.id}`}
+                >
+                  <span className="truncate">{trip.name}</span>
+                  <span className="text-xs opacity-80">{tp("trips.legs", trip.legs.length)}</span>
+                </Button>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("trips.newTrip")}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Input
+                placeholder={t("trips.name")}
+                value={tripName}
+                onChange={(e) => setTripName(e.target.value)}
+                data-testid="input-trip-name"
+              />
+              <Input
+                placeholder={t("trips.notes")}
+                value={tripNotes}
+                onChange={(e) => setTripNotes(e.target.value)}
+                data-testid="input-trip-notes"
+              />
+              {legs.map((leg, index) => (
+                <div key={index} className="rounded-md border border-border p-3 space-y-2" data-testid={`leg-form-${index}`}>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-foreground">{t("trips.leg", { number: index + 1 })}</span>
+                    {legs.length > 1 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setLegs(current => current.filter((_, i) => i !== index))}
+                        data-testid={`button-remove-leg-${index}`}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                  <Input
+                    placeholder={t("trips.country")}
+                    value={leg.countryName}
+                    onChange={(e) => updateLeg(index, "countryName", e.target.value)}
+                    data-testid={`input-leg-country-${index}`}
+                  />
+                  <Input
+                    placeholder={t("trips.city")}
+                    value={leg.city}
+                    onChange={(e) => updateLeg(index, "city", e.target.value)}
+                    data-testid={`input-leg-city-${index}`}
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      type="date"
+                      value={leg.startDate}
+                      onChange={(e) => updateLeg(index, "startDate", e.target.value)}
+                      data-testid={`input-leg-start-${index}`}
+                    />
+                    <Input
+                      type="date"
+                      value={leg.endDate}
+                      onChange={(e) => updateLeg(index, "endDate", e.target.value)}
+                      data-testid={`input-leg-end-${index}`}
+                    />
+                  </div>
+                </div>
+              ))}
+              {formErrors.length > 0 && (
+                <ul className="text-sm text-destructive space-y-1" data-testid="text-trip-errors">
+                  {formErrors.map((message, index) => (
+                    <li key={index}>• {message}</li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex justify-between">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setLegs(current => [...current, emptyLeg()])}
+                  data-testid="button-add-leg"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  {t("trips.addLeg")}
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => createMutation.mutate()}
+                  disabled={!canCreate || createMutation.isPending}
+                  data-testid="button-create-trip"
+                >
+                  {createMutation.isPending && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                  {t("trips.save")}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Assessment */}
+        <div className="lg:col-span-2 space-y-6">
+          {!selectedTripId && !isLoadingTrips && (
+            <div className="text-center py-12" data-testid="empty-state">
+              <Plane className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-foreground mb-2">{t("trips.emptyTitle")}</h3>
+              <p className="text-muted-foreground max-w-md mx-auto">
+                {t("trips.emptyDescription")}
+              </p>
+            </div>
+          )}
+
+          {isLoadingAssessment && (
+            <div className="flex flex-col items-center justify-center py-12" data-testid="loading-state">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mb-4"></div>
+              <p className="text-muted-foreground">{t("trips.assessing")}</p>
+            </div>
+          )}
+
+          {assessmentError && (
+            <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-6 text-center" data-testid="error-state">
+              <AlertCircle className="w-12 h-12 text-destructive mx-auto mb-4" />
+              <h3 className="text-lg font-semibold text-destructive mb-2">{t("trips.assessFailed")}</h3>
+              <p className="text-destructive/80">{t("home.sourcesUnavailable")}</p>
+            </div>
+          )}
+
+          {assessment && !isLoadingAssessment && (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                  <h2 className="text-2xl font-semibold text-foreground" data-testid="text-trip-name">{assessment.trip.name}</h2>
+                  {assessment.trip.notes && <p className="text-muted-foreground">{assessment.trip.notes}</p>}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={handleExport}
+                    disabled={isExporting}
+                    className="flex items-center gap-2"
+                    data-testid="button-export-trip-pdf"
+                  >
+                    {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                    {isExporting ? t("common.generatingPdf") : t("trips.downloadBriefing")}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    className="text-destructive"
+                    onClick={() => deleteMutation.mutate(assessment.trip.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid="button-delete-trip"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <div
+                className={`rounded-lg p-4 text-center font-semibold ${getThreatLevelColor(assessment.highestLevel)}`}
+                data-testid="text-trip-highest-level"
+              >
+                {t("trips.highestLevel", { level: getThreatLevelText(assessment.highestLevel, t) })}
+              </div>
+
+              <div className="border rounded-lg overflow-hidden">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>#</TableHead>
+                      <TableHead>{t("trips.destination")}</TableHead>
+                      <TableHead>{t("trips.dates")}</TableHead>
+                      <TableHead>{t("trips.advisory")}</TableHead>
+                      <TableHead>{t("trips.nearestEmbassy")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {assessment.legs.map(leg => (
+                      <TableRow key={leg.legIndex} data-testid={`row-leg-${leg.legIndex}`}>
+                        <TableCell>{leg.legIndex + 1}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{capitalize(leg.leg.countryName)}</div>
+                          {leg.leg.city && <div className="text-sm text-muted-foreground">{leg.leg.city}</div>}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap text-sm">
+                          {leg.leg.startDate} – {leg.leg.endDate}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={getThreatLevelColor(leg.stateDeptLevel)}>
+                            {leg.stateDeptLevel ? t("threat.level", { level: leg.stateDeptLevel }) : t("common.notAvailable")}
+                          </Badge>
+                          {leg.highestSeverity && (
+                            <div className="text-xs text-muted-foreground mt-1">
+                              {tp("trips.alerts", leg.alerts.length, { severity: t(`severity.${leg.highestSeverity}` as MessageKey) })}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {leg.nearestEmbassy ? (
+                            <div className="text-sm">
+                              <div className="flex items-center gap-1 font-medium">
+                                <Building2 className="w-4 h-4 text-primary" />
+                                {leg.nearestEmbassy.name}
+                              </div>
+                              {leg.embassyDistanceKm !== null && (
+                                <div className="text-muted-foreground">{t("trips.distance", { distance: leg.embassyDistanceKm })}</div>
+                              )}
+                              {leg.nearestEmbassy.streetAddress && (
+                                <div className="text-muted-foreground">
+                                  {leg.nearestEmbassy.streetAddress}{leg.nearestEmbassy.city ? `, ${leg.nearestEmbassy.city}` : ""}
+                                </div>
+                              )}
+                              {leg.nearestEmbassy.phone && <div className="text-muted-foreground">{leg.nearestEmbassy.phone}</div>}
+                            </div>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">{t("trips.notAvailable")}</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,23 +1,284 @@
-// AI-powered content enhancement service using OpenAI
-import OpenAI from "openai";
+// AI-powered content enhancement service using a configurable LLM provider
+import { createHash } from "crypto";
+import { AsyncLocalStorage } from "async_hooks";
 import { JSDOM } from "jsdom";
+import { storage, type IStorage } from "./storage";
+import { outboundHttp } from "./utils/outboundHttp";
+import { createLLMProviderFromEnv, OpenAIProvider, type ChatMessage, type LLMProvider } from "./services/llmProvider";
+import { aiUsageTracker } from "./services/aiUsage";
+import { advisoryAnalysisSchema, baseSummaryAnalysisSchema, groundItems, markUnverified, parseModelResponse } from "./services/advisoryAnalysis";
+import { parseTranslationLanguages, SUPPORTED_LANGUAGES, translationSchema } from "./services/translations";
+import type { AIConfidence, AlertTranslation, AlertTranslations } from "@shared/schema";
+import type { z } from "zod";
 
-// the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+type PageFetcher = (url: string, init: RequestInit) => Promise<Response>;
+export type EnhancementCacheStore = Pick<IStorage, 'getAIEnhancement' | 'saveAIEnhancement'>;
+
+export interface EnhancementCacheStats {
+  hits: number;
+  misses: number;
+}
+
+// Bump whenever the prompts or the fields read from the response change, so stored analyses are redone
+export const AI_PROMPT_VERSION = '2';
+
+let llmProvider: LLMProvider = loadLLMProvider();
+let pageFetcher: PageFetcher = (url, init) => outboundHttp.fetch(url, init);
+let enhancementCache: EnhancementCacheStore = storage;
+const translationLanguages = parseTranslationLanguages(process.env.AI_TRANSLATION_LANGUAGES);
+const cacheStatsContext = new AsyncLocalStorage<EnhancementCacheStats>();
+const reanalysisContext = new AsyncLocalStorage<boolean>();
+
+function loadLLMProvider(): LLMProvider {
+  try {
+    const provider = createLLMProviderFromEnv();
+    console.log(`[AI] Using ${provider.id} provider with model ${provider.model}`);
+    return provider;
+  } catch (error) {
+    console.error('[AI] Invalid LLM configuration, falling back to OpenAI:', error);
+    return new OpenAIProvider();
+  }
+}
+
+/**
+ * Replace the LLM provider, e.g. with a mock in tests
+ */
+export function setLLMProvider(provider: LLMProvider): void {
+  llmProvider = provider;
+}
+
+export function getLLMProvider(): LLMProvider {
+  return llmProvider;
+}
+
+/**
+ * Languages enhanced advisories are translated into (AI_TRANSLATION_LANGUAGES)
+ */
+export function getTranslationLanguages(): string[] {
+  return translationLanguages;
+}
+
+/**
+ * Replace how advisory pages are downloaded, so tests can serve recorded pages
+ */
+export function setPageFetcher(fetcher: PageFetcher): void {
+  pageFetcher = fetcher;
+}
+
+/**
+ * Replace where analyses are cached, e.g. with a MemStorage in tests
+ */
+export function setEnhancementCache(store: EnhancementCacheStore): void {
+  enhancementCache = store;
+}
+
+/**
+ * Run work while counting the cache hits and misses of every enhancement it triggers
+ */
+export function trackEnhancementCache<T>(stats: EnhancementCacheStats, work: () => Promise<T>): Promise<T> {
+  return cacheStatsContext.run(stats, work);
+}
+
+/**
+ * Run work with every enhancement it triggers analyzing the page again, even when a stored
+ * analysis of the same text exists
+ */
+export function reanalyzeEnhancements<T>(work: () => Promise<T>): Promise<T> {
+  return reanalysisContext.run(true, work);
+}
+
+export function isReanalyzing(): boolean {
+  return reanalysisContext.getStore() === true;
+}
+
+export function hashPageContent(pageContent: string): string {
+  return createHash('sha256').update(pageContent).digest('hex');
+}
+
+/**
+ * Stored analysis of the page, if it was made from the same text with the current prompts
+ */
+async function getCachedEnhancement(advisoryLink: string, contentHash: string): Promise<Omit<EnhancedSummary, 'aiApplied'> | null> {
+  try {
+    const cached = await enhancementCache.getAIEnhancement(advisoryLink);
+    if (!cached || cached.contentHash !== contentHash || cached.promptVersion !== AI_PROMPT_VERSION) {
+      return null;
+    }
+    return { ...cached.result, translations: cached.result.translations ?? {}, lastUpdated: cached.analyzedAt.toISOString() };
+  } catch (error) {
+    console.error(`[AI] Failed to read cached analysis for ${advisoryLink}:`, error);
+    return null;
+  }
+}
+
+async function cacheEnhancement(
+  advisoryLink: string,
+  contentHash: string,
+  result: Omit<EnhancedSummary, 'lastUpdated' | 'aiApplied'>,
+  analyzedAt: Date = new Date()
+): Promise<void> {
+  try {
+    await enhancementCache.saveAIEnhancement({
+      advisoryLink,
+      contentHash,
+      promptVersion: AI_PROMPT_VERSION,
+      model: llmProvider.model,
+      result,
+      analyzedAt,
+    });
+  } catch (error) {
+    console.error(`[AI] Failed to cache analysis for ${advisoryLink}:`, error);
+  }
+}
 
 // Timeout for API calls (30 seconds)
 const API_TIMEOUT_MS = 30000;
 
-interface EnhancedSummary {
+// Times the model is asked to fix a response that fails validation
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const NO_CONFIDENCE: AIConfidence = { keyRisks: [], specificAreas: [] };
+
+export interface EnhancedSummary {
   summary: string;
   keyRisks: string[];
   safetyRecommendations: string[];
   specificAreas: string[];
   threatLevel?: number; // 1-4, extracted from the advisory if available
+  confidence: AIConfidence; // Whether each key risk and area is supported by the advisory text
+  translations: AlertTranslations; // The AI fields in each configured language that could be translated
   lastUpdated: string;
   aiApplied: boolean; // Flag to indicate if AI analysis actually occurred
 }
 
+type AdvisoryAnalysisResult = Omit<EnhancedSummary, 'lastUpdated' | 'translations'>;
+
+type AnalysisOperation = 'full-advisory' | 'base-summary' | 'translation';
+
+/**
+ * Make one model call, recording its tokens, cost and latency whether or not it succeeds
+ */
+async function completeAndRecord(
+  messages: ChatMessage[],
+  maxTokens: number,
+  operation: AnalysisOperation,
+  countryName: string
+): Promise<string> {
+  const startedAt = Date.now();
+  const usage = {
+    provider: llmProvider.id,
+    model: llmProvider.model,
+    operation,
+    countryName,
+  };
+
+  try {
+    const completion = await withTimeout(
+      llmProvider.complete({ messages, json: true, maxTokens }),
+      API_TIMEOUT_MS,
+      `${llmProvider.id} ${operation} call for ${countryName}`
+    );
+    await aiUsageTracker.record({
+      ...usage,
+      promptTokens: completion.promptTokens,
+      completionTokens: completion.completionTokens,
+      latencyMs: Date.now() - startedAt,
+      succeeded: true,
+    });
+    return completion.content;
+  } catch (error) {
+    await aiUsageTracker.record({ ...usage, latencyMs: Date.now() - startedAt, succeeded: false });
+    throw error;
+  }
+}
+
+/**
+ * Ask the model for JSON matching the schema. When the response doesn't parse or validate, the
+ * problems are sent back and the model gets another chance; throws once the attempts run out.
+ */
+async function completeWithRepair<T>(
+  messages: ChatMessage[],
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  maxTokens: number,
+  operation: AnalysisOperation,
+  countryName: string
+): Promise<T> {
+  let conversation = messages;
+
+  for (let attempt = 0; ; attempt++) {
+    const rawContent = await completeAndRecord(conversation, maxTokens, operation, countryName);
+
+    const parsed = parseModelResponse(rawContent, schema);
+    if (parsed.success) {
+      return parsed.data;
+    }
+
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      throw new Error(`Invalid ${operation} response for ${countryName}: ${parsed.problems.join('; ')}`);
+    }
+
+    console.warn(`[AI] Invalid ${operation} response for ${countryName}, asking for a repair (${attempt + 1}/${MAX_REPAIR_ATTEMPTS}): ${parsed.problems.join('; ')}`);
+    conversation = [
+      ...messages,
+      { role: "assistant", content: rawContent },
+      {
+        role: "user",
+        content: `Your previous response did not match the requested format:\n${parsed.problems.map(p => `- ${p}`).join('\n')}\n\nReply with only the corrected JSON object.`
+      }
+    ];
+  }
+}
+
+/**
+ * Translate the analysis into each language it doesn't have yet. A language that fails is left
+ * out, and tried again the next time the advisory is enhanced.
+ */
+async function translateEnhancement(
+  analysis: AlertTranslation & { translations?: AlertTranslations },
+  languages: string[],
+  countryName: string
+): Promise<AlertTranslations> {
+  const translations: AlertTranslations = { ...analysis.translations };
+  const source: AlertTranslation = {
+    summary: analysis.summary,
+    keyRisks: analysis.keyRisks,
+    safetyRecommendations: analysis.safetyRecommendations,
+    specificAreas: analysis.specificAreas,
+  };
+
+  for (const language of languages) {
+    if (translations[language] || aiUsageTracker.isBudgetExhausted()) continue;
+
+    const languageName = SUPPORTED_LANGUAGES[language];
+    try {
+      translations[language] = await completeWithRepair(
+        [
+          {
+            role: "system",
+            content: "You are a professional translator of travel safety information. Respond with valid JSON."
+          },
+          {
+            role: "user",
+            content: `Translate this travel advisory analysis for ${countryName} from English into ${languageName}.
+
+Keep the same JSON keys. Translate every item of each list, keeping the same number of items in the same order. Write place names the way they are usually written in ${languageName}.
+
+${JSON.stringify(source, null, 2)}`
+          }
+        ],
+        translationSchema(source),
+        1500,
+        'translation',
+        countryName
+      );
+    } catch (error) {
+      console.error(`[AI] Failed to translate the ${countryName} advisory into ${languageName}:`, error);
+    }
+  }
+
+  return translations;
+}
+
 /**
  * Utility function to add timeout to promises
  */
@@ -30,10 +291,32 @@ function withTimeout<T>(promise: Promise<T>, timeoutMs: number, operation: strin
   ]);
 }
 
+/**
+ * The original summary, marked as not analyzed
+ */
+function notEnhanced(originalSummary: string): EnhancedSummary {
+  return {
+    summary: originalSummary,
+    keyRisks: [],
+    safetyRecommendations: [],
+    specificAreas: [],
+    confidence: NO_CONFIDENCE,
+    translations: {},
+    lastUpdated: new Date().toISOString(),
+    aiApplied: false
+  };
+}
+
+/**
+ * Analyze a State Dept advisory page. A stored analysis of the same page text is reused even
+ * when the provider is unavailable or the monthly budget is spent; the model is only called
+ * when it is not.
+ */
 export async function enhanceStateDeptSummary(
   originalSummary: string, 
   advisoryLink: string,
-  countryName: string
+  countryName: string,
+  languages: string[] = translationLanguages
 ): Promise<EnhancedSummary> {
   try {
     // Fetch the full advisory page content
@@ -42,10 +325,11 @@ export async function enhanceStateDeptSummary(
     if (!pageContent) {
       // Fallback: Try AI analysis of the base summary when full page isn't available
       try {
-        if (originalSummary && originalSummary.length > 20) {
+        if (originalSummary && originalSummary.length > 20 && isAIEnhancementAvailable()) {
           const enhancedData = await analyzeBaseSummary(originalSummary, countryName);
           return {
             ...enhancedData,
+            translations: enhancedData.aiApplied ? await translateEnhancement(enhancedData, languages, countryName) : {},
             lastUpdated: new Date().toISOString(),
             aiApplied: true
           };
@@ -55,21 +339,43 @@ export async function enhanceStateDeptSummary(
       }
       
       // If fallback AI also fails, return original - NO AI applied
-      return {
-        summary: originalSummary,
-        keyRisks: [],
-        safetyRecommendations: [],
-        specificAreas: [],
-        lastUpdated: new Date().toISOString(),
-        aiApplied: false
-      };
+      return notEnhanced(originalSummary);
     }
 
-    // Use OpenAI to analyze and enhance the content
+    // Reuse the last analysis while the page text hasn't changed
+    const contentHash = hashPageContent(pageContent);
+    const stats = cacheStatsContext.getStore();
+    const cached = isReanalyzing() ? null : await getCachedEnhancement(advisoryLink, contentHash);
+    if (cached) {
+      if (stats) stats.hits++;
+
+      // Languages configured since the page was analyzed are translated now and stored with it
+      const { lastUpdated, ...result } = cached;
+      const translations = isAIEnhancementAvailable()
+        ? await translateEnhancement(cached, languages, countryName)
+        : cached.translations;
+      if (Object.keys(translations).length > Object.keys(cached.translations).length) {
+        await cacheEnhancement(advisoryLink, contentHash, { ...result, translations }, new Date(lastUpdated));
+      }
+      return { ...cached, translations, aiApplied: true };
+    }
+    if (!isAIEnhancementAvailable()) {
+      return notEnhanced(originalSummary);
+    }
+    if (stats) stats.misses++;
+
+    // Use the LLM to analyze and enhance the content
     const enhancedData = await analyzeAdvisoryContent(pageContent, countryName, originalSummary);
+    let translations: AlertTranslations = {};
+    if (enhancedData.aiApplied) {
+      const { aiApplied, ...result } = enhancedData;
+      translations = await translateEnhancement(result, languages, countryName);
+      await cacheEnhancement(advisoryLink, contentHash, { ...result, translations });
+    }
     
     return {
       ...enhancedData,
+      translations,
       lastUpdated: new Date().toISOString()
       // aiApplied is already correctly set in enhancedData - don't override it
     };
@@ -78,21 +384,14 @@ export async function enhanceStateDeptSummary(
     console.error('Error enhancing State Dept summary:', error);
     
     // Return original summary on error - NO AI applied
-    return {
-      summary: originalSummary,
-      keyRisks: [],
-      safetyRecommendations: [],
-      specificAreas: [],
-      lastUpdated: new Date().toISOString(),
-      aiApplied: false
-    };
+    return notEnhanced(originalSummary);
   }
 }
 
 async function analyzeBaseSummary(
   baseSummary: string, 
   countryName: string
-): Promise<Omit<EnhancedSummary, 'lastUpdated'>> {
+): Promise<AdvisoryAnalysisResult> {
   const prompt = `
 Analyze this US State Department travel advisory summary for ${countryName} and extract key information for travelers.
 
@@ -110,40 +409,38 @@ Focus on providing practical, actionable guidance even with limited information.
 `;
 
   try {
-    const response = await withTimeout(
-      openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [
-          {
-            role: "system",
-            content: "You are a travel safety expert. Provide practical travel guidance based on government travel advisories. Respond with valid JSON."
-          },
-          {
-            role: "user", 
-            content: prompt
-          }
-        ],
-        response_format: { type: "json_object" },
-        max_tokens: 800
-      }),
-      API_TIMEOUT_MS,
-      `OpenAI API call for ${countryName} base summary`
+    const result = await completeWithRepair(
+      [
+        {
+          role: "system",
+          content: "You are a travel safety expert. Provide practical travel guidance based on government travel advisories. Respond with valid JSON."
+        },
+        {
+          role: "user", 
+          content: prompt
+        }
+      ],
+      baseSummaryAnalysisSchema,
+      800,
+      'base-summary',
+      countryName
     );
 
-    const rawContent = response.choices[0].message.content || '{}';
-    const result = JSON.parse(rawContent);
-    
-    // Validate and structure the response
+    // Without the page there is no text to check items against, so none of them are verified
     return {
-      summary: result.summary || baseSummary,
-      keyRisks: Array.isArray(result.keyRisks) ? result.keyRisks : [],
-      safetyRecommendations: Array.isArray(result.safetyRecommendations) ? result.safetyRecommendations : [],
-      specificAreas: Array.isArray(result.specificAreas) ? result.specificAreas : [],
+      summary: result.summary,
+      keyRisks: result.keyRisks,
+      safetyRecommendations: result.safetyRecommendations,
+      specificAreas: result.specificAreas,
+      confidence: {
+        keyRisks: markUnverified(result.keyRisks),
+        specificAreas: markUnverified(result.specificAreas),
+      },
       aiApplied: true
     };
 
   } catch (error) {
-    console.error('Error analyzing base summary with OpenAI:', error);
+    console.error(`Error analyzing base summary with ${llmProvider.id}:`, error);
     
     // Return original summary on AI failure
     return {
@@ -151,6 +448,7 @@ Focus on providing practical, actionable guidance even with limited information.
       keyRisks: [],
       safetyRecommendations: [],
       specificAreas: [],
+      confidence: NO_CONFIDENCE,
       aiApplied: false
     };
   }
@@ -158,7 +456,7 @@ Focus on providing practical, actionable guidance even with limited information.
 
 async function fetchAdvisoryPageContent(url: string): Promise<string | null> {
   try {
-    const response = await fetch(url, {
+    const response = await pageFetcher(url, {
       headers: {
         'User-Agent': 'Mozilla/5.0 (compatible; Global Advisor Bot/1.0)'
       }
@@ -304,7 +602,7 @@ async function analyzeAdvisoryContent(
   pageContent: string, 
   countryName: string, 
   originalSummary: string
-): Promise<Omit<EnhancedSummary, 'lastUpdated'>> {
+): Promise<AdvisoryAnalysisResult> {
   
   // Truncate content if too long (GPT-5 has high token limits but we should be conservative)
   const maxContentLength = 15000;
@@ -332,19 +630,16 @@ Please provide a comprehensive analysis in JSON format with these fields:
 Focus on extracting concrete, actionable information that would help travelers make informed decisions. Include specific details about crime patterns, safe areas, transportation safety, health precautions, and any special circumstances.
 `;
 
-  try{
-    // Use a working model with structured outputs for reliable results
-    const response = await withTimeout(
-      openai.chat.completions.create({
-        model: "gpt-4o-mini", // Use gpt-4o-mini which is known to work reliably with structured outputs
-        messages: [
-          {
-            role: "system",
-            content: "You are a travel safety expert who analyzes government travel advisories. Respond with valid JSON that provides detailed, practical guidance for travelers."
-          },
-          {
-            role: "user", 
-            content: `Analyze this US State Department travel advisory for ${countryName} and provide detailed, actionable information.
+  try {
+    const result = await completeWithRepair(
+      [
+        {
+          role: "system",
+          content: "You are a travel safety expert who analyzes government travel advisories. Respond with valid JSON that provides detailed, practical guidance for travelers."
+        },
+        {
+          role: "user", 
+          content: `Analyze this US State Department travel advisory for ${countryName} and provide detailed, actionable information.
 
 Original summary: "${originalSummary}"
 
@@ -357,43 +652,37 @@ Provide a comprehensive analysis in JSON format with:
 - keyRisks: Array of 3-6 specific risks or threats mentioned  
 - safetyRecommendations: Array of 3-6 specific safety recommendations
 - specificAreas: Array of specific cities, regions, or areas mentioned`
-          }
-        ],
-        response_format: { type: "json_object" },
-        max_tokens: 1000
-      }),
-      API_TIMEOUT_MS,
-      `OpenAI API call for ${countryName} full advisory`
+        }
+      ],
+      advisoryAnalysisSchema,
+      1000,
+      'full-advisory',
+      countryName
     );
 
-    // Extract JSON content from chat completions response
-    const rawContent = response.choices[0].message.content || '{}';
-    const result = JSON.parse(rawContent);
-    
-    // Validate that essential fields are present - be flexible with arrays
-    if (!result.summary || result.summary.length < 20) {
-      result.summary = originalSummary; // Fallback to original
+    // Keep only the areas and risks the advisory text supports
+    const risks = groundItems(result.keyRisks, pageContent);
+    const areas = groundItems(result.specificAreas, pageContent);
+    const dropped = [...risks.dropped, ...areas.dropped];
+    if (dropped.length > 0) {
+      console.warn(`[AI] Dropped ${dropped.length} items not found in the ${countryName} advisory: ${dropped.join('; ')}`);
     }
-    
-    // Validate threat level if provided
-    const extractedThreatLevel = typeof result.threatLevel === 'number' && 
-                                  result.threatLevel >= 1 && 
-                                  result.threatLevel <= 4 
-                                    ? result.threatLevel 
-                                    : undefined;
-    
-    // Return structured result
+
     return {
-      summary: result.summary || originalSummary,
-      keyRisks: Array.isArray(result.keyRisks) ? result.keyRisks : [],
-      safetyRecommendations: Array.isArray(result.safetyRecommendations) ? result.safetyRecommendations : [],
-      specificAreas: Array.isArray(result.specificAreas) ? result.specificAreas : [],
-      threatLevel: extractedThreatLevel,
+      summary: result.summary,
+      keyRisks: risks.items,
+      safetyRecommendations: result.safetyRecommendations,
+      specificAreas: areas.items,
+      threatLevel: result.threatLevel,
+      confidence: {
+        keyRisks: risks.confidence,
+        specificAreas: areas.confidence,
+      },
       aiApplied: true // AI analysis was successfully applied
     };
 
   } catch (error) {
-    console.error('Error analyzing advisory content with OpenAI:', error);
+    console.error(`Error analyzing advisory content with ${llmProvider.id}:`, error);
     
     // Return original summary on AI failure - NO AI applied, no user-facing error message
     return {
@@ -401,12 +690,14 @@ Provide a comprehensive analysis in JSON format with:
       keyRisks: [],
       safetyRecommendations: [],
       specificAreas: [],
+      confidence: NO_CONFIDENCE,
       aiApplied: false
     };
   }
 }
 
-// Utility function to check if AI enhancement is available
+// Utility function to check if AI enhancement is available:
+// a provider is configured and this month's AI budget isn't spent
 export function isAIEnhancementAvailable(): boolean {
-  return !!process.env.OPENAI_API_KEY;
+  return llmProvider.isAvailable() && !aiUsageTracker.isBudgetExhausted();
 }
\ No newline at end of file
@@ -1,5 +1,5 @@
 import puppeteer from 'puppeteer';
-import { type SearchResult } from '@shared/schema';
+import { type SearchResult, type TripAssessment } from '@shared/schema';
 
 // HTML escape function to prevent HTML injection attacks
 function escapeHtml(unsafe: string): string {
@@ -14,7 +14,11 @@ function escapeHtml(unsafe: string): string {
     .replace(/'/g, "&#039;");
 }
 
-export async function generatePDFReport(searchResults: SearchResult, searchQuery: string): Promise<Buffer> {
+/**
+ * Render search results as a PDF. Passing a trip assessment turns the report into a
+ * pre-travel briefing with the itinerary summarized ahead of the country sections.
+ */
+export async function generatePDFReport(searchResults: SearchResult, searchQuery: string, tripBriefing?: TripAssessment): Promise<Buffer> {
   const browser = await puppeteer.launch({
     args: [
       '--no-sandbox',
@@ -36,7 +40,7 @@ export async function generatePDFReport(searchResults: SearchResult, searchQuery
   try {
     const page = await browser.newPage();
     
-    const html = generateHTMLTemplate(searchResults, searchQuery);
+    const html = generateHTMLTemplate(searchResults, searchQuery, tripBriefing);
     
     await page.setContent(html, { 
       waitUntil: 'networkidle0',
@@ -55,7 +59,7 @@ export async function generatePDFReport(searchResults: SearchResult, searchQuery
       displayHeaderFooter: true,
       headerTemplate: `
         <div style="font-size: 10px; color: #666; width: 100%; text-align: center; margin-top: 5mm;">
-          <span>Global Advisor - Travel Safety Report</span>
+          <span>Global Advisor - ${tripBriefing ? 'Pre-Travel Briefing' : 'Travel Safety Report'}</span>
         </div>
       `,
       footerTemplate: `
@@ -71,7 +75,7 @@ export async function generatePDFReport(searchResults: SearchResult, searchQuery
   }
 }
 
-function generateHTMLTemplate(searchResults: SearchResult, searchQuery: string): string {
+function generateHTMLTemplate(searchResults: SearchResult, searchQuery: string, tripBriefing?: TripAssessment): string {
   const currentDate = new Date().toLocaleDateString('en-US', { 
     year: 'numeric', 
     month: 'long', 
@@ -109,7 +113,7 @@ function generateHTMLTemplate(searchResults: SearchResult, searchQuery: string):
   // Removed getSeverityBadgeColor function - using clean styling without background colors
 
   const countriesHTML = searchResults.map(countryData => {
-    const { country, alerts, background, embassies } = countryData;
+    const { country, alerts, background, embassies, sections } = countryData;
     const threatLevel = getStateDeptThreatLevel(alerts);
     const threatColor = getThreatLevelColor(threatLevel);
 
@@ -238,6 +242,30 @@ function generateHTMLTemplate(searchResults: SearchResult, searchQuery: string):
           `}
         </div>
 
+        ${sections && sections.length > 0 ? `
+          <div class="section">
+            <h3 class="section-title">
+              <svg class="section-icon" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+                <path d="M2 3h6a4 4 0 0 1 4 4v14a3 3 0 0 0-3-3H2z"/>
+                <path d="M22 3h-6a4 4 0 0 0-4 4v14a3 3 0 0 1 3-3h7z"/>
+              </svg>
+              Full Travel Advice
+            </h3>
+            ${sections.map(section => `
+              <div class="advice-section">
+                <div class="advice-section-header">
+                  <h4 class="advice-section-title">${escapeHtml(section.title)}</h4>
+                  <span class="advice-section-meta">${escapeHtml(section.source)} &middot; Updated ${new Date(section.updatedAt).toLocaleDateString()}</span>
+                </div>
+                <div class="advice-section-body">${section.html}</div>
+                <div class="alert-link">
+                  <strong>Source:</strong> <a href="${escapeHtml(section.link)}">${escapeHtml(section.link)}</a>
+                </div>
+              </div>
+            `).join('')}
+          </div>
+        ` : ''}
+
         <div class="section">
           <h3 class="section-title">
             <svg class="section-icon" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
@@ -331,6 +359,49 @@ function generateHTMLTemplate(searchResults: SearchResult, searchQuery: string):
     `;
   }).join('');
 
+  const formatName = (name: string) => name.replace(/\b[a-z]/g, c => c.toUpperCase());
+
+  const summaryHTML = tripBriefing ? `
+      <div class="search-summary">
+        <h3>Trip: ${escapeHtml(tripBriefing.trip.name)}</h3>
+        <p><strong>Dates:</strong> ${escapeHtml(tripBriefing.trip.legs.map(l => l.startDate).sort()[0] || '')} to ${escapeHtml(tripBriefing.trip.legs.map(l => l.endDate).sort().pop() || '')}</p>
+        <p><strong>Highest Advisory Level:</strong> ${getThreatLevelText(tripBriefing.highestLevel)}</p>
+        ${tripBriefing.trip.notes ? `<p><strong>Notes:</strong> ${escapeHtml(tripBriefing.trip.notes)}</p>` : ''}
+        <table class="itinerary-table">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Destination</th>
+              <th>Dates</th>
+              <th>Advisory</th>
+              <th>Nearest US Embassy</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${tripBriefing.legs.map(leg => `
+              <tr>
+                <td>${leg.legIndex + 1}</td>
+                <td>${escapeHtml(leg.leg.city ? `${leg.leg.city}, ${formatName(leg.leg.countryName)}` : formatName(leg.leg.countryName))}</td>
+                <td>${escapeHtml(leg.leg.startDate)} – ${escapeHtml(leg.leg.endDate)}</td>
+                <td><span class="level-dot" style="background-color: ${getThreatLevelColor(leg.stateDeptLevel)};"></span>${leg.stateDeptLevel ? `Level ${leg.stateDeptLevel}` : 'N/A'}</td>
+                <td>${leg.nearestEmbassy ? `
+                  ${escapeHtml(leg.nearestEmbassy.name)}${leg.embassyDistanceKm !== null ? ` (${leg.embassyDistanceKm} km)` : ''}
+                  ${leg.nearestEmbassy.phone ? `<br/><span class="itinerary-detail">${escapeHtml(leg.nearestEmbassy.phone)}</span>` : ''}
+                ` : 'Not available'}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      </div>
+  ` : `
+      <div class="search-summary">
+        <h3>Search Results Summary</h3>
+        <p><strong>Search Query:</strong> ${escapeHtml(searchQuery)}</p>
+        <p><strong>Countries Found:</strong> ${searchResults.length}</p>
+        <p><strong>Total Alerts:</strong> ${searchResults.reduce((total, country) => total + country.alerts.length, 0)}</p>
+      </div>
+  `;
+
   return `
     <!DOCTYPE html>
     <html lang="en">
@@ -385,6 +456,38 @@ function generateHTMLTemplate(searchResults: SearchResult, searchQuery: string):
           border-left: 4px solid #2563eb;
         }
         
+        .itinerary-table {
+          width: 100%;
+          border-collapse: collapse;
+          margin-top: 15px;
+          font-size: 13px;
+        }
+        
+        .itinerary-table th, .itinerary-table td {
+          text-align: left;
+          padding: 6px 8px;
+          border-bottom: 1px solid #e5e7eb;
+          vertical-align: top;
+        }
+        
+        .itinerary-table th {
+          color: #6b7280;
+          font-weight: 600;
+        }
+        
+        .itinerary-detail {
+          color: #6b7280;
+          font-size: 12px;
+        }
+        
+        .level-dot {
+          display: inline-block;
+          width: 10px;
+          height: 10px;
+          border-radius: 50%;
+          margin-right: 6px;
+        }
+        
         .country-section {
           margin-bottom: 50px;
           page-break-inside: avoid;
@@ -640,6 +743,63 @@ function generateHTMLTemplate(searchResults: SearchResult, searchQuery: string):
           margin-bottom: 0;
         }
         
+        /* Full Travel Advice Styles (section HTML is sanitized when stored) */
+        .advice-section {
+          border-top: 1px solid #e5e7eb;
+          padding-top: 12px;
+          margin-bottom: 15px;
+        }
+        
+        .advice-section-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: baseline;
+          gap: 10px;
+          margin-bottom: 6px;
+        }
+        
+        .advice-section-title {
+          color: #1e40af;
+          font-size: 15px;
+          font-weight: 600;
+        }
+        
+        .advice-section-meta {
+          color: #6b7280;
+          font-size: 11px;
+          white-space: nowrap;
+        }
+        
+        .advice-section-body {
+          font-size: 13px;
+          color: #374151;
+          line-height: 1.5;
+        }
+        
+        .advice-section-body h2,
+        .advice-section-body h3,
+        .advice-section-body h4 {
+          font-size: 14px;
+          font-weight: 600;
+          color: #1f2937;
+          margin: 10px 0 4px;
+        }
+        
+        .advice-section-body p {
+          margin: 0 0 6px;
+        }
+        
+        .advice-section-body ul,
+        .advice-section-body ol {
+          margin: 0 0 6px;
+          padding-left: 18px;
+        }
+        
+        .advice-section-body a {
+          color: #2563eb;
+          text-decoration: none;
+        }
+        
         /* Embassy Section Styles */
         .embassies-container {
           /* Spacing handled by margin-bottom on .embassy-item */
@@ -705,16 +865,11 @@ function generateHTMLTemplate(searchResults: SearchResult, searchQuery: string):
     <body>
       <div class="header">
         <div class="logo">🌍 Global Advisor</div>
-        <div class="report-title">Travel Safety Report</div>
+        <div class="report-title">${tripBriefing ? 'Pre-Travel Briefing' : 'Travel Safety Report'}</div>
         <div class="report-meta">Generated on ${currentDate}</div>
       </div>
       
-      <div class="search-summary">
-        <h3>Search Results Summary</h3>
-        <p><strong>Search Query:</strong> ${escapeHtml(searchQuery)}</p>
-        <p><strong>Countries Found:</strong> ${searchResults.length}</p>
-        <p><strong>Total Alerts:</strong> ${searchResults.reduce((total, country) => total + country.alerts.length, 0)}</p>
-      </div>
+      ${summaryHTML}
       
       ${countriesHTML}
     </body>
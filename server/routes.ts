@@ -3,13 +3,34 @@ import { createServer, type Server } from "http";
 import { storage, waitForStorage } from "./storage";
 import { dataFetcher } from "./services/dataFetcher";
 import { scheduler } from "./services/scheduler";
-import { bulkDownloadService } from "./services/bulkDownloadService";
+import { bulkDownloadService, type EnqueueJobOptions } from "./services/bulkDownloadService";
 import { embassyDataFetcher } from "./services/embassyFetcher";
+import { alertSourceRegistry } from "./services/alertSources";
+import { buildAdvisoryTimeline } from "./services/alertHistory";
+import { advisoryEvents } from "./services/changeDetection";
+import { notificationService } from "./services/notifiers";
+import { createWatchlistFilter } from "./services/watchlists";
+import { tripPlanner } from "./services/tripPlanner";
+import { cronJobScheduler, DEFAULT_SCHEDULE_TIMEZONE } from "./services/jobScheduler";
+import { getNextRunAt, validateSchedule } from "./services/cronSchedule";
+import { schedulerLease } from "./services/leaderLease";
+import { compareQueuedJobs, getCountriesInRegion, getRegions } from "./services/jobQueue";
+import { formatSseEvent, jobEvents, TERMINAL_JOB_STATUSES } from "./services/jobEvents";
+import { isAIEnhancementAvailable } from "./aiService";
+import { localizeCountryData, resolveRequestLanguage } from "./services/translations";
+import { aiUsageTracker, getMonthKey, getMonthRange, summarizeAIUsage } from "./services/aiUsage";
+import { riskScorer } from "./services/riskScore";
+import { regionAdvisoryService } from "./services/regionAdvisories";
+import { outboundHttp } from "./utils/outboundHttp";
+import { getCountryByCode, resolveCountry } from "@shared/countries";
 import { generatePDFReport } from "./pdfService";
-import { type SearchResult } from "@shared/schema";
+import { type Country, type SearchResult, type WatchlistSubscription, type TripLeg, insertWatchlistSchema, insertTripSchema, insertScheduledJobSchema, createBulkJobRequestSchema, JOB_PRIORITIES, JOB_COUNTRY_STATUSES, type CreateBulkJobRequest } from "@shared/schema";
 import { z } from "zod";
 
 // Validation schemas
+// How often a job progress stream sends a keep-alive, and re-reads jobs running on another instance
+const JOB_STREAM_POLL_MS = 5000;
+
 const pdfExportSchema = z.object({
   countries: z.string().min(1, "Countries parameter is required").transform(str => 
     str.split(",").map(name => name.trim()).filter(name => name)
@@ -18,12 +39,168 @@ const pdfExportSchema = z.object({
   })
 });
 
+const aiUsageQuerySchema = z.object({
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must be formatted as YYYY-MM").optional(),
+});
+
+// Countries whose region boundaries one request may load; each is a multi-MB dataset upstream
+const MAX_BOUNDARY_COUNTRIES = 10;
+
+const regionBoundariesQuerySchema = z.object({
+  countries: z.string({ required_error: "Countries parameter is required" }).transform(str =>
+    str.split(",").map(name => name.trim()).filter(name => name)
+  ).refine(arr => arr.length > 0, {
+    message: "At least one country name is required"
+  }).refine(arr => arr.length <= MAX_BOUNDARY_COUNTRIES, {
+    message: `At most ${MAX_BOUNDARY_COUNTRIES} countries can be requested at once`
+  })
+});
+
+const entryRequirementsQuerySchema = z.object({
+  destination: z.string().trim().min(1, "Destination is required"),
+  nationality: z.string().trim().min(1).optional(),
+});
+
+/**
+ * Normalize watchlist country names and check source ids, collecting a message per problem.
+ * A country listed twice keeps its last subscription.
+ */
+function normalizeWatchlistSubscriptions(subscriptions: WatchlistSubscription[]): { subscriptions: WatchlistSubscription[]; errors: string[] } {
+  const byCountry = new Map<string, WatchlistSubscription>();
+  const errors: string[] = [];
+
+  for (const subscription of subscriptions) {
+    const validation = dataFetcher.validateCountryName(subscription.countryName);
+    if (!validation.isValid) {
+      const message = `'${subscription.countryName}' is not a recognized country name`;
+      errors.push(validation.suggestion ? `${message}. Did you mean '${validation.suggestion}'?` : message);
+      continue;
+    }
+
+    const unknownSources = subscription.sources.filter(id => !alertSourceRegistry.get(id));
+    if (unknownSources.length > 0) {
+      errors.push(`Unknown alert source(s) for '${subscription.countryName}': ${unknownSources.join(", ")}`);
+      continue;
+    }
+
+    byCountry.set(validation.normalizedName!, {
+      ...subscription,
+      countryName: validation.normalizedName!,
+      sources: Array.from(new Set(subscription.sources)),
+    });
+  }
+
+  return { subscriptions: Array.from(byCountry.values()), errors };
+}
+
+/**
+ * Normalize the country name of every trip leg, collecting a message per unrecognized name
+ */
+function normalizeTripLegs(legs: TripLeg[]): { legs: TripLeg[]; errors: string[] } {
+  const errors: string[] = [];
+  const normalized = legs.map((leg, index) => {
+    const validation = dataFetcher.validateCountryName(leg.countryName);
+    if (!validation.isValid) {
+      const message = `Leg ${index + 1}: '${leg.countryName}' is not a recognized country name`;
+      errors.push(validation.suggestion ? `${message}. Did you mean '${validation.suggestion}'?` : message);
+      return leg;
+    }
+    return { ...leg, countryName: validation.normalizedName! };
+  });
+
+  return { legs: normalized, errors };
+}
+
+/**
+ * Check that a scheduled job names a registered task and has a valid cron expression and time zone
+ */
+function validateScheduledJob(task: string, cronExpression: string, timezone: string): string[] {
+  const errors: string[] = [];
+  const tasks = cronJobScheduler.getTaskNames();
+  if (!tasks.includes(task)) {
+    errors.push(`Unknown task '${task}'. Available tasks: ${tasks.join(", ")}`);
+  }
+  const scheduleError = validateSchedule(cronExpression, timezone);
+  if (scheduleError) {
+    errors.push(scheduleError);
+  }
+  return errors;
+}
+
+/**
+ * Turn a job request into queue options: country names are normalized, a region is expanded
+ * to its countries and source ids are checked against the registry
+ */
+function resolveJobRequest(request: CreateBulkJobRequest): { options: EnqueueJobOptions; errors: string[] } {
+  const errors: string[] = [];
+  let countries: string[] | null = null;
+
+  if (request.countries) {
+    countries = [];
+    for (const name of request.countries) {
+      const validation = dataFetcher.validateCountryName(name);
+      if (!validation.isValid) {
+        const message = `'${name}' is not a recognized country name`;
+        errors.push(validation.suggestion ? `${message}. Did you mean '${validation.suggestion}'?` : message);
+      } else if (!countries.includes(validation.normalizedName!)) {
+        countries.push(validation.normalizedName!);
+      }
+    }
+  } else if (request.region) {
+    countries = getCountriesInRegion(request.region);
+    if (countries.length === 0) {
+      errors.push(`Unknown region '${request.region}'. Available regions: ${getRegions().join(", ")}`);
+    }
+  }
+
+  if (request.sourceIds) {
+    if (request.type !== 'alerts') {
+      errors.push(`sourceIds only apply to alerts jobs`);
+    }
+    const unknownSources = request.sourceIds.filter(id => !alertSourceRegistry.get(id)?.enabled);
+    if (unknownSources.length > 0) {
+      errors.push(`Unknown or disabled alert source(s): ${unknownSources.join(", ")}`);
+    }
+  }
+
+  if (request.type === 'ai-enhancement' && !isAIEnhancementAvailable()) {
+    errors.push(aiUsageTracker.isBudgetExhausted()
+      ? "AI enhancement is not available - monthly AI budget reached"
+      : "AI enhancement is not available - LLM provider not configured");
+  }
+
+  return {
+    options: {
+      type: request.type,
+      countries,
+      region: request.region ?? null,
+      sourceIds: request.sourceIds ? Array.from(new Set(request.sourceIds)) : null,
+      priority: JOB_PRIORITIES[request.priority],
+    },
+    errors,
+  };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Wait for storage to be initialized before registering routes
   await waitForStorage();
+
+  // Start the AI budget from what this month has already spent
+  await aiUsageTracker.refresh();
   
+  // Only the instance holding the scheduler lease runs scheduled work and resumes interrupted jobs
+  await schedulerLease.start();
+
   // Initialize bulk download service to recover any orphaned jobs
   await bulkDownloadService.initialize();
+
+  // Deliver advisory level changes to the configured notification channels,
+  // limited to watched countries once any watchlist exists
+  notificationService.setFilter(createWatchlistFilter(
+    () => storage.getAllWatchlists(),
+    label => alertSourceRegistry.getAll().find(source => source.label === label)?.id,
+  ));
+  notificationService.start(advisoryEvents);
   
   // Search countries endpoint
   app.get("/api/search", async (req, res) => {
@@ -41,6 +218,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "At least one country name is required" });
       }
 
+      const requestLanguage = resolveRequestLanguage(req.query.lang, req.headers["accept-language"]);
+      if (!requestLanguage.success) {
+        return res.status(400).json({ error: "Invalid input parameters", details: [requestLanguage.error] });
+      }
+
       // Validate each country name before processing
       const validationResults = countryNames.map(countryName => {
         const validation = dataFetcher.validateCountryName(countryName);
@@ -89,11 +271,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       const results = await Promise.all(fetchPromises);
-      const validResults = results.filter(result => result !== undefined);
+      const validResults = results
+        .filter(result => result !== undefined)
+        .map(result => localizeCountryData(result, requestLanguage.language));
 
       const elapsedTime = Date.now() - startTime;
       console.log(`[Search Performance] Query: "${countries}" | Time: ${elapsedTime}ms | Cache hits: ${cacheHits}/${validCountryNames.length} | Cache misses: ${cacheMisses}`);
 
+      res.vary("Accept-Language");
+      res.setHeader("Content-Language", requestLanguage.language);
       res.json({
         results: validResults,
         totalFound: validResults.length,
@@ -111,7 +297,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const countries = await storage.getAllCountriesWithData();
       
-      // Extract US State Dept threat level (1-4) for each country
+      // Extract US State Dept threat level (1-4) and the composite risk score across sources for each country
       const countriesWithThreat = countries.map(countryData => {
         const stateDeptAlert = countryData.alerts.find(alert => alert.source === "US State Dept");
         let threatLevel: number | null = null;
@@ -124,6 +310,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return {
           country: countryData.country,
           threatLevel, // null or 1-4
+          riskScore: riskScorer.score(countryData.alerts), // null when the country has no alerts
           lastUpdated: countryData.country.lastUpdated,
           alertCount: countryData.alerts.length
         };
@@ -136,6 +323,114 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Provinces and states that advisories single out, optionally for one country
+  app.get("/api/region-advisories", async (req, res) => {
+    try {
+      const name = typeof req.query.country === 'string' ? req.query.country : undefined;
+      if (!name) {
+        return res.json({ regions: await storage.getRegionAdvisories() });
+      }
+
+      const validation = dataFetcher.validateCountryName(name);
+      if (!validation.isValid) {
+        const message = `'${name}' is not a recognized country name`;
+        const error = validation.suggestion
+          ? `${message}. Did you mean '${validation.suggestion}'?`
+          : message;
+        return res.status(404).json({ error });
+      }
+
+      const country = await storage.getCountryByName(validation.normalizedName!);
+      res.json({
+        country: country ?? null,
+        regions: country ? await storage.getRegionAdvisories(country.id) : [],
+      });
+    } catch (error) {
+      console.error("Failed to fetch region advisories:", error);
+      res.status(500).json({ error: "Failed to fetch region advisories" });
+    }
+  });
+
+  // Visa, passport, vaccination and currency rules for a destination, optionally for one
+  // nationality (ISO alpha-2 code or country name)
+  app.get("/api/entry-requirements", async (req, res) => {
+    try {
+      const query = entryRequirementsQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({
+          error: "Invalid input parameters",
+          details: query.error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+        });
+      }
+
+      const { destination, nationality: nationalityParam } = query.data;
+      const nationality = nationalityParam
+        ? (getCountryByCode(nationalityParam) ?? resolveCountry(nationalityParam))?.alpha2
+        : undefined;
+      if (nationalityParam && !nationality) {
+        return res.status(400).json({
+          error: "Invalid input parameters",
+          details: [`nationality: '${nationalityParam}' is not a recognized country code or name`]
+        });
+      }
+
+      const validation = dataFetcher.validateCountryName(destination);
+      if (!validation.isValid) {
+        const message = `'${destination}' is not a recognized country name`;
+        const error = validation.suggestion
+          ? `${message}. Did you mean '${validation.suggestion}'?`
+          : message;
+        return res.status(404).json({ error });
+      }
+
+      const country = await storage.getCountryByName(validation.normalizedName!);
+      const all = country ? await storage.getEntryRequirements(country.id) : [];
+      res.json({
+        destination: country ?? null,
+        nationality: nationality ?? null,
+        requirements: nationality ? all.filter(requirement => requirement.nationality === nationality) : all,
+        nationalities: Array.from(new Set(all.map(requirement => requirement.nationality))).sort(),
+      });
+    } catch (error) {
+      console.error("Failed to fetch entry requirements:", error);
+      res.status(500).json({ error: "Failed to fetch entry requirements" });
+    }
+  });
+
+  // Region advisories of the listed countries (?countries=a,b) as GeoJSON admin-1 boundaries.
+  // The threat map asks for the countries in view rather than every country at once.
+  app.get("/api/region-advisories/boundaries", async (req, res) => {
+    try {
+      const query = regionBoundariesQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({
+          error: "Invalid input parameters",
+          details: query.error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+        });
+      }
+
+      const countries: Country[] = [];
+      for (const name of query.data.countries) {
+        const validation = dataFetcher.validateCountryName(name);
+        if (!validation.isValid) {
+          const message = `'${name}' is not a recognized country name`;
+          const error = validation.suggestion
+            ? `${message}. Did you mean '${validation.suggestion}'?`
+            : message;
+          return res.status(404).json({ error });
+        }
+
+        const country = await storage.getCountryByName(validation.normalizedName!);
+        if (country) countries.push(country);
+      }
+
+      res.json(await regionAdvisoryService.getBoundaryCollection(countries));
+    } catch (error) {
+      console.error("Failed to fetch region boundaries:", error);
+      res.status(500).json({ error: "Failed to fetch region boundaries" });
+    }
+  });
+
   // PDF Export endpoint
   app.post("/api/export/pdf", async (req, res) => {
     try {
@@ -230,6 +525,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error });
       }
 
+      const requestLanguage = resolveRequestLanguage(req.query.lang, req.headers["accept-language"]);
+      if (!requestLanguage.success) {
+        return res.status(400).json({ error: "Invalid input parameters", details: [requestLanguage.error] });
+      }
+      res.vary("Accept-Language");
+      res.setHeader("Content-Language", requestLanguage.language);
+
       const normalizedName = validation.normalizedName!;
       const countryData = await storage.getCountryData(normalizedName);
       
@@ -242,23 +544,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(404).json({ error: "Country not found" });
         }
         
-        return res.json(newData);
+        return res.json(localizeCountryData(newData, requestLanguage.language));
       }
 
-      res.json(countryData);
+      res.json(localizeCountryData(countryData, requestLanguage.language));
     } catch (error) {
       console.error("Country fetch error:", error);
       res.status(500).json({ error: "Failed to fetch country data" });
     }
   });
 
+  // Advisory revision timeline for a country
+  app.get("/api/country/:name/history", async (req, res) => {
+    try {
+      const { name } = req.params;
+      const source = typeof req.query.source === 'string' ? req.query.source : undefined;
+
+      const validation = dataFetcher.validateCountryName(name);
+      if (!validation.isValid) {
+        const message = `'${name}' is not a recognized country name`;
+        const error = validation.suggestion 
+          ? `${message}. Did you mean '${validation.suggestion}'?`
+          : message;
+        return res.status(404).json({ error });
+      }
+
+      const country = await storage.getCountryByName(validation.normalizedName!);
+      if (!country) {
+        return res.status(404).json({ error: "No history recorded for this country yet" });
+      }
+
+      const revisions = await storage.getAlertRevisionsByCountryId(country.id, source);
+      res.json({
+        country,
+        timeline: buildAdvisoryTimeline(revisions),
+      });
+    } catch (error) {
+      console.error("Country history error:", error);
+      res.status(500).json({ error: "Failed to fetch country history" });
+    }
+  });
+
   // Force refresh country data
   app.post("/api/refresh/:name", async (req, res) => {
     try {
       const { name } = req.params;
-      await scheduler.forceRefresh(name);
+      const validation = dataFetcher.validateCountryName(name);
+      if (!validation.isValid) {
+        const message = `'${name}' is not a recognized country name`;
+        const error = validation.suggestion
+          ? `${message}. Did you mean '${validation.suggestion}'?`
+          : message;
+        return res.status(404).json({ error });
+      }
+
+      await scheduler.forceRefresh(validation.normalizedName!);
       
-      const updatedData = await storage.getCountryData(name);
+      const updatedData = await storage.getCountryData(validation.normalizedName!);
       res.json({
         message: "Data refreshed successfully",
         data: updatedData,
@@ -271,31 +613,93 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Get system status
   app.get("/api/status", async (req, res) => {
-    const { getDatabaseStatus } = await import("./db");
-    const dbStatus = getDatabaseStatus();
-    
+    try {
+      const { getDatabaseStatus } = await import("./db");
+      const dbStatus = getDatabaseStatus();
+
+      res.json({
+        status: "online",
+        lastUpdated: new Date().toISOString(),
+        alertRefreshInterval: "6 hours",
+        alertSources: alertSourceRegistry.describe(),
+        backgroundRefreshInterval: "7 days",
+        refreshQueue: await scheduler.getQueueStatus(),
+        scheduledJobs: (await storage.getAllScheduledJobs()).map(job => ({
+          id: job.id,
+          task: job.task,
+          cronExpression: job.cronExpression,
+          timezone: job.timezone,
+          enabled: job.enabled,
+          nextRunAt: job.nextRunAt,
+          lastRunStatus: job.lastRunStatus,
+        })),
+        notificationChannels: notificationService.getNotifierIds(),
+        instance: {
+          holderId: schedulerLease.holderId,
+          isSchedulerLeader: schedulerLease.isHolder(),
+          leaseExpiresAt: schedulerLease.getExpiresAt(),
+        },
+        throttledHosts: outboundHttp.getThrottledHosts(),
+        aiBudget: aiUsageTracker.getBudgetStatus(),
+        database: {
+          connected: dbStatus.hasConnection,
+          status: dbStatus.status,
+        },
+      });
+    } catch (error) {
+      console.error("Failed to fetch status:", error);
+      res.status(500).json({ error: "Failed to fetch status" });
+    }
+  });
+
+  // List registered alert sources and whether they are enabled in this deployment
+  app.get("/api/sources", (req, res) => {
+    const sources = alertSourceRegistry.describe();
     res.json({
-      status: "online",
-      lastUpdated: new Date().toISOString(),
-      alertRefreshInterval: "6 hours",
-      backgroundRefreshInterval: "7 days",
-      weeklyBulkDownload: "Sundays at 1 AM",
-      database: {
-        connected: dbStatus.hasConnection,
-        status: dbStatus.status,
-      },
+      sources,
+      enabledCount: sources.filter(source => source.enabled).length,
     });
   });
 
+  // LLM calls, tokens and estimated cost for a month (?month=YYYY-MM, default this month).
+  // The current month also reports the budget.
+  app.get("/api/ai/usage", async (req, res) => {
+    try {
+      const validation = aiUsageQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid input parameters",
+          details: validation.error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+        });
+      }
+
+      const currentMonth = getMonthKey();
+      const month = validation.data.month ?? currentMonth;
+      const { from, to } = getMonthRange(month);
+      const summary = summarizeAIUsage(month, await storage.getAIUsage(from, to));
+
+      let budget = null;
+      if (month === currentMonth) {
+        await aiUsageTracker.refresh();
+        budget = aiUsageTracker.getBudgetStatus();
+      }
+
+      res.json({ ...summary, budget });
+    } catch (error) {
+      console.error("Error getting AI usage:", error);
+      res.status(500).json({ error: "Failed to get AI usage" });
+    }
+  });
+
   // Start bulk refresh of all US State Dept advisories
   app.post("/api/refresh-advisories", async (req, res) => {
     try {
       const jobId = await bulkDownloadService.downloadAllStateDeptAdvisories();
       
       res.json({
-        message: "Bulk download started successfully",
+        message: "Bulk download queued successfully",
         jobId,
-        status: "running",
+        status: "queued",
       });
     } catch (error) {
       console.error("Bulk download error:", error);
@@ -306,33 +710,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get progress of a bulk download job
   app.get("/api/refresh-status/:jobId", async (req, res) => {
     try {
-      const { jobId } = req.params;
-      
-      // First check in-memory progress
-      const memoryProgress = bulkDownloadService.getJobProgress(jobId);
-      if (memoryProgress) {
-        return res.json(memoryProgress);
-      }
-
-      // If not in memory, check database
-      const dbJob = await storage.getBulkJob(jobId);
-      if (!dbJob) {
+      const progress = await bulkDownloadService.getJobStatus(req.params.jobId);
+      if (!progress) {
         return res.status(404).json({ error: "Job not found" });
       }
 
-      // Convert database job to progress format
-      const progress = {
-        jobId: dbJob.id,
-        status: dbJob.status as 'running' | 'completed' | 'failed' | 'cancelled',
-        totalCountries: dbJob.totalCountries,
-        processedCountries: dbJob.processedCountries,
-        failedCountries: dbJob.failedCountries,
-        currentCountry: null,
-        startedAt: dbJob.startedAt,
-        completedAt: dbJob.completedAt,
-        errors: dbJob.errorLog || [],
-      };
-
       res.json(progress);
     } catch (error) {
       console.error("Get job progress error:", error);
@@ -340,6 +722,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Per-country progress of a job, optionally filtered by status (?status=failed or ?status=completed,failed)
+  app.get("/api/refresh-status/:jobId/countries", async (req, res) => {
+    try {
+      const statuses = typeof req.query.status === 'string'
+        ? req.query.status.split(',').map(status => status.trim()).filter(Boolean)
+        : [];
+      const unknown = statuses.filter(status => !(JOB_COUNTRY_STATUSES as readonly string[]).includes(status));
+      if (unknown.length > 0) {
+        return res.status(400).json({
+          error: "Invalid status filter",
+          details: unknown.map(status => `Unknown status "${status}". Valid statuses: ${JOB_COUNTRY_STATUSES.join(', ')}`),
+        });
+      }
+
+      const job = await storage.getBulkJob(req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      const countries = (await storage.getJobCountryProgress(job.id))
+        .filter(progress => statuses.length === 0 || statuses.includes(progress.status))
+        .sort((a, b) => a.countryName.localeCompare(b.countryName));
+
+      res.json({ jobId: job.id, countries, total: countries.length });
+    } catch (error) {
+      console.error("Get job countries error:", error);
+      res.status(500).json({ error: "Failed to get job countries" });
+    }
+  });
+
+  // Queue a child job that retries only the countries a finished job failed on
+  app.post("/api/refresh-retry/:jobId", async (req, res) => {
+    try {
+      const job = await storage.getBulkJob(req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      if (job.status === 'queued' || job.status === 'running') {
+        return res.status(409).json({ error: "Job has not finished yet" });
+      }
+
+      const failedCountries = (await storage.getJobCountryProgress(job.id))
+        .filter(progress => progress.status === 'failed')
+        .map(progress => progress.countryName);
+      if (failedCountries.length === 0) {
+        return res.status(400).json({ error: "Job has no failed countries to retry" });
+      }
+
+      const jobId = await bulkDownloadService.retryFailedCountries(job, failedCountries);
+      res.status(202).json({
+        message: `Queued a retry of ${failedCountries.length} failed countries`,
+        jobId,
+        parentJobId: job.id,
+        countries: failedCountries,
+      });
+    } catch (error) {
+      console.error("Retry failed countries error:", error);
+      res.status(500).json({ error: "Failed to retry failed countries" });
+    }
+  });
+
   // Get recent bulk download jobs
   app.get("/api/refresh-history", async (req, res) => {
     try {
@@ -376,12 +819,158 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Queue a job of any type for all countries, a list of countries or a region
+  app.post("/api/jobs", async (req, res) => {
+    try {
+      const validation = createBulkJobRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid input parameters",
+          details: validation.error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+        });
+      }
+
+      const { options, errors } = resolveJobRequest(validation.data);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: "Invalid job request", details: errors });
+      }
+
+      const jobId = await bulkDownloadService.enqueueJob(options);
+      const progress = await bulkDownloadService.getJobStatus(jobId);
+      res.status(202).json(progress);
+    } catch (error) {
+      console.error("Create job error:", error);
+      res.status(500).json({ error: "Failed to queue job" });
+    }
+  });
+
+  // List jobs; filtering by status (comma-separated) returns them in queue order
+  app.get("/api/jobs", async (req, res) => {
+    try {
+      const statuses = typeof req.query.status === 'string'
+        ? req.query.status.split(',').map(status => status.trim()).filter(Boolean)
+        : [];
+      const jobs = statuses.length > 0
+        ? (await storage.getBulkJobsByStatus(statuses)).sort(compareQueuedJobs)
+        : await storage.getAllBulkJobs(req.query.limit ? parseInt(req.query.limit as string) : 50);
+
+      res.json({ jobs, total: jobs.length });
+    } catch (error) {
+      console.error("Get jobs error:", error);
+      res.status(500).json({ error: "Failed to get jobs" });
+    }
+  });
+
+  // Get progress of a job
+  app.get("/api/jobs/:id", async (req, res) => {
+    try {
+      const progress = await bulkDownloadService.getJobStatus(req.params.id);
+      if (!progress) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      res.json(progress);
+    } catch (error) {
+      console.error("Get job error:", error);
+      res.status(500).json({ error: "Failed to get job" });
+    }
+  });
+
+  // Stream a job's progress as Server-Sent Events. Starts with a snapshot of the job, then sends
+  // country and status events while this instance runs it. Jobs running on another instance are
+  // followed by re-reading their stored progress.
+  app.get("/api/jobs/:id/events", async (req, res) => {
+    const jobId = req.params.id;
+    let initial;
+    try {
+      initial = await bulkDownloadService.getJobStatus(jobId);
+    } catch (error) {
+      console.error("Job events error:", error);
+      return res.status(500).json({ error: "Failed to get job" });
+    }
+    if (!initial) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.write(formatSseEvent('snapshot', initial));
+
+    let lastSnapshot = JSON.stringify(initial);
+    let unsubscribe = () => {};
+    let pollTimer: NodeJS.Timeout | undefined;
+    let closed = false;
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      unsubscribe();
+      clearInterval(pollTimer);
+      res.end();
+    };
+
+    if (TERMINAL_JOB_STATUSES.includes(initial.status)) {
+      return close();
+    }
+
+    unsubscribe = jobEvents.subscribe(jobId, (event) => {
+      res.write(formatSseEvent(event.type, event));
+      if (event.type === 'status' && TERMINAL_JOB_STATUSES.includes(event.status)) {
+        close();
+      }
+    });
+
+    pollTimer = setInterval(async () => {
+      if (bulkDownloadService.getJobProgress(jobId)?.status === 'running') {
+        res.write(': keep-alive\n\n');
+        return;
+      }
+
+      try {
+        const progress = await bulkDownloadService.getJobStatus(jobId);
+        if (closed) return;
+        if (!progress) return close();
+
+        const snapshot = JSON.stringify(progress);
+        if (snapshot === lastSnapshot) {
+          res.write(': keep-alive\n\n');
+          return;
+        }
+        lastSnapshot = snapshot;
+        res.write(formatSseEvent('snapshot', progress));
+        if (TERMINAL_JOB_STATUSES.includes(progress.status)) {
+          close();
+        }
+      } catch (error) {
+        console.error("Job events poll error:", error);
+      }
+    }, JOB_STREAM_POLL_MS);
+
+    req.on('close', close);
+  });
+
+  // Cancel a queued or running job
+  app.post("/api/jobs/:id/cancel", async (req, res) => {
+    try {
+      const cancelled = await bulkDownloadService.cancelJob(req.params.id);
+      if (!cancelled) {
+        return res.status(404).json({ error: "Job not found or not queued or running" });
+      }
+      res.json({ message: "Job cancelled successfully", jobId: req.params.id });
+    } catch (error) {
+      console.error("Cancel job error:", error);
+      res.status(500).json({ error: "Failed to cancel job" });
+    }
+  });
+
   // Debug endpoint to test OSM API directly (must be before :countryCode route)
   app.get("/api/embassies/test-osm", async (req, res) => {
     try {
       const query = '[out:json][timeout:25];(node["office"="diplomatic"]["country"="US"];way["office"="diplomatic"]["country"="US"];);out body center;';
       
-      const response = await fetch('https://overpass-api.de/api/interpreter', {
+      const response = await outboundHttp.fetch('https://overpass-api.de/api/interpreter', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
@@ -470,6 +1059,360 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // List watchlists
+  app.get("/api/watchlists", async (req, res) => {
+    try {
+      const watchlists = await storage.getAllWatchlists();
+      res.json({ watchlists });
+    } catch (error) {
+      console.error("Get watchlists error:", error);
+      res.status(500).json({ error: "Failed to fetch watchlists" });
+    }
+  });
+
+  // Get a single watchlist
+  app.get("/api/watchlists/:id", async (req, res) => {
+    try {
+      const watchlist = await storage.getWatchlist(req.params.id);
+      if (!watchlist) {
+        return res.status(404).json({ error: "Watchlist not found" });
+      }
+      res.json(watchlist);
+    } catch (error) {
+      console.error("Get watchlist error:", error);
+      res.status(500).json({ error: "Failed to fetch watchlist" });
+    }
+  });
+
+  // Create a watchlist
+  app.post("/api/watchlists", async (req, res) => {
+    try {
+      const validation = insertWatchlistSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid input parameters",
+          details: validation.error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+        });
+      }
+
+      const { subscriptions, errors } = normalizeWatchlistSubscriptions(validation.data.countries);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: "Invalid watchlist countries", details: errors });
+      }
+
+      const watchlist = await storage.createWatchlist({ ...validation.data, countries: subscriptions });
+      res.status(201).json(watchlist);
+    } catch (error) {
+      console.error("Create watchlist error:", error);
+      res.status(500).json({ error: "Failed to create watchlist" });
+    }
+  });
+
+  // Update a watchlist's name and/or country subscriptions
+  app.patch("/api/watchlists/:id", async (req, res) => {
+    try {
+      const validation = insertWatchlistSchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid input parameters",
+          details: validation.error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+        });
+      }
+
+      const updates = { ...validation.data };
+      if (updates.countries) {
+        const { subscriptions, errors } = normalizeWatchlistSubscriptions(updates.countries);
+        if (errors.length > 0) {
+          return res.status(400).json({ error: "Invalid watchlist countries", details: errors });
+        }
+        updates.countries = subscriptions;
+      }
+
+      const watchlist = await storage.updateWatchlist(req.params.id, updates);
+      if (!watchlist) {
+        return res.status(404).json({ error: "Watchlist not found" });
+      }
+      res.json(watchlist);
+    } catch (error) {
+      console.error("Update watchlist error:", error);
+      res.status(500).json({ error: "Failed to update watchlist" });
+    }
+  });
+
+  // Delete a watchlist
+  app.delete("/api/watchlists/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteWatchlist(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Watchlist not found" });
+      }
+      res.json({ message: "Watchlist deleted" });
+    } catch (error) {
+      console.error("Delete watchlist error:", error);
+      res.status(500).json({ error: "Failed to delete watchlist" });
+    }
+  });
+
+  // List trips, most recent first
+  app.get("/api/trips", async (req, res) => {
+    try {
+      const trips = await storage.getAllTrips();
+      res.json({ trips });
+    } catch (error) {
+      console.error("Get trips error:", error);
+      res.status(500).json({ error: "Failed to fetch trips" });
+    }
+  });
+
+  // Get a single trip
+  app.get("/api/trips/:id", async (req, res) => {
+    try {
+      const trip = await storage.getTrip(req.params.id);
+      if (!trip) {
+        return res.status(404).json({ error: "Trip not found" });
+      }
+      res.json(trip);
+    } catch (error) {
+      console.error("Get trip error:", error);
+      res.status(500).json({ error: "Failed to fetch trip" });
+    }
+  });
+
+  // Create a trip
+  app.post("/api/trips", async (req, res) => {
+    try {
+      const validation = insertTripSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid input parameters",
+          details: validation.error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+        });
+      }
+
+      const { legs, errors } = normalizeTripLegs(validation.data.legs);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: "Invalid trip legs", details: errors });
+      }
+
+      const trip = await storage.createTrip({ ...validation.data, legs });
+      res.status(201).json(trip);
+    } catch (error) {
+      console.error("Create trip error:", error);
+      res.status(500).json({ error: "Failed to create trip" });
+    }
+  });
+
+  // Update a trip's name, notes and/or legs
+  app.patch("/api/trips/:id", async (req, res) => {
+    try {
+      const validation = insertTripSchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid input parameters",
+          details: validation.error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+        });
+      }
+
+      const updates = { ...validation.data };
+      if (updates.legs) {
+        const { legs, errors } = normalizeTripLegs(updates.legs);
+        if (errors.length > 0) {
+          return res.status(400).json({ error: "Invalid trip legs", details: errors });
+        }
+        updates.legs = legs;
+      }
+
+      const trip = await storage.updateTrip(req.params.id, updates);
+      if (!trip) {
+        return res.status(404).json({ error: "Trip not found" });
+      }
+      res.json(trip);
+    } catch (error) {
+      console.error("Update trip error:", error);
+      res.status(500).json({ error: "Failed to update trip" });
+    }
+  });
+
+  // Delete a trip
+  app.delete("/api/trips/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteTrip(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Trip not found" });
+      }
+      res.json({ message: "Trip deleted" });
+    } catch (error) {
+      console.error("Delete trip error:", error);
+      res.status(500).json({ error: "Failed to delete trip" });
+    }
+  });
+
+  // Per-leg risk, highest level across the trip and nearest embassy for each leg
+  app.get("/api/trips/:id/assessment", async (req, res) => {
+    try {
+      const trip = await storage.getTrip(req.params.id);
+      if (!trip) {
+        return res.status(404).json({ error: "Trip not found" });
+      }
+
+      trip.legs.forEach(leg => scheduler.addCountryToRefresh(leg.countryName));
+      const assessment = await tripPlanner.assess(trip);
+      res.json(assessment);
+    } catch (error) {
+      console.error("Trip assessment error:", error);
+      res.status(500).json({ error: "Failed to assess trip" });
+    }
+  });
+
+  // Export a trip as a pre-travel briefing PDF
+  app.post("/api/trips/:id/export/pdf", async (req, res) => {
+    try {
+      const trip = await storage.getTrip(req.params.id);
+      if (!trip) {
+        return res.status(404).json({ error: "Trip not found" });
+      }
+
+      trip.legs.forEach(leg => scheduler.addCountryToRefresh(leg.countryName));
+      const { assessment, searchResults } = await tripPlanner.buildBriefing(trip);
+      const pdfBuffer = await generatePDFReport(searchResults, trip.name, assessment);
+
+      const slug = trip.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'trip';
+      const filename = `trip-briefing-${slug}-${new Date().toISOString().split('T')[0]}.pdf`;
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.setHeader('Content-Length', pdfBuffer.length);
+
+      res.send(pdfBuffer);
+    } catch (error) {
+      console.error("Trip PDF export error:", error);
+      res.status(500).json({ error: "Failed to generate trip briefing" });
+    }
+  });
+
+  // List scheduled jobs and the tasks they can run
+  app.get("/api/schedules", async (req, res) => {
+    try {
+      const jobs = await storage.getAllScheduledJobs();
+      res.json({ jobs, tasks: cronJobScheduler.getTaskNames() });
+    } catch (error) {
+      console.error("Get schedules error:", error);
+      res.status(500).json({ error: "Failed to fetch scheduled jobs" });
+    }
+  });
+
+  // Get a single scheduled job
+  app.get("/api/schedules/:id", async (req, res) => {
+    try {
+      const job = await storage.getScheduledJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: "Scheduled job not found" });
+      }
+      res.json({ ...job, isRunning: cronJobScheduler.isRunning(job.id) });
+    } catch (error) {
+      console.error("Get schedule error:", error);
+      res.status(500).json({ error: "Failed to fetch scheduled job" });
+    }
+  });
+
+  // Create a scheduled job
+  app.post("/api/schedules", async (req, res) => {
+    try {
+      const validation = insertScheduledJobSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid input parameters",
+          details: validation.error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+        });
+      }
+
+      const input = { ...validation.data, timezone: validation.data.timezone || DEFAULT_SCHEDULE_TIMEZONE };
+      const errors = validateScheduledJob(input.task, input.cronExpression, input.timezone);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: "Invalid schedule", details: errors });
+      }
+
+      if (input.id && await storage.getScheduledJob(input.id)) {
+        return res.status(409).json({ error: `Scheduled job '${input.id}' already exists` });
+      }
+
+      const job = await storage.createScheduledJob({
+        ...input,
+        nextRunAt: getNextRunAt(input.cronExpression, input.timezone, new Date()),
+      });
+      res.status(201).json(job);
+    } catch (error) {
+      console.error("Create schedule error:", error);
+      res.status(500).json({ error: "Failed to create scheduled job" });
+    }
+  });
+
+  // Update a scheduled job; the next run is recomputed when the schedule or enabled flag changes
+  app.patch("/api/schedules/:id", async (req, res) => {
+    try {
+      const validation = insertScheduledJobSchema.omit({ id: true }).partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid input parameters",
+          details: validation.error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+        });
+      }
+
+      const existing = await storage.getScheduledJob(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Scheduled job not found" });
+      }
+
+      const merged = { ...existing, ...validation.data };
+      const errors = validateScheduledJob(merged.task, merged.cronExpression, merged.timezone);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: "Invalid schedule", details: errors });
+      }
+
+      const scheduleChanged = merged.cronExpression !== existing.cronExpression ||
+        merged.timezone !== existing.timezone ||
+        merged.enabled !== existing.enabled;
+      const job = await storage.updateScheduledJob(req.params.id, scheduleChanged
+        ? { ...validation.data, nextRunAt: getNextRunAt(merged.cronExpression, merged.timezone, new Date()) }
+        : validation.data);
+      res.json(job);
+    } catch (error) {
+      console.error("Update schedule error:", error);
+      res.status(500).json({ error: "Failed to update scheduled job" });
+    }
+  });
+
+  // Delete a scheduled job
+  app.delete("/api/schedules/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteScheduledJob(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Scheduled job not found" });
+      }
+      res.json({ message: "Scheduled job deleted" });
+    } catch (error) {
+      console.error("Delete schedule error:", error);
+      res.status(500).json({ error: "Failed to delete scheduled job" });
+    }
+  });
+
+  // Run a scheduled job now, outside its schedule
+  app.post("/api/schedules/:id/run", async (req, res) => {
+    try {
+      const job = await storage.getScheduledJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: "Scheduled job not found" });
+      }
+      if (!(await cronJobScheduler.startJob(job, 'manual'))) {
+        return res.status(409).json({ error: "Scheduled job is already running" });
+      }
+
+      res.status(202).json({ message: `Started ${job.name}`, jobId: job.id });
+    } catch (error) {
+      console.error("Run schedule error:", error);
+      res.status(500).json({ error: "Failed to run scheduled job" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
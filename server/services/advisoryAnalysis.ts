@@ -0,0 +1,138 @@
+import { z } from "zod";
+import type { AIConfidenceLevel, AIItemConfidence } from "@shared/schema";
+
+/**
+ * Validation and grounding of the model's advisory analyses. The model's JSON is checked against
+ * a schema before use, and each extracted area or risk is looked up in the advisory text, so
+ * items the model made up are dropped or flagged instead of shown as fact.
+ */
+
+const itemList = z.array(z.string().trim().min(1)).max(12).default([]);
+
+export const advisoryAnalysisSchema = z.object({
+  // Some models send null for "not found" rather than leaving the field out
+  threatLevel: z.number().int().min(1).max(4).nullish().transform(level => level ?? undefined),
+  summary: z.string().trim().min(20, "must be at least 20 characters"),
+  keyRisks: itemList,
+  safetyRecommendations: itemList,
+  specificAreas: itemList,
+});
+
+// The base-summary prompt doesn't ask for a threat level
+export const baseSummaryAnalysisSchema = advisoryAnalysisSchema.omit({ threatLevel: true });
+
+export type AdvisoryAnalysis = z.infer<typeof advisoryAnalysisSchema>;
+
+export type ParsedModelResponse<T> =
+  | { success: true; data: T }
+  | { success: false; problems: string[] };
+
+/**
+ * Parse and validate raw model output. Problems are phrased so they can be sent back to the
+ * model when asking it to repair its answer.
+ */
+export function parseModelResponse<T>(raw: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): ParsedModelResponse<T> {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    return { success: false, problems: ["The response is not valid JSON"] };
+  }
+
+  const validation = schema.safeParse(json);
+  if (!validation.success) {
+    return {
+      success: false,
+      problems: validation.error.errors.map(err => `${err.path.join('.') || 'response'}: ${err.message}`),
+    };
+  }
+  return { success: true, data: validation.data };
+}
+
+// An item is grounded when most of its words appear in the advisory, and kept as unverified
+// when only some do. Below that it has no support in the text and is dropped.
+const GROUNDED_THRESHOLD = 0.6;
+const UNVERIFIED_THRESHOLD = 0.3;
+
+// Words that say nothing about whether the advisory supports an item
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'due', 'for', 'from', 'in', 'into', 'is',
+  'it', 'may', 'near', 'of', 'on', 'or', 'other', 'such', 'the', 'their', 'to', 'with', 'within',
+  'area', 'areas', 'including', 'especially', 'particularly', 'possible', 'potential', 'risk', 'risks',
+  'some', 'travel', 'travelers', 'travellers',
+]);
+
+/**
+ * Lowercase, strip accents and punctuation, and collapse whitespace
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function significantTerms(normalizedItem: string): string[] {
+  const terms = normalizedItem.split(' ').filter(term => term.length >= 3 && !STOP_WORDS.has(term));
+  return Array.from(new Set(terms));
+}
+
+// Trim the ending of longer words so "attacks" matches "attacking" and "disrupting" matches "disruptions"
+function stem(term: string): string {
+  return term.length > 5 ? term.slice(0, -2) : term;
+}
+
+/**
+ * Fraction of the item's significant words found in the source text, from 0 to 1.
+ * An item appearing word for word always scores 1.
+ */
+export function scoreSupport(item: string, normalizedSource: string): number {
+  const normalizedItem = normalizeText(item);
+  const source = ` ${normalizedSource} `;
+  if (normalizedItem && source.includes(` ${normalizedItem} `)) {
+    return 1;
+  }
+
+  const terms = significantTerms(normalizedItem);
+  if (terms.length === 0) return 0;
+
+  const found = terms.filter(term => source.includes(` ${stem(term)}`)).length;
+  return found / terms.length;
+}
+
+export interface GroundingResult {
+  items: string[]; // Supported items, in the model's order
+  confidence: AIItemConfidence[];
+  dropped: string[];
+}
+
+/**
+ * Check each item against the text it was extracted from
+ */
+export function groundItems(items: string[], sourceText: string): GroundingResult {
+  const normalizedSource = normalizeText(sourceText);
+  const result: GroundingResult = { items: [], confidence: [], dropped: [] };
+
+  for (const item of items) {
+    const support = scoreSupport(item, normalizedSource);
+    if (support < UNVERIFIED_THRESHOLD) {
+      result.dropped.push(item);
+      continue;
+    }
+
+    const confidence: AIConfidenceLevel = support >= GROUNDED_THRESHOLD ? 'grounded' : 'unverified';
+    result.items.push(item);
+    result.confidence.push({ item, confidence });
+  }
+
+  return result;
+}
+
+/**
+ * Confidence for items that had no source text to be checked against
+ */
+export function markUnverified(items: string[]): AIItemConfidence[] {
+  return items.map(item => ({ item, confidence: 'unverified' }));
+}
@@ -0,0 +1,191 @@
+import { createHash } from "crypto";
+import { JSDOM } from "jsdom";
+import type { AdvisorySection, AdvisorySectionCategory, InsertAdvisorySection } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+
+export interface AdvisoryPart {
+  title?: string;
+  slug?: string;
+  body?: string;
+}
+
+export type AdvisorySectionStore = Pick<IStorage, 'getAdvisorySectionsByCountryId' | 'replaceAdvisorySections'>;
+
+// Tags kept in stored HTML with the attributes each may carry; other tags are unwrapped
+const ALLOWED_TAGS: Record<string, string[]> = {
+  a: ['href', 'title'],
+  abbr: ['title'],
+  p: [], br: [], hr: [],
+  h2: [], h3: [], h4: [], h5: [], h6: [],
+  ul: [], ol: [], li: [], dl: [], dt: [], dd: [],
+  strong: [], em: [], b: [], i: [], sup: [], sub: [], blockquote: [],
+  table: [], caption: [], thead: [], tbody: [], tr: [],
+  th: ['colspan', 'rowspan', 'scope'],
+  td: ['colspan', 'rowspan'],
+};
+
+// Tags removed together with their content
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'iframe', 'object', 'embed', 'form', 'input', 'button', 'select', 'textarea',
+  'noscript', 'template', 'svg', 'math', 'link', 'meta',
+]);
+
+const SAFE_LINK_PROTOCOLS = new Set(['http:', 'https:', 'mailto:', 'tel:']);
+
+// Matched against "<slug> <title>", most specific first
+const SECTION_CATEGORY_PATTERNS: Array<{ pattern: RegExp; category: AdvisorySectionCategory }> = [
+  { pattern: /\bsummary\b|latest update/, category: "summary" },
+  { pattern: /\bwarnings?\b|insurance/, category: "warnings" },
+  { pattern: /terror/, category: "terrorism" },
+  { pattern: /safety|security/, category: "safety-and-security" },
+  { pattern: /\blaws?\b|customs/, category: "local-laws" },
+  { pattern: /entry|visa/, category: "entry-requirements" },
+  { pattern: /health|vaccin/, category: "health" },
+  { pattern: /natural[- ]disasters?|climate/, category: "natural-disasters" },
+  { pattern: /getting[- ]help|help and support|emergenc/, category: "getting-help" },
+];
+
+/**
+ * Resolve a link against the page it came from, dropping javascript: and other unsafe schemes
+ */
+function toSafeHref(href: string | null, baseUrl: string): string | null {
+  if (!href) return null;
+  try {
+    const url = new URL(href, baseUrl);
+    return SAFE_LINK_PROTOCOLS.has(url.protocol) ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reduce advisory HTML to a small set of formatting tags with no scripts, styles or event
+ * handlers. Links are made absolute against baseUrl and open in a new tab.
+ */
+export function sanitizeAdvisoryHtml(html: string, baseUrl: string): string {
+  const document = new JSDOM(`<body>${html}</body>`).window.document;
+
+  const clean = (parent: Element) => {
+    for (const node of Array.from(parent.childNodes)) {
+      if (node.nodeType === node.COMMENT_NODE) {
+        node.remove();
+        continue;
+      }
+      if (node.nodeType !== node.ELEMENT_NODE) continue;
+
+      const element = node as Element;
+      const tag = element.tagName.toLowerCase();
+      if (DROPPED_TAGS.has(tag)) {
+        element.remove();
+        continue;
+      }
+
+      clean(element);
+
+      const allowedAttributes = ALLOWED_TAGS[tag];
+      if (!allowedAttributes) {
+        element.replaceWith(...Array.from(element.childNodes));
+        continue;
+      }
+
+      for (const attribute of Array.from(element.attributes)) {
+        if (!allowedAttributes.includes(attribute.name)) {
+          element.removeAttribute(attribute.name);
+        }
+      }
+
+      if (tag === 'a') {
+        const href = toSafeHref(element.getAttribute('href'), baseUrl);
+        if (href) {
+          element.setAttribute('href', href);
+          element.setAttribute('target', '_blank');
+          element.setAttribute('rel', 'noopener noreferrer');
+        } else {
+          element.removeAttribute('href');
+        }
+      }
+    }
+  };
+
+  clean(document.body);
+  return document.body.innerHTML.trim();
+}
+
+/**
+ * Topic of an advisory part, from its slug and title
+ */
+export function classifyAdvisorySection(slug: string, title: string): AdvisorySectionCategory {
+  const text = `${slug} ${title}`.toLowerCase();
+  return SECTION_CATEGORY_PATTERNS.find(({ pattern }) => pattern.test(text))?.category ?? "other";
+}
+
+/**
+ * Turn the parts of an advice into sections. A section keeps its previous updatedAt while its
+ * sanitized HTML is unchanged; new or changed sections take publishedAt, since the parts carry
+ * no timestamps of their own.
+ */
+export function buildAdvisorySections(
+  countryId: string,
+  source: string,
+  adviceLink: string,
+  parts: AdvisoryPart[],
+  publishedAt: Date,
+  previous: AdvisorySection[] = []
+): InsertAdvisorySection[] {
+  const sections: InsertAdvisorySection[] = [];
+
+  for (const part of parts) {
+    if (!part.slug || !part.body) continue;
+
+    const link = `${adviceLink}/${part.slug}`;
+    const html = sanitizeAdvisoryHtml(part.body, link);
+    if (!html) continue;
+
+    const title = part.title?.trim() || part.slug;
+    const contentHash = createHash('sha256').update(html).digest('hex');
+    const unchanged = previous.find(section =>
+      section.source === source && section.slug === part.slug && section.contentHash === contentHash
+    );
+
+    sections.push({
+      countryId,
+      source,
+      slug: part.slug,
+      category: classifyAdvisorySection(part.slug, title),
+      title,
+      html,
+      link,
+      position: sections.length,
+      contentHash,
+      updatedAt: unchanged?.updatedAt ?? publishedAt,
+    });
+  }
+
+  return sections;
+}
+
+export class AdvisorySectionService {
+  constructor(private readonly store: AdvisorySectionStore = storage) {}
+
+  /**
+   * Replace a source's sections for a country with the parts of its latest advice
+   */
+  async saveSections(
+    countryId: string,
+    source: string,
+    adviceLink: string,
+    parts: AdvisoryPart[],
+    publishedAt: Date
+  ): Promise<AdvisorySection[] | null> {
+    try {
+      const previous = await this.store.getAdvisorySectionsByCountryId(countryId);
+      const sections = buildAdvisorySections(countryId, source, adviceLink, parts, publishedAt, previous);
+      return await this.store.replaceAdvisorySections(countryId, source, sections);
+    } catch (error) {
+      console.error(`[AdvisorySections] Failed to save ${source} sections for ${countryId}:`, error);
+      return null;
+    }
+  }
+}
+
+export const advisorySectionService = new AdvisorySectionService();
@@ -0,0 +1,276 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { storage, type IStorage } from "../storage";
+import type { AIUsage, InsertAIUsage } from "@shared/schema";
+
+export type AIUsageStore = Pick<IStorage, 'recordAIUsage' | 'getAIUsage'>;
+
+export interface ModelPricing {
+  inputPerMillion: number; // USD per million prompt tokens
+  outputPerMillion: number; // USD per million completion tokens
+}
+
+// List prices of the OpenAI models we use. Models not listed (local servers, the mock) are free
+// unless LLM_INPUT_COST_PER_MILLION and LLM_OUTPUT_COST_PER_MILLION price the configured model.
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4.1-nano': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+};
+
+export interface AIBudgetStatus {
+  month: string; // YYYY-MM, UTC
+  limitUsd: number | null; // null when no budget is configured
+  spentUsd: number;
+  remainingUsd: number | null;
+  exhausted: boolean;
+}
+
+interface UsageTotals {
+  calls: number;
+  failedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCostUsd: number;
+}
+
+export interface AIUsageSummary {
+  month: string;
+  totals: UsageTotals & { averageLatencyMs: number };
+  byModel: Array<UsageTotals & { model: string }>;
+  byJob: Array<UsageTotals & { jobId: string | null }>; // null groups calls made outside bulk jobs
+  byCountry: Array<UsageTotals & { countryName: string }>; // Most expensive first
+}
+
+const TOP_COUNTRIES = 10;
+
+/**
+ * Month key (YYYY-MM, UTC) of a date
+ */
+export function getMonthKey(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Start (inclusive) and end (exclusive) of a YYYY-MM month in UTC
+ */
+export function getMonthRange(month: string): { from: Date; to: Date } {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return {
+    from: new Date(Date.UTC(year, monthIndex - 1, 1)),
+    to: new Date(Date.UTC(year, monthIndex, 1)),
+  };
+}
+
+/**
+ * Price of a model: an exact entry, or the longest entry the model name extends
+ * (e.g. "gpt-4o-mini-2024-07-18" is priced as "gpt-4o-mini")
+ */
+export function getModelPricing(model: string, pricing: Record<string, ModelPricing> = MODEL_PRICING): ModelPricing | null {
+  if (pricing[model]) return pricing[model];
+
+  const prefix = Object.keys(pricing)
+    .filter(name => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? pricing[prefix] : null;
+}
+
+export function estimateCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  pricing: Record<string, ModelPricing> = MODEL_PRICING
+): number {
+  const price = getModelPricing(model, pricing);
+  if (!price) return 0;
+  return (promptTokens * price.inputPerMillion + completionTokens * price.outputPerMillion) / 1_000_000;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, failedCalls: 0, promptTokens: 0, completionTokens: 0, estimatedCostUsd: 0 };
+}
+
+function addUsage(totals: UsageTotals, usage: AIUsage): void {
+  totals.calls++;
+  if (!usage.succeeded) totals.failedCalls++;
+  totals.promptTokens += usage.promptTokens;
+  totals.completionTokens += usage.completionTokens;
+  totals.estimatedCostUsd += usage.estimatedCostUsd;
+}
+
+function groupUsage<K>(rows: AIUsage[], keyOf: (usage: AIUsage) => K): Map<K, UsageTotals> {
+  const groups = new Map<K, UsageTotals>();
+  for (const usage of rows) {
+    const key = keyOf(usage);
+    let totals = groups.get(key);
+    if (!totals) {
+      totals = emptyTotals();
+      groups.set(key, totals);
+    }
+    addUsage(totals, usage);
+  }
+  return groups;
+}
+
+/**
+ * Totals of a month's calls, overall and per model, job and country
+ */
+export function summarizeAIUsage(month: string, rows: AIUsage[]): AIUsageSummary {
+  const totals = emptyTotals();
+  let latencyMs = 0;
+  for (const usage of rows) {
+    addUsage(totals, usage);
+    latencyMs += usage.latencyMs;
+  }
+
+  const countries = Array.from(groupUsage(rows.filter(u => u.countryName), u => u.countryName!).entries())
+    .map(([countryName, t]) => ({ countryName, ...t }))
+    .sort((a, b) => b.estimatedCostUsd - a.estimatedCostUsd || b.calls - a.calls)
+    .slice(0, TOP_COUNTRIES);
+
+  return {
+    month,
+    totals: { ...totals, averageLatencyMs: rows.length > 0 ? Math.round(latencyMs / rows.length) : 0 },
+    byModel: Array.from(groupUsage(rows, u => u.model).entries()).map(([model, t]) => ({ model, ...t })),
+    byJob: Array.from(groupUsage(rows, u => u.jobId).entries()).map(([jobId, t]) => ({ jobId, ...t })),
+    byCountry: countries,
+  };
+}
+
+/**
+ * Records every LLM call and keeps a running total of this month's estimated spend, so the
+ * budget can be checked without a query before each call. Calls already in flight when the
+ * budget is reached still finish, so spend can overshoot it by a few calls.
+ */
+export class AIUsageTracker {
+  private month = getMonthKey();
+  private spentUsd = 0;
+  private exhaustedWarned = false;
+  private readonly jobContext = new AsyncLocalStorage<string>();
+
+  constructor(
+    private monthlyBudgetUsd: number | null,
+    private readonly pricing: Record<string, ModelPricing> = MODEL_PRICING,
+    private store: AIUsageStore = storage,
+  ) {}
+
+  /**
+   * Replace where usage is recorded, e.g. with a MemStorage in tests
+   */
+  setStore(store: AIUsageStore): void {
+    this.store = store;
+  }
+
+  setMonthlyBudget(limitUsd: number | null): void {
+    this.monthlyBudgetUsd = limitUsd;
+    this.exhaustedWarned = false;
+  }
+
+  /**
+   * Re-read this month's spend from storage, picking up calls made by other instances
+   */
+  async refresh(now: Date = new Date()): Promise<void> {
+    const month = getMonthKey(now);
+    const { from, to } = getMonthRange(month);
+    try {
+      const rows = await this.store.getAIUsage(from, to);
+      this.month = month;
+      this.spentUsd = rows.reduce((total, usage) => total + usage.estimatedCostUsd, 0);
+    } catch (error) {
+      console.error('[AIUsage] Failed to load this month\'s AI usage:', error);
+    }
+  }
+
+  /**
+   * Run work with every LLM call it makes attributed to a bulk job
+   */
+  runForJob<T>(jobId: string, work: () => Promise<T>): Promise<T> {
+    return this.jobContext.run(jobId, work);
+  }
+
+  /**
+   * Store a call, pricing it from its token counts. Never throws, so accounting can't fail an enhancement.
+   */
+  async record(usage: Omit<InsertAIUsage, 'estimatedCostUsd' | 'jobId'>): Promise<AIUsage | null> {
+    const promptTokens = usage.promptTokens ?? 0;
+    const completionTokens = usage.completionTokens ?? 0;
+    const estimatedCostUsd = estimateCost(usage.model, promptTokens, completionTokens, this.pricing);
+
+    const at = usage.createdAt ?? new Date();
+    this.rollOver(at);
+    this.spentUsd += estimatedCostUsd;
+    if (this.isBudgetExhausted(at) && !this.exhaustedWarned) {
+      this.exhaustedWarned = true;
+      console.warn(`[AIUsage] Monthly AI budget of $${this.monthlyBudgetUsd} reached ($${this.spentUsd.toFixed(4)} spent) - AI enhancement is off until next month`);
+    }
+
+    try {
+      return await this.store.recordAIUsage({
+        ...usage,
+        promptTokens,
+        completionTokens,
+        estimatedCostUsd,
+        jobId: this.jobContext.getStore() ?? null,
+        createdAt: at,
+      });
+    } catch (error) {
+      console.error('[AIUsage] Failed to record AI usage:', error);
+      return null;
+    }
+  }
+
+  isBudgetExhausted(now: Date = new Date()): boolean {
+    this.rollOver(now);
+    return this.monthlyBudgetUsd !== null && this.spentUsd >= this.monthlyBudgetUsd;
+  }
+
+  getBudgetStatus(now: Date = new Date()): AIBudgetStatus {
+    const exhausted = this.isBudgetExhausted(now);
+    return {
+      month: this.month,
+      limitUsd: this.monthlyBudgetUsd,
+      spentUsd: this.spentUsd,
+      remainingUsd: this.monthlyBudgetUsd === null ? null : Math.max(this.monthlyBudgetUsd - this.spentUsd, 0),
+      exhausted,
+    };
+  }
+
+  // Spend starts from zero each calendar month
+  private rollOver(now: Date): void {
+    const month = getMonthKey(now);
+    if (month !== this.month) {
+      this.month = month;
+      this.spentUsd = 0;
+      this.exhaustedWarned = false;
+    }
+  }
+}
+
+function parsePrice(value: string | undefined): number | null {
+  if (value === undefined || value === '') return null;
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : null;
+}
+
+/**
+ * Build the tracker from AI_MONTHLY_BUDGET_USD (unset means no budget), and the optional
+ * LLM_INPUT_COST_PER_MILLION / LLM_OUTPUT_COST_PER_MILLION prices for the configured LLM_MODEL
+ */
+export function createAIUsageTrackerFromEnv(env: NodeJS.ProcessEnv = process.env): AIUsageTracker {
+  const budget = parsePrice(env.AI_MONTHLY_BUDGET_USD);
+  if (env.AI_MONTHLY_BUDGET_USD && budget === null) {
+    console.error(`[AIUsage] Ignoring invalid AI_MONTHLY_BUDGET_USD "${env.AI_MONTHLY_BUDGET_USD}"`);
+  }
+
+  const pricing = { ...MODEL_PRICING };
+  const inputPrice = parsePrice(env.LLM_INPUT_COST_PER_MILLION);
+  const outputPrice = parsePrice(env.LLM_OUTPUT_COST_PER_MILLION);
+  if (env.LLM_MODEL && (inputPrice !== null || outputPrice !== null)) {
+    pricing[env.LLM_MODEL] = { inputPerMillion: inputPrice ?? 0, outputPerMillion: outputPrice ?? 0 };
+  }
+
+  return new AIUsageTracker(budget, pricing);
+}
+
+export const aiUsageTracker = createAIUsageTrackerFromEnv();
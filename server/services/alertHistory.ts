@@ -0,0 +1,137 @@
+import { createHash } from "crypto";
+import { storage } from "../storage";
+import type { AlertRevision, InsertAlert } from "@shared/schema";
+
+// Fields that make a new version of an advisory distinct from the previous one
+const TRACKED_FIELDS = ['level', 'severity', 'summary', 'keyRisks', 'safetyRecommendations', 'specificAreas'] as const;
+type TrackedField = typeof TRACKED_FIELDS[number];
+
+export interface RecordedRevision {
+  revision: AlertRevision;
+  previous: AlertRevision | undefined;
+}
+
+export interface AdvisoryTimelineEntry {
+  revisionId: string;
+  source: string;
+  advisoryKey: string;
+  title: string;
+  level: string | null;
+  previousLevel: string | null;
+  severity: string;
+  previousSeverity: string | null;
+  summary: string;
+  link: string;
+  changedFields: TrackedField[];
+  isInitial: boolean;
+  advisoryDate: Date;
+  recordedAt: Date | null;
+}
+
+type RevisionContent = Pick<AlertRevision, TrackedField>;
+
+interface HashableContent {
+  level?: string | null;
+  severity: string;
+  summary: string;
+  keyRisks?: unknown;
+  safetyRecommendations?: unknown;
+  specificAreas?: unknown;
+}
+
+function normalizeList(value: unknown): string[] | null {
+  return Array.isArray(value) ? value.map(String) : null;
+}
+
+/**
+ * Hash the tracked fields of an alert or revision so unchanged advisories are not re-recorded
+ */
+export function computeRevisionHash(content: HashableContent): string {
+  const normalized = {
+    level: content.level ?? null,
+    severity: content.severity,
+    summary: content.summary,
+    keyRisks: normalizeList(content.keyRisks),
+    safetyRecommendations: normalizeList(content.safetyRecommendations),
+    specificAreas: normalizeList(content.specificAreas),
+  };
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
+
+/**
+ * List the tracked fields that differ between two revisions
+ */
+function diffRevisions(previous: RevisionContent, current: RevisionContent): TrackedField[] {
+  return TRACKED_FIELDS.filter(
+    field => JSON.stringify(previous[field] ?? null) !== JSON.stringify(current[field] ?? null)
+  );
+}
+
+/**
+ * Build a chronological timeline from revisions, noting what changed from the prior version
+ */
+export function buildAdvisoryTimeline(revisions: AlertRevision[]): AdvisoryTimelineEntry[] {
+  const sorted = [...revisions].sort(
+    (a, b) => (a.recordedAt?.getTime() ?? 0) - (b.recordedAt?.getTime() ?? 0)
+  );
+  const latestByKey = new Map<string, AlertRevision>();
+
+  return sorted.map(revision => {
+    const key = `${revision.source}|${revision.advisoryKey}`;
+    const previous = latestByKey.get(key);
+    latestByKey.set(key, revision);
+
+    return {
+      revisionId: revision.id,
+      source: revision.source,
+      advisoryKey: revision.advisoryKey,
+      title: revision.title,
+      level: revision.level,
+      previousLevel: previous?.level ?? null,
+      severity: revision.severity,
+      previousSeverity: previous?.severity ?? null,
+      summary: revision.summary,
+      link: revision.link,
+      changedFields: previous ? diffRevisions(previous, revision) : [],
+      isInitial: !previous,
+      advisoryDate: revision.advisoryDate,
+      recordedAt: revision.recordedAt,
+    };
+  });
+}
+
+/**
+ * Append a revision for every alert whose tracked content differs from its latest revision
+ */
+export async function recordAlertRevisions(alerts: InsertAlert[]): Promise<RecordedRevision[]> {
+  const recorded: RecordedRevision[] = [];
+
+  for (const alert of alerts) {
+    try {
+      const contentHash = computeRevisionHash(alert);
+      const previous = await storage.getLatestAlertRevision(alert.countryId, alert.source, alert.link);
+      if (previous?.contentHash === contentHash) continue;
+
+      const revision = await storage.createAlertRevision({
+        countryId: alert.countryId,
+        source: alert.source,
+        advisoryKey: alert.link,
+        title: alert.title,
+        level: alert.level ?? null,
+        severity: alert.severity,
+        summary: alert.summary,
+        link: alert.link,
+        keyRisks: normalizeList(alert.keyRisks),
+        safetyRecommendations: normalizeList(alert.safetyRecommendations),
+        specificAreas: normalizeList(alert.specificAreas),
+        contentHash,
+        advisoryDate: alert.date,
+      });
+      recorded.push({ revision, previous });
+    } catch (error) {
+      console.error(`[AlertHistory] Failed to record revision for ${alert.countryId} (${alert.source}):`, error);
+    }
+  }
+
+  return recorded;
+}
@@ -0,0 +1,125 @@
+import { type InsertAlert } from "@shared/schema";
+
+/**
+ * A provider of travel alerts for a single country.
+ * Built-in sources are registered by the data fetcher; additional feeds can be
+ * registered at startup without touching the core fetch pipeline.
+ */
+export interface AlertSource {
+  id: string; // Stable identifier used in config, e.g. 'us-state-dept'
+  label: string; // Value stored in alerts.source, e.g. 'US State Dept'
+  refreshIntervalMs: number; // How often the scheduler refreshes this source for recent countries
+  timeoutMs: number; // Maximum time a single country fetch may take
+  enabled: boolean;
+  fetchAlerts(countryName: string): Promise<InsertAlert[]>;
+}
+
+// Outcome of one source fetch; a failed source's stored alerts should be left as they are
+export type AlertSourceResult =
+  | { ok: true; alerts: InsertAlert[] }
+  | { ok: false; error: string };
+
+export interface AlertSourceSummary {
+  id: string;
+  label: string;
+  refreshIntervalMs: number;
+  timeoutMs: number;
+  enabled: boolean;
+}
+
+/**
+ * Parse a comma-separated list of source ids from an environment variable
+ */
+function parseSourceIds(value: string | undefined): Set<string> {
+  if (!value) return new Set();
+  return new Set(
+    value.split(",").map(id => id.trim().toLowerCase()).filter(id => id)
+  );
+}
+
+export class AlertSourceRegistry {
+  private sources: Map<string, AlertSource> = new Map();
+
+  // Per-deployment overrides, e.g. ALERT_SOURCES_DISABLED=usgs,reliefweb
+  private readonly disabledIds = parseSourceIds(process.env.ALERT_SOURCES_DISABLED);
+  private readonly enabledIds = parseSourceIds(process.env.ALERT_SOURCES_ENABLED);
+
+  /**
+   * Register a source. Environment overrides take precedence over the source's own enabled flag.
+   */
+  register(source: AlertSource): void {
+    if (this.sources.has(source.id)) {
+      throw new Error(`Alert source '${source.id}' is already registered`);
+    }
+
+    if (this.enabledIds.has(source.id)) {
+      source.enabled = true;
+    } else if (this.disabledIds.has(source.id)) {
+      source.enabled = false;
+    }
+
+    this.sources.set(source.id, source);
+    console.log(`[AlertSources] Registered ${source.id} (${source.enabled ? 'enabled' : 'disabled'})`);
+  }
+
+  unregister(id: string): boolean {
+    return this.sources.delete(id);
+  }
+
+  get(id: string): AlertSource | undefined {
+    return this.sources.get(id);
+  }
+
+  getAll(): AlertSource[] {
+    return Array.from(this.sources.values());
+  }
+
+  getEnabled(): AlertSource[] {
+    return this.getAll().filter(source => source.enabled);
+  }
+
+  setEnabled(id: string, enabled: boolean): boolean {
+    const source = this.sources.get(id);
+    if (!source) return false;
+    source.enabled = enabled;
+    return true;
+  }
+
+  describe(): AlertSourceSummary[] {
+    return this.getAll().map(({ id, label, refreshIntervalMs, timeoutMs, enabled }) => ({
+      id,
+      label,
+      refreshIntervalMs,
+      timeoutMs,
+      enabled,
+    }));
+  }
+
+  /**
+   * Fetch alerts from one source, enforcing its timeout.
+   * A failing or slow source is reported rather than failing the whole refresh.
+   */
+  async runSource(source: AlertSource, countryName: string): Promise<AlertSourceResult> {
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const alerts = await Promise.race([
+        source.fetchAlerts(countryName),
+        new Promise<InsertAlert[]>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`timed out after ${source.timeoutMs}ms`)),
+            source.timeoutMs
+          );
+        }),
+      ]);
+      return { ok: true, alerts };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[AlertSources] ${source.id} failed for ${countryName}:`, message);
+      return { ok: false, error: message };
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+  }
+}
+
+export const alertSourceRegistry = new AlertSourceRegistry();
@@ -1,31 +1,60 @@
 import { storage } from "../storage";
 import { dataFetcher } from "./dataFetcher";
-import { isAIEnhancementAvailable } from "../aiService";
+import { isAIEnhancementAvailable, trackEnhancementCache, type EnhancementCacheStats } from "../aiService";
+import { alertSourceRegistry } from "./alertSources";
+import { LeaseManager, schedulerLease } from "./leaderLease";
+import { createCountryTask, type CountryTask } from "./jobTasks";
+import { isSameWork, selectNextJob, shouldYield } from "./jobQueue";
+import { aiUsageTracker } from "./aiUsage";
+import { runSlidingWindow } from "../utils/slidingWindow";
+import { estimateEta, jobEvents } from "./jobEvents";
+import { JOB_PRIORITIES, type BulkJob, type BulkJobType } from "@shared/schema";
 
 export interface BulkDownloadProgress {
   jobId: string;
-  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  type: BulkJobType;
+  priority: number;
+  parentJobId: string | null;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
   totalCountries: number;
   processedCountries: number;
   failedCountries: number;
   currentCountry: string | null;
-  startedAt: Date;
+  queuedAt: Date;
+  startedAt: Date | null; // Null until the job first runs
   completedAt: Date | null;
   errors: Array<{ country: string; error: string }>;
+  estimatedSecondsRemaining: number | null;
+  aiCache: EnhancementCacheStats; // Advisories whose stored AI analysis was reused (hits) or redone (misses)
+}
+
+export interface EnqueueJobOptions {
+  type: BulkJobType;
+  countries?: string[] | null; // Canonical names; omit for every country
+  region?: string | null;
+  sourceIds?: string[] | null;
+  priority?: number;
+  parentJobId?: string | null; // Job whose failed countries this one retries
 }
 
 class BulkDownloadService {
   private activeJobs: Map<string, BulkDownloadProgress> = new Map();
-  private readonly DELAY_BETWEEN_BATCHES = 1000; // 1 second delay between batches
-  private readonly BATCH_SIZE = 5; // Process 5 countries concurrently
+  private runTimings: Map<string, { startedAt: number; finishTimes: number[] }> = new Map(); // For ETA estimates
+  private readonly MAX_CONCURRENCY = parseInt(process.env.BULK_JOB_CONCURRENCY || '5', 10); // Countries processed at once; per-host rate limits slow down whichever upstream is throttling
+  private readonly YIELD_CHECK_INTERVAL_MS = 5000; // How often a running job looks for higher priority work
   private readonly MAX_RETRIES = 3;
   private readonly RETRY_DELAY_MS = 2000; // Base delay for retries
-  private lastRunDate: Date | null = null; // Track last run to prevent duplicates
+  private readonly ORPHAN_CHECK_INTERVAL_MS = 5 * 60 * 1000; // How often the lease holder looks for abandoned jobs
+  private readonly QUEUE_POLL_INTERVAL_MS = 15 * 1000; // Picks up jobs queued through other instances
   private initialized = false;
+  private checkingOrphans = false;
+  private draining = false;
 
   /**
    * Initialize service and recover orphaned jobs
-   * Should be called once on server startup
+   * Should be called once on server startup, after the scheduler lease has been requested.
+   * Only the instance holding the lease runs queued jobs and requeues abandoned ones; it checks
+   * again whenever it acquires the lease and periodically while holding it.
    */
   async initialize(): Promise<void> {
     if (this.initialized) {
@@ -34,104 +63,65 @@ class BulkDownloadService {
 
     console.log('[BulkDownload] Initializing service and checking for orphaned jobs...');
 
-    try {
-      // Get all running jobs from database
-      const allJobs = await storage.getAllBulkJobs();
-      const runningJobs = allJobs.filter(job => job.status === 'running');
-
-      if (runningJobs.length > 0) {
-        console.log(`[BulkDownload] Found ${runningJobs.length} running job(s) - attempting to resume`);
-
-        for (const job of runningJobs) {
-          console.log(`[BulkDownload] Resuming job ${job.id} (${job.processedCountries}/${job.totalCountries} countries processed)`);
-          
-          // Resume the job instead of marking it as failed
-          this.resumeJob(job.id).catch(error => {
-            console.error(`[BulkDownload] Failed to resume job ${job.id}:`, error);
-          });
-        }
-      } else {
-        console.log('[BulkDownload] No running jobs found');
-      }
-    } catch (error) {
-      console.error('[BulkDownload] Failed to check for orphaned jobs:', error);
+    schedulerLease.onAcquired(() => {
+      this.resumeOrphanedJobs().then(() => this.drainQueue());
+    });
+    setInterval(() => {
+      this.resumeOrphanedJobs();
+    }, this.ORPHAN_CHECK_INTERVAL_MS);
+    setInterval(() => {
+      this.drainQueue();
+    }, this.QUEUE_POLL_INTERVAL_MS);
+
+    if (schedulerLease.isHolder()) {
+      await this.resumeOrphanedJobs();
+      this.drainQueue();
+    } else {
+      console.log('[BulkDownload] Another instance holds the scheduler lease - not running queued jobs');
     }
 
     this.initialized = true;
   }
 
   /**
-   * Resume a previously interrupted job
+   * Put running jobs that no instance is working on back in the queue. Each running job holds
+   * its own lease, so a job that is still making progress elsewhere is left alone.
    */
-  private async resumeJob(jobId: string): Promise<void> {
-    try {
-      // Get job details from database
-      const job = await storage.getBulkJob(jobId);
-      if (!job || job.status !== 'running') {
-        console.log(`[BulkDownload] Job ${jobId} cannot be resumed (status: ${job?.status})`);
-        return;
-      }
+  async resumeOrphanedJobs(): Promise<void> {
+    if (!schedulerLease.isHolder() || this.checkingOrphans) {
+      return;
+    }
+    this.checkingOrphans = true;
 
-      // Get list of already processed countries
-      const processedProgress = await storage.getJobCountryProgress(jobId);
-      const processedCountryNames = new Set(
-        processedProgress
-          .filter(p => p.status === 'completed' || p.status === 'failed')
-          .map(p => p.countryName)
+    try {
+      // Skip jobs this instance is already processing
+      const runningJobs = (await storage.getBulkJobsByStatus(['running'])).filter(job =>
+        this.activeJobs.get(job.id)?.status !== 'running'
       );
 
-      console.log(`[BulkDownload] Job ${jobId} has ${processedCountryNames.size} countries already processed`);
-
-      // Get remaining countries to process
-      const allCountries = this.getValidCountries();
-      const remainingCountries = allCountries.filter(c => !processedCountryNames.has(c));
+      for (const job of runningJobs) {
+        const jobLease = this.createJobLease(job.id);
+        if (!(await jobLease.heartbeat())) continue;
 
-      if (remainingCountries.length === 0) {
-        console.log(`[BulkDownload] Job ${jobId} is already complete, marking as completed`);
-        await storage.updateBulkJob(jobId, {
-          status: 'completed',
-          completedAt: new Date(),
-          lastRunDate: new Date(),
-        });
-        return;
+        console.log(`[BulkDownload] Requeueing orphaned job ${job.id} (${job.processedCountries}/${job.totalCountries} countries processed)`);
+        await storage.updateBulkJob(job.id, { status: 'queued' });
+        await jobLease.stop();
       }
-
-      console.log(`[BulkDownload] Resuming job ${jobId} with ${remainingCountries.length} remaining countries`);
-
-      // Create in-memory progress for UI/API
-      const progress: BulkDownloadProgress = {
-        jobId,
-        status: 'running',
-        totalCountries: job.totalCountries,
-        processedCountries: job.processedCountries,
-        failedCountries: job.failedCountries,
-        currentCountry: null,
-        startedAt: job.startedAt,
-        completedAt: null,
-        errors: job.errorLog || [],
-      };
-
-      this.activeJobs.set(jobId, progress);
-
-      // Process remaining countries
-      await this.processCountries(jobId, remainingCountries);
     } catch (error) {
-      console.error(`[BulkDownload] Error resuming job ${jobId}:`, error);
-      
-      // Mark job as failed
-      await storage.updateBulkJob(jobId, {
-        status: 'failed',
-        completedAt: new Date(),
-        errorLog: [
-          { 
-            country: 'system', 
-            error: `Failed to resume job: ${error instanceof Error ? error.message : String(error)}` 
-          }
-        ]
-      });
+      console.error('[BulkDownload] Failed to check for orphaned jobs:', error);
+    } finally {
+      this.checkingOrphans = false;
     }
   }
 
+  /**
+   * Lease held while processing a job, renewed for as long as it runs. Each attempt gets its own
+   * holder id, so a job can't be picked up twice even by the same instance.
+   */
+  private createJobLease(jobId: string): LeaseManager {
+    return new LeaseManager(storage, `bulk-job:${jobId}`);
+  }
+
   /**
    * Get all valid countries that can be processed
    * Uses dataFetcher's country validation to ensure consistency
@@ -155,130 +145,316 @@ class BulkDownloadService {
   }
 
   /**
-   * Check if any job is currently running
+   * Tell progress streams about a job-level status change
    */
-  private isJobRunning(): boolean {
-    for (const progress of Array.from(this.activeJobs.values())) {
-      if (progress.status === 'running') {
-        return true;
-      }
+  private publishStatus(progress: BulkDownloadProgress): void {
+    jobEvents.publish({
+      type: 'status',
+      jobId: progress.jobId,
+      status: progress.status,
+      totalCountries: progress.totalCountries,
+      processedCountries: progress.processedCountries,
+      failedCountries: progress.failedCountries,
+      aiCache: { ...progress.aiCache },
+    });
+  }
+
+  /**
+   * Record that a country finished and publish a fresh time estimate for the rest of the job
+   */
+  private publishEta(progress: BulkDownloadProgress): void {
+    const timings = this.runTimings.get(progress.jobId);
+    if (!timings) return;
+
+    timings.finishTimes.push(Date.now());
+    const remainingCountries = Math.max(progress.totalCountries - progress.processedCountries - progress.failedCountries, 0);
+    const eta = estimateEta(timings.finishTimes, timings.startedAt, remainingCountries);
+    progress.estimatedSecondsRemaining = eta?.estimatedSecondsRemaining ?? null;
+
+    if (eta) {
+      jobEvents.publish({ type: 'eta', jobId: progress.jobId, remainingCountries, ...eta });
     }
-    return false;
   }
 
   /**
-   * Download US State Department advisories for all countries
+   * Queue a job. A request for the same work as a job that is already queued or running
+   * returns that job instead of queueing a duplicate, raising its priority if the request's is higher.
    */
-  async downloadAllStateDeptAdvisories(): Promise<string> {
-    // Prevent concurrent jobs
-    if (this.isJobRunning()) {
-      throw new Error('A bulk download job is already running. Please wait for it to complete.');
+  async enqueueJob(options: EnqueueJobOptions): Promise<string> {
+    const countries = options.countries ?? null;
+    const sourceIds = options.sourceIds ?? null;
+    const priority = options.priority ?? JOB_PRIORITIES.normal;
+
+    const pending = await storage.getBulkJobsByStatus(['queued', 'running']);
+    const duplicate = pending.find(job => isSameWork(job, { type: options.type, countries, sourceIds }));
+    if (duplicate) {
+      console.log(`[BulkDownload] Same work already pending as job ${duplicate.id}, not queueing again`);
+      if (priority > duplicate.priority) {
+        // Lets the pending job jump ahead of the queue, or keep running rather than yield
+        await storage.updateBulkJob(duplicate.id, { priority });
+        const progress = this.activeJobs.get(duplicate.id);
+        if (progress) progress.priority = priority;
+        console.log(`[BulkDownload] Raised job ${duplicate.id} from priority ${duplicate.priority} to ${priority}`);
+      }
+      return duplicate.id;
     }
 
     const jobId = this.generateJobId();
-    const countries = this.getValidCountries();
-
-    // Initialize job progress
-    const progress: BulkDownloadProgress = {
-      jobId,
-      status: 'running',
-      totalCountries: countries.length,
+    await storage.createBulkJob({
+      id: jobId,
+      type: options.type,
+      priority,
+      countries,
+      region: options.region ?? null,
+      sourceIds,
+      parentJobId: options.parentJobId ?? null,
+      queuedAt: new Date(),
+      status: 'queued',
+      totalCountries: countries?.length ?? this.getValidCountries().length,
       processedCountries: 0,
       failedCountries: 0,
-      currentCountry: null,
-      startedAt: new Date(),
-      completedAt: null,
-      errors: []
-    };
+      errorLog: [],
+    });
 
-    this.activeJobs.set(jobId, progress);
+    console.log(`[BulkDownload] Queued ${options.type} job ${jobId} for ${countries ? `${countries.length} countries` : 'all countries'} (priority ${priority})`);
+    this.drainQueue();
+    return jobId;
+  }
 
-    console.log(`[BulkDownload] Starting bulk download job ${jobId} for ${countries.length} countries`);
+  /**
+   * Queue a refresh of every alert source for all countries, with AI enhancement of
+   * State Dept advisories. Used by the weekly schedule and the manual refresh button.
+   */
+  async downloadAllStateDeptAdvisories(priority: number = JOB_PRIORITIES.normal): Promise<string> {
+    return this.enqueueJob({ type: 'alerts', priority });
+  }
 
-    // Check if AI enhancement is available
-    if (!isAIEnhancementAvailable()) {
-      console.warn('[BulkDownload] AI enhancement not available - OpenAI API key missing');
+  /**
+   * Queue a child job that re-runs only the countries a finished job failed on, with the same work
+   */
+  async retryFailedCountries(parent: BulkJob, failedCountries: string[]): Promise<string> {
+    return this.enqueueJob({
+      type: parent.type as BulkJobType,
+      countries: failedCountries,
+      region: parent.region,
+      sourceIds: parent.sourceIds,
+      parentJobId: parent.id,
+    });
+  }
+
+  /**
+   * Run queued jobs one at a time, highest priority first, while this instance holds the scheduler lease
+   */
+  private async drainQueue(): Promise<void> {
+    if (this.draining || !schedulerLease.isHolder()) {
+      return;
     }
+    this.draining = true;
 
-    // Save job to database
     try {
-      await storage.createBulkJob({
-        id: jobId,
-        startedAt: progress.startedAt,
-        status: 'running',
-        totalCountries: progress.totalCountries,
-        processedCountries: 0,
-        failedCountries: 0,
-        errorLog: []
-      });
+      while (schedulerLease.isHolder()) {
+        const next = selectNextJob(await storage.getBulkJobsByStatus(['queued']));
+        if (!next) break;
+        await this.runJob(next);
+      }
     } catch (error) {
-      console.error('[BulkDownload] Failed to save job to database:', error);
+      console.error('[BulkDownload] Failed to process job queue:', error);
+    } finally {
+      this.draining = false;
     }
+  }
+
+  /**
+   * Run a queued job, skipping countries it already processed before being interrupted or preempted
+   */
+  private async runJob(queued: BulkJob): Promise<void> {
+    const jobId = queued.id;
+    let job = queued;
+    const jobLease = this.createJobLease(jobId);
+    try {
+      if (!(await jobLease.start())) {
+        console.log(`[BulkDownload] Job ${jobId} is being processed by another instance`);
+        return;
+      }
+
+      // It may have been cancelled since it was picked from the queue
+      const current = await storage.getBulkJob(jobId);
+      if (current?.status !== 'queued') {
+        return;
+      }
+      job = current;
 
-    // Process countries asynchronously with comprehensive error handling
-    this.processCountries(jobId, countries).catch(async (error) => {
+      // Get list of already processed countries
+      const processedProgress = await storage.getJobCountryProgress(jobId);
+      const processedCountryNames = new Set(
+        processedProgress
+          .filter(p => p.status === 'completed' || p.status === 'failed')
+          .map(p => p.countryName)
+      );
+
+      // Get remaining countries to process
+      const allCountries = job.countries ?? this.getValidCountries();
+      const remainingCountries = allCountries.filter(c => !processedCountryNames.has(c));
+
+      if (remainingCountries.length === 0) {
+        console.log(`[BulkDownload] Job ${jobId} is already complete, marking as completed`);
+        await storage.updateBulkJob(jobId, {
+          status: 'completed',
+          completedAt: new Date(),
+          lastRunDate: new Date(),
+        });
+        return;
+      }
+
+      const isFirstRun = processedCountryNames.size === 0;
+      // A job that yielded to higher priority work keeps the time it first started
+      const startedAt = job.startedAt ?? new Date();
+      await storage.updateBulkJob(jobId, { status: 'running', startedAt });
+
+      if (isFirstRun) {
+        console.log(`[BulkDownload] Starting ${job.type} job ${jobId} for ${remainingCountries.length} countries`);
+      } else {
+        console.log(`[BulkDownload] Resuming ${job.type} job ${jobId} with ${remainingCountries.length} remaining countries (${job.processedCountries}/${job.totalCountries} processed)`);
+      }
+      if (job.type === 'alerts') {
+        console.log(`[BulkDownload] Alert sources: ${(job.sourceIds ?? alertSourceRegistry.getEnabled().map(s => s.id)).join(", ")}`);
+      }
+
+      // Check if AI enhancement is available, with spend from other instances included
+      await aiUsageTracker.refresh();
+      if (aiUsageTracker.isBudgetExhausted()) {
+        console.warn('[BulkDownload] Monthly AI budget reached - continuing without AI enhancement');
+      } else if (!isAIEnhancementAvailable()) {
+        console.warn('[BulkDownload] AI enhancement not available - LLM provider not configured');
+      }
+
+      // Create in-memory progress for UI/API
+      const progress: BulkDownloadProgress = {
+        jobId,
+        type: job.type as BulkJobType,
+        priority: job.priority,
+        parentJobId: job.parentJobId,
+        status: 'running',
+        totalCountries: job.totalCountries,
+        processedCountries: job.processedCountries,
+        failedCountries: job.failedCountries,
+        currentCountry: null,
+        queuedAt: job.queuedAt,
+        startedAt,
+        completedAt: null,
+        errors: job.errorLog || [],
+        estimatedSecondsRemaining: null,
+        aiCache: { hits: job.aiCacheHits, misses: job.aiCacheMisses },
+      };
+
+      this.activeJobs.set(jobId, progress);
+      this.runTimings.set(jobId, { startedAt: Date.now(), finishTimes: [] });
+      this.publishStatus(progress);
+
+      // Process remaining countries
+      await this.processCountries(jobId, remainingCountries, jobLease, createCountryTask(job));
+    } catch (error) {
       console.error(`[BulkDownload] Job ${jobId} failed with unhandled error:`, error);
-      progress.status = 'failed';
-      progress.completedAt = new Date();
-      
-      // Update database with failure status
+      const progress = this.activeJobs.get(jobId);
+      if (progress) {
+        progress.status = 'failed';
+        progress.completedAt = new Date();
+        this.publishStatus(progress);
+      }
+
+      // Mark job as failed
       try {
         await storage.updateBulkJob(jobId, {
           status: 'failed',
-          completedAt: progress.completedAt,
+          completedAt: new Date(),
           errorLog: [
-            ...(progress.errors || []),
+            ...(progress?.errors || job.errorLog || []),
             { country: 'system', error: error instanceof Error ? error.message : String(error) }
           ]
         });
       } catch (dbError) {
         console.error('[BulkDownload] Failed to update job failure in database:', dbError);
       }
-    });
-
-    // DO NOT set lastRunDate here - only set on successful completion
-
-    return jobId;
+    } finally {
+      this.runTimings.delete(jobId);
+      await jobLease.stop();
+    }
   }
 
   /**
-   * Process all countries in batches with concurrency
+   * Process countries in a sliding window: a new country starts as soon as any running one finishes.
+   * Before each start the job stops if it was cancelled or its lease was lost, and goes back in the
+   * queue if a higher priority job is waiting. Countries already running always finish first.
    */
-  private async processCountries(jobId: string, countries: string[]): Promise<void> {
+  private async processCountries(jobId: string, countries: string[], jobLease: LeaseManager, task: CountryTask): Promise<void> {
     const progress = this.activeJobs.get(jobId);
     if (!progress) {
       throw new Error(`Job ${jobId} not found`);
     }
 
+    let leaseLost = false;
+    jobLease.onLost(() => {
+      leaseLost = true;
+    });
+
+    let stopReason: 'cancelled' | 'lease-lost' | 'yield' | null = null;
+    let lastYieldCheck = Date.now();
+
     try {
-      // Process countries in batches for controlled concurrency
-      for (let i = 0; i < countries.length; i += this.BATCH_SIZE) {
-        // Check for cancellation before each batch
-        if (progress.status === 'cancelled') {
-          console.log(`[BulkDownload] Job ${jobId} cancelled, exiting processing loop`);
-          return;
-        }
+      await runSlidingWindow(countries, {
+        concurrency: () => this.MAX_CONCURRENCY,
+        worker: country => this.processCountryWithRetry(jobId, country, progress, task),
+        beforeEach: async (started) => {
+          if (progress.status === 'cancelled') {
+            stopReason = 'cancelled';
+          } else if (leaseLost) {
+            stopReason = 'lease-lost';
+          } else if (started > 0 && Date.now() - lastYieldCheck >= this.YIELD_CHECK_INTERVAL_MS) {
+            lastYieldCheck = Date.now();
+            if (shouldYield(progress, await storage.getBulkJobsByStatus(['queued']))) {
+              stopReason = 'yield';
+            }
+          }
+          return stopReason === null;
+        },
+      });
 
-        const batch = countries.slice(i, i + this.BATCH_SIZE);
-        console.log(`[BulkDownload] Processing batch of ${batch.length} countries (${i + 1}-${Math.min(i + this.BATCH_SIZE, countries.length)}/${countries.length})`);
+      if (stopReason === 'cancelled' || progress.status === 'cancelled') {
+        console.log(`[BulkDownload] Job ${jobId} cancelled, exiting processing loop`);
+        return;
+      }
 
-        // Process all countries in the batch concurrently
-        await Promise.all(
-          batch.map(country => this.processCountryWithRetry(jobId, country, progress))
-        );
+      if (stopReason === 'lease-lost') {
+        console.warn(`[BulkDownload] Lost the lease for job ${jobId}, leaving it to be resumed`);
+        this.activeJobs.delete(jobId);
+        return;
+      }
 
-        // Delay between batches to avoid rate limiting
-        if (i + this.BATCH_SIZE < countries.length) {
-          await this.delay(this.DELAY_BETWEEN_BATCHES);
-        }
+      if (stopReason === 'yield') {
+        console.log(`[BulkDownload] Pausing job ${jobId} for a higher priority job`);
+        progress.status = 'queued';
+        progress.currentCountry = null;
+        progress.estimatedSecondsRemaining = null;
+        this.publishStatus(progress);
+        await storage.updateBulkJob(jobId, {
+          status: 'queued',
+          processedCountries: progress.processedCountries,
+          failedCountries: progress.failedCountries,
+          errorLog: progress.errors,
+          aiCacheHits: progress.aiCache.hits,
+          aiCacheMisses: progress.aiCache.misses,
+        });
+        return;
       }
 
       // Mark job as completed only if we finished all countries
       progress.status = 'completed';
       progress.completedAt = new Date();
       progress.currentCountry = null;
+      progress.estimatedSecondsRemaining = null;
+      this.publishStatus(progress);
 
-      console.log(`[BulkDownload] Job ${jobId} completed successfully - Processed: ${progress.processedCountries}, Failed: ${progress.failedCountries}`);
+      console.log(`[BulkDownload] Job ${jobId} completed successfully - Processed: ${progress.processedCountries}, Failed: ${progress.failedCountries}, AI cache hits: ${progress.aiCache.hits}, misses: ${progress.aiCache.misses}`);
 
       // Update final job status in database with lastRunDate for deduplication
       await storage.updateBulkJob(jobId, {
@@ -287,6 +463,8 @@ class BulkDownloadService {
         processedCountries: progress.processedCountries,
         failedCountries: progress.failedCountries,
         errorLog: progress.errors,
+        aiCacheHits: progress.aiCache.hits,
+        aiCacheMisses: progress.aiCache.misses,
         lastRunDate: new Date(), // Store in database instead of memory
       });
     } catch (error) {
@@ -301,6 +479,7 @@ class BulkDownloadService {
         country: 'system',
         error: error instanceof Error ? error.message : String(error)
       });
+      this.publishStatus(progress);
       
       // Update database with failed status
       await storage.updateBulkJob(jobId, {
@@ -308,10 +487,10 @@ class BulkDownloadService {
         completedAt: progress.completedAt,
         processedCountries: progress.processedCountries,
         failedCountries: progress.failedCountries,
-        errorLog: progress.errors
+        errorLog: progress.errors,
+        aiCacheHits: progress.aiCache.hits,
+        aiCacheMisses: progress.aiCache.misses,
       });
-      
-      throw error; // Re-throw to be caught by outer handler
     }
   }
 
@@ -321,25 +500,35 @@ class BulkDownloadService {
   private async processCountryWithRetry(
     jobId: string, 
     country: string, 
-    progress: BulkDownloadProgress
+    progress: BulkDownloadProgress,
+    task: CountryTask
   ): Promise<void> {
     progress.currentCountry = country;
     const currentIndex = progress.processedCountries + progress.failedCountries + 1;
     console.log(`[BulkDownload] Processing ${country} (${currentIndex}/${progress.totalCountries})`);
+    jobEvents.publish({ type: 'country-started', jobId, country });
 
     let lastError: Error | null = null;
 
     // Retry loop
     for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
       try {
-        // Download and enhance advisory for this country
-        await this.downloadCountryAdvisory(country);
+        // Run the job's work for this country, counting reused AI analyses and attributing AI calls to the job
+        await aiUsageTracker.runForJob(jobId, () => trackEnhancementCache(progress.aiCache, () => task(country)));
         
         // Use transactional update for atomicity
-        await storage.updateJobWithTransaction(jobId, country, 'completed');
+        await storage.updateJobWithTransaction(jobId, country, 'completed', undefined, attempt - 1);
         
         // Update in-memory progress for UI/API
         progress.processedCountries++;
+        jobEvents.publish({
+          type: 'country-completed',
+          jobId,
+          country,
+          processedCountries: progress.processedCountries,
+          failedCountries: progress.failedCountries,
+        });
+        this.publishEta(progress);
         return; // Success - exit retry loop
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
@@ -348,6 +537,15 @@ class BulkDownloadService {
           // Exponential backoff: 2s, 4s, 8s
           const delayMs = this.RETRY_DELAY_MS * Math.pow(2, attempt - 1);
           console.warn(`[BulkDownload] Retry ${attempt}/${this.MAX_RETRIES} for ${country} after ${delayMs}ms delay`);
+          jobEvents.publish({
+            type: 'country-retry',
+            jobId,
+            country,
+            attempt,
+            maxAttempts: this.MAX_RETRIES,
+            delayMs,
+            error: lastError.message,
+          });
           await this.delay(delayMs);
         }
       }
@@ -359,7 +557,7 @@ class BulkDownloadService {
     
     // Use transactional update for atomicity
     try {
-      await storage.updateJobWithTransaction(jobId, country, 'failed', errorMessage);
+      await storage.updateJobWithTransaction(jobId, country, 'failed', errorMessage, this.MAX_RETRIES - 1);
     } catch (txError) {
       console.error('[BulkDownload] Failed to update job transaction:', txError);
     }
@@ -370,49 +568,102 @@ class BulkDownloadService {
       country,
       error: errorMessage
     });
+    jobEvents.publish({
+      type: 'country-failed',
+      jobId,
+      country,
+      error: errorMessage,
+      processedCountries: progress.processedCountries,
+      failedCountries: progress.failedCountries,
+    });
+    this.publishEta(progress);
   }
 
   /**
-   * Download advisory for a single country with timeout
+   * Get progress for a specific job
    */
-  private async downloadCountryAdvisory(countryName: string): Promise<void> {
-    // Use dataFetcher to get US State Department advisory with AI enhancement
-    await dataFetcher.fetchAllCountryData(countryName);
+  getJobProgress(jobId: string): BulkDownloadProgress | undefined {
+    return this.activeJobs.get(jobId);
   }
 
   /**
-   * Get progress for a specific job
+   * Progress of a job, from memory while this instance runs it, otherwise from the database
    */
-  getJobProgress(jobId: string): BulkDownloadProgress | undefined {
-    return this.activeJobs.get(jobId);
+  async getJobStatus(jobId: string): Promise<BulkDownloadProgress | undefined> {
+    const memoryProgress = this.activeJobs.get(jobId);
+    if (memoryProgress) {
+      return memoryProgress;
+    }
+
+    const dbJob = await storage.getBulkJob(jobId);
+    if (!dbJob) {
+      return undefined;
+    }
+
+    return {
+      jobId: dbJob.id,
+      type: dbJob.type as BulkJobType,
+      priority: dbJob.priority,
+      parentJobId: dbJob.parentJobId,
+      status: dbJob.status as BulkDownloadProgress['status'],
+      totalCountries: dbJob.totalCountries,
+      processedCountries: dbJob.processedCountries,
+      failedCountries: dbJob.failedCountries,
+      currentCountry: null,
+      queuedAt: dbJob.queuedAt,
+      startedAt: dbJob.startedAt,
+      completedAt: dbJob.completedAt,
+      errors: dbJob.errorLog || [],
+      estimatedSecondsRemaining: null,
+      aiCache: { hits: dbJob.aiCacheHits, misses: dbJob.aiCacheMisses },
+    };
   }
 
   /**
-   * Cancel a running job
+   * Cancel a queued or running job. Running jobs stop starting new countries.
    */
   async cancelJob(jobId: string): Promise<boolean> {
     const progress = this.activeJobs.get(jobId);
-    if (!progress || progress.status !== 'running') {
-      return false;
-    }
+    if (progress && (progress.status === 'running' || progress.status === 'queued')) {
+      progress.status = 'cancelled';
+      progress.completedAt = new Date();
+      progress.estimatedSecondsRemaining = null;
+      this.publishStatus(progress);
+
+      // Immediately update database with cancellation (await to ensure it's persisted)
+      try {
+        await storage.updateBulkJob(jobId, {
+          status: 'cancelled',
+          completedAt: progress.completedAt,
+          processedCountries: progress.processedCountries,
+          failedCountries: progress.failedCountries,
+          errorLog: progress.errors,
+          aiCacheHits: progress.aiCache.hits,
+          aiCacheMisses: progress.aiCache.misses,
+        });
+      } catch (error) {
+        console.error('[BulkDownload] Failed to update cancelled job:', error);
+        // Still return true because we've marked it as cancelled in memory
+      }
 
-    progress.status = 'cancelled';
-    progress.completedAt = new Date();
+      return true;
+    }
 
-    // Immediately update database with cancellation (await to ensure it's persisted)
-    try {
-      await storage.updateBulkJob(jobId, {
-        status: 'cancelled',
-        completedAt: progress.completedAt,
-        processedCountries: progress.processedCountries,
-        failedCountries: progress.failedCountries,
-        errorLog: progress.errors
-      });
-    } catch (error) {
-      console.error('[BulkDownload] Failed to update cancelled job:', error);
-      // Still return true because we've marked it as cancelled in memory
+    // Jobs waiting in the queue may not have run on this instance yet
+    const dbJob = await storage.getBulkJob(jobId);
+    if (dbJob?.status !== 'queued') {
+      return false;
     }
 
+    await storage.updateBulkJob(jobId, { status: 'cancelled', completedAt: new Date() });
+    jobEvents.publish({
+      type: 'status',
+      jobId,
+      status: 'cancelled',
+      totalCountries: dbJob.totalCountries,
+      processedCountries: dbJob.processedCountries,
+      failedCountries: dbJob.failedCountries,
+    });
     return true;
   }
 
@@ -423,7 +674,7 @@ class BulkDownloadService {
     const cutoffTime = Date.now() - (maxAgeHours * 60 * 60 * 1000);
     
     for (const [jobId, progress] of Array.from(this.activeJobs.entries())) {
-      if (progress.status !== 'running' && progress.startedAt.getTime() < cutoffTime) {
+      if (progress.status !== 'running' && progress.status !== 'queued' && progress.queuedAt.getTime() < cutoffTime) {
         this.activeJobs.delete(jobId);
       }
     }
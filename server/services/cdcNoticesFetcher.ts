@@ -0,0 +1,211 @@
+import { JSDOM } from "jsdom";
+import type { InsertAlert } from "@shared/schema";
+import { outboundHttp } from "../utils/outboundHttp";
+
+export interface CDCNotice {
+  id: string;
+  title: string;
+  disease: string;
+  level: number;
+  levelName: string;
+  description: string;
+  link: string;
+  publishedAt: Date;
+  locationText: string;
+}
+
+// CDC Travel Health Notice levels with the CDC's own wording
+export const CDC_NOTICE_LEVELS: Record<number, { name: string; severity: string }> = {
+  1: { name: "Practice Usual Precautions", severity: "low" },
+  2: { name: "Practice Enhanced Precautions", severity: "medium" },
+  3: { name: "Reconsider Nonessential Travel", severity: "high" },
+  4: { name: "Avoid Nonessential Travel", severity: "high" },
+};
+
+const SUMMARY_MAX_LENGTH = 300;
+
+/**
+ * Find the notice level, preferring the title over the description
+ */
+function extractLevel(title: string, description: string): number | null {
+  const match = title.match(/Level\s+([1-4])/i) || description.match(/Level\s+([1-4])/i);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Strip the "Level N - Wording" prefix CDC sometimes puts in notice titles
+ */
+function stripLevelPrefix(title: string): string {
+  return title
+    .replace(/^Level\s+[1-4]\s*[-–:]\s*/i, '')
+    .replace(new RegExp(`^(${Object.values(CDC_NOTICE_LEVELS).map(l => l.name).join('|')})\\s*[-–:]\\s*`, 'i'), '')
+    .trim();
+}
+
+/**
+ * Parse the CDC Travel Health Notices RSS feed into notices. Items without a level are skipped.
+ */
+export function parseNoticesFeed(xml: string): CDCNotice[] {
+  const dom = new JSDOM(xml, { contentType: "text/xml" });
+  const items = Array.from(dom.window.document.querySelectorAll("item"));
+  const notices: CDCNotice[] = [];
+
+  for (const item of items) {
+    const text = (selector: string) => item.querySelector(selector)?.textContent?.trim() || '';
+    const rawTitle = text("title");
+    const description = new JSDOM(`<body>${text("description")}</body>`).window.document.body.textContent?.replace(/\s+/g, ' ').trim() || '';
+
+    const level = extractLevel(rawTitle, description);
+    if (!level || !rawTitle) continue;
+
+    const title = stripLevelPrefix(rawTitle);
+    const inIndex = title.search(/\sin\s/i);
+    const disease = (inIndex >= 0 ? title.slice(0, inIndex) : title).replace(/^Global\s+/i, '').trim();
+    const locationText = inIndex >= 0 ? title.slice(inIndex + 4).trim() : '';
+    const pubDate = text("pubDate");
+    const link = text("link");
+
+    notices.push({
+      id: text("guid") || link || title,
+      title,
+      disease,
+      level,
+      levelName: CDC_NOTICE_LEVELS[level].name,
+      description,
+      link,
+      publishedAt: pubDate ? new Date(pubDate) : new Date(),
+      locationText,
+    });
+  }
+
+  return notices;
+}
+
+/**
+ * Find known country names in a piece of text. Longer names are matched first and blanked
+ * out so "guinea" does not also match inside "papua new guinea".
+ */
+function findCountriesInText(text: string, knownCountries: string[]): string[] {
+  let remaining = ` ${text.toLowerCase()} `;
+  const found: string[] = [];
+
+  for (const name of [...knownCountries].sort((a, b) => b.length - a.length)) {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(`(^|[^a-z])${escaped}(?=[^a-z]|$)`, 'g');
+    if (pattern.test(remaining)) {
+      found.push(name);
+      remaining = remaining.replace(pattern, (_match, lead) => `${lead}${' '.repeat(name.length)}`);
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Countries a notice applies to: those named in the title, or in the description
+ * when the title names a region (e.g. "Dengue in the Americas")
+ */
+export function matchNoticeCountries(notice: CDCNotice, knownCountries: string[]): string[] {
+  const fromTitle = findCountriesInText(notice.locationText, knownCountries);
+  return fromTitle.length > 0 ? fromTitle : findCountriesInText(notice.description, knownCountries);
+}
+
+function toDisplayName(countryName: string): string {
+  return countryName.replace(/\b[a-z]/g, c => c.toUpperCase());
+}
+
+/**
+ * Fan each notice out to every affected country
+ */
+export function groupNoticesByCountry(notices: CDCNotice[], knownCountries: string[]): Map<string, Array<{ notice: CDCNotice; affectedCountries: string[] }>> {
+  const byCountry = new Map<string, Array<{ notice: CDCNotice; affectedCountries: string[] }>>();
+
+  for (const notice of notices) {
+    const affectedCountries = matchNoticeCountries(notice, knownCountries);
+    for (const countryName of affectedCountries) {
+      const list = byCountry.get(countryName) || [];
+      list.push({ notice, affectedCountries });
+      byCountry.set(countryName, list);
+    }
+  }
+
+  return byCountry;
+}
+
+/**
+ * Convert a country's notices into alerts, highest level first
+ */
+export function noticesToAlerts(entries: Array<{ notice: CDCNotice; affectedCountries: string[] }>, countryId: string): InsertAlert[] {
+  return [...entries]
+    .sort((a, b) => b.notice.level - a.notice.level || b.notice.publishedAt.getTime() - a.notice.publishedAt.getTime())
+    .map(({ notice, affectedCountries }) => {
+      const description = notice.description.length > SUMMARY_MAX_LENGTH
+        ? `${notice.description.slice(0, SUMMARY_MAX_LENGTH).trim()}...`
+        : notice.description;
+      const affected = affectedCountries.map(toDisplayName).join(', ');
+
+      return {
+        countryId,
+        source: "CDC",
+        title: notice.title,
+        level: `Level ${notice.level} - ${notice.levelName}`,
+        severity: CDC_NOTICE_LEVELS[notice.level].severity,
+        summary: `${description}${description ? ' ' : ''}Affected destinations: ${affected}.`,
+        link: notice.link || 'https://wwwnc.cdc.gov/travel/notices',
+        date: notice.publishedAt,
+      };
+    });
+}
+
+export class CDCNoticesFetcher {
+  private readonly feedUrl = process.env.CDC_NOTICES_FEED_URL || 'https://wwwnc.cdc.gov/travel/rss/notices.xml';
+  private readonly FEED_CACHE_TTL = 60 * 60 * 1000; // Notices change a few times a week
+
+  // Pending or loaded, so concurrent lookups share one download
+  private feedCache: { byCountry: Promise<ReturnType<typeof groupNoticesByCountry>>; lastUpdated: Date } | null = null;
+
+  /**
+   * Fetch the active notices and fan them out by country, cached across country lookups.
+   * A failed fetch is not cached.
+   */
+  private getNoticesByCountry(knownCountries: string[]): Promise<ReturnType<typeof groupNoticesByCountry>> {
+    if (this.feedCache && Date.now() - this.feedCache.lastUpdated.getTime() < this.FEED_CACHE_TTL) {
+      return this.feedCache.byCountry;
+    }
+
+    const loading = this.downloadFeed().then(xml => {
+      const notices = parseNoticesFeed(xml);
+      const byCountry = groupNoticesByCountry(notices, knownCountries);
+      console.log(`[CDCNotices] Mapped ${notices.length} active travel health notices to ${byCountry.size} countries`);
+      return byCountry;
+    });
+    loading.catch(() => {
+      if (this.feedCache?.byCountry === loading) this.feedCache = null;
+    });
+    this.feedCache = { byCountry: loading, lastUpdated: new Date() };
+    return loading;
+  }
+
+  protected async downloadFeed(): Promise<string> {
+    const response = await outboundHttp.fetch(this.feedUrl, {
+      headers: {
+        'Accept': 'application/rss+xml, application/xml, text/xml',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`CDC notices feed returned ${response.status}: ${response.statusText}`);
+    }
+    return response.text();
+  }
+
+  /**
+   * Get the active notices for one country as alerts
+   */
+  async fetchCountryNoticeAlerts(countryName: string, countryId: string, knownCountries: string[]): Promise<InsertAlert[]> {
+    const byCountry = await this.getNoticesByCountry(knownCountries);
+    return noticesToAlerts(byCountry.get(countryName.toLowerCase()) || [], countryId);
+  }
+}
+
+export const cdcNoticesFetcher = new CDCNoticesFetcher();
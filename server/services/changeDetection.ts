@@ -0,0 +1,117 @@
+import { EventEmitter } from "events";
+import type { RecordedRevision } from "./alertHistory";
+
+export type ChangeDirection = 'upgraded' | 'downgraded';
+
+export interface AdvisoryChanged {
+  type: 'AdvisoryChanged';
+  countryId: string;
+  countryName: string;
+  source: string;
+  direction: ChangeDirection; // 'upgraded' means the advisory now signals higher risk
+  oldLevel: string | null;
+  newLevel: string | null;
+  oldSeverity: string;
+  newSeverity: string;
+  title: string;
+  link: string;
+  detectedAt: Date;
+}
+
+// FCDO advice levels from least to most restrictive. Statuses without a readable wording are
+// stored title-cased ("Avoid All Travel To Parts"); advice for parts of a country ranks below
+// the same advice for all of it, as in the risk score.
+const FCDO_LEVEL_RANKS: Record<string, number> = {
+  "standard": 1,
+  "see travel advice": 1,
+  "advise against travel to parts of the country": 2,
+  "avoid all but essential travel to parts": 2,
+  "avoid all travel to parts": 3,
+  "advise against all but essential travel": 4,
+  "advise against all travel": 5,
+};
+
+export const SEVERITY_RANKS: Record<string, number> = {
+  info: 0,
+  low: 1,
+  medium: 2,
+  high: 3,
+};
+
+/**
+ * Rank an advisory level so two versions can be compared. State Dept and CDC
+ * levels carry their number ("Level 3"); FCDO levels use the advice wording.
+ */
+export function rankAdvisoryLevel(source: string, level: string | null): number | null {
+  if (!level) return null;
+
+  const numbered = level.match(/^Level\s+([1-4])/i);
+  if (numbered) return parseInt(numbered[1], 10);
+
+  if (source === "UK FCDO") {
+    return FCDO_LEVEL_RANKS[level.toLowerCase()] ?? null;
+  }
+
+  return null;
+}
+
+/**
+ * Turn newly recorded revisions into AdvisoryChanged events. Only revisions whose level
+ * moved up or down produce an event; first sightings and text-only edits do not.
+ */
+export function detectAdvisoryChanges(countryName: string, recorded: RecordedRevision[]): AdvisoryChanged[] {
+  const events: AdvisoryChanged[] = [];
+
+  for (const { revision, previous } of recorded) {
+    if (!previous || previous.level === revision.level) continue;
+
+    const oldRank = rankAdvisoryLevel(revision.source, previous.level);
+    const newRank = rankAdvisoryLevel(revision.source, revision.level);
+
+    // Fall back to severity when a source's levels can't be ranked
+    const delta = oldRank !== null && newRank !== null
+      ? newRank - oldRank
+      : (SEVERITY_RANKS[revision.severity] ?? 0) - (SEVERITY_RANKS[previous.severity] ?? 0);
+    if (delta === 0) continue;
+
+    events.push({
+      type: 'AdvisoryChanged',
+      countryId: revision.countryId,
+      countryName,
+      source: revision.source,
+      direction: delta > 0 ? 'upgraded' : 'downgraded',
+      oldLevel: previous.level,
+      newLevel: revision.level,
+      oldSeverity: previous.severity,
+      newSeverity: revision.severity,
+      title: revision.title,
+      link: revision.link,
+      detectedAt: new Date(),
+    });
+  }
+
+  return events;
+}
+
+interface AdvisoryEventMap {
+  AdvisoryChanged: [AdvisoryChanged];
+}
+
+/**
+ * Typed event bus for advisory change events
+ */
+export class AdvisoryEventBus extends EventEmitter<AdvisoryEventMap> {}
+
+export const advisoryEvents = new AdvisoryEventBus();
+
+/**
+ * Detect level changes in freshly recorded revisions and publish them on the event bus
+ */
+export function publishAdvisoryChanges(countryName: string, recorded: RecordedRevision[]): AdvisoryChanged[] {
+  const events = detectAdvisoryChanges(countryName, recorded);
+  for (const event of events) {
+    console.log(`[ChangeDetection] ${event.source} advisory for ${countryName} ${event.direction}: ${event.oldLevel} -> ${event.newLevel}`);
+    advisoryEvents.emit('AdvisoryChanged', event);
+  }
+  return events;
+}
@@ -0,0 +1,83 @@
+import { CronExpressionParser } from "cron-parser";
+import type { ScheduledJob } from "@shared/schema";
+
+// Upper bound on back-to-back runs when a 'run-all' job catches up
+export const MAX_CATCH_UP_RUNS = 5;
+
+// Bound on occurrences counted when working out how many runs were missed
+const MAX_COUNTED_OCCURRENCES = 1000;
+
+export interface DueRunPlan {
+  runs: number; // How many times to run the job now
+  missed: number; // Occurrences that passed without running on time
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a cron expression and time zone, returning an error message or null when valid
+ */
+export function validateSchedule(cronExpression: string, timezone: string): string | null {
+  if (!isValidTimezone(timezone)) {
+    return `'${timezone}' is not a recognized IANA time zone`;
+  }
+  try {
+    CronExpressionParser.parse(cronExpression, { tz: timezone }).next();
+    return null;
+  } catch (error) {
+    return `Invalid cron expression '${cronExpression}': ${error instanceof Error ? error.message : error}`;
+  }
+}
+
+/**
+ * First occurrence strictly after the given time
+ */
+export function getNextRunAt(cronExpression: string, timezone: string, after: Date): Date {
+  return CronExpressionParser.parse(cronExpression, { tz: timezone, currentDate: after }).next().toDate();
+}
+
+/**
+ * Occurrences after `from` up to and including `to`
+ */
+export function getRunsBetween(cronExpression: string, timezone: string, from: Date, to: Date, limit = MAX_COUNTED_OCCURRENCES): Date[] {
+  const runs: Date[] = [];
+  if (to <= from) return runs;
+
+  const expression = CronExpressionParser.parse(cronExpression, { tz: timezone, currentDate: from, endDate: to });
+  while (runs.length < limit && expression.hasNext()) {
+    runs.push(expression.next().toDate());
+  }
+  return runs;
+}
+
+/**
+ * Decide how many times a due job should run. A single occurrence that passed within the
+ * grace window is on time; anything older, or several occurrences, were missed and are
+ * handled by the job's catch-up policy.
+ */
+export function planDueRuns(job: Pick<ScheduledJob, 'enabled' | 'nextRunAt' | 'cronExpression' | 'timezone' | 'catchUpPolicy'>, now: Date, graceMs: number): DueRunPlan {
+  if (!job.enabled || !job.nextRunAt || job.nextRunAt > now) {
+    return { runs: 0, missed: 0 };
+  }
+
+  const occurrences = 1 + getRunsBetween(job.cronExpression, job.timezone, job.nextRunAt, now).length;
+  if (occurrences === 1 && now.getTime() - job.nextRunAt.getTime() <= graceMs) {
+    return { runs: 1, missed: 0 };
+  }
+
+  switch (job.catchUpPolicy) {
+    case 'skip':
+      return { runs: 0, missed: occurrences };
+    case 'run-all':
+      return { runs: Math.min(occurrences, MAX_CATCH_UP_RUNS), missed: occurrences };
+    default:
+      return { runs: 1, missed: occurrences };
+  }
+}
@@ -1,9 +1,23 @@
 import { storage } from "../storage";
-import { type InsertAlert, type InsertBackgroundInfo } from "@shared/schema";
-import { enhanceStateDeptSummary, isAIEnhancementAvailable } from "../aiService";
+import { type Alert, type InsertAlert, type InsertBackgroundInfo } from "@shared/schema";
+import { getCountryNames, getCountrySlug, resolveCountry, toCountrySlug } from "@shared/countries";
+import { enhanceStateDeptSummary, getLLMProvider, isReanalyzing } from "../aiService";
+import { alertSourceRegistry, type AlertSource, type AlertSourceResult } from "./alertSources";
+import { earthquakeDataFetcher } from "./earthquakeFetcher";
+import { reliefWebDataFetcher } from "./reliefWebFetcher";
+import { cdcNoticesFetcher } from "./cdcNoticesFetcher";
+import { recordAlertRevisions } from "./alertHistory";
+import { publishAdvisoryChanges } from "./changeDetection";
+import { parseFCDORegionAdvice, regionAdvisoryService } from "./regionAdvisories";
+import { advisorySectionService, classifyAdvisorySection } from "./advisorySections";
+import { entryRequirementsService, FCDO_NATIONALITY, parseFCDOEntryRequirements } from "./entryRequirements";
+import { outboundHttp } from "../utils/outboundHttp";
 import fs from 'fs';
 import path from 'path';
 
+// AI analysis carried on a State Dept alert
+type StateDeptAnalysis = Pick<Alert, 'summary' | 'keyRisks' | 'safetyRecommendations' | 'specificAreas' | 'aiEnhanced' | 'aiConfidence' | 'translations'>;
+
 interface ThreatLevelCache {
   levels: Map<string, number>;
   lastUpdated: Date;
@@ -23,104 +37,26 @@ export class DataFetcher {
   private caBundle: Buffer | null = null;
   private caBundleLoaded = false;
 
-  // Comprehensive list of valid countries and territories
-  private validCountries = new Set([
-    // Major countries
-    "afghanistan", "albania", "algeria", "andorra", "angola", "antigua and barbuda", "argentina", 
-    "armenia", "australia", "austria", "azerbaijan", "bahamas", "bahrain", "bangladesh", "barbados", 
-    "belarus", "belgium", "belize", "benin", "bhutan", "bolivia", "bosnia and herzegovina", "botswana", 
-    "brazil", "brunei", "bulgaria", "burkina faso", "burundi", "cambodia", "cameroon", "canada", 
-    "cape verde", "central african republic", "chad", "chile", "china", "colombia", "comoros", 
-    "congo", "costa rica", "croatia", "cuba", "cyprus", "czech republic", "denmark", "djibouti", 
-    "dominica", "dominican republic", "ecuador", "egypt", "el salvador", "equatorial guinea", "eritrea", 
-    "estonia", "eswatini", "ethiopia", "fiji", "finland", "france", "gabon", "gambia", "georgia", 
-    "germany", "ghana", "greece", "grenada", "guatemala", "guinea", "guinea-bissau", "guyana", "haiti", 
-    "honduras", "hungary", "iceland", "india", "indonesia", "iran", "iraq", "ireland", "israel", 
-    "italy", "ivory coast", "jamaica", "japan", "jordan", "kazakhstan", "kenya", "kiribati", "kosovo", 
-    "kuwait", "kyrgyzstan", "laos", "latvia", "lebanon", "lesotho", "liberia", "libya", "liechtenstein", 
-    "lithuania", "luxembourg", "madagascar", "malawi", "malaysia", "maldives", "mali", "malta", 
-    "marshall islands", "mauritania", "mauritius", "mexico", "micronesia", "moldova", "monaco", 
-    "mongolia", "montenegro", "morocco", "mozambique", "myanmar", "namibia", "nauru", "nepal", 
-    "netherlands", "new zealand", "nicaragua", "niger", "nigeria", "north korea", "north macedonia", 
-    "norway", "oman", "pakistan", "palau", "palestine", "panama", "papua new guinea", "paraguay", 
-    "peru", "philippines", "poland", "portugal", "qatar", "romania", "russia", "rwanda", 
-    "saint kitts and nevis", "saint lucia", "saint vincent and the grenadines", "samoa", "san marino", 
-    "sao tome and principe", "saudi arabia", "senegal", "serbia", "seychelles", "sierra leone", 
-    "singapore", "slovakia", "slovenia", "solomon islands", "somalia", "south africa", "south korea", 
-    "south sudan", "spain", "sri lanka", "sudan", "suriname", "sweden", "switzerland", "syria", 
-    "taiwan", "tajikistan", "tanzania", "thailand", "timor-leste", "togo", "tonga", "trinidad and tobago", 
-    "tunisia", "turkey", "turkmenistan", "tuvalu", "uganda", "ukraine", "united arab emirates", 
-    "united kingdom", "united states", "uruguay", "uzbekistan", "vanuatu", "vatican city", "venezuela", 
-    "vietnam", "yemen", "zambia", "zimbabwe",
-    // British territories and dependencies
-    "cayman islands", "british virgin islands", "anguilla", "bermuda", "gibraltar", "falkland islands",
-    "montserrat", "pitcairn islands", "saint helena", "turks and caicos islands",
-    // Other territories and common alternate names
-    "hong kong", "macau", "puerto rico", "guam", "american samoa", "northern mariana islands",
-    "us virgin islands", "cook islands", "niue", "tokelau", "french polynesia", "new caledonia",
-    "wallis and futuna", "mayotte", "reunion", "martinique", "guadeloupe", "french guiana",
-    "saint pierre and miquelon", "aruba", "curacao", "sint maarten", "faroe islands", "greenland",
-    "isle of man", "jersey", "guernsey", "aland islands"
-  ]);
-
-  // Common alternate names and spellings
-  private countryAliases: { [key: string]: string } = {
-    "usa": "united states",
-    "us": "united states",
-    "america": "united states",
-    "uk": "united kingdom",
-    "britain": "united kingdom",
-    "great britain": "united kingdom",
-    "england": "united kingdom",
-    "scotland": "united kingdom", 
-    "wales": "united kingdom",
-    "northern ireland": "united kingdom",
-    "south korea": "south korea",
-    "north korea": "north korea",
-    "russia": "russia",
-    "russian federation": "russia",
-    "czech republic": "czech republic",
-    "czechia": "czech republic",
-    "myanmar": "myanmar",
-    "burma": "myanmar",
-    "ivory coast": "ivory coast",
-    "cote d'ivoire": "ivory coast",
-    "east timor": "timor-leste",
-    "cape verde": "cape verde",
-    "cabo verde": "cape verde",
-    "swaziland": "eswatini",
-    "macedonia": "north macedonia",
-    "congo-brazzaville": "congo",
-    "congo-kinshasa": "congo",
-    "democratic republic of congo": "congo",
-    "drc": "congo"
-  };
-
   /**
    * Get all valid country names as an array
    * Used by bulk download service to ensure consistency
    */
   getAllValidCountries(): string[] {
-    return Array.from(this.validCountries);
+    return getCountryNames();
   }
 
   // Validate if a country name is legitimate
   validateCountryName(countryName: string): { isValid: boolean; normalizedName?: string; suggestion?: string } {
     const normalizedInput = countryName.toLowerCase().trim();
     
-    // Check if it's a direct match
-    if (this.validCountries.has(normalizedInput)) {
-      return { isValid: true, normalizedName: normalizedInput };
-    }
-    
-    // Check if it's an alias/alternate name
-    if (this.countryAliases[normalizedInput]) {
-      const normalizedName = this.countryAliases[normalizedInput];
-      return { isValid: true, normalizedName };
+    // Check canonical names, official names and aliases
+    const country = resolveCountry(normalizedInput);
+    if (country) {
+      return { isValid: true, normalizedName: country.name };
     }
     
     // Check for partial matches (for suggestions)
-    const suggestions = Array.from(this.validCountries)
+    const suggestions = getCountryNames()
       .filter(country => 
         country.includes(normalizedInput) || 
         normalizedInput.includes(country) ||
@@ -167,43 +103,56 @@ export class DataFetcher {
       if (!country) return alerts;
 
       // Fetch real threat level from State Dept API (with fallback to defaults)
-      const apiLevel = await this.getAdvisoryLevel(countryName);
-      const advisoryLink = `https://travel.state.gov/content/travel/en/traveladvisories/traveladvisories/${this.formatStateDeptUrlSlug(countryName)}-travel-advisory.html`;
+      const { level: apiLevel, official } = await this.getAdvisoryLevel(countryName);
+      // A default level would be recorded as an upgrade or downgrade and reversed once the API
+      // answers again, so the stored advisory is kept; defaults only fill in when none is stored
+      if (!official && await this.getStoredStateDeptAlert(country.id)) {
+        throw new Error(`State Dept advisory level unavailable for ${countryName}, keeping the stored advisory`);
+      }
+      const advisoryLink = `https://travel.state.gov/content/travel/en/traveladvisories/traveladvisories/${getCountrySlug(countryName, 'stateDept')}-travel-advisory.html`;
 
       // Start with API level, may be enhanced by AI with additional details
       let finalAdvisoryLevel = apiLevel;
       const baseSummary = `Exercise ${apiLevel === 4 ? 'extreme' : apiLevel === 3 ? 'increased' : apiLevel === 2 ? 'enhanced' : 'normal'} caution when traveling to ${countryName}. Check current conditions and security alerts.`;
       
-      // Enhanced summary using AI if available
-      let finalSummary = baseSummary;
-      let finalTitle = `Travel Advisory - Level ${finalAdvisoryLevel}`;
-      
-      let enhancedData = null;
-      if (isAIEnhancementAvailable()) {
+      // Enhanced summary using AI if a provider is configured. A stored analysis of the same page
+      // is reused even once the monthly budget is spent.
+      let analysis: StateDeptAnalysis | null = null;
+      if (getLLMProvider().isAvailable()) {
         try {
           const enhanced = await enhanceStateDeptSummary(baseSummary, advisoryLink, countryName);
-          
-          // Always store enhanced data if AI call was successful
-          enhancedData = enhanced;
-          
-          // Note: We use the API-provided threat level, not AI interpretation
-          // The official State Dept API is the authoritative source for threat levels
-          finalTitle = `Travel Advisory - Level ${finalAdvisoryLevel}`;
-          
-          // Use enhanced summary if available and different
-          if (enhanced.summary && enhanced.summary !== baseSummary) {
-            finalSummary = enhanced.summary;
-          }
-          
-          // If AI found specific risks, add them to the title
-          if (enhanced.keyRisks && enhanced.keyRisks.length > 0) {
-            finalTitle = `${finalTitle} - ${enhanced.keyRisks.slice(0, 2).join(", ")}`;
+          if (enhanced.aiApplied) {
+            analysis = {
+              summary: enhanced.summary,
+              keyRisks: enhanced.keyRisks,
+              safetyRecommendations: enhanced.safetyRecommendations,
+              specificAreas: enhanced.specificAreas,
+              aiEnhanced: new Date(),
+              aiConfidence: enhanced.confidence,
+              translations: enhanced.translations,
+            };
           }
         } catch (error) {
           console.error(`[ERROR] AI enhancement failed for ${countryName}:`, error);
           // Continue with API level and basic summary
         }
       }
+      // A re-enhancement fails instead, so the stored alert is kept and the country can be retried
+      if (!analysis && isReanalyzing()) {
+        throw new Error(`AI enhancement was not applied to the ${countryName} advisory`);
+      }
+      // Without a new analysis, keep the stored one rather than replacing it with the basic summary
+      analysis = analysis ?? await this.getStoredStateDeptAnalysis(country.id);
+
+      // Note: We use the API-provided threat level, not AI interpretation
+      // The official State Dept API is the authoritative source for threat levels
+      let finalTitle = `Travel Advisory - Level ${finalAdvisoryLevel}`;
+      const finalSummary = analysis?.summary || baseSummary;
+
+      // If AI found specific risks, add them to the title
+      if (analysis?.keyRisks && analysis.keyRisks.length > 0) {
+        finalTitle = `${finalTitle} - ${analysis.keyRisks.slice(0, 2).join(", ")}`;
+      }
 
       alerts.push({
         countryId: country.id,
@@ -215,31 +164,52 @@ export class DataFetcher {
         link: advisoryLink,
         date: new Date(),
         // Add AI-enhanced data if available
-        keyRisks: enhancedData?.keyRisks || null,
-        safetyRecommendations: enhancedData?.safetyRecommendations || null,
-        specificAreas: enhancedData?.specificAreas || null,
-        aiEnhanced: (enhancedData?.aiApplied) ? new Date() : null,
+        keyRisks: analysis?.keyRisks ?? null,
+        safetyRecommendations: analysis?.safetyRecommendations ?? null,
+        specificAreas: analysis?.specificAreas ?? null,
+        aiEnhanced: analysis?.aiEnhanced ?? null,
+        aiConfidence: analysis?.aiConfidence ?? null,
+        translations: analysis?.translations ?? null,
       });
 
       return alerts;
     } catch (error) {
       console.error("Error fetching State Dept advisories:", error);
-      return [];
+      throw error;
     }
   }
 
+  private async getStoredStateDeptAlert(countryId: string): Promise<Alert | undefined> {
+    return (await storage.getAlertsByCountryId(countryId)).find(alert => alert.source === "US State Dept");
+  }
+
+  /**
+   * AI analysis of the State Dept alert already stored for a country, if it has one
+   */
+  private async getStoredStateDeptAnalysis(countryId: string): Promise<StateDeptAnalysis | null> {
+    const stored = await this.getStoredStateDeptAlert(countryId);
+    if (!stored?.aiEnhanced) return null;
+
+    const { summary, keyRisks, safetyRecommendations, specificAreas, aiEnhanced, aiConfidence, translations } = stored;
+    return { summary, keyRisks, safetyRecommendations, specificAreas, aiEnhanced, aiConfidence, translations };
+  }
+
   async fetchFCDOAdvisories(countryName: string): Promise<InsertAlert[]> {
     try {
-      const urlSlug = this.formatUrlSlug(countryName);
+      const urlSlug = getCountrySlug(countryName, 'fcdo');
       // Correct FCDO Content API format
       const apiUrl = `https://www.gov.uk/api/content/foreign-travel-advice/${urlSlug}`;
       
       // UK FCDO Travel Advice API
-      const response = await fetch(apiUrl);
+      const response = await outboundHttp.fetch(apiUrl);
       
-      if (!response.ok) {
+      // No travel advice is published for this destination
+      if (response.status === 404) {
         return [];
       }
+      if (!response.ok) {
+        throw new Error(`FCDO Content API returned ${response.status}: ${response.statusText}`);
+      }
       
       const data = await response.json();
       
@@ -308,6 +278,37 @@ export class DataFetcher {
         if (!summary || summary === data.description) {
           summary = advisoryText || data.description || "Current travel advice available from UK FCDO";
         }
+
+        // Areas FCDO advises against travel to, so they can be matched to regions
+        const specificAreas = Array.from(new Set(
+          (data.details.parts || []).flatMap((part: any) => part.body ? parseFCDORegionAdvice(part.body) : [])
+        )) as string[];
+
+        // Keep every part of the advice (safety, local laws, entry requirements, health...) as a section
+        if (Array.isArray(data.details.parts)) {
+          await advisorySectionService.saveSections(
+            country.id,
+            "UK FCDO",
+            `https://www.gov.uk/foreign-travel-advice/${urlSlug}`,
+            data.details.parts,
+            new Date(data.public_updated_at || data.updated_at || Date.now())
+          );
+
+          // The entry requirements part is written for British passport holders
+          const entryPart = data.details.parts.find((part: any) =>
+            part.slug && part.body && classifyAdvisorySection(part.slug, part.title || '') === 'entry-requirements'
+          );
+          const entryRequirements = entryPart ? parseFCDOEntryRequirements(entryPart.body) : [];
+          if (entryRequirements.length > 0) {
+            await entryRequirementsService.saveRequirements(
+              country.id,
+              FCDO_NATIONALITY,
+              "UK FCDO",
+              `https://www.gov.uk/foreign-travel-advice/${urlSlug}/${entryPart.slug}`,
+              entryRequirements
+            );
+          }
+        }
         
         const title = data.title || `${countryName} Travel Advice`;
         
@@ -320,6 +321,7 @@ export class DataFetcher {
           summary: summary,
           link: `https://www.gov.uk/foreign-travel-advice/${urlSlug}`,
           date: new Date(data.updated_at || Date.now()),
+          specificAreas: specificAreas.length > 0 ? specificAreas : null,
         });
       } else {
         
@@ -341,97 +343,59 @@ export class DataFetcher {
       return alerts;
     } catch (error) {
       console.error("Error fetching FCDO advisories:", error);
-      return [];
+      throw error;
     }
   }
 
   async fetchCDCHealthNotices(countryName: string): Promise<InsertAlert[]> {
     try {
-      const alerts: InsertAlert[] = [];
       const country = await storage.getCountryByName(countryName);
-      if (!country) return alerts;
-
-      // Create health-related travel notices
-      const healthConcerns = this.getHealthConcerns(countryName);
-      
-      alerts.push({
-        countryId: country.id,
-        source: "CDC",
-        title: `${countryName} Health & Vaccination Guidance`,
-        level: healthConcerns.level,
-        severity: healthConcerns.severity,
-        summary: healthConcerns.summary,
-        link: `https://wwwnc.cdc.gov/travel/destinations/traveler/none/${this.formatCDCUrlSlug(countryName)}`,
-        date: new Date(),
-      });
+      if (!country) return [];
 
-      return alerts;
+      return await cdcNoticesFetcher.fetchCountryNoticeAlerts(countryName, country.id, this.getAllValidCountries());
     } catch (error) {
       console.error("Error fetching CDC notices:", error);
-      return [];
+      throw error;
     }
   }
 
   async fetchUSGSEarthquakes(countryName: string): Promise<InsertAlert[]> {
     try {
-      const alerts: InsertAlert[] = [];
       const country = await storage.getCountryByName(countryName);
-      if (!country) return alerts;
+      if (!country) return [];
 
-      // Create earthquake monitoring alert for seismically active regions
-      const seismicInfo = this.getSeismicActivity(countryName);
-      if (seismicInfo.isActive) {
-        alerts.push({
-          countryId: country.id,
-          source: "USGS",
-          title: seismicInfo.title,
-          level: seismicInfo.level,
-          severity: seismicInfo.severity,
-          summary: seismicInfo.summary,
-          link: "https://earthquake.usgs.gov/earthquakes/map/",
-          date: new Date(),
-        });
-      }
-
-      return alerts;
+      // Recent events from the USGS summary feed, located by country boundary
+      return await earthquakeDataFetcher.fetchCountryEarthquakeAlerts(countryName, country.id);
     } catch (error) {
       console.error("Error fetching USGS earthquakes:", error);
-      return [];
+      throw error;
     }
   }
 
   async fetchReliefWebCrisis(countryName: string): Promise<InsertAlert[]> {
     try {
-      const alerts: InsertAlert[] = [];
       const country = await storage.getCountryByName(countryName);
-      if (!country) return alerts;
+      if (!country) return [];
 
-      // Create representative crisis/humanitarian updates
-      const crisisTypes = ['humanitarian', 'natural disaster', 'security', 'health'];
-      const randomType = crisisTypes[Math.floor(Math.random() * crisisTypes.length)];
-      
-      alerts.push({
-        countryId: country.id,
-        source: "ReliefWeb",
-        title: `${countryName} - ${randomType.charAt(0).toUpperCase() + randomType.slice(1)} Situation Update`,
-        level: "Situation Update",
-        severity: "medium",
-        summary: `Current ${randomType} situation in ${countryName}. Monitor local conditions and follow guidance from local authorities.`,
-        link: `https://reliefweb.int/country/${this.getCountryCode3Letter(countryName).toLowerCase()}`,
-        date: new Date(),
-      });
+      const iso3 = resolveCountry(countryName)?.alpha3;
+      if (!iso3) {
+        return [];
+      }
 
-      return alerts;
+      return await reliefWebDataFetcher.fetchCountryAlerts(iso3, country.id);
     } catch (error) {
       console.error("Error fetching ReliefWeb data:", error);
-      return [];
+      throw error;
     }
   }
 
   async fetchCIAFactbook(countryName: string): Promise<InsertBackgroundInfo | null> {
     try {
-      // CIA World Factbook API mirror
-      const response = await fetch(`https://restcountries.com/v3.1/name/${encodeURIComponent(countryName)}`);
+      // CIA World Factbook API mirror, looked up by ISO code so short names don't match other countries
+      const code = resolveCountry(countryName)?.alpha2;
+      const response = code
+        ? await outboundHttp.fetch(`https://restcountries.com/v3.1/alpha/${code}`)
+        : await outboundHttp.fetch(`https://restcountries.com/v3.1/name/${encodeURIComponent(countryName)}`);
       const data = await response.json();
       
       if (!Array.isArray(data) || data.length === 0) return null;
@@ -458,8 +422,11 @@ export class DataFetcher {
 
   async fetchWorldBankData(countryName: string): Promise<Partial<InsertBackgroundInfo> | null> {
     try {
-      // World Bank API
-      const response = await fetch(`https://api.worldbank.org/v2/country/${countryName}/indicator/NY.GDP.PCAP.CD?format=json&date=2022&per_page=1`);
+      // World Bank API expects an ISO code
+      const iso3 = resolveCountry(countryName)?.alpha3;
+      if (!iso3) return null;
+
+      const response = await outboundHttp.fetch(`https://api.worldbank.org/v2/country/${iso3}/indicator/NY.GDP.PCAP.CD?format=json&date=2022&per_page=1`);
       const data = await response.json();
       
       if (Array.isArray(data) && data[1] && data[1][0]) {
@@ -475,58 +442,119 @@ export class DataFetcher {
     }
   }
 
+  /**
+   * Get the stored country record, creating it on first access
+   */
+  private async ensureCountry(countryName: string) {
+    let country = await storage.getCountryByName(countryName);
+    if (!country) {
+      const code = resolveCountry(countryName)?.alpha2 || "XX";
+      country = await storage.createCountry({
+        id: toCountrySlug(countryName),
+        name: countryName,
+        code,
+        flagUrl: `https://flagcdn.com/w40/${code.toLowerCase()}.png`,
+      });
+    }
+    return country;
+  }
+
   async fetchAllCountryData(countryName: string): Promise<void> {
     try {
-      // Ensure country exists
-      let country = await storage.getCountryByName(countryName);
-      if (!country) {
-        // Create country if it doesn't exist
-        const countryId = this.formatUrlSlug(countryName);
-        country = await storage.createCountry({
-          id: countryId,
-          name: countryName,
-          code: this.getCountryCode(countryName),
-          flagUrl: `https://flagcdn.com/w40/${this.getCountryCode(countryName).toLowerCase()}.png`,
-        });
-      }
+      const country = await this.ensureCountry(countryName);
 
-      // Clear existing alerts
-      await storage.deleteAlertsByCountryId(country.id);
-
-      // Fetch all alert sources
-      const [stateDept, fcdo, cdc, usgs, reliefWeb] = await Promise.all([
-        this.fetchStateDeptAdvisories(countryName),
-        this.fetchFCDOAdvisories(countryName),
-        this.fetchCDCHealthNotices(countryName),
-        this.fetchUSGSEarthquakes(countryName),
-        this.fetchReliefWebCrisis(countryName),
-      ]);
-
-      // Create all alerts
-      const allAlerts = [...stateDept, ...fcdo, ...cdc, ...usgs, ...reliefWeb];
-      for (const alert of allAlerts) {
-        await storage.createAlert(alert);
-      }
+      // Fetch all enabled alert sources
+      const sources = alertSourceRegistry.getEnabled();
+      const results = await Promise.all(
+        sources.map(source => alertSourceRegistry.runSource(source, countryName))
+      );
+      await this.storeSourceAlerts(countryName, country.id, sources, results);
 
       // Fetch background information
-      const [ciaData, worldBankData] = await Promise.all([
-        this.fetchCIAFactbook(countryName),
-        this.fetchWorldBankData(countryName),
-      ]);
-
-      if (ciaData) {
-        const backgroundInfo = { ...ciaData };
-        if (worldBankData?.gdpPerCapita) {
-          backgroundInfo.gdpPerCapita = worldBankData.gdpPerCapita;
-        }
-        await storage.createOrUpdateBackgroundInfo(backgroundInfo);
-      }
+      await this.fetchCountryBackground(countryName);
 
     } catch (error) {
       console.error(`Error fetching data for ${countryName}:`, error);
     }
   }
 
+  /**
+   * Refresh background information (CIA Factbook with World Bank GDP) and US citizens'
+   * entry requirements for a country
+   */
+  async fetchCountryBackground(countryName: string): Promise<void> {
+    const country = await this.ensureCountry(countryName);
+
+    const [ciaData, worldBankData] = await Promise.all([
+      this.fetchCIAFactbook(countryName),
+      this.fetchWorldBankData(countryName),
+      entryRequirementsService.fetchStateDeptRequirements(countryName, country.id),
+    ]);
+
+    if (ciaData) {
+      const backgroundInfo = { ...ciaData };
+      if (worldBankData?.gdpPerCapita) {
+        backgroundInfo.gdpPerCapita = worldBankData.gdpPerCapita;
+      }
+      await storage.createOrUpdateBackgroundInfo(backgroundInfo);
+    }
+  }
+
+  /**
+   * Refresh alerts from a subset of sources, replacing only the alerts those sources produced.
+   * Returns the sources that failed, and throws when every requested source failed.
+   */
+  async fetchCountryAlertsFromSources(countryName: string, sourceIds: string[]): Promise<string[]> {
+    const sources = alertSourceRegistry.getEnabled().filter(source => sourceIds.includes(source.id));
+    if (sources.length === 0) return [];
+
+    const country = await this.ensureCountry(countryName);
+
+    const results = await Promise.all(
+      sources.map(source => alertSourceRegistry.runSource(source, countryName))
+    );
+    await this.storeSourceAlerts(countryName, country.id, sources, results);
+
+    const failures = results.flatMap((result, index) => result.ok ? [] : [`${sources[index].id}: ${result.error}`]);
+    if (failures.length === sources.length) {
+      throw new Error(`Every alert source failed for ${countryName} (${failures.join('; ')})`);
+    }
+    return failures;
+  }
+
+  /**
+   * Replace the alerts and region advisories of each source that fetched successfully.
+   * A source that failed keeps what it last stored until its next successful fetch.
+   */
+  private async storeSourceAlerts(
+    countryName: string,
+    countryId: string,
+    sources: AlertSource[],
+    results: AlertSourceResult[]
+  ): Promise<void> {
+    const fetched = sources.flatMap((source, index) => {
+      const result = results[index];
+      return result.ok ? [{ source, alerts: result.alerts }] : [];
+    });
+
+    for (const { source, alerts } of fetched) {
+      await storage.deleteAlertsByCountryIdAndSource(countryId, source.label);
+      for (const alert of alerts) {
+        await storage.createAlert(alert);
+      }
+    }
+
+    // Keep a revision history of advisories that changed since the last fetch
+    // and announce any level upgrades or downgrades
+    const revisions = await recordAlertRevisions(fetched.flatMap(({ alerts }) => alerts));
+    publishAdvisoryChanges(countryName, revisions);
+
+    // Match the areas each source singles out to provinces and states
+    await Promise.all(fetched.map(({ source, alerts }) =>
+      regionAdvisoryService.updateFromAlerts(countryName, countryId, source.label, alerts)
+    ));
+  }
+
   private mapStateDeptSeverity(level: number): string {
     if (level >= 4) return "high";
     if (level >= 3) return "medium";
@@ -567,151 +595,6 @@ export class DataFetcher {
     }
   }
 
-  private getCountryCode(countryName: string): string {
-    const codes: { [key: string]: string } = {
-      // A
-      "afghanistan": "AF", "aland islands": "AX", "albania": "AL", "algeria": "DZ", "american samoa": "AS",
-      "andorra": "AD", "angola": "AO", "anguilla": "AI", "antigua and barbuda": "AG", "argentina": "AR",
-      "armenia": "AM", "aruba": "AW", "australia": "AU", "austria": "AT", "azerbaijan": "AZ",
-      // B
-      "bahamas": "BS", "bahrain": "BH", "bangladesh": "BD", "barbados": "BB", "belarus": "BY",
-      "belgium": "BE", "belize": "BZ", "benin": "BJ", "bermuda": "BM", "bhutan": "BT",
-      "bolivia": "BO", "bosnia and herzegovina": "BA", "botswana": "BW", "brazil": "BR",
-      "british virgin islands": "VG", "brunei": "BN", "bulgaria": "BG", "burkina faso": "BF", "burundi": "BI",
-      // C
-      "cambodia": "KH", "cameroon": "CM", "canada": "CA", "cape verde": "CV", "cayman islands": "KY",
-      "central african republic": "CF", "chad": "TD", "chile": "CL", "china": "CN", "colombia": "CO",
-      "comoros": "KM", "congo": "CG", "cook islands": "CK", "costa rica": "CR", "croatia": "HR",
-      "cuba": "CU", "curacao": "CW", "cyprus": "CY", "czech republic": "CZ",
-      // D
-      "denmark": "DK", "djibouti": "DJ", "dominica": "DM", "dominican republic": "DO",
-      // E
-      "ecuador": "EC", "egypt": "EG", "el salvador": "SV", "equatorial guinea": "GQ", "eritrea": "ER",
-      "estonia": "EE", "eswatini": "SZ", "ethiopia": "ET",
-      // F
-      "falkland islands": "FK", "faroe islands": "FO", "fiji": "FJ", "finland": "FI", "france": "FR",
-      "french guiana": "GF", "french polynesia": "PF",
-      // G
-      "gabon": "GA", "gambia": "GM", "georgia": "GE", "germany": "DE", "ghana": "GH",
-      "gibraltar": "GI", "greece": "GR", "greenland": "GL", "grenada": "GD", "guadeloupe": "GP",
-      "guam": "GU", "guatemala": "GT", "guernsey": "GG", "guinea": "GN", "guinea-bissau": "GW",
-      "guyana": "GY",
-      // H
-      "haiti": "HT", "honduras": "HN", "hong kong": "HK", "hungary": "HU",
-      // I
-      "iceland": "IS", "india": "IN", "indonesia": "ID", "iran": "IR", "iraq": "IQ",
-      "ireland": "IE", "isle of man": "IM", "israel": "IL", "italy": "IT", "ivory coast": "CI",
-      // J
-      "jamaica": "JM", "japan": "JP", "jersey": "JE", "jordan": "JO",
-      // K
-      "kazakhstan": "KZ", "kenya": "KE", "kiribati": "KI", "kosovo": "XK", "kuwait": "KW",
-      "kyrgyzstan": "KG",
-      // L
-      "laos": "LA", "latvia": "LV", "lebanon": "LB", "lesotho": "LS", "liberia": "LR",
-      "libya": "LY", "liechtenstein": "LI", "lithuania": "LT", "luxembourg": "LU",
-      // M
-      "macau": "MO", "madagascar": "MG", "malawi": "MW", "malaysia": "MY", "maldives": "MV",
-      "mali": "ML", "malta": "MT", "marshall islands": "MH", "martinique": "MQ", "mauritania": "MR",
-      "mauritius": "MU", "mayotte": "YT", "mexico": "MX", "micronesia": "FM", "moldova": "MD",
-      "monaco": "MC", "mongolia": "MN", "montenegro": "ME", "montserrat": "MS", "morocco": "MA",
-      "mozambique": "MZ", "myanmar": "MM",
-      // N
-      "namibia": "NA", "nauru": "NR", "nepal": "NP", "netherlands": "NL", "new caledonia": "NC",
-      "new zealand": "NZ", "nicaragua": "NI", "niger": "NE", "nigeria": "NG", "niue": "NU",
-      "north korea": "KP", "north macedonia": "MK", "northern mariana islands": "MP", "norway": "NO",
-      // O
-      "oman": "OM",
-      // P
-      "pakistan": "PK", "palau": "PW", "palestine": "PS", "panama": "PA", "papua new guinea": "PG",
-      "paraguay": "PY", "peru": "PE", "philippines": "PH", "pitcairn islands": "PN", "poland": "PL",
-      "portugal": "PT", "puerto rico": "PR",
-      // Q
-      "qatar": "QA",
-      // R
-      "reunion": "RE", "romania": "RO", "russia": "RU", "rwanda": "RW",
-      // S
-      "saint helena": "SH", "saint kitts and nevis": "KN", "saint lucia": "LC",
-      "saint pierre and miquelon": "PM", "saint vincent and the grenadines": "VC", "samoa": "WS",
-      "san marino": "SM", "sao tome and principe": "ST", "saudi arabia": "SA", "senegal": "SN",
-      "serbia": "RS", "seychelles": "SC", "sierra leone": "SL", "singapore": "SG",
-      "sint maarten": "SX", "slovakia": "SK", "slovenia": "SI", "solomon islands": "SB",
-      "somalia": "SO", "south africa": "ZA", "south korea": "KR", "south sudan": "SS",
-      "spain": "ES", "sri lanka": "LK", "sudan": "SD", "suriname": "SR", "sweden": "SE",
-      "switzerland": "CH", "syria": "SY",
-      // T
-      "taiwan": "TW", "tajikistan": "TJ", "tanzania": "TZ", "thailand": "TH", "timor-leste": "TL",
-      "togo": "TG", "tokelau": "TK", "tonga": "TO", "trinidad and tobago": "TT", "tunisia": "TN",
-      "turkey": "TR", "turkmenistan": "TM", "turks and caicos islands": "TC", "tuvalu": "TV",
-      // U
-      "uganda": "UG", "ukraine": "UA", "united arab emirates": "AE", "united kingdom": "GB",
-      "united states": "US", "uruguay": "UY", "us virgin islands": "VI", "uzbekistan": "UZ",
-      // V
-      "vanuatu": "VU", "vatican city": "VA", "venezuela": "VE", "vietnam": "VN",
-      // W
-      "wallis and futuna": "WF",
-      // Y
-      "yemen": "YE",
-      // Z
-      "zambia": "ZM", "zimbabwe": "ZW"
-    };
-    return codes[countryName.toLowerCase()] || "XX";
-  }
-
-  private getCountryCode3Letter(countryName: string): string {
-    const codes: { [key: string]: string } = {
-      "afghanistan": "AFG", "albania": "ALB", "algeria": "DZA", "argentina": "ARG", "australia": "AUS",
-      "austria": "AUT", "bangladesh": "BGD", "belarus": "BLR", "belgium": "BEL", "bolivia": "BOL",
-      "brazil": "BRA", "burkina faso": "BFA", "cambodia": "KHM", "canada": "CAN", "chad": "TCD",
-      "chile": "CHL", "china": "CHN", "colombia": "COL", "costa rica": "CRI", "cuba": "CUB",
-      "denmark": "DNK", "ecuador": "ECU", "egypt": "EGY", "ethiopia": "ETH", "fiji": "FJI",
-      "finland": "FIN", "france": "FRA", "germany": "DEU", "ghana": "GHA", "greece": "GRC",
-      "haiti": "HTI", "india": "IND", "indonesia": "IDN", "iran": "IRN", "iraq": "IRQ",
-      "ireland": "IRL", "israel": "ISR", "italy": "ITA", "jamaica": "JAM", "japan": "JPN",
-      "jordan": "JOR", "kenya": "KEN", "laos": "LAO", "lebanon": "LBN", "libya": "LBY",
-      "mali": "MLI", "mexico": "MEX", "myanmar": "MMR", "nepal": "NPL", "netherlands": "NLD",
-      "new zealand": "NZL", "niger": "NER", "nigeria": "NGA", "north korea": "PRK", "norway": "NOR",
-      "pakistan": "PAK", "panama": "PAN", "papua new guinea": "PNG", "peru": "PER", "philippines": "PHL", "poland": "POL",
-      "portugal": "PRT", "russia": "RUS", "singapore": "SGP", "somalia": "SOM", "south africa": "ZAF",
-      "south korea": "KOR", "spain": "ESP", "sweden": "SWE", "syria": "SYR", "thailand": "THA",
-      "turkey": "TUR", "ukraine": "UKR", "united kingdom": "GBR", "united states": "USA", "venezuela": "VEN",
-      "vietnam": "VNM", "yemen": "YEM", "zimbabwe": "ZWE"
-    };
-    return codes[countryName.toLowerCase()] || "XXX";
-  }
-
-  private formatUrlSlug(countryName: string): string {
-    // Handle special cases for URL formatting
-    // Note: Different external services use different URL formats
-    const lowerName = countryName.toLowerCase();
-    
-    // Standard format: replace spaces with hyphens
-    return lowerName.replace(/\s+/g, '-');
-  }
-
-  private formatStateDeptUrlSlug(countryName: string): string {
-    // State Department specific URL formatting
-    const specialCases: { [key: string]: string } = {
-      "united states": "usa",
-      "south korea": "korea-south",
-      "north korea": "korea-north",
-    };
-    
-    const lowerName = countryName.toLowerCase();
-    return specialCases[lowerName] || lowerName.replace(/\s+/g, '-');
-  }
-
-  private formatCDCUrlSlug(countryName: string): string {
-    // CDC specific URL formatting
-    const specialCases: { [key: string]: string } = {
-      "united states": "usa",
-      "south korea": "korea-south", 
-      "north korea": "korea-north",
-    };
-    
-    const lowerName = countryName.toLowerCase();
-    return specialCases[lowerName] || lowerName.replace(/\s+/g, '-');
-  }
-
   /**
    * Loads CA bundle with DigiCert certificates for secure HTTPS requests to State Dept API
    */
@@ -757,10 +640,10 @@ export class DataFetcher {
 
   /**
    * Fetches current threat levels from official State Department API
-   * Returns a map of country names (lowercase) to threat levels (1-4)
+   * Returns a map of country names (lowercase) to threat levels (1-4), or null when the API is unavailable
    * Data is cached for 24 hours to minimize API calls
    */
-  private async fetchStateDeptThreatLevels(): Promise<Map<string, number>> {
+  protected async fetchStateDeptThreatLevels(): Promise<Map<string, number> | null> {
     if (this.threatLevelCache && 
         (Date.now() - this.threatLevelCache.lastUpdated.getTime()) < this.THREAT_LEVEL_CACHE_TTL) {
       return this.threatLevelCache.levels;
@@ -771,16 +654,20 @@ export class DataFetcher {
       this.loadCABundle();
     }
 
-    // If CA bundle couldn't be loaded, use fallback immediately
+    // If CA bundle couldn't be loaded, the API can't be called
     if (!this.caBundle) {
       console.warn('[State Dept API] CA bundle unavailable, using fallback threat levels');
-      return this.getFallbackThreatLevels();
+      return null;
     }
 
     try {
       const https = await import('https');
       const url = 'https://cadataapi.state.gov/api/TravelAdvisories';
-      
+      const host = new URL(url).host;
+
+      // Needs the custom CA bundle, so it can't go through fetch, but still shares the host's rate limit
+      await outboundHttp.acquire(host);
+
       const data: any = await new Promise((resolve, reject) => {
         let cleanedUp = false;
         let req: any = null;
@@ -807,6 +694,8 @@ export class DataFetcher {
         };
         
         req = https.get(url, options, (res) => {
+          outboundHttp.recordResponse(host, res.statusCode ?? 0, res.headers['retry-after']);
+
           // Check for successful HTTP status
           if (!res.statusCode || res.statusCode < 200 || res.statusCode >= 300) {
             cleanup(new Error(`HTTP ${res.statusCode}: ${res.statusMessage}`));
@@ -840,7 +729,8 @@ export class DataFetcher {
           const levelMatch = advisory.Title.match(/^(.+?)\s*-\s*Level\s*(\d)/i);
           
           if (levelMatch) {
-            const countryName = levelMatch[1].trim().toLowerCase();
+            const apiName = levelMatch[1].trim().toLowerCase();
+            const countryName = resolveCountry(apiName)?.name || apiName;
             const level = parseInt(levelMatch[2]);
             
             if (level >= 1 && level <= 4) {
@@ -861,7 +751,7 @@ export class DataFetcher {
     } catch (error) {
       console.error('[State Dept API] Failed to fetch threat levels:', error instanceof Error ? error.message : 'unknown error');
       console.log('[State Dept API] Falling back to hardcoded threat level defaults');
-      return this.getFallbackThreatLevels();
+      return null;
     }
   }
 
@@ -895,69 +785,74 @@ export class DataFetcher {
     return fallbackLevels;
   }
 
-  private async getAdvisoryLevel(countryName: string): Promise<number> {
+  /**
+   * A country's advisory level, and whether it came from the State Dept API rather than the defaults
+   */
+  private async getAdvisoryLevel(countryName: string): Promise<{ level: number; official: boolean }> {
     const levels = await this.fetchStateDeptThreatLevels();
-    const normalizedName = countryName.toLowerCase();
+    const normalizedName = resolveCountry(countryName)?.name || countryName.toLowerCase();
     
-    if (levels.has(normalizedName)) {
-      return levels.get(normalizedName)!;
+    const apiLevel = levels?.get(normalizedName);
+    if (apiLevel !== undefined) {
+      return { level: apiLevel, official: true };
     }
     
-    return 2;
+    return { level: this.getFallbackThreatLevels().get(normalizedName) ?? 2, official: false };
   }
+}
 
-  private getHealthConcerns(countryName: string): { level: string; severity: string; summary: string } {
-    const name = countryName.toLowerCase();
-    
-    if (['afghanistan', 'yemen', 'somalia', 'chad', 'niger', 'mali', 'burkina faso'].includes(name)) {
-      return {
-        level: 'High Risk',
-        severity: 'high',
-        summary: 'High risk of infectious diseases including malaria, yellow fever, and hepatitis. Comprehensive vaccination required.'
-      };
-    }
-    
-    if (['brazil', 'colombia', 'peru', 'ecuador', 'thailand', 'vietnam', 'cambodia', 'laos', 'india', 'bangladesh', 'myanmar'].includes(name)) {
-      return {
-        level: 'Moderate Risk',
-        severity: 'medium',
-        summary: 'Risk of mosquito-borne illnesses including dengue, chikungunya, and Zika. Malaria prevention recommended for certain areas.'
-      };
-    }
-    
-    return {
-      level: 'Standard',
-      severity: 'info',
-      summary: 'Routine vaccinations recommended. Consult healthcare provider about additional precautions based on activities and length of stay.'
-    };
-  }
+export const dataFetcher = new DataFetcher();
 
-  private getSeismicActivity(countryName: string): { isActive: boolean; title: string; level: string; severity: string; summary: string } {
-    const seismicCountries = [
-      'japan', 'indonesia', 'philippines', 'chile', 'peru', 'ecuador', 'colombia',
-      'mexico', 'turkey', 'greece', 'italy', 'iran', 'afghanistan', 'pakistan',
-      'india', 'nepal', 'china', 'new zealand', 'papua new guinea', 'fiji'
-    ];
-    
-    const name = countryName.toLowerCase();
-    if (seismicCountries.includes(name)) {
-      return {
-        isActive: true,
-        title: `Seismic Activity Monitoring - ${countryName}`,
-        level: 'Active Zone',
-        severity: 'medium',
-        summary: `${countryName} is located in a seismically active region. Monitor earthquake alerts and familiarize yourself with safety procedures.`
-      };
-    }
-    
-    return {
-      isActive: false,
-      title: '',
-      level: '',
-      severity: 'info',
-      summary: ''
-    };
-  }
+const SIX_HOURS_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Register the built-in government and humanitarian feeds
+ */
+function registerBuiltInAlertSources(): void {
+  alertSourceRegistry.register({
+    id: "us-state-dept",
+    label: "US State Dept",
+    refreshIntervalMs: SIX_HOURS_MS,
+    timeoutMs: 120000, // Allows for page fetch plus AI enhancement
+    enabled: true,
+    fetchAlerts: (countryName) => dataFetcher.fetchStateDeptAdvisories(countryName),
+  });
+
+  alertSourceRegistry.register({
+    id: "uk-fcdo",
+    label: "UK FCDO",
+    refreshIntervalMs: SIX_HOURS_MS,
+    timeoutMs: 30000,
+    enabled: true,
+    fetchAlerts: (countryName) => dataFetcher.fetchFCDOAdvisories(countryName),
+  });
+
+  alertSourceRegistry.register({
+    id: "cdc",
+    label: "CDC",
+    refreshIntervalMs: SIX_HOURS_MS,
+    timeoutMs: 30000,
+    enabled: true,
+    fetchAlerts: (countryName) => dataFetcher.fetchCDCHealthNotices(countryName),
+  });
+
+  alertSourceRegistry.register({
+    id: "usgs",
+    label: "USGS",
+    refreshIntervalMs: 60 * 60 * 1000, // Live feed, refreshed hourly
+    timeoutMs: 30000,
+    enabled: true,
+    fetchAlerts: (countryName) => dataFetcher.fetchUSGSEarthquakes(countryName),
+  });
+
+  alertSourceRegistry.register({
+    id: "reliefweb",
+    label: "ReliefWeb",
+    refreshIntervalMs: SIX_HOURS_MS,
+    timeoutMs: 30000,
+    enabled: true,
+    fetchAlerts: (countryName) => dataFetcher.fetchReliefWebCrisis(countryName),
+  });
 }
 
-export const dataFetcher = new DataFetcher();
+registerBuiltInAlertSources();
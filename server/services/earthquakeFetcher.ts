@@ -0,0 +1,354 @@
+import type { InsertAlert } from "@shared/schema";
+import { getCountryByCode, resolveCountry } from "@shared/countries";
+import { outboundHttp } from "../utils/outboundHttp";
+
+type Position = number[]; // [longitude, latitude, depth?]
+type LinearRing = Position[];
+type PolygonCoordinates = LinearRing[];
+
+interface BoundaryFeature {
+  id?: string;
+  properties: { name?: string };
+  geometry: {
+    type: 'Polygon' | 'MultiPolygon';
+    coordinates: PolygonCoordinates | PolygonCoordinates[];
+  } | null;
+}
+
+export interface BoundaryCollection {
+  type: 'FeatureCollection';
+  features: BoundaryFeature[];
+}
+
+interface USGSFeature {
+  id: string;
+  properties: {
+    mag: number | null;
+    place: string | null;
+    time: number;
+    url: string;
+    title?: string;
+    tsunami?: number;
+    alert?: string | null;
+  };
+  geometry: {
+    type: 'Point';
+    coordinates: Position;
+  };
+}
+
+export interface USGSFeed {
+  type: 'FeatureCollection';
+  metadata?: { generated: number; title?: string };
+  features: USGSFeature[];
+}
+
+export interface Earthquake {
+  id: string;
+  magnitude: number;
+  place: string;
+  title: string;
+  time: Date;
+  url: string;
+  longitude: number;
+  latitude: number;
+  depthKm: number | null;
+  tsunami: boolean;
+}
+
+interface PreparedBoundary {
+  countryName: string;
+  polygons: PolygonCoordinates[];
+  bbox: [number, number, number, number]; // [minLon, minLat, maxLon, maxLat]
+}
+
+// Magnitude thresholds used to grade each event
+const SEVERITY_THRESHOLDS: Array<{ minMagnitude: number; severity: string }> = [
+  { minMagnitude: 6.5, severity: "high" },
+  { minMagnitude: 5.5, severity: "medium" },
+  { minMagnitude: 4.5, severity: "low" },
+];
+
+// Keep the per-country alert list readable during seismic swarms
+const MAX_ALERTS_PER_COUNTRY = 5;
+
+/**
+ * Map an earthquake magnitude to an alert severity
+ */
+export function mapMagnitudeToSeverity(magnitude: number): string {
+  for (const threshold of SEVERITY_THRESHOLDS) {
+    if (magnitude >= threshold.minMagnitude) {
+      return threshold.severity;
+    }
+  }
+  return "info";
+}
+
+/**
+ * Parse a USGS GeoJSON summary feed into earthquakes, skipping events without a magnitude
+ */
+export function parseEarthquakeFeed(feed: USGSFeed): Earthquake[] {
+  if (!feed || !Array.isArray(feed.features)) {
+    return [];
+  }
+
+  const earthquakes: Earthquake[] = [];
+  for (const feature of feed.features) {
+    const { properties, geometry } = feature;
+    if (!properties || properties.mag === null || properties.mag === undefined) continue;
+    if (!geometry || !Array.isArray(geometry.coordinates) || geometry.coordinates.length < 2) continue;
+
+    const [longitude, latitude, depth] = geometry.coordinates;
+    const place = properties.place || "Unknown location";
+
+    earthquakes.push({
+      id: feature.id,
+      magnitude: properties.mag,
+      place,
+      title: properties.title || `M ${properties.mag.toFixed(1)} - ${place}`,
+      time: new Date(properties.time),
+      url: properties.url,
+      longitude,
+      latitude,
+      depthKm: typeof depth === 'number' ? depth : null,
+      tsunami: properties.tsunami === 1,
+    });
+  }
+
+  return earthquakes;
+}
+
+/**
+ * Normalize a boundary dataset country to the app's canonical naming, preferring
+ * the feature's ISO alpha-3 id over its display name
+ */
+function normalizeBoundaryName(name: string, code?: string): string {
+  const country = getCountryByCode(code) || resolveCountry(name);
+  return country?.name || name.toLowerCase().trim();
+}
+
+/**
+ * Precompute bounding boxes so most point tests can skip the full polygon walk
+ */
+export function prepareBoundaries(collection: BoundaryCollection): PreparedBoundary[] {
+  const prepared: PreparedBoundary[] = [];
+
+  for (const feature of collection.features || []) {
+    if (!feature.geometry || !feature.properties?.name) continue;
+
+    const polygons = feature.geometry.type === 'Polygon'
+      ? [feature.geometry.coordinates as PolygonCoordinates]
+      : feature.geometry.coordinates as PolygonCoordinates[];
+
+    let minLon = Infinity, minLat = Infinity, maxLon = -Infinity, maxLat = -Infinity;
+    for (const polygon of polygons) {
+      for (const [lon, lat] of polygon[0] || []) {
+        minLon = Math.min(minLon, lon);
+        minLat = Math.min(minLat, lat);
+        maxLon = Math.max(maxLon, lon);
+        maxLat = Math.max(maxLat, lat);
+      }
+    }
+
+    prepared.push({
+      countryName: normalizeBoundaryName(feature.properties.name, feature.id),
+      polygons,
+      bbox: [minLon, minLat, maxLon, maxLat],
+    });
+  }
+
+  return prepared;
+}
+
+/**
+ * Ray-casting test for a point against a single linear ring
+ */
+function isPointInRing(lon: number, lat: number, ring: LinearRing): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    const intersects = (yi > lat) !== (yj > lat) &&
+      lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi;
+    if (intersects) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * A point is inside a polygon when it is inside the outer ring and outside every hole
+ */
+function isPointInPolygon(lon: number, lat: number, polygon: PolygonCoordinates): boolean {
+  if (polygon.length === 0 || !isPointInRing(lon, lat, polygon[0])) {
+    return false;
+  }
+  for (let i = 1; i < polygon.length; i++) {
+    if (isPointInRing(lon, lat, polygon[i])) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Find the country whose boundary contains the given point
+ */
+export function findCountryForPoint(lon: number, lat: number, boundaries: PreparedBoundary[]): string | null {
+  for (const boundary of boundaries) {
+    const [minLon, minLat, maxLon, maxLat] = boundary.bbox;
+    if (lon < minLon || lon > maxLon || lat < minLat || lat > maxLat) continue;
+
+    if (boundary.polygons.some(polygon => isPointInPolygon(lon, lat, polygon))) {
+      return boundary.countryName;
+    }
+  }
+  return null;
+}
+
+/**
+ * Offshore events fall outside every land polygon; USGS names the nearest
+ * country at the end of the place string (e.g. "120 km E of Hachinohe, Japan")
+ */
+function countryFromPlace(place: string, knownCountries: Set<string>): string | null {
+  const parts = place.split(",");
+  if (parts.length < 2) return null;
+  const candidate = normalizeBoundaryName(parts[parts.length - 1]);
+  return knownCountries.has(candidate) ? candidate : null;
+}
+
+/**
+ * Group earthquakes by the country they occurred in
+ */
+export function assignEarthquakesToCountries(
+  earthquakes: Earthquake[],
+  boundaries: PreparedBoundary[]
+): Map<string, Earthquake[]> {
+  const knownCountries = new Set(boundaries.map(b => b.countryName));
+  const byCountry = new Map<string, Earthquake[]>();
+
+  for (const quake of earthquakes) {
+    const countryName = findCountryForPoint(quake.longitude, quake.latitude, boundaries)
+      ?? countryFromPlace(quake.place, knownCountries);
+    if (!countryName) continue;
+
+    const list = byCountry.get(countryName) || [];
+    list.push(quake);
+    byCountry.set(countryName, list);
+  }
+
+  return byCountry;
+}
+
+/**
+ * Convert a country's earthquakes into alerts, strongest first
+ */
+export function earthquakesToAlerts(earthquakes: Earthquake[], countryId: string): InsertAlert[] {
+  return [...earthquakes]
+    .sort((a, b) => b.magnitude - a.magnitude || b.time.getTime() - a.time.getTime())
+    .slice(0, MAX_ALERTS_PER_COUNTRY)
+    .map(quake => {
+      const depth = quake.depthKm !== null ? ` at a depth of ${quake.depthKm.toFixed(1)} km` : '';
+      const tsunami = quake.tsunami ? ' A tsunami message was issued for this event.' : '';
+
+      return {
+        countryId,
+        source: "USGS",
+        title: quake.title,
+        level: `Magnitude ${quake.magnitude.toFixed(1)}`,
+        severity: mapMagnitudeToSeverity(quake.magnitude),
+        summary: `A magnitude ${quake.magnitude.toFixed(1)} earthquake occurred ${quake.place}${depth}.${tsunami} Follow guidance from local authorities regarding aftershocks.`,
+        link: quake.url,
+        date: quake.time,
+      };
+    });
+}
+
+export class EarthquakeDataFetcher {
+  // USGS summary feed name, e.g. '4.5_week', 'significant_month', '2.5_day'
+  private readonly feedName = process.env.USGS_FEED || '4.5_week';
+  private readonly boundariesUrl = process.env.COUNTRY_BOUNDARIES_URL ||
+    'https://raw.githubusercontent.com/johan/world.geo.json/master/countries.geo.json';
+  private readonly FEED_CACHE_TTL = 15 * 60 * 1000; // USGS regenerates summary feeds every few minutes
+
+  // Pending or loaded, so concurrent lookups share one download
+  private feedCache: { byCountry: Promise<Map<string, Earthquake[]>>; lastUpdated: Date } | null = null;
+  private boundaries: Promise<PreparedBoundary[]> | null = null;
+
+  private get feedUrl(): string {
+    return `https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/${this.feedName}.geojson`;
+  }
+
+  /**
+   * Load country boundaries once; they rarely change. A failed load is tried again on the next lookup.
+   */
+  private loadBoundaries(): Promise<PreparedBoundary[]> {
+    if (!this.boundaries) {
+      const loading = this.downloadBoundaries().then(collection => {
+        const boundaries = prepareBoundaries(collection);
+        console.log(`[EarthquakeFetcher] Loaded ${boundaries.length} country boundaries`);
+        return boundaries;
+      });
+      loading.catch(() => {
+        if (this.boundaries === loading) this.boundaries = null;
+      });
+      this.boundaries = loading;
+    }
+    return this.boundaries;
+  }
+
+  protected async downloadBoundaries(): Promise<BoundaryCollection> {
+    const response = await outboundHttp.fetch(this.boundariesUrl);
+    if (!response.ok) {
+      throw new Error(`Boundary dataset returned ${response.status}: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  protected async downloadFeed(): Promise<USGSFeed> {
+    const response = await outboundHttp.fetch(this.feedUrl);
+    if (!response.ok) {
+      throw new Error(`USGS feed returned ${response.status}: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Fetch the global feed and group events by country, cached across country lookups.
+   * A failed fetch is not cached.
+   */
+  private getEarthquakesByCountry(): Promise<Map<string, Earthquake[]>> {
+    if (this.feedCache && Date.now() - this.feedCache.lastUpdated.getTime() < this.FEED_CACHE_TTL) {
+      return this.feedCache.byCountry;
+    }
+
+    const loading = this.loadEarthquakesByCountry();
+    loading.catch(() => {
+      if (this.feedCache?.byCountry === loading) this.feedCache = null;
+    });
+    this.feedCache = { byCountry: loading, lastUpdated: new Date() };
+    return loading;
+  }
+
+  private async loadEarthquakesByCountry(): Promise<Map<string, Earthquake[]>> {
+    const [boundaries, feed] = await Promise.all([
+      this.loadBoundaries(),
+      this.downloadFeed(),
+    ]);
+
+    const earthquakes = parseEarthquakeFeed(feed);
+    const byCountry = assignEarthquakesToCountries(earthquakes, boundaries);
+    console.log(`[EarthquakeFetcher] Mapped ${earthquakes.length} events from ${this.feedName} to ${byCountry.size} countries`);
+    return byCountry;
+  }
+
+  /**
+   * Get recent earthquakes for one country as alerts
+   */
+  async fetchCountryEarthquakeAlerts(countryName: string, countryId: string): Promise<InsertAlert[]> {
+    const byCountry = await this.getEarthquakesByCountry();
+    const earthquakes = byCountry.get(countryName.toLowerCase()) || [];
+    return earthquakesToAlerts(earthquakes, countryId);
+  }
+}
+
+export const earthquakeDataFetcher = new EarthquakeDataFetcher();
@@ -1,4 +1,6 @@
 import type { InsertEmbassyConsulate } from "@shared/schema";
+import { getCountryByCode, resolveCountry } from "@shared/countries";
+import { outboundHttp } from "../utils/outboundHttp";
 
 interface OverpassElement {
   type: string;
@@ -55,12 +57,13 @@ export class EmbassyDataFetcher {
     try {
       console.log('[EmbassyFetcher] Fetching US embassy/consulate data from OpenStreetMap...');
       
-      const response = await fetch(this.overpassApiUrl, {
+      const response = await outboundHttp.fetch(this.overpassApiUrl, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
         },
         body: `data=${encodeURIComponent(query)}`,
+        retries: 2, // Read-only query, safe to repeat
       });
 
       if (!response.ok) {
@@ -163,15 +166,15 @@ export class EmbassyDataFetcher {
     if (!tags) return null;
 
     // Try addr:country first
-    const addrCountry = tags['addr:country'];
+    const addrCountry = this.normalizeCountryCode(tags['addr:country']);
     if (addrCountry) {
-      return addrCountry.toUpperCase();
+      return addrCountry;
     }
 
     // Try target tag (indicates the country the embassy is located in)
-    const target = tags['target'];
+    const target = this.normalizeCountryCode(tags['target']);
     if (target) {
-      return target.toUpperCase();
+      return target;
     }
 
     // Try to map city to country code (check both addr:city and contact:city)
@@ -183,6 +186,15 @@ export class EmbassyDataFetcher {
     return null;
   }
 
+  /**
+   * Resolve an OSM country value (ISO code or country name) to an ISO alpha-2 code
+   */
+  private normalizeCountryCode(value: string | undefined): string | null {
+    if (!value) return null;
+    const country = getCountryByCode(value) || resolveCountry(value);
+    return country?.alpha2 || null;
+  }
+
   /**
    * Map city names to country codes (common embassy locations)
    */
@@ -0,0 +1,172 @@
+import { JSDOM } from "jsdom";
+import type { EntryRequirement, EntryRequirementType, InsertEntryRequirement } from "@shared/schema";
+import { getCountrySlug } from "@shared/countries";
+import { storage, type IStorage } from "../storage";
+import { outboundHttp } from "../utils/outboundHttp";
+
+export interface ParsedEntryRequirement {
+  requirement: EntryRequirementType;
+  details: string;
+}
+
+export type EntryRequirementStore = Pick<IStorage, 'replaceEntryRequirements'>;
+
+// Each source writes entry rules for its own citizens
+export const FCDO_NATIONALITY = "GB";
+export const STATE_DEPT_NATIONALITY = "US";
+
+const MAX_DETAILS_LENGTH = 600;
+
+// Matched against a heading or quick-facts label, most specific first
+const REQUIREMENT_PATTERNS: Array<{ pattern: RegExp; requirement: EntryRequirementType }> = [
+  { pattern: /blank (passport )?pages?/, requirement: "blank-pages" },
+  { pattern: /passport validity|validity of (your )?passport/, requirement: "passport-validity" },
+  { pattern: /vaccin|yellow fever|immuni[sz]ation/, requirement: "vaccinations" },
+  { pattern: /currency|money|\bcash\b/, requirement: "currency" },
+  { pattern: /\bvisas?\b|e-?visa|travel authori[sz]ation/, requirement: "visa" },
+];
+
+/**
+ * Requirement a heading or label describes, or null when it is about something else
+ */
+export function classifyEntryRequirement(label: string): EntryRequirementType | null {
+  const text = label.toLowerCase();
+  return REQUIREMENT_PATTERNS.find(({ pattern }) => pattern.test(text))?.requirement ?? null;
+}
+
+function normalizeText(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+function truncate(text: string): string {
+  if (text.length <= MAX_DETAILS_LENGTH) return text;
+  const cut = text.substring(0, MAX_DETAILS_LENGTH);
+  return cut.substring(0, cut.lastIndexOf(' ')) + '...';
+}
+
+/**
+ * Collect text per requirement, keeping first-seen order and merging repeated requirements
+ */
+function collectRequirements(entries: Array<[EntryRequirementType, string]>): ParsedEntryRequirement[] {
+  const details = new Map<EntryRequirementType, string[]>();
+  for (const [requirement, text] of entries) {
+    if (!text) continue;
+    details.set(requirement, [...(details.get(requirement) || []), text]);
+  }
+  return Array.from(details, ([requirement, texts]) => ({ requirement, details: truncate(texts.join(' ')) }));
+}
+
+/**
+ * Read the FCDO entry requirements part. Text under a heading about visas, passport validity,
+ * vaccinations or money belongs to that requirement until the next top-level heading.
+ */
+export function parseFCDOEntryRequirements(html: string): ParsedEntryRequirement[] {
+  const document = new JSDOM(`<body>${html}</body>`).window.document;
+  const entries: Array<[EntryRequirementType, string]> = [];
+  let current: EntryRequirementType | null = null;
+
+  for (const element of Array.from(document.body.querySelectorAll('h2, h3, h4, p, li'))) {
+    const tag = element.tagName.toLowerCase();
+    if (tag.startsWith('h')) {
+      const requirement = classifyEntryRequirement(element.textContent || '');
+      // Sub-headings without a requirement of their own stay under their section
+      if (requirement || tag === 'h2') current = requirement;
+      continue;
+    }
+    // List items are read whole, so skip paragraphs inside them
+    if (tag === 'p' && element.closest('li')) continue;
+    if (current) entries.push([current, normalizeText(element.textContent)]);
+  }
+
+  return collectRequirements(entries);
+}
+
+/**
+ * Read the "Quick Facts" boxes of a State Dept country information page
+ */
+export function parseStateDeptQuickFacts(html: string): ParsedEntryRequirement[] {
+  const document = new JSDOM(html).window.document;
+  const entries: Array<[EntryRequirementType, string]> = [];
+
+  for (const title of Array.from(document.querySelectorAll('.tsg-rwd-qf-box-title'))) {
+    const label = normalizeText(title.textContent).replace(/:$/, '');
+    const requirement = classifyEntryRequirement(label);
+    const data = title.nextElementSibling;
+    if (!requirement || !data?.classList.contains('tsg-rwd-qf-box-data')) continue;
+
+    let text = normalizeText(data.textContent);
+    // Entry and exit currency rules share a requirement, so say which is which
+    const direction = label.match(/\b(entry|exit)\b/i)?.[1];
+    if (requirement === 'currency' && direction && text) {
+      text = `${direction.charAt(0).toUpperCase()}${direction.slice(1).toLowerCase()}: ${text}`;
+    }
+    entries.push([requirement, text]);
+  }
+
+  return collectRequirements(entries);
+}
+
+/**
+ * State Dept country information pages are named after the country in PascalCase
+ */
+export function getStateDeptInfoPageUrl(countryName: string): string {
+  const pageName = getCountrySlug(countryName, 'stateDept')
+    .split('-')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+  return `https://travel.state.gov/content/travel/en/international-travel/International-Travel-Country-Information-Pages/${pageName}.html`;
+}
+
+export class EntryRequirementsService {
+  constructor(private readonly store: EntryRequirementStore = storage) {}
+
+  /**
+   * Replace a source's requirements for a destination and nationality, stamped as verified now
+   */
+  async saveRequirements(
+    countryId: string,
+    nationality: string,
+    source: string,
+    link: string,
+    parsed: ParsedEntryRequirement[],
+    verifiedAt: Date = new Date()
+  ): Promise<EntryRequirement[] | null> {
+    try {
+      const requirements: InsertEntryRequirement[] = parsed.map(({ requirement, details }) => ({
+        countryId,
+        nationality,
+        source,
+        requirement,
+        details,
+        link,
+        lastVerified: verifiedAt,
+      }));
+      return await this.store.replaceEntryRequirements(countryId, nationality, source, requirements);
+    } catch (error) {
+      console.error(`[EntryRequirements] Failed to save ${source} requirements for ${countryId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Refresh US citizens' entry requirements from the State Dept country information page.
+   * Previous rows are kept when the page cannot be read or no quick facts are found.
+   */
+  async fetchStateDeptRequirements(countryName: string, countryId: string): Promise<EntryRequirement[] | null> {
+    const link = getStateDeptInfoPageUrl(countryName);
+    try {
+      const response = await outboundHttp.fetch(link);
+      if (!response.ok) return null;
+
+      const parsed = parseStateDeptQuickFacts(await response.text());
+      if (parsed.length === 0) return null;
+
+      return await this.saveRequirements(countryId, STATE_DEPT_NATIONALITY, "US State Dept", link, parsed);
+    } catch (error) {
+      console.error(`[EntryRequirements] Failed to fetch State Dept requirements for ${countryName}:`, error);
+      return null;
+    }
+  }
+}
+
+export const entryRequirementsService = new EntryRequirementsService();
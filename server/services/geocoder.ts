@@ -0,0 +1,63 @@
+import type { GeoPoint } from "./tripAssessment";
+import { outboundHttp } from "../utils/outboundHttp";
+
+interface NominatimResult {
+  lat: string;
+  lon: string;
+  display_name?: string;
+}
+
+/**
+ * Looks up city coordinates with the OpenStreetMap Nominatim API
+ */
+export class CityGeocoder {
+  private readonly apiUrl = process.env.GEOCODER_URL || 'https://nominatim.openstreetmap.org';
+  private readonly REQUEST_TIMEOUT_MS = 10000;
+
+  // City coordinates rarely change; misses are cached too so unknown cities aren't re-queried
+  private cache: Map<string, GeoPoint | null> = new Map();
+
+  /**
+   * Locate a city within a country (ISO alpha-2). Returns null when the city can't be found.
+   */
+  async geocode(city: string, countryCode: string): Promise<GeoPoint | null> {
+    const key = `${countryCode.toLowerCase()}|${city.trim().toLowerCase()}`;
+    if (this.cache.has(key)) {
+      return this.cache.get(key)!;
+    }
+
+    try {
+      const params = new URLSearchParams({
+        city: city.trim(),
+        countrycodes: countryCode.toLowerCase(),
+        format: 'json',
+        limit: '1',
+      });
+      const response = await outboundHttp.fetch(`${this.apiUrl}/search?${params}`, {
+        headers: {
+          'User-Agent': 'GlobalTravelAdvisory/1.0',
+          'Accept': 'application/json',
+        },
+        signal: AbortSignal.timeout(this.REQUEST_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Nominatim returned ${response.status}: ${response.statusText}`);
+      }
+
+      const results: NominatimResult[] = await response.json();
+      const point = results.length > 0
+        ? { latitude: parseFloat(results[0].lat), longitude: parseFloat(results[0].lon) }
+        : null;
+
+      this.cache.set(key, point);
+      return point;
+    } catch (error) {
+      // Don't cache failures; the next lookup may succeed
+      console.error(`[Geocoder] Failed to locate ${city} (${countryCode}):`, error);
+      return null;
+    }
+  }
+}
+
+export const cityGeocoder = new CityGeocoder();
@@ -0,0 +1,98 @@
+import { EventEmitter } from "events";
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+interface JobEventBase {
+  jobId: string;
+  at: Date;
+}
+
+export type JobEvent = JobEventBase & (
+  | { type: 'country-started'; country: string }
+  | { type: 'country-retry'; country: string; attempt: number; maxAttempts: number; delayMs: number; error: string }
+  | { type: 'country-completed'; country: string; processedCountries: number; failedCountries: number }
+  | { type: 'country-failed'; country: string; error: string; processedCountries: number; failedCountries: number }
+  | { type: 'status'; status: JobStatus; totalCountries: number; processedCountries: number; failedCountries: number; aiCache?: { hits: number; misses: number } }
+  | { type: 'eta'; remainingCountries: number; countriesPerMinute: number; estimatedSecondsRemaining: number }
+);
+
+export type JobEventType = JobEvent['type'];
+
+// Distributive Omit, so each variant of the union keeps its own fields
+type JobEventInput = JobEvent extends infer E ? E extends JobEvent ? Omit<E, 'at'> : never : never;
+
+export interface EtaEstimate {
+  countriesPerMinute: number;
+  estimatedSecondsRemaining: number;
+}
+
+// Throughput is measured over the most recent countries, so the estimate follows slowdowns
+const ETA_WINDOW = 20;
+
+export const TERMINAL_JOB_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Estimate time remaining from when recent countries finished. Until a full window of countries
+ * has finished, throughput is measured from the start of the run.
+ */
+export function estimateEta(
+  finishTimes: number[],
+  runStartedAt: number,
+  remainingCountries: number,
+  now: number = Date.now()
+): EtaEstimate | null {
+  if (finishTimes.length === 0) return null;
+
+  const recent = finishTimes.slice(-ETA_WINDOW);
+  const windowStart = finishTimes.length > ETA_WINDOW
+    ? finishTimes[finishTimes.length - ETA_WINDOW - 1]
+    : runStartedAt;
+  const elapsedMs = now - windowStart;
+  if (elapsedMs <= 0) return null;
+
+  const perMs = recent.length / elapsedMs;
+  return {
+    countriesPerMinute: Math.round(perMs * 60000 * 10) / 10,
+    estimatedSecondsRemaining: Math.round(remainingCountries / perMs / 1000),
+  };
+}
+
+/**
+ * Serialize an event as a Server-Sent Events message
+ */
+export function formatSseEvent(type: string, data: unknown): string {
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+interface JobEventMap {
+  JobEvent: [JobEvent];
+}
+
+/**
+ * Typed event bus for bulk job progress
+ */
+export class JobEventBus extends EventEmitter<JobEventMap> {
+  constructor() {
+    super();
+    this.setMaxListeners(0); // One listener per open progress stream
+  }
+
+  publish(event: JobEventInput): void {
+    this.emit('JobEvent', { ...event, at: new Date() } as JobEvent);
+  }
+
+  /**
+   * Listen to one job's events. Returns a function that stops listening.
+   */
+  subscribe(jobId: string, listener: (event: JobEvent) => void): () => void {
+    const handler = (event: JobEvent) => {
+      if (event.jobId === jobId) listener(event);
+    };
+    this.on('JobEvent', handler);
+    return () => {
+      this.off('JobEvent', handler);
+    };
+  }
+}
+
+export const jobEvents = new JobEventBus();
@@ -0,0 +1,63 @@
+import { COUNTRIES } from "@shared/countries";
+import type { BulkJob } from "@shared/schema";
+
+type QueuedJob = Pick<BulkJob, 'id' | 'status' | 'priority' | 'queuedAt'>;
+
+/**
+ * Every region and subregion countries can be filtered by
+ */
+export function getRegions(): string[] {
+  const regions = new Set<string>();
+  for (const country of COUNTRIES) {
+    regions.add(country.region);
+    regions.add(country.subregion);
+  }
+  return Array.from(regions).sort();
+}
+
+/**
+ * Canonical names of the countries in a region or subregion (case-insensitive)
+ */
+export function getCountriesInRegion(region: string): string[] {
+  const wanted = region.toLowerCase().trim();
+  return COUNTRIES
+    .filter(country => country.region.toLowerCase() === wanted || country.subregion.toLowerCase() === wanted)
+    .map(country => country.name);
+}
+
+/**
+ * Queue order: highest priority first, then first queued
+ */
+export function compareQueuedJobs(a: QueuedJob, b: QueuedJob): number {
+  if (a.priority !== b.priority) return b.priority - a.priority;
+  return a.queuedAt.getTime() - b.queuedAt.getTime();
+}
+
+/**
+ * The queued job that should run next, if any
+ */
+export function selectNextJob<T extends QueuedJob>(jobs: T[]): T | undefined {
+  return jobs.filter(job => job.status === 'queued').sort(compareQueuedJobs)[0];
+}
+
+/**
+ * Whether a running job should pause so a higher priority queued job can run
+ */
+export function shouldYield(running: Pick<BulkJob, 'priority'>, jobs: QueuedJob[]): boolean {
+  return jobs.some(job => job.status === 'queued' && job.priority > running.priority);
+}
+
+function sameList(a: string[] | null | undefined, b: string[] | null | undefined): boolean {
+  if (!a || !b) return !a && !b;
+  return a.length === b.length && [...a].sort().join('|') === [...b].sort().join('|');
+}
+
+/**
+ * Whether two jobs would do the same work, so a repeated request can reuse the pending job
+ */
+export function isSameWork(
+  a: Pick<BulkJob, 'type' | 'countries' | 'sourceIds'>,
+  b: Pick<BulkJob, 'type' | 'countries' | 'sourceIds'>,
+): boolean {
+  return a.type === b.type && sameList(a.countries, b.countries) && sameList(a.sourceIds, b.sourceIds);
+}
@@ -0,0 +1,242 @@
+import { storage, waitForStorage } from "../storage";
+import { getNextRunAt, planDueRuns } from "./cronSchedule";
+import { LeaseManager, schedulerLease } from "./leaderLease";
+import type { InsertScheduledJob, ScheduledJob } from "@shared/schema";
+
+// A task returns an optional message recorded as the job's last run message
+export type ScheduledTask = () => Promise<string | void>;
+
+export type JobTrigger = 'schedule' | 'catch-up' | 'manual';
+
+// Cron expressions are evaluated in this zone unless a job sets its own
+export const DEFAULT_SCHEDULE_TIMEZONE = process.env.SCHEDULE_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+const TICK_INTERVAL_MS = 60 * 1000;
+
+// A run picked up this long after its scheduled time still counts as on time
+const ON_TIME_GRACE_MS = 5 * 60 * 1000;
+
+// Jobs created on first start, matching the previous hard-coded schedule
+const DEFAULT_JOBS: InsertScheduledJob[] = [
+  {
+    id: 'weekly-bulk-download',
+    name: 'Weekly US State Dept bulk download',
+    task: 'bulk-download',
+    cronExpression: '0 1 * * 0',
+    timezone: DEFAULT_SCHEDULE_TIMEZONE,
+    catchUpPolicy: 'run-once',
+  },
+  {
+    id: 'monthly-embassy-refresh',
+    name: 'Monthly US embassy refresh',
+    task: 'embassy-refresh',
+    cronExpression: '0 2 1 * *',
+    timezone: DEFAULT_SCHEDULE_TIMEZONE,
+    catchUpPolicy: 'run-once',
+  },
+];
+
+class CronJobScheduler {
+  private tasks: Map<string, ScheduledTask> = new Map();
+  private runningJobs: Set<string> = new Set();
+  private tickInterval: NodeJS.Timeout | null = null;
+  private seeded = false;
+
+  registerTask(task: string, handler: ScheduledTask): void {
+    this.tasks.set(task, handler);
+  }
+
+  getTaskNames(): string[] {
+    return Array.from(this.tasks.keys());
+  }
+
+  isRunning(jobId: string): boolean {
+    return this.runningJobs.has(jobId);
+  }
+
+  /**
+   * Check for due jobs every minute. Jobs only run on the instance holding the scheduler lease,
+   * which seeds the default jobs and catches up on runs missed while no instance was up.
+   */
+  async start(): Promise<void> {
+    if (this.tickInterval) return;
+    await waitForStorage();
+
+    this.tickInterval = setInterval(() => {
+      this.tick().catch(error => console.error("[CronScheduler] Tick failed:", error));
+    }, TICK_INTERVAL_MS);
+
+    // Don't wait a full minute after taking over from another instance
+    schedulerLease.onAcquired(() => {
+      this.tick().catch(error => console.error("[CronScheduler] Tick failed:", error));
+    });
+
+    console.log(`[CronScheduler] Started with tasks: ${this.getTaskNames().join(', ')}`);
+    await this.tick();
+  }
+
+  stop(): void {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+  }
+
+  private async seedDefaultJobs(): Promise<void> {
+    for (const job of DEFAULT_JOBS) {
+      try {
+        if (await storage.getScheduledJob(job.id!)) continue;
+        await storage.createScheduledJob({
+          ...job,
+          nextRunAt: getNextRunAt(job.cronExpression, job.timezone!, new Date()),
+        });
+        console.log(`[CronScheduler] Created default job ${job.id}`);
+      } catch (error) {
+        console.error(`[CronScheduler] Failed to create default job ${job.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Start every job whose next run has come, applying its catch-up policy to missed runs
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    if (!schedulerLease.isHolder(now)) return;
+
+    if (!this.seeded) {
+      await this.seedDefaultJobs();
+      this.seeded = true;
+    }
+
+    const jobs = await storage.getAllScheduledJobs();
+
+    for (const job of jobs) {
+      if (!job.enabled || this.runningJobs.has(job.id)) continue;
+
+      try {
+        if (!job.nextRunAt) {
+          await storage.updateScheduledJob(job.id, { nextRunAt: getNextRunAt(job.cronExpression, job.timezone, now) });
+          continue;
+        }
+
+        const plan = planDueRuns(job, now, ON_TIME_GRACE_MS);
+        if (plan.runs === 0 && plan.missed === 0) continue;
+
+        // Advance first so the next tick doesn't pick the same occurrence up again
+        const nextRunAt = getNextRunAt(job.cronExpression, job.timezone, now);
+        if (plan.runs === 0) {
+          console.log(`[CronScheduler] Skipping ${plan.missed} missed run(s) of ${job.id}`);
+          await storage.updateScheduledJob(job.id, {
+            nextRunAt,
+            lastRunStatus: 'skipped',
+            lastRunMessage: `Skipped ${plan.missed} missed run(s)`,
+          });
+          continue;
+        }
+
+        await storage.updateScheduledJob(job.id, { nextRunAt });
+        const trigger: JobTrigger = plan.missed > 0 ? 'catch-up' : 'schedule';
+        if (plan.missed > 0) {
+          console.log(`[CronScheduler] ${job.id} missed ${plan.missed} run(s), catching up with ${plan.runs} (${job.catchUpPolicy})`);
+        }
+
+        this.runRepeatedly(job, plan.runs, trigger).catch(error => {
+          console.error(`[CronScheduler] Unexpected error running ${job.id}:`, error);
+        });
+      } catch (error) {
+        console.error(`[CronScheduler] Failed to schedule ${job.id}:`, error);
+      }
+    }
+  }
+
+  private async runRepeatedly(job: ScheduledJob, runs: number, trigger: JobTrigger): Promise<void> {
+    for (let i = 0; i < runs; i++) {
+      const lease = await this.claimJob(job.id);
+      if (!lease) {
+        console.log(`[CronScheduler] ${job.id} is already running, skipping ${runs - i} run(s)`);
+        return;
+      }
+      await this.executeJob(job, trigger, lease);
+    }
+  }
+
+  /**
+   * Lease held while a job runs, so a manual run on one instance and a scheduled run on
+   * another can't overlap
+   */
+  private createJobLease(jobId: string): LeaseManager {
+    return new LeaseManager(storage, `scheduled-job:${jobId}`);
+  }
+
+  /**
+   * Mark a job as running here and take its lease, or return null when it is already
+   * running on this or another instance
+   */
+  private async claimJob(jobId: string): Promise<LeaseManager | null> {
+    if (this.runningJobs.has(jobId)) return null;
+    this.runningJobs.add(jobId);
+
+    const lease = this.createJobLease(jobId);
+    if (await lease.start()) return lease;
+
+    await lease.stop();
+    this.runningJobs.delete(jobId);
+    return null;
+  }
+
+  /**
+   * Start a job in the background. Resolves to false when the job is already running.
+   */
+  async startJob(job: ScheduledJob, trigger: JobTrigger = 'manual'): Promise<boolean> {
+    const lease = await this.claimJob(job.id);
+    if (!lease) return false;
+
+    this.executeJob(job, trigger, lease).catch(error => {
+      console.error(`[CronScheduler] Unexpected error running ${job.id}:`, error);
+    });
+    return true;
+  }
+
+  /**
+   * Run a job now, recording its status, message and duration. Returns the updated job,
+   * or undefined when the job is already running.
+   */
+  async runJob(job: ScheduledJob, trigger: JobTrigger = 'manual'): Promise<ScheduledJob | undefined> {
+    const lease = await this.claimJob(job.id);
+    if (!lease) return undefined;
+    return this.executeJob(job, trigger, lease);
+  }
+
+  private async executeJob(job: ScheduledJob, trigger: JobTrigger, lease: LeaseManager): Promise<ScheduledJob | undefined> {
+    const handler = this.tasks.get(job.task);
+    const startedAt = new Date();
+
+    try {
+      await storage.updateScheduledJob(job.id, { lastRunAt: startedAt, lastRunStatus: 'running', lastRunMessage: null });
+      console.log(`[CronScheduler] Running ${job.id} (${trigger})`);
+
+      if (!handler) {
+        throw new Error(`No handler registered for task '${job.task}'`);
+      }
+
+      const message = await handler();
+      return await storage.updateScheduledJob(job.id, {
+        lastRunStatus: 'succeeded',
+        lastRunMessage: message || null,
+        lastRunDurationMs: Date.now() - startedAt.getTime(),
+      });
+    } catch (error) {
+      console.error(`[CronScheduler] ${job.id} failed:`, error);
+      return await storage.updateScheduledJob(job.id, {
+        lastRunStatus: 'failed',
+        lastRunMessage: error instanceof Error ? error.message : String(error),
+        lastRunDurationMs: Date.now() - startedAt.getTime(),
+      });
+    } finally {
+      await lease.stop();
+      this.runningJobs.delete(job.id);
+    }
+  }
+}
+
+export const cronJobScheduler = new CronJobScheduler();
@@ -0,0 +1,76 @@
+import { storage } from "../storage";
+import { dataFetcher } from "./dataFetcher";
+import { embassyDataFetcher } from "./embassyFetcher";
+import { alertSourceRegistry } from "./alertSources";
+import { getLLMProvider, reanalyzeEnhancements } from "../aiService";
+import { resolveCountry } from "@shared/countries";
+import type { BulkJob, InsertEmbassyConsulate } from "@shared/schema";
+
+// The work a job does for one country; throwing marks the attempt as failed
+export type CountryTask = (countryName: string) => Promise<void>;
+
+/**
+ * Build the per-country task for a queued job
+ */
+export function createCountryTask(job: Pick<BulkJob, 'type' | 'sourceIds'>): CountryTask {
+  switch (job.type) {
+    case 'alerts': {
+      // Fails when any source failed, after storing what the others fetched; the failed
+      // sources keep their stored alerts until the country is retried
+      const sourceIds = job.sourceIds ?? alertSourceRegistry.getEnabled().map(source => source.id);
+      return async countryName => {
+        const failures = await dataFetcher.fetchCountryAlertsFromSources(countryName, sourceIds);
+        if (failures.length > 0) {
+          throw new Error(`Alert sources failed for ${countryName} (${failures.join('; ')})`);
+        }
+      };
+    }
+
+    case 'background':
+      return countryName => dataFetcher.fetchCountryBackground(countryName);
+
+    case 'embassies': {
+      // One worldwide fetch per job, then each country's embassies are replaced in turn
+      let allEmbassies: Promise<InsertEmbassyConsulate[]> | null = null;
+      return async countryName => {
+        allEmbassies ??= embassyDataFetcher.fetchAllUSEmbassies();
+        const embassies = await allEmbassies.catch(error => {
+          allEmbassies = null; // Retry the fetch on the next attempt
+          throw error;
+        });
+        if (embassies.length === 0) {
+          allEmbassies = null;
+          throw new Error('No embassy data returned from OpenStreetMap');
+        }
+
+        const countryCode = resolveCountry(countryName)?.alpha2;
+        if (!countryCode) {
+          throw new Error(`No ISO code for ${countryName}`);
+        }
+
+        // Keep existing data when the fetch found nothing for this country
+        const countryEmbassies = embassies.filter(embassy => embassy.countryCode === countryCode);
+        if (countryEmbassies.length === 0) return;
+
+        await storage.deleteEmbassiesByCountryCode(countryCode);
+        await storage.bulkCreateEmbassies(countryEmbassies);
+      };
+    }
+
+    case 'ai-enhancement':
+      // Refetches the State Dept advisory and analyzes the current page again, bypassing the
+      // stored analysis. Fails when the analysis fails or the monthly AI budget is spent,
+      // keeping the stored advisory.
+      return async countryName => {
+        if (!getLLMProvider().isAvailable()) {
+          throw new Error('AI enhancement is not available');
+        }
+        await reanalyzeEnhancements(() => dataFetcher.fetchCountryAlertsFromSources(countryName, ['us-state-dept']));
+      };
+
+    default:
+      return async () => {
+        throw new Error(`Unknown job type '${job.type}'`);
+      };
+  }
+}
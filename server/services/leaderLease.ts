@@ -0,0 +1,115 @@
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import { storage, type IStorage } from "../storage";
+
+export type LeaseStore = Pick<IStorage, 'acquireLease' | 'releaseLease'>;
+
+// Lease held by the instance that runs scheduled work and resumes interrupted jobs
+export const SCHEDULER_LEASE = 'scheduler';
+
+// How long a lease lasts without a heartbeat; heartbeats are sent three times per period
+export const LEASE_TTL_MS = parseInt(process.env.LEASE_TTL_MS || '60000', 10);
+
+/**
+ * Identify this process among all instances sharing the database
+ */
+export function createHolderId(): string {
+  return `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Holds a named lease in storage and keeps it alive with a heartbeat. Several instances can
+ * compete for the same lease; at most one holds it at a time.
+ */
+export class LeaseManager {
+  private expiresAt: Date | null = null;
+  private held = false; // Outcome of the last heartbeat, so a lease that lapsed between heartbeats still counts as lost
+  private heartbeatInterval: NodeJS.Timeout | null = null;
+  private acquiredListeners: Array<() => void> = [];
+  private lostListeners: Array<() => void> = [];
+
+  constructor(
+    private readonly store: LeaseStore,
+    readonly name: string,
+    readonly holderId: string = createHolderId(),
+    readonly ttlMs: number = LEASE_TTL_MS,
+  ) {}
+
+  /**
+   * True while this instance holds an unexpired lease
+   */
+  isHolder(now: Date = new Date()): boolean {
+    return this.expiresAt !== null && this.expiresAt > now;
+  }
+
+  getExpiresAt(): Date | null {
+    return this.expiresAt;
+  }
+
+  onAcquired(listener: () => void): void {
+    this.acquiredListeners.push(listener);
+  }
+
+  onLost(listener: () => void): void {
+    this.lostListeners.push(listener);
+  }
+
+  /**
+   * Acquire or renew the lease. A storage error counts as not holding it,
+   * since another instance may take over once it expires.
+   */
+  async heartbeat(): Promise<boolean> {
+    const wasHolder = this.held;
+    try {
+      const lease = await this.store.acquireLease(this.name, this.holderId, this.ttlMs);
+      this.expiresAt = lease ? lease.expiresAt : null;
+    } catch (error) {
+      console.error(`[Lease] Failed to renew '${this.name}':`, error);
+      this.expiresAt = null;
+    }
+
+    const isHolder = this.isHolder();
+    this.held = isHolder;
+    if (isHolder && !wasHolder) {
+      console.log(`[Lease] ${this.holderId} acquired '${this.name}'`);
+      this.acquiredListeners.forEach(listener => listener());
+    } else if (!isHolder && wasHolder) {
+      console.warn(`[Lease] ${this.holderId} lost '${this.name}'`);
+      this.lostListeners.forEach(listener => listener());
+    }
+    return isHolder;
+  }
+
+  /**
+   * Try to acquire the lease now and keep trying (or renewing) in the background
+   */
+  async start(): Promise<boolean> {
+    if (!this.heartbeatInterval) {
+      this.heartbeatInterval = setInterval(() => {
+        this.heartbeat();
+      }, Math.max(1000, Math.floor(this.ttlMs / 3)));
+    }
+    return this.heartbeat();
+  }
+
+  /**
+   * Stop the heartbeat and hand the lease back so another instance can take it immediately
+   */
+  async stop(): Promise<void> {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+    if (this.expiresAt === null) return;
+
+    this.expiresAt = null;
+    this.held = false;
+    try {
+      await this.store.releaseLease(this.name, this.holderId);
+    } catch (error) {
+      console.error(`[Lease] Failed to release '${this.name}':`, error);
+    }
+  }
+}
+
+export const schedulerLease = new LeaseManager(storage, SCHEDULER_LEASE);
@@ -0,0 +1,164 @@
+import fs from "fs";
+import OpenAI from "openai";
+import { outboundHttp } from "../utils/outboundHttp";
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  maxTokens: number;
+  json?: boolean; // Ask for a JSON object response
+}
+
+export interface Completion {
+  content: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * A chat model that turns messages into a single text completion
+ */
+export interface LLMProvider {
+  readonly id: string;
+  readonly model: string;
+  isAvailable(): boolean;
+  complete(request: CompletionRequest): Promise<Completion>;
+}
+
+export interface LLMFixture {
+  match?: string; // Case-insensitive text the last user message must contain; omit for the default
+  response: unknown; // Returned as-is when a string, otherwise serialized as JSON
+}
+
+export const DEFAULT_OPENAI_MODEL = "gpt-4o-mini";
+
+/**
+ * OpenAI chat completions. The client is created on first use, so a missing key only matters
+ * once AI enhancement is actually attempted.
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly id: string = 'openai';
+  private client: OpenAI | null = null;
+
+  constructor(
+    readonly model: string = DEFAULT_OPENAI_MODEL,
+    protected readonly apiKey: string | undefined = process.env.OPENAI_API_KEY,
+    protected readonly baseURL?: string,
+  ) {}
+
+  isAvailable(): boolean {
+    return !!this.apiKey;
+  }
+
+  async complete(request: CompletionRequest): Promise<Completion> {
+    const response = await this.getClient().chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      response_format: request.json ? { type: "json_object" } : undefined,
+      max_tokens: request.maxTokens,
+    });
+    return {
+      content: response.choices[0]?.message.content || '',
+      // Some OpenAI-compatible servers leave usage out
+      promptTokens: response.usage?.prompt_tokens ?? 0,
+      completionTokens: response.usage?.completion_tokens ?? 0,
+    };
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      // The SDK retries on its own; our fetch only paces requests and slows down when the host pushes back
+      this.client = new OpenAI({
+        apiKey: this.apiKey,
+        baseURL: this.baseURL,
+        fetch: (url, init) => outboundHttp.fetch(url, { ...init, retries: 0 }),
+      });
+    }
+    return this.client;
+  }
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API, e.g. a local llama.cpp or Ollama server.
+ * Local servers usually don't check the key, so a placeholder is sent when none is configured.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly id = 'openai-compatible';
+
+  constructor(baseURL: string, model: string, apiKey?: string) {
+    super(model, apiKey || 'not-needed', baseURL);
+  }
+}
+
+/**
+ * Deterministic provider for tests and offline development. Answers from fixtures matched against
+ * the last user message, and records every request it receives. Token counts are estimated at
+ * four characters per token.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly id = 'mock';
+  readonly requests: CompletionRequest[] = [];
+
+  constructor(private readonly fixtures: LLMFixture[], readonly model: string = 'mock') {}
+
+  /**
+   * Load fixtures from a JSON file containing an array of { match, response }
+   */
+  static fromFile(filePath: string, model?: string): MockLLMProvider {
+    return new MockLLMProvider(JSON.parse(fs.readFileSync(filePath, 'utf-8')), model);
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async complete(request: CompletionRequest): Promise<Completion> {
+    this.requests.push(request);
+
+    const prompt = [...request.messages].reverse().find(m => m.role === 'user')?.content.toLowerCase() || '';
+    const fixture = this.fixtures.find(f => f.match && prompt.includes(f.match.toLowerCase()))
+      ?? this.fixtures.find(f => !f.match);
+    if (!fixture) {
+      throw new Error('No mock LLM fixture matches the request');
+    }
+
+    const content = typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response);
+    const promptLength = request.messages.reduce((total, m) => total + m.content.length, 0);
+    return {
+      content,
+      promptTokens: Math.ceil(promptLength / 4),
+      completionTokens: Math.ceil(content.length / 4),
+    };
+  }
+}
+
+/**
+ * Build the provider selected through environment variables:
+ * LLM_PROVIDER (openai, openai-compatible or mock), LLM_MODEL, LLM_BASE_URL, LLM_API_KEY and LLM_FIXTURES
+ */
+export function createLLMProviderFromEnv(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const providerId = env.LLM_PROVIDER || 'openai';
+
+  switch (providerId) {
+    case 'openai':
+      return new OpenAIProvider(env.LLM_MODEL || DEFAULT_OPENAI_MODEL, env.OPENAI_API_KEY);
+    case 'openai-compatible':
+      if (!env.LLM_BASE_URL) {
+        throw new Error('LLM_BASE_URL is required for the openai-compatible provider');
+      }
+      if (!env.LLM_MODEL) {
+        throw new Error('LLM_MODEL is required for the openai-compatible provider');
+      }
+      return new OpenAICompatibleProvider(env.LLM_BASE_URL, env.LLM_MODEL, env.LLM_API_KEY);
+    case 'mock':
+      return env.LLM_FIXTURES
+        ? MockLLMProvider.fromFile(env.LLM_FIXTURES, env.LLM_MODEL)
+        : new MockLLMProvider([], env.LLM_MODEL);
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${providerId}". Use openai, openai-compatible or mock`);
+  }
+}
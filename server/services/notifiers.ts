@@ -0,0 +1,217 @@
+import nodemailer from "nodemailer";
+import type { AdvisoryChanged, AdvisoryEventBus } from "./changeDetection";
+import { outboundHttp } from "../utils/outboundHttp";
+
+export interface Notifier {
+  id: string;
+  send(event: AdvisoryChanged): Promise<void>;
+}
+
+// Decides whether an event is delivered at all, e.g. based on watchlist subscriptions
+export type NotificationFilter = (event: AdvisoryChanged) => Promise<boolean>;
+
+export interface EmailNotifierConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+  to: string[];
+}
+
+const NOTIFY_TIMEOUT_MS = 10000;
+
+function toDisplayName(countryName: string): string {
+  return countryName.replace(/\b[a-z]/g, c => c.toUpperCase());
+}
+
+/**
+ * One-line description of a change, shared by all channels
+ */
+export function describeAdvisoryChange(event: AdvisoryChanged): string {
+  return `${event.source} ${event.direction} its advisory for ${toDisplayName(event.countryName)}: ${event.oldLevel ?? 'none'} → ${event.newLevel ?? 'none'}`;
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+  const response = await outboundHttp.fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers,
+    },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(NOTIFY_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Webhook returned ${response.status}: ${response.statusText}`);
+  }
+}
+
+/**
+ * Posts the raw event as JSON to any HTTP endpoint
+ */
+export class WebhookNotifier implements Notifier {
+  readonly id = 'webhook';
+
+  constructor(private readonly url: string, private readonly secret?: string) {}
+
+  async send(event: AdvisoryChanged): Promise<void> {
+    await postJson(this.url, event, this.secret ? { 'X-Webhook-Secret': this.secret } : {});
+  }
+}
+
+/**
+ * Posts a formatted message to a Slack-compatible incoming webhook
+ */
+export class SlackNotifier implements Notifier {
+  readonly id = 'slack';
+
+  constructor(private readonly webhookUrl: string) {}
+
+  async send(event: AdvisoryChanged): Promise<void> {
+    const icon = event.direction === 'upgraded' ? ':warning:' : ':white_check_mark:';
+    await postJson(this.webhookUrl, {
+      text: `${icon} ${describeAdvisoryChange(event)}\n<${event.link}|${event.title}>`,
+    });
+  }
+}
+
+/**
+ * Sends a plain-text email over SMTP
+ */
+export class EmailNotifier implements Notifier {
+  readonly id = 'email';
+  private readonly transporter: nodemailer.Transporter;
+
+  constructor(private readonly config: EmailNotifierConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+      connectionTimeout: NOTIFY_TIMEOUT_MS,
+    });
+  }
+
+  async send(event: AdvisoryChanged): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.config.from,
+      to: this.config.to,
+      subject: `[Travel Advisory] ${toDisplayName(event.countryName)} ${event.direction} to ${event.newLevel ?? 'no level'} (${event.source})`,
+      text: [
+        describeAdvisoryChange(event),
+        '',
+        `Previous level: ${event.oldLevel ?? 'none'} (${event.oldSeverity})`,
+        `New level: ${event.newLevel ?? 'none'} (${event.newSeverity})`,
+        `Detected: ${event.detectedAt.toISOString()}`,
+        '',
+        event.link,
+      ].join('\n'),
+    });
+  }
+}
+
+/**
+ * Build the notifiers configured through environment variables
+ */
+export function createNotifiersFromEnv(env: NodeJS.ProcessEnv = process.env): Notifier[] {
+  const notifiers: Notifier[] = [];
+
+  if (env.NOTIFY_WEBHOOK_URL) {
+    notifiers.push(new WebhookNotifier(env.NOTIFY_WEBHOOK_URL, env.NOTIFY_WEBHOOK_SECRET));
+  }
+
+  if (env.NOTIFY_SLACK_WEBHOOK_URL) {
+    notifiers.push(new SlackNotifier(env.NOTIFY_SLACK_WEBHOOK_URL));
+  }
+
+  const recipients = (env.NOTIFY_EMAIL_TO || '').split(',').map(r => r.trim()).filter(Boolean);
+  if (env.SMTP_HOST && recipients.length > 0) {
+    notifiers.push(new EmailNotifier({
+      host: env.SMTP_HOST,
+      port: parseInt(env.SMTP_PORT || '587', 10),
+      secure: env.SMTP_SECURE === 'true',
+      user: env.SMTP_USER,
+      pass: env.SMTP_PASS,
+      from: env.NOTIFY_EMAIL_FROM || 'travel-advisory@localhost',
+      to: recipients,
+    }));
+  }
+
+  return notifiers;
+}
+
+export class NotificationService {
+  private notifiers: Notifier[] = [];
+  private filter: NotificationFilter | null = null;
+  private attached = false;
+
+  setNotifiers(notifiers: Notifier[]): void {
+    this.notifiers = notifiers;
+  }
+
+  setFilter(filter: NotificationFilter | null): void {
+    this.filter = filter;
+  }
+
+  getNotifierIds(): string[] {
+    return this.notifiers.map(n => n.id);
+  }
+
+  /**
+   * Deliver an event to every channel; one failing channel doesn't block the others
+   */
+  async notify(event: AdvisoryChanged): Promise<{ delivered: string[]; failed: string[] }> {
+    const results = await Promise.allSettled(this.notifiers.map(n => n.send(event)));
+    const delivered: string[] = [];
+    const failed: string[] = [];
+
+    results.forEach((result, i) => {
+      const id = this.notifiers[i].id;
+      if (result.status === 'fulfilled') {
+        delivered.push(id);
+      } else {
+        failed.push(id);
+        console.error(`[Notifier] ${id} delivery failed for ${event.countryName}:`, result.reason);
+      }
+    });
+
+    return { delivered, failed };
+  }
+
+  /**
+   * Deliver an event unless the filter rejects it
+   */
+  async dispatch(event: AdvisoryChanged): Promise<{ delivered: string[]; failed: string[] } | null> {
+    if (this.filter && !(await this.filter(event))) {
+      console.log(`[Notifier] No watchlist subscription for ${event.source} change in ${event.countryName}, skipping`);
+      return null;
+    }
+    return this.notify(event);
+  }
+
+  /**
+   * Subscribe to advisory change events
+   */
+  attach(bus: AdvisoryEventBus): void {
+    if (this.attached) return;
+    this.attached = true;
+    bus.on('AdvisoryChanged', (event) => {
+      if (this.notifiers.length === 0) return;
+      this.dispatch(event).catch(error => console.error('[Notifier] Unexpected error:', error));
+    });
+  }
+
+  /**
+   * Load channels from the environment and start listening
+   */
+  start(bus: AdvisoryEventBus): void {
+    this.setNotifiers(createNotifiersFromEnv());
+    this.attach(bus);
+    console.log(`[Notifier] Advisory change notifications: ${this.notifiers.length > 0 ? this.getNotifierIds().join(', ') : 'no channels configured'}`);
+  }
+}
+
+export const notificationService = new NotificationService();
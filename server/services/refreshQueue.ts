@@ -0,0 +1,56 @@
+import type { RefreshQueueEntry } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Countries nobody has viewed in this many days stop being refreshed
+export const REFRESH_QUEUE_DECAY_DAYS = parseInt(process.env.REFRESH_QUEUE_DECAY_DAYS || '14', 10);
+
+export interface DueRefresh {
+  countryName: string;
+  dueAt: Date;
+}
+
+/**
+ * Oldest last-access time that still keeps a country in the queue
+ */
+export function getDecayCutoff(now: Date, decayDays: number = REFRESH_QUEUE_DECAY_DAYS): Date {
+  return new Date(now.getTime() - decayDays * DAY_MS);
+}
+
+/**
+ * Entries still eligible for refresh, most viewed first (ties broken by most recent access)
+ */
+export function getEligibleEntries(entries: RefreshQueueEntry[], now: Date, decayDays: number = REFRESH_QUEUE_DECAY_DAYS): RefreshQueueEntry[] {
+  const cutoff = getDecayCutoff(now, decayDays);
+  return entries
+    .filter(entry => entry.lastAccessed >= cutoff)
+    .sort((a, b) => b.accessCount - a.accessCount || b.lastAccessed.getTime() - a.lastAccessed.getTime());
+}
+
+/**
+ * When an alert source is next due for a country. Before the source's first scheduled refresh,
+ * the country's last alert refresh counts, or else the fetch on first view.
+ */
+export function getSourceDueAt(entry: RefreshQueueEntry, sourceId: string, intervalMs: number): Date {
+  const recorded = entry.sourceRefreshes?.[sourceId];
+  const last = recorded ? new Date(recorded) : entry.lastRefreshed ?? entry.firstAccessed;
+  return new Date(last.getTime() + intervalMs);
+}
+
+/**
+ * When a country's background data is next due. The fetch on first view counts as a refresh.
+ */
+export function getBackgroundDueAt(entry: RefreshQueueEntry, intervalMs: number): Date {
+  const last = entry.lastBackgroundRefresh ?? entry.firstAccessed;
+  return new Date(last.getTime() + intervalMs);
+}
+
+/**
+ * Upcoming background refreshes, soonest first
+ */
+export function getNextBackgroundRefreshes(entries: RefreshQueueEntry[], intervalMs: number, limit: number): DueRefresh[] {
+  return entries
+    .map(entry => ({ countryName: entry.countryName, dueAt: getBackgroundDueAt(entry, intervalMs) }))
+    .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime())
+    .slice(0, limit);
+}
@@ -0,0 +1,366 @@
+import { JSDOM } from "jsdom";
+import type { Country, InsertAlert, InsertRegionAdvisory, RegionAdvisory, RegionBoundaryProperties } from "@shared/schema";
+import { resolveCountry } from "@shared/countries";
+import { storage, type IStorage } from "../storage";
+import { outboundHttp } from "../utils/outboundHttp";
+import { runSlidingWindow } from "../utils/slidingWindow";
+
+// Countries whose boundaries are loaded at once when building a collection
+const BOUNDARY_LOAD_CONCURRENCY = 4;
+
+type Position = number[]; // [longitude, latitude]
+type PolygonCoordinates = Position[][];
+
+export type Admin1Geometry = {
+  type: 'Polygon' | 'MultiPolygon';
+  coordinates: PolygonCoordinates | PolygonCoordinates[];
+};
+
+interface Admin1Feature {
+  properties: { shapeName?: string; shapeISO?: string; shapeID?: string };
+  geometry: Admin1Geometry | null;
+}
+
+interface Admin1Collection {
+  type: 'FeatureCollection';
+  features: Admin1Feature[];
+}
+
+export interface Admin1Boundary {
+  code: string; // shapeISO (ISO 3166-2) when present, otherwise the dataset's shape id
+  name: string;
+  key: string; // Normalized name used for matching
+  geometry: Admin1Geometry;
+}
+
+export interface RegionBoundaryFeature {
+  type: 'Feature';
+  id: string;
+  geometry: Admin1Geometry;
+  properties: RegionBoundaryProperties;
+}
+
+export interface RegionBoundaryCollection {
+  type: 'FeatureCollection';
+  features: RegionBoundaryFeature[];
+}
+
+export interface BoundarySource {
+  getBoundaries(iso3: string): Promise<Admin1Boundary[]>;
+}
+
+export type RegionAdvisoryStore = Pick<IStorage, 'getRegionAdvisories' | 'replaceRegionAdvisories'>;
+
+// Administrative words that advisories and boundary datasets use inconsistently
+// ("Balochistan province" vs "Balochistan")
+const GENERIC_REGION_WORDS = new Set([
+  'province', 'provinces', 'state', 'states', 'region', 'regions', 'governorate', 'governorates',
+  'department', 'departments', 'district', 'districts', 'oblast', 'prefecture', 'county',
+  'territory', 'division', 'municipality', 'the', 'of',
+]);
+
+// Shortest normalized name worth matching; shorter names hit ordinary words
+const MIN_REGION_KEY_LENGTH = 3;
+
+// FCDO advice wording, most severe first; "all travel" never matches "all but essential travel"
+const FCDO_REGION_ADVICE: Array<{ pattern: RegExp; label: string }> = [
+  { pattern: /advises? against all travel\b/i, label: "Advise against all travel" },
+  { pattern: /advises? against all but essential travel\b/i, label: "Advise against all but essential travel" },
+];
+
+// Wording that sets a region's level, checked most severe first
+const REGION_LEVEL_PATTERNS: Array<{ pattern: RegExp; level: number }> = [
+  { pattern: /\blevel 4\b|\bdo not travel\b|\bagainst all travel\b/i, level: 4 },
+  { pattern: /\blevel 3\b|\breconsider (?:your )?travel\b|\ball but essential travel\b/i, level: 3 },
+  { pattern: /\blevel 2\b|\bincreased caution\b/i, level: 2 },
+  { pattern: /\blevel 1\b|\bnormal precautions\b/i, level: 1 },
+];
+
+/**
+ * Normalize a region name or advisory text for matching: no accents, punctuation or
+ * administrative words like "province"
+ */
+export function normalizeRegionName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !GENERIC_REGION_WORDS.has(word))
+    .join(' ');
+}
+
+/**
+ * Turn a boundary dataset (geoBoundaries ADM1 format) into matchable regions
+ */
+export function prepareAdmin1Boundaries(collection: Admin1Collection): Admin1Boundary[] {
+  const boundaries: Admin1Boundary[] = [];
+
+  for (const feature of collection.features || []) {
+    const name = feature.properties?.shapeName;
+    const code = feature.properties?.shapeISO || feature.properties?.shapeID;
+    if (!name || !code || !feature.geometry) continue;
+
+    const key = normalizeRegionName(name);
+    if (key.length < MIN_REGION_KEY_LENGTH) continue;
+
+    boundaries.push({ code, name, key, geometry: feature.geometry });
+  }
+
+  return boundaries;
+}
+
+/**
+ * Find the regions named in a piece of advisory text. Longer names are matched first so
+ * "North Kivu" is not also counted as "Kivu"
+ */
+export function findRegionMentions(text: string, boundaries: Admin1Boundary[]): Admin1Boundary[] {
+  const words = normalizeRegionName(text).split(' ');
+  const used = new Array<boolean>(words.length).fill(false);
+  const found: Admin1Boundary[] = [];
+
+  const byLength = [...boundaries].sort((a, b) => b.key.split(' ').length - a.key.split(' ').length);
+  for (const boundary of byLength) {
+    const keyWords = boundary.key.split(' ');
+    for (let start = 0; start + keyWords.length <= words.length; start++) {
+      const span = Array.from({ length: keyWords.length }, (_, i) => start + i);
+      if (span.some(i => used[i] || words[i] !== keyWords[i - start])) continue;
+
+      span.forEach(i => { used[i] = true; });
+      if (!found.includes(boundary)) found.push(boundary);
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Level (1-4) that a piece of advisory text gives an area, if it says
+ */
+export function getRegionAdvisoryLevel(text: string): number | null {
+  const match = REGION_LEVEL_PATTERNS.find(({ pattern }) => pattern.test(text));
+  return match ? match.level : null;
+}
+
+/**
+ * Pull the areas FCDO advises against travel to out of a travel advice part, as
+ * "<advice> - <area>" lines. Handles both "advises against all travel to:" followed by a
+ * list and the advice and area in one sentence.
+ */
+export function parseFCDORegionAdvice(html: string): string[] {
+  const document = new JSDOM(`<body>${html}</body>`).window.document;
+  const areas: string[] = [];
+  let currentAdvice: string | null = null;
+
+  for (const element of Array.from(document.body.querySelectorAll('h2, h3, h4, p, li'))) {
+    if (element.tagName !== 'LI' && element.closest('li')) continue;
+
+    const text = element.textContent?.replace(/\s+/g, ' ').trim() || '';
+    if (!text) continue;
+
+    if (element.tagName === 'LI') {
+      if (currentAdvice) areas.push(`${currentAdvice} - ${text.replace(/[;,.]+$/, '')}`);
+      continue;
+    }
+
+    const advice = FCDO_REGION_ADVICE.find(({ pattern }) => pattern.test(text));
+    currentAdvice = advice?.label ?? null;
+    if (!advice) continue;
+
+    // "FCDO advises against all travel to within 10km of the border with Afghanistan."
+    const target = text.split(/\btravel to\b/i)[1]?.replace(/[:.]+$/, '').trim();
+    if (target) areas.push(`${advice.label} - ${target}`);
+  }
+
+  return Array.from(new Set(areas));
+}
+
+/**
+ * Country-wide level of an alert, used for areas whose wording doesn't give one
+ */
+function getAlertLevel(alert: Pick<InsertAlert, 'level'>): number | null {
+  return alert.level ? getRegionAdvisoryLevel(alert.level) : null;
+}
+
+/**
+ * Match every specific area of a source's alerts to admin-1 regions. A region mentioned
+ * more than once keeps its highest level.
+ */
+export function buildRegionAdvisories(
+  countryId: string,
+  source: string,
+  alerts: Array<Pick<InsertAlert, 'level' | 'specificAreas'>>,
+  boundaries: Admin1Boundary[]
+): InsertRegionAdvisory[] {
+  const byCode = new Map<string, InsertRegionAdvisory>();
+
+  for (const alert of alerts) {
+    for (const area of alert.specificAreas || []) {
+      const level = getRegionAdvisoryLevel(area) ?? getAlertLevel(alert);
+      if (level === null) continue;
+
+      for (const boundary of findRegionMentions(area, boundaries)) {
+        const existing = byCode.get(boundary.code);
+        if (existing && existing.level >= level) continue;
+
+        byCode.set(boundary.code, {
+          countryId,
+          source,
+          regionName: boundary.name,
+          admin1Code: boundary.code,
+          level,
+          sourceText: area,
+        });
+      }
+    }
+  }
+
+  return Array.from(byCode.values());
+}
+
+export class Admin1BoundaryFetcher implements BoundarySource {
+  private readonly apiUrl = process.env.ADMIN1_BOUNDARIES_API || 'https://www.geoboundaries.org/api/current/gbOpen';
+
+  // Pending and loaded boundaries by ISO alpha-3, least recently used first
+  private cache = new Map<string, Promise<Admin1Boundary[]>>();
+
+  constructor(
+    private readonly maxCachedCountries: number = 50 // Simplified boundaries are up to a few MB per country
+  ) {}
+
+  /**
+   * Load a country's admin-1 boundaries, cached since they rarely change
+   */
+  getBoundaries(iso3: string): Promise<Admin1Boundary[]> {
+    const cached = this.cache.get(iso3);
+    if (cached) {
+      // Move to the most recently used end
+      this.cache.delete(iso3);
+      this.cache.set(iso3, cached);
+      return cached;
+    }
+
+    const loading = this.loadBoundaries(iso3);
+    loading.catch(() => {
+      if (this.cache.get(iso3) === loading) this.cache.delete(iso3);
+    });
+
+    this.cache.set(iso3, loading);
+    if (this.cache.size > this.maxCachedCountries) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return loading;
+  }
+
+  protected async loadBoundaries(iso3: string): Promise<Admin1Boundary[]> {
+    const metaResponse = await outboundHttp.fetch(`${this.apiUrl}/${iso3}/ADM1/`);
+    if (!metaResponse.ok) {
+      throw new Error(`Boundary catalogue returned ${metaResponse.status} for ${iso3}`);
+    }
+
+    const meta = await metaResponse.json();
+    const geometryUrl: string | undefined = meta.simplifiedGeometryGeoJSON || meta.gjDownloadURL;
+    if (!geometryUrl) {
+      throw new Error(`No admin-1 boundaries published for ${iso3}`);
+    }
+
+    const response = await outboundHttp.fetch(geometryUrl);
+    if (!response.ok) {
+      throw new Error(`Boundary dataset returned ${response.status} for ${iso3}`);
+    }
+
+    const boundaries = prepareAdmin1Boundaries(await response.json());
+    console.log(`[RegionAdvisories] Loaded ${boundaries.length} admin-1 boundaries for ${iso3}`);
+    return boundaries;
+  }
+}
+
+export class RegionAdvisoryService {
+  constructor(
+    private readonly boundaries: BoundarySource = admin1BoundaryFetcher,
+    private readonly store: RegionAdvisoryStore = storage
+  ) {}
+
+  /**
+   * Replace a source's region advisories for a country with the regions its latest alerts
+   * single out. Keeps the previous rows when boundaries can't be loaded; returns null then.
+   */
+  async updateFromAlerts(countryName: string, countryId: string, source: string, alerts: InsertAlert[]): Promise<RegionAdvisory[] | null> {
+    try {
+      const hasAreas = alerts.some(alert => alert.specificAreas && alert.specificAreas.length > 0);
+      if (!hasAreas) {
+        return await this.store.replaceRegionAdvisories(countryId, source, []);
+      }
+
+      const iso3 = resolveCountry(countryName)?.alpha3;
+      if (!iso3) return null;
+
+      const boundaries = await this.boundaries.getBoundaries(iso3);
+      const advisories = buildRegionAdvisories(countryId, source, alerts, boundaries);
+      return await this.store.replaceRegionAdvisories(countryId, source, advisories);
+    } catch (error) {
+      console.error(`[RegionAdvisories] Failed to update ${source} regions for ${countryName}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Region advisories of the given countries as GeoJSON, one feature per region with every
+   * source's advice. Boundaries load a few countries at a time; countries whose boundaries
+   * can't be loaded are left out.
+   */
+  async getBoundaryCollection(countries: Country[]): Promise<RegionBoundaryCollection> {
+    const withAdvisories: Array<{ country: Country; iso3: string; advisories: RegionAdvisory[] }> = [];
+    for (const country of countries) {
+      const iso3 = resolveCountry(country.name)?.alpha3;
+      if (!iso3) continue;
+      const advisories = await this.store.getRegionAdvisories(country.id);
+      if (advisories.length > 0) withAdvisories.push({ country, iso3, advisories });
+    }
+
+    const featuresByCountry = new Map<string, RegionBoundaryFeature[]>();
+    await runSlidingWindow(withAdvisories, {
+      concurrency: () => BOUNDARY_LOAD_CONCURRENCY,
+      worker: async ({ country, iso3, advisories }) => {
+        try {
+          const boundaries = await this.boundaries.getBoundaries(iso3);
+          featuresByCountry.set(country.id, this.toFeatures(country, boundaries, advisories));
+        } catch (error) {
+          console.error(`[RegionAdvisories] Failed to load boundaries for ${country.name}:`, error);
+        }
+      },
+    });
+
+    // Keep the requested country order whichever boundaries loaded first
+    const features = withAdvisories.flatMap(({ country }) => featuresByCountry.get(country.id) || []);
+    return { type: 'FeatureCollection', features };
+  }
+
+  private toFeatures(country: Country, boundaries: Admin1Boundary[], countryAdvisories: RegionAdvisory[]): RegionBoundaryFeature[] {
+    const features: RegionBoundaryFeature[] = [];
+    for (const boundary of boundaries) {
+      const regionAdvisories = countryAdvisories.filter(advisory => advisory.admin1Code === boundary.code);
+      if (regionAdvisories.length === 0) continue;
+
+      features.push({
+        type: 'Feature',
+        id: `${country.id}-${boundary.code}`,
+        geometry: boundary.geometry,
+        properties: {
+          countryId: country.id,
+          countryName: country.name,
+          admin1Code: boundary.code,
+          regionName: boundary.name,
+          level: Math.max(...regionAdvisories.map(advisory => advisory.level)),
+          advisories: regionAdvisories.map(({ source, level, sourceText }) => ({ source, level, sourceText })),
+        },
+      });
+    }
+    return features;
+  }
+}
+
+export const admin1BoundaryFetcher = new Admin1BoundaryFetcher();
+export const regionAdvisoryService = new RegionAdvisoryService();
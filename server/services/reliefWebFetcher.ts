@@ -0,0 +1,193 @@
+import type { InsertAlert } from "@shared/schema";
+import { outboundHttp } from "../utils/outboundHttp";
+
+interface ReliefWebItem<TFields> {
+  id: string | number;
+  href?: string;
+  fields: TFields;
+}
+
+export interface ReliefWebResponse<TFields> {
+  totalCount?: number;
+  count?: number;
+  data: ReliefWebItem<TFields>[];
+}
+
+export interface DisasterFields {
+  name: string;
+  status?: string; // 'alert', 'current' or 'past'
+  url?: string;
+  glide?: string;
+  date?: { created?: string; event?: string };
+  type?: Array<{ name: string }>;
+}
+
+export interface ReportFields {
+  title: string;
+  url?: string;
+  date?: { created?: string; original?: string };
+  disaster_type?: Array<{ name: string }>;
+  source?: Array<{ shortname?: string; name?: string }>;
+}
+
+const REPORT_LOOKBACK_DAYS = 30;
+const RESULT_LIMIT = 5;
+
+function joinTypeNames(types: Array<{ name: string }> | undefined): string {
+  return (types || []).map(t => t.name).filter(Boolean).join(", ");
+}
+
+/**
+ * Convert ReliefWeb disasters into alerts. Disasters on alert status are graded higher
+ * than ongoing ones.
+ */
+export function disastersToAlerts(
+  response: ReliefWebResponse<DisasterFields> | null,
+  countryId: string
+): InsertAlert[] {
+  const seen = new Set<string>();
+  const alerts: InsertAlert[] = [];
+
+  for (const item of response?.data || []) {
+    const id = String(item.id);
+    if (seen.has(id) || !item.fields?.name) continue;
+    seen.add(id);
+
+    const { fields } = item;
+    const types = joinTypeNames(fields.type);
+    const status = fields.status || 'current';
+    const dateValue = fields.date?.event || fields.date?.created;
+
+    alerts.push({
+      countryId,
+      source: "ReliefWeb",
+      title: fields.name,
+      level: types || "Disaster",
+      severity: status === 'alert' ? "high" : "medium",
+      summary: `ReliefWeb is tracking this ${status === 'alert' ? 'disaster alert' : 'ongoing disaster'}${types ? ` (${types})` : ''}. Follow guidance from local authorities and humanitarian agencies.`,
+      link: fields.url || `https://reliefweb.int/disaster/${id}`,
+      date: dateValue ? new Date(dateValue) : new Date(),
+    });
+  }
+
+  return alerts;
+}
+
+/**
+ * Convert ReliefWeb situation reports into alerts, deduplicated by report id
+ */
+export function reportsToAlerts(
+  response: ReliefWebResponse<ReportFields> | null,
+  countryId: string
+): InsertAlert[] {
+  const seen = new Set<string>();
+  const alerts: InsertAlert[] = [];
+
+  for (const item of response?.data || []) {
+    const id = String(item.id);
+    if (seen.has(id) || !item.fields?.title) continue;
+    seen.add(id);
+
+    const { fields } = item;
+    const types = joinTypeNames(fields.disaster_type);
+    const publishers = (fields.source || [])
+      .map(s => s.shortname || s.name)
+      .filter(Boolean)
+      .join(", ");
+    const dateValue = fields.date?.original || fields.date?.created;
+
+    alerts.push({
+      countryId,
+      source: "ReliefWeb",
+      title: fields.title,
+      level: types || "Situation Report",
+      severity: "info",
+      summary: publishers
+        ? `Report published by ${publishers} on ReliefWeb.`
+        : "Report published on ReliefWeb.",
+      link: fields.url || `https://reliefweb.int/node/${id}`,
+      date: dateValue ? new Date(dateValue) : new Date(),
+    });
+  }
+
+  return alerts;
+}
+
+export class ReliefWebDataFetcher {
+  private readonly apiUrl = process.env.RELIEFWEB_API_URL || 'https://api.reliefweb.int/v1';
+  private readonly appName = process.env.RELIEFWEB_APPNAME || 'global-travel-advisory';
+
+  /**
+   * POST a query to a ReliefWeb API endpoint
+   */
+  private async query<TFields>(endpoint: 'disasters' | 'reports', body: object): Promise<ReliefWebResponse<TFields>> {
+    const response = await outboundHttp.fetch(`${this.apiUrl}/${endpoint}?appname=${encodeURIComponent(this.appName)}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+      retries: 2, // Read-only query, safe to repeat
+    });
+
+    if (!response.ok) {
+      throw new Error(`ReliefWeb ${endpoint} API returned ${response.status}: ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
+  /**
+   * Current and alert-status disasters affecting a country
+   */
+  async fetchDisasters(iso3: string): Promise<ReliefWebResponse<DisasterFields>> {
+    return this.query<DisasterFields>('disasters', {
+      filter: {
+        operator: 'AND',
+        conditions: [
+          { field: 'country.iso3', value: iso3 },
+          { field: 'status', value: ['alert', 'current'], operator: 'OR' },
+        ],
+      },
+      fields: { include: ['name', 'status', 'url', 'glide', 'date.created', 'date.event', 'type.name'] },
+      sort: ['date.created:desc'],
+      limit: RESULT_LIMIT,
+    });
+  }
+
+  /**
+   * Recent reports where the country is the primary subject
+   */
+  async fetchReports(iso3: string): Promise<ReliefWebResponse<ReportFields>> {
+    const since = new Date(Date.now() - REPORT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    return this.query<ReportFields>('reports', {
+      filter: {
+        operator: 'AND',
+        conditions: [
+          { field: 'primary_country.iso3', value: iso3 },
+          { field: 'date.created', value: { from: since.toISOString() } },
+        ],
+      },
+      fields: { include: ['title', 'url', 'date.created', 'date.original', 'disaster_type.name', 'source.shortname', 'source.name'] },
+      sort: ['date.created:desc'],
+      limit: RESULT_LIMIT,
+    });
+  }
+
+  /**
+   * Disasters and reports for a country as alerts. Returns no alerts when ReliefWeb has nothing.
+   */
+  async fetchCountryAlerts(iso3: string, countryId: string): Promise<InsertAlert[]> {
+    const [disasters, reports] = await Promise.all([
+      this.fetchDisasters(iso3),
+      this.fetchReports(iso3),
+    ]);
+
+    return [
+      ...disastersToAlerts(disasters, countryId),
+      ...reportsToAlerts(reports, countryId),
+    ];
+  }
+}
+
+export const reliefWebDataFetcher = new ReliefWebDataFetcher();
@@ -0,0 +1,182 @@
+import type { Alert, CompositeRiskScore, RiskDisagreement, SourceRiskScore } from "@shared/schema";
+import { alertSourceRegistry } from "./alertSources";
+
+/**
+ * Puts every alert source on a common 0-100 scale and combines them into one weighted score per
+ * country, flagging government advisories that disagree (e.g. US Level 1 while the FCDO advises
+ * against all travel).
+ */
+
+interface SourceNormalizer {
+  // Government travel advisories answer the same question (should you go?), so they can disagree.
+  // Health notices and hazard feeds measure something else and are only combined.
+  advisory: boolean;
+  score(alert: Alert): number;
+}
+
+// Used for sources without their own level scheme (USGS, ReliefWeb, registered extras)
+export const SEVERITY_SCORES: Record<string, number> = {
+  info: 0,
+  low: 25,
+  medium: 50,
+  high: 75,
+};
+
+// Four-level schemes (US State Dept advisories, CDC health notices)
+const LEVEL_SCORES: Record<number, number> = { 1: 10, 2: 40, 3: 70, 4: 100 };
+
+const scoreSeverity = (alert: Alert) => SEVERITY_SCORES[alert.severity] ?? 0;
+
+function scoreNumberedLevel(alert: Alert): number {
+  const match = alert.level?.match(/^Level (\d)/);
+  const score = match ? LEVEL_SCORES[parseInt(match[1], 10)] : undefined;
+  return score ?? scoreSeverity(alert);
+}
+
+/**
+ * FCDO levels are stored as readable text, e.g. "Advise against all but essential travel" or
+ * "Avoid All Travel To Parts"; advice covering only parts of a country scores below whole-country advice
+ */
+function scoreFCDOLevel(alert: Alert): number {
+  const level = alert.level?.toLowerCase() ?? '';
+  const partial = /\bparts?\b|some areas/.test(level);
+  if (level.includes('all but essential travel')) return partial ? 50 : 75;
+  if (level.includes('all travel')) return partial ? 60 : 100;
+  if (partial) return 50;
+  if (level.includes('see travel advice') || level.includes('see our advice')) return 25;
+  if (level === 'standard') return 10;
+  return scoreSeverity(alert);
+}
+
+const NORMALIZERS: Record<string, SourceNormalizer> = {
+  'us-state-dept': { advisory: true, score: scoreNumberedLevel },
+  'uk-fcdo': { advisory: true, score: scoreFCDOLevel },
+  'cdc': { advisory: false, score: scoreNumberedLevel },
+};
+
+const SEVERITY_NORMALIZER: SourceNormalizer = { advisory: false, score: scoreSeverity };
+
+// Relative weights by source id; they don't need to add up to anything
+export const DEFAULT_RISK_WEIGHTS: Record<string, number> = {
+  'us-state-dept': 35,
+  'uk-fcdo': 35,
+  'cdc': 15,
+  'reliefweb': 10,
+  'usgs': 5,
+};
+
+// Weight of registered sources not listed in the weights
+export const DEFAULT_SOURCE_WEIGHT = 5;
+
+// Points between two advisories before they are flagged
+export const DEFAULT_DISAGREEMENT_THRESHOLD = 40;
+
+/**
+ * Source id of an alert's label, e.g. 'UK FCDO' -> 'uk-fcdo'
+ */
+function getSourceId(label: string): string {
+  const source = alertSourceRegistry.getAll().find(s => s.label === label);
+  return source?.id ?? label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+export class RiskScorer {
+  constructor(
+    private readonly weights: Record<string, number> = DEFAULT_RISK_WEIGHTS,
+    private readonly disagreementThreshold: number = DEFAULT_DISAGREEMENT_THRESHOLD,
+  ) {}
+
+  getWeight(sourceId: string): number {
+    return this.weights[sourceId] ?? DEFAULT_SOURCE_WEIGHT;
+  }
+
+  /**
+   * Composite score of a country's alerts, or null when it has none. Each source counts once,
+   * with its most severe alert.
+   */
+  score(alerts: Alert[]): CompositeRiskScore | null {
+    const bySource = new Map<string, { entry: SourceRiskScore; advisory: boolean }>();
+
+    for (const alert of alerts) {
+      const sourceId = getSourceId(alert.source);
+      const normalizer = NORMALIZERS[sourceId] ?? SEVERITY_NORMALIZER;
+      const score = Math.max(0, Math.min(100, normalizer.score(alert)));
+
+      const current = bySource.get(sourceId);
+      if (!current || score > current.entry.score) {
+        bySource.set(sourceId, {
+          entry: { sourceId, source: alert.source, score, weight: this.getWeight(sourceId), level: alert.level },
+          advisory: normalizer.advisory,
+        });
+      }
+    }
+
+    if (bySource.size === 0) return null;
+
+    const sources = Array.from(bySource.values()).map(({ entry }) => entry)
+      .sort((a, b) => b.weight - a.weight || a.source.localeCompare(b.source));
+    const totalWeight = sources.reduce((total, s) => total + s.weight, 0);
+    const weighted = sources.reduce((total, s) => total + s.score * s.weight, 0);
+
+    const advisories = Array.from(bySource.values()).filter(s => s.advisory).map(s => s.entry);
+    const disagreements: RiskDisagreement[] = [];
+    for (let i = 0; i < advisories.length; i++) {
+      for (let j = i + 1; j < advisories.length; j++) {
+        const [higher, lower] = advisories[i].score >= advisories[j].score
+          ? [advisories[i], advisories[j]]
+          : [advisories[j], advisories[i]];
+        const difference = higher.score - lower.score;
+        if (difference >= this.disagreementThreshold) {
+          disagreements.push({
+            higher: { source: higher.source, score: higher.score, level: higher.level },
+            lower: { source: lower.source, score: lower.score, level: lower.level },
+            difference,
+          });
+        }
+      }
+    }
+
+    return {
+      score: totalWeight > 0 ? Math.round(weighted / totalWeight) : null,
+      sources,
+      disagreements,
+    };
+  }
+}
+
+/**
+ * Weights from e.g. "us-state-dept=40,uk-fcdo=40,usgs=0"; listed sources override the defaults
+ */
+export function parseRiskWeights(value: string | undefined): Record<string, number> {
+  const weights = { ...DEFAULT_RISK_WEIGHTS };
+  if (!value) return weights;
+
+  for (const pair of value.split(',').map(p => p.trim()).filter(Boolean)) {
+    const [id, rawWeight] = pair.split('=').map(part => part?.trim());
+    const weight = Number(rawWeight);
+    if (!id || rawWeight === undefined || rawWeight === '' || !Number.isFinite(weight) || weight < 0) {
+      console.error(`[RiskScore] Ignoring invalid weight "${pair}" (expected source-id=weight)`);
+      continue;
+    }
+    weights[id.toLowerCase()] = weight;
+  }
+  return weights;
+}
+
+/**
+ * Build the scorer from RISK_SCORE_WEIGHTS and RISK_DISAGREEMENT_THRESHOLD (points, default 40)
+ */
+export function createRiskScorerFromEnv(env: NodeJS.ProcessEnv = process.env): RiskScorer {
+  let threshold = DEFAULT_DISAGREEMENT_THRESHOLD;
+  if (env.RISK_DISAGREEMENT_THRESHOLD) {
+    const parsed = Number(env.RISK_DISAGREEMENT_THRESHOLD);
+    if (Number.isFinite(parsed) && parsed > 0 && parsed <= 100) {
+      threshold = parsed;
+    } else {
+      console.error(`[RiskScore] Ignoring invalid RISK_DISAGREEMENT_THRESHOLD "${env.RISK_DISAGREEMENT_THRESHOLD}"`);
+    }
+  }
+
+  return new RiskScorer(parseRiskWeights(env.RISK_SCORE_WEIGHTS), threshold);
+}
+
+export const riskScorer = createRiskScorerFromEnv();
@@ -1,41 +1,61 @@
 import { dataFetcher } from "./dataFetcher";
 import { bulkDownloadService } from "./bulkDownloadService";
 import { embassyDataFetcher } from "./embassyFetcher";
+import { alertSourceRegistry } from "./alertSources";
+import { getWatchedCountryNames, prioritizeWatchedCountries } from "./watchlists";
+import { REFRESH_QUEUE_DECAY_DAYS, getEligibleEntries, getBackgroundDueAt, getNextBackgroundRefreshes, getSourceDueAt, type DueRefresh } from "./refreshQueue";
+import { cronJobScheduler } from "./jobScheduler";
+import { schedulerLease } from "./leaderLease";
 import { storage } from "../storage";
+import { resolveCountry } from "@shared/countries";
+import { JOB_PRIORITIES, type RefreshQueueEntry } from "@shared/schema";
+
+// How often to check whether any alert source is due for a refresh
+const ALERT_SOURCE_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+// Background data is refreshed per country once this long has passed since its last refresh
+const BACKGROUND_REFRESH_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000;
+const BACKGROUND_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface RefreshQueueStatus {
+  depth: number;
+  watchedCountries: number;
+  decayDays: number;
+  nextAlertRefreshes: Array<{ sourceId: string; dueAt: Date | null }>;
+  nextBackgroundRefreshes: DueRefresh[];
+}
 
 class DataScheduler {
   private alertRefreshInterval: NodeJS.Timeout | null = null;
   private backgroundRefreshInterval: NodeJS.Timeout | null = null;
-  private weeklyBulkDownloadInterval: NodeJS.Timeout | null = null;
-  private monthlyEmbassyRefreshInterval: NodeJS.Timeout | null = null;
-  private recentCountries: Set<string> = new Set();
+  private refreshingAlerts = false;
 
   startScheduler(): void {
-    // Refresh alerts every 6 hours
+    // Refresh each alert source on its own cadence
     this.alertRefreshInterval = setInterval(() => {
-      this.refreshAlerts();
-    }, 6 * 60 * 60 * 1000);
+      this.refreshDueAlertSources();
+    }, ALERT_SOURCE_CHECK_INTERVAL_MS);
 
-    // Refresh background data weekly
+    // Refresh background data for countries whose last refresh is over a week old
     this.backgroundRefreshInterval = setInterval(() => {
       this.refreshBackgroundData();
-    }, 7 * 24 * 60 * 60 * 1000);
+    }, BACKGROUND_CHECK_INTERVAL_MS);
 
-    // Weekly bulk download - check every hour if it's Sunday at 1 AM
-    this.weeklyBulkDownloadInterval = setInterval(() => {
-      this.checkAndRunWeeklyBulkDownload();
-    }, 60 * 60 * 1000); // Check every hour
+    // Bulk download and embassy refresh run on cron schedules stored in scheduled_jobs
+    cronJobScheduler.registerTask('bulk-download', () => this.runBulkDownload());
+    cronJobScheduler.registerTask('embassy-refresh', () => this.runEmbassyRefresh());
+    cronJobScheduler.start().catch(error => {
+      console.error("[Scheduler] Failed to start cron job scheduler:", error);
+    });
 
-    // Monthly embassy refresh - check every hour if it's 1st of month at 2 AM
-    this.monthlyEmbassyRefreshInterval = setInterval(() => {
-      this.checkAndRunMonthlyEmbassyRefresh();
-    }, 60 * 60 * 1000); // Check every hour
+    // Catch up on anything that fell due as soon as this instance takes over scheduling
+    schedulerLease.onAcquired(() => {
+      this.refreshDueAlertSources();
+    });
 
-    console.log("Data scheduler started - alerts: 6h, background: 7d, bulk download: weekly, embassy: monthly");
+    console.log(`Data scheduler started - alert sources: ${alertSourceRegistry.getEnabled().map(s => s.id).join(", ")}, background: 7d (queue decays after ${REFRESH_QUEUE_DECAY_DAYS}d), tasks: ${cronJobScheduler.getTaskNames().join(", ")}`);
     
-    // Run initial checks in case we just started at the scheduled time
-    this.checkAndRunWeeklyBulkDownload();
-    this.checkAndRunMonthlyEmbassyRefresh();
+    this.refreshDueAlertSources();
   }
 
   stopScheduler(): void {
@@ -47,146 +67,190 @@ class DataScheduler {
       clearInterval(this.backgroundRefreshInterval);
       this.backgroundRefreshInterval = null;
     }
-    if (this.weeklyBulkDownloadInterval) {
-      clearInterval(this.weeklyBulkDownloadInterval);
-      this.weeklyBulkDownloadInterval = null;
-    }
-    if (this.monthlyEmbassyRefreshInterval) {
-      clearInterval(this.monthlyEmbassyRefreshInterval);
-      this.monthlyEmbassyRefreshInterval = null;
-    }
+    cronJobScheduler.stop();
     console.log("Data scheduler stopped");
   }
 
+  /**
+   * Record a view of a country so the scheduler keeps it fresh. The queue lives in storage
+   * so it survives restarts.
+   */
   addCountryToRefresh(countryName: string): void {
-    this.recentCountries.add(countryName);
+    storage.recordCountryAccess(countryName).catch(error => {
+      console.error(`[Scheduler] Failed to queue ${countryName} for refresh:`, error);
+    });
   }
 
-  private async refreshAlerts(): Promise<void> {
-    console.log("Refreshing alert data for recent countries...");
-    for (const countryName of Array.from(this.recentCountries)) {
-      try {
-        await dataFetcher.fetchAllCountryData(countryName);
-      } catch (error) {
-        console.error(`Failed to refresh alerts for ${countryName}:`, error);
+  /**
+   * Refresh each queued country from the enabled sources whose refresh interval has elapsed for
+   * it. Refresh times are read from the persisted queue, so restarts and lease failovers don't
+   * reset the clocks. Sources registered after startup are picked up on the next check.
+   * Only the instance holding the scheduler lease refreshes.
+   */
+  private async refreshDueAlertSources(): Promise<void> {
+    if (!schedulerLease.isHolder() || this.refreshingAlerts) return;
+
+    this.refreshingAlerts = true;
+    try {
+      const now = new Date();
+      const sources = alertSourceRegistry.getEnabled();
+      const { countryNames, watchedCount, entries } = await this.getRefreshOrder();
+      const due = countryNames.flatMap(countryName => {
+        const entry = entries.get(countryName);
+        const sourceIds = sources
+          .filter(source => !entry || getSourceDueAt(entry, source.id, source.refreshIntervalMs) <= now)
+          .map(source => source.id);
+        return sourceIds.length > 0 ? [{ countryName, sourceIds }] : [];
+      });
+      if (due.length === 0) return;
+
+      console.log(`Refreshing alert data for ${due.length} countries (${watchedCount} watched in queue)...`);
+      for (const { countryName, sourceIds } of due) {
+        try {
+          await dataFetcher.fetchCountryAlertsFromSources(countryName, sourceIds);
+          await storage.markSourcesRefreshed(countryName, sourceIds);
+        } catch (error) {
+          console.error(`Failed to refresh alerts for ${countryName} from ${sourceIds.join(", ")}:`, error);
+        }
       }
+    } finally {
+      this.refreshingAlerts = false;
     }
   }
 
-  private async refreshBackgroundData(): Promise<void> {
-    console.log("Refreshing background data for recent countries...");
-    for (const countryName of Array.from(this.recentCountries)) {
+  /**
+   * Countries to refresh: everything on a watchlist first, then queued countries viewed within
+   * the decay window, most viewed first. Watched countries never decay; when trackWatched is set,
+   * ones without a queue entry get one so their refreshes are recorded.
+   */
+  private async getRefreshOrder(trackWatched = true): Promise<{ countryNames: string[]; watchedCount: number; entries: Map<string, RefreshQueueEntry> }> {
+    try {
+      const queue = await storage.getRefreshQueue();
+      const entries = new Map(queue.map(entry => [entry.countryName, entry]));
+      const eligible = getEligibleEntries(queue, new Date()).map(entry => entry.countryName);
+
+      let watched: string[] = [];
       try {
-        // Only refresh background data, not alerts
-        const country = await storage.getCountryByName(countryName);
-        if (!country) {
-          console.warn(`Country ${countryName} not found in storage, skipping background refresh`);
-          continue;
-        }
+        watched = getWatchedCountryNames(await storage.getAllWatchlists());
+      } catch (error) {
+        console.error("[Scheduler] Failed to load watchlists, refreshing queued countries only:", error);
+      }
 
-        const ciaData = await dataFetcher.fetchCIAFactbook(countryName);
-        const worldBankData = await dataFetcher.fetchWorldBankData(countryName);
-        
-        if (ciaData) {
-          const backgroundInfo = { ...ciaData, countryId: country.id };
-          if (worldBankData?.gdpPerCapita) {
-            backgroundInfo.gdpPerCapita = worldBankData.gdpPerCapita;
+      if (trackWatched) {
+        for (const countryName of watched) {
+          if (!entries.has(countryName)) {
+            entries.set(countryName, await storage.recordCountryAccess(countryName));
           }
-          
-          // Persist the background data to storage
-          await storage.createOrUpdateBackgroundInfo(backgroundInfo);
-          console.log(`Successfully refreshed background data for ${countryName}`);
         }
+      }
+
+      return {
+        countryNames: prioritizeWatchedCountries(watched, eligible),
+        watchedCount: watched.length,
+        entries,
+      };
+    } catch (error) {
+      console.error("[Scheduler] Failed to load refresh queue:", error);
+      return { countryNames: [], watchedCount: 0, entries: new Map() };
+    }
+  }
+
+  private async refreshBackgroundData(): Promise<void> {
+    if (!schedulerLease.isHolder()) return;
+
+    const now = new Date();
+    const { countryNames, watchedCount, entries } = await this.getRefreshOrder();
+    const dueCountries = countryNames.filter(countryName => {
+      const entry = entries.get(countryName);
+      return entry && getBackgroundDueAt(entry, BACKGROUND_REFRESH_INTERVAL_MS) <= now;
+    });
+    if (dueCountries.length === 0) return;
+
+    console.log(`Refreshing background data for ${dueCountries.length} countries (${watchedCount} watched in queue)...`);
+    for (const countryName of dueCountries) {
+      try {
+        // Only refresh background data and entry requirements, not alerts
+        await dataFetcher.fetchCountryBackground(countryName);
+        await storage.markCountryRefreshed(countryName, 'background');
       } catch (error) {
         console.error(`Failed to refresh background data for ${countryName}:`, error);
       }
     }
   }
 
-  async forceRefresh(countryName: string): Promise<void> {
-    console.log(`Force refreshing data for ${countryName}...`);
-    this.addCountryToRefresh(countryName);
-    await dataFetcher.fetchAllCountryData(countryName);
-  }
+  /**
+   * Queue depth and the next scheduled refreshes, for /api/status
+   */
+  async getQueueStatus(limit = 5): Promise<RefreshQueueStatus> {
+    const { countryNames, watchedCount, entries } = await this.getRefreshOrder(false);
+    const queued = countryNames
+      .map(countryName => entries.get(countryName))
+      .filter((entry): entry is RefreshQueueEntry => !!entry);
+
+    // Soonest country due per source; null while the queue is empty
+    const nextAlertRefreshes = alertSourceRegistry.getEnabled().map(source => {
+      const dueTimes = queued.map(entry => getSourceDueAt(entry, source.id, source.refreshIntervalMs).getTime());
+      return { sourceId: source.id, dueAt: dueTimes.length > 0 ? new Date(Math.min(...dueTimes)) : null };
+    }).sort((a, b) => (a.dueAt?.getTime() ?? Infinity) - (b.dueAt?.getTime() ?? Infinity));
 
-  private lastWeeklyRunDate: string | null = null; // Track last run date to prevent duplicates
+    return {
+      depth: countryNames.length,
+      watchedCountries: watchedCount,
+      decayDays: REFRESH_QUEUE_DECAY_DAYS,
+      nextAlertRefreshes,
+      nextBackgroundRefreshes: getNextBackgroundRefreshes(queued, BACKGROUND_REFRESH_INTERVAL_MS, limit),
+    };
+  }
 
   /**
-   * Check if it's Sunday at 1 AM and run bulk download if it is
+   * Refresh every source for a country now. Only recognized countries are queued, under
+   * their canonical name.
    */
-  private checkAndRunWeeklyBulkDownload(): void {
-    const now = new Date();
-    const day = now.getDay(); // 0 = Sunday, 1 = Monday, etc.
-    const hour = now.getHours();
-    const dateKey = now.toISOString().split('T')[0]; // YYYY-MM-DD format
-
-    // Run if it's Sunday (day 0) and hour is 1 (1 AM) and we haven't run today
-    if (day === 0 && hour === 1 && this.lastWeeklyRunDate !== dateKey) {
-      console.log("[Scheduler] Running weekly bulk download on Sunday at 1 AM");
-      this.lastWeeklyRunDate = dateKey; // Mark as run for this date
-      
-      this.runWeeklyBulkDownload().catch(error => {
-        console.error("[Scheduler] Weekly bulk download failed:", error);
-        // Reset the date key on failure so it can retry later
-        this.lastWeeklyRunDate = null;
-      });
+  async forceRefresh(countryName: string): Promise<void> {
+    const country = resolveCountry(countryName);
+    if (!country) {
+      throw new Error(`'${countryName}' is not a recognized country name`);
     }
+
+    console.log(`Force refreshing data for ${country.name}...`);
+    await storage.recordCountryAccess(country.name);
+    await dataFetcher.fetchAllCountryData(country.name);
+    await storage.markSourcesRefreshed(country.name, alertSourceRegistry.getEnabled().map(source => source.id));
+    await storage.markCountryRefreshed(country.name, 'background');
   }
 
   /**
-   * Run the weekly bulk download of all US State Dept advisories
+   * Queue a bulk download of all advisories at low priority, so manual jobs run first
    */
-  private async runWeeklyBulkDownload(): Promise<void> {
+  private async runBulkDownload(): Promise<string> {
     try {
-      const jobId = await bulkDownloadService.downloadAllStateDeptAdvisories();
-      console.log(`[Scheduler] Started weekly bulk download job: ${jobId}`);
+      const jobId = await bulkDownloadService.downloadAllStateDeptAdvisories(JOB_PRIORITIES.low);
+      console.log(`[Scheduler] Queued bulk download job: ${jobId}`);
+      return `Queued bulk download job ${jobId}`;
     } catch (error) {
-      console.error("[Scheduler] Failed to start weekly bulk download:", error);
+      console.error("[Scheduler] Failed to queue bulk download:", error);
       throw error;
     }
   }
 
-  private lastEmbassyRefreshDate: string | null = null; // Track last run date to prevent duplicates
-
-  /**
-   * Check if it's the 1st of the month at 2 AM and run embassy refresh if it is
-   */
-  private checkAndRunMonthlyEmbassyRefresh(): void {
-    const now = new Date();
-    const day = now.getDate(); // 1-31
-    const hour = now.getHours();
-    const dateKey = now.toISOString().split('T')[0]; // YYYY-MM-DD format
-
-    // Run if it's the 1st of the month (day 1) and hour is 2 (2 AM) and we haven't run today
-    if (day === 1 && hour === 2 && this.lastEmbassyRefreshDate !== dateKey) {
-      console.log("[Scheduler] Running monthly embassy refresh on 1st of month at 2 AM");
-      this.lastEmbassyRefreshDate = dateKey; // Mark as run for this date
-      
-      this.runMonthlyEmbassyRefresh().catch(error => {
-        console.error("[Scheduler] Monthly embassy refresh failed:", error);
-        // Reset the date key on failure so it can retry later
-        this.lastEmbassyRefreshDate = null;
-      });
-    }
-  }
-
   /**
-   * Run the monthly refresh of US embassy/consulate data
+   * Refresh US embassy/consulate data
    */
-  private async runMonthlyEmbassyRefresh(): Promise<void> {
+  private async runEmbassyRefresh(): Promise<string> {
     try {
       console.log("[Scheduler] Fetching all US embassy data from OpenStreetMap...");
       const embassies = await embassyDataFetcher.fetchAllUSEmbassies();
       
       if (embassies.length === 0) {
         console.warn("[Scheduler] No embassy data found");
-        return;
+        return "No embassy data found, existing data kept";
       }
 
       // Clear existing data and save new data
       await storage.deleteAllEmbassies();
       await storage.bulkCreateEmbassies(embassies);
       console.log(`[Scheduler] ✅ Successfully refreshed ${embassies.length} US embassies worldwide`);
+      return `Refreshed ${embassies.length} embassies`;
     } catch (error) {
       console.error("[Scheduler] Failed to refresh embassy data:", error);
       throw error;
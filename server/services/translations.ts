@@ -0,0 +1,140 @@
+import { z } from "zod";
+import type { AIItemConfidence, Alert, AlertTranslation, CountryData } from "@shared/schema";
+
+/**
+ * Languages AI-enhanced alerts can be translated into, and picking the language a request
+ * wants. Advisories are English at the source; translations replace the AI fields only.
+ */
+
+export const SOURCE_LANGUAGE = 'en';
+
+// ISO 639-1 code -> name used in translation prompts
+export const SUPPORTED_LANGUAGES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+  nl: 'Dutch',
+  ru: 'Russian',
+  ar: 'Arabic',
+  hi: 'Hindi',
+  zh: 'Chinese (Simplified)',
+  ja: 'Japanese',
+  ko: 'Korean',
+};
+
+export function isSupportedLanguage(code: string): boolean {
+  return Object.prototype.hasOwnProperty.call(SUPPORTED_LANGUAGES, code);
+}
+
+/**
+ * Languages to translate into from a comma-separated list such as AI_TRANSLATION_LANGUAGES.
+ * English (the source) and unsupported codes are left out.
+ */
+export function parseTranslationLanguages(value: string | undefined): string[] {
+  if (!value) return [];
+
+  const languages = new Set<string>();
+  for (const code of value.split(',').map(c => c.trim().toLowerCase()).filter(Boolean)) {
+    if (!isSupportedLanguage(code)) {
+      console.warn(`[Translations] Ignoring unsupported language "${code}". Supported: ${Object.keys(SUPPORTED_LANGUAGES).join(', ')}`);
+      continue;
+    }
+    if (code !== SOURCE_LANGUAGE) languages.add(code);
+  }
+  return Array.from(languages);
+}
+
+/**
+ * Base language codes from an Accept-Language header, most preferred first
+ * (e.g. "fr-CA,fr;q=0.9,en;q=0.8" gives fr, en)
+ */
+export function parseAcceptLanguage(header: string | undefined): string[] {
+  if (!header) return [];
+
+  const ranked = header.split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const qParam = params.map(p => p.trim()).find(p => p.startsWith('q='));
+      const quality = qParam ? parseFloat(qParam.slice(2)) : 1;
+      return { code: tag.trim().toLowerCase().split('-')[0], quality: isNaN(quality) ? 0 : quality, index };
+    })
+    .filter(entry => entry.code && entry.code !== '*' && entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  return Array.from(new Set(ranked.map(entry => entry.code)));
+}
+
+export type RequestLanguage =
+  | { success: true; language: string }
+  | { success: false; error: string };
+
+/**
+ * Language for a response: `?lang=` when given (and it must be supported), otherwise the
+ * first supported language in Accept-Language, otherwise English
+ */
+export function resolveRequestLanguage(lang: unknown, acceptLanguage: string | undefined): RequestLanguage {
+  if (lang !== undefined) {
+    const code = typeof lang === 'string' ? lang.trim().toLowerCase() : '';
+    if (!isSupportedLanguage(code)) {
+      return {
+        success: false,
+        error: `Unsupported language '${String(lang)}'. Supported languages: ${Object.keys(SUPPORTED_LANGUAGES).join(', ')}`,
+      };
+    }
+    return { success: true, language: code };
+  }
+
+  const preferred = parseAcceptLanguage(acceptLanguage).find(isSupportedLanguage);
+  return { success: true, language: preferred ?? SOURCE_LANGUAGE };
+}
+
+/**
+ * Schema for a translation of `source`: every list must keep its length, so items still line up
+ * with the English ones (and their confidence flags)
+ */
+export function translationSchema(source: AlertTranslation) {
+  const list = (length: number) => z.array(z.string().trim().min(1)).length(length, `must have exactly ${length} items, one per source item`);
+  return z.object({
+    summary: z.string().trim().min(1),
+    keyRisks: list(source.keyRisks.length),
+    safetyRecommendations: list(source.safetyRecommendations.length),
+    specificAreas: list(source.specificAreas.length),
+  });
+}
+
+/**
+ * The alert with its AI fields in the given language, when a translation exists. Confidence
+ * flags follow their items, which keep their position in the translated lists.
+ */
+export function localizeAlert(alert: Alert, language: string): Alert {
+  const translation = language === SOURCE_LANGUAGE ? undefined : alert.translations?.[language];
+  if (!translation) return alert;
+
+  const relabel = (entries: AIItemConfidence[], source: string[] | null, translated: string[]) =>
+    entries.map(entry => {
+      const index = source?.indexOf(entry.item) ?? -1;
+      return index >= 0 && translated[index] ? { ...entry, item: translated[index] } : entry;
+    });
+
+  return {
+    ...alert,
+    summary: translation.summary,
+    keyRisks: translation.keyRisks,
+    safetyRecommendations: translation.safetyRecommendations,
+    specificAreas: translation.specificAreas,
+    aiConfidence: alert.aiConfidence
+      ? {
+          keyRisks: relabel(alert.aiConfidence.keyRisks, alert.keyRisks, translation.keyRisks),
+          specificAreas: relabel(alert.aiConfidence.specificAreas, alert.specificAreas, translation.specificAreas),
+        }
+      : null,
+  };
+}
+
+export function localizeCountryData(data: CountryData, language: string): CountryData {
+  if (language === SOURCE_LANGUAGE) return data;
+  return { ...data, alerts: data.alerts.map(alert => localizeAlert(alert, language)) };
+}
@@ -0,0 +1,116 @@
+import type { Alert, CountryData, EmbassyConsulate, Trip, TripAssessment, TripLegAssessment } from "@shared/schema";
+import { SEVERITY_RANKS } from "./changeDetection";
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface TripLegContext {
+  countryData: CountryData | undefined;
+  cityLocation: GeoPoint | null;
+  embassies: EmbassyConsulate[]; // Candidates for the nearest embassy, usually the country's own
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Great-circle distance between two points in kilometres
+ */
+export function haversineKm(a: GeoPoint, b: GeoPoint): number {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * US State Dept advisory level (1-4) from a country's alerts
+ */
+export function getStateDeptLevel(alerts: Alert[]): number | null {
+  const stateDeptAlert = alerts.find(alert => alert.source === "US State Dept");
+  const match = stateDeptAlert?.level?.match(/Level (\d)/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Highest alert severity across all sources
+ */
+export function getHighestSeverity(alerts: Alert[]): string | null {
+  let highest: string | null = null;
+  for (const alert of alerts) {
+    if (highest === null || (SEVERITY_RANKS[alert.severity] ?? 0) > (SEVERITY_RANKS[highest] ?? 0)) {
+      highest = alert.severity;
+    }
+  }
+  return highest;
+}
+
+/**
+ * Pick the embassy closest to a leg's city. Without coordinates for the city, fall back to
+ * an embassy or consulate in a city of the same name, then to the country's embassy.
+ */
+export function findNearestEmbassy(
+  embassies: EmbassyConsulate[],
+  location: GeoPoint | null,
+  city: string | null,
+): { embassy: EmbassyConsulate; distanceKm: number | null } | null {
+  if (embassies.length === 0) return null;
+
+  if (location) {
+    let nearest: { embassy: EmbassyConsulate; distanceKm: number } | null = null;
+    for (const embassy of embassies) {
+      const latitude = parseFloat(embassy.latitude);
+      const longitude = parseFloat(embassy.longitude);
+      if (isNaN(latitude) || isNaN(longitude)) continue;
+
+      const distanceKm = haversineKm(location, { latitude, longitude });
+      if (!nearest || distanceKm < nearest.distanceKm) {
+        nearest = { embassy, distanceKm };
+      }
+    }
+    if (nearest) {
+      return { embassy: nearest.embassy, distanceKm: Math.round(nearest.distanceKm) };
+    }
+  }
+
+  const sameCity = city
+    ? embassies.find(embassy => embassy.city?.toLowerCase() === city.toLowerCase())
+    : undefined;
+  const embassy = sameCity || embassies.find(e => e.type === 'embassy') || embassies[0];
+  return { embassy, distanceKm: null };
+}
+
+/**
+ * Assess each leg of a trip from stored alerts and embassies. Contexts are given in leg order.
+ */
+export function assessTrip(trip: Trip, contexts: TripLegContext[]): TripAssessment {
+  const legs: TripLegAssessment[] = trip.legs.map((leg, legIndex) => {
+    const { countryData, cityLocation, embassies } = contexts[legIndex];
+    const alerts = countryData?.alerts || [];
+    const nearest = findNearestEmbassy(embassies, cityLocation, leg.city);
+
+    return {
+      legIndex,
+      leg,
+      country: countryData?.country || null,
+      stateDeptLevel: getStateDeptLevel(alerts),
+      highestSeverity: getHighestSeverity(alerts),
+      alerts,
+      nearestEmbassy: nearest?.embassy || null,
+      embassyDistanceKm: nearest?.distanceKm ?? null,
+    };
+  });
+
+  const levels = legs.map(l => l.stateDeptLevel).filter((level): level is number => level !== null);
+  const highestSeverity = getHighestSeverity(legs.flatMap(l => l.alerts));
+
+  return {
+    trip,
+    legs,
+    highestLevel: levels.length > 0 ? Math.max(...levels) : null,
+    highestSeverity,
+  };
+}
@@ -0,0 +1,61 @@
+import type { EmbassyConsulate, SearchResult, Trip, TripAssessment } from "@shared/schema";
+import { storage } from "../storage";
+import { dataFetcher } from "./dataFetcher";
+import { cityGeocoder } from "./geocoder";
+import { assessTrip, type TripLegContext } from "./tripAssessment";
+
+class TripPlanner {
+  /**
+   * Gather stored data for every leg. Countries without cached data are fetched first.
+   */
+  private async loadLegContexts(trip: Trip): Promise<TripLegContext[]> {
+    const contexts: TripLegContext[] = [];
+    let allEmbassies: EmbassyConsulate[] | null = null;
+
+    for (const leg of trip.legs) {
+      let countryData = await storage.getCountryData(leg.countryName);
+      if (!countryData) {
+        await dataFetcher.fetchAllCountryData(leg.countryName);
+        countryData = await storage.getCountryData(leg.countryName);
+      }
+
+      const cityLocation = leg.city && countryData
+        ? await cityGeocoder.geocode(leg.city, countryData.country.code)
+        : null;
+
+      // Countries without a US mission fall back to the nearest one across the border
+      let embassies = countryData?.embassies || [];
+      if (embassies.length === 0 && cityLocation) {
+        allEmbassies = allEmbassies ?? await storage.getAllEmbassies();
+        embassies = allEmbassies;
+      }
+
+      contexts.push({ countryData, cityLocation, embassies });
+    }
+
+    return contexts;
+  }
+
+  async assess(trip: Trip): Promise<TripAssessment> {
+    return assessTrip(trip, await this.loadLegContexts(trip));
+  }
+
+  /**
+   * Assessment plus the data for each distinct country in travel order, for the PDF briefing
+   */
+  async buildBriefing(trip: Trip): Promise<{ assessment: TripAssessment; searchResults: SearchResult }> {
+    const contexts = await this.loadLegContexts(trip);
+    const seen = new Set<string>();
+    const searchResults: SearchResult = [];
+
+    for (const { countryData } of contexts) {
+      if (!countryData || seen.has(countryData.country.id)) continue;
+      seen.add(countryData.country.id);
+      searchResults.push(countryData);
+    }
+
+    return { assessment: assessTrip(trip, contexts), searchResults };
+  }
+}
+
+export const tripPlanner = new TripPlanner();
@@ -0,0 +1,78 @@
+import type { Watchlist, WatchlistSubscription } from "@shared/schema";
+import { SEVERITY_RANKS, type AdvisoryChanged } from "./changeDetection";
+
+export interface WatchlistMatch {
+  watchlist: Watchlist;
+  subscription: WatchlistSubscription;
+}
+
+/**
+ * Whether a change should trigger a notification for one subscription. A downgrade
+ * is judged by the severity it came from, so leaving a high-risk level still notifies.
+ */
+export function subscriptionMatches(subscription: WatchlistSubscription, event: AdvisoryChanged, sourceId: string | undefined): boolean {
+  if (subscription.countryName.toLowerCase() !== event.countryName.toLowerCase()) return false;
+
+  if (subscription.sources.length > 0 && (!sourceId || !subscription.sources.includes(sourceId))) {
+    return false;
+  }
+
+  const eventRank = Math.max(SEVERITY_RANKS[event.oldSeverity] ?? 0, SEVERITY_RANKS[event.newSeverity] ?? 0);
+  return eventRank >= (SEVERITY_RANKS[subscription.minSeverity] ?? 0);
+}
+
+/**
+ * Find every watchlist subscription an advisory change satisfies
+ */
+export function findWatchlistMatches(watchlists: Watchlist[], event: AdvisoryChanged, sourceId: string | undefined): WatchlistMatch[] {
+  const matches: WatchlistMatch[] = [];
+
+  for (const watchlist of watchlists) {
+    for (const subscription of watchlist.countries) {
+      if (subscriptionMatches(subscription, event, sourceId)) {
+        matches.push({ watchlist, subscription });
+      }
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Distinct country names across all watchlists
+ */
+export function getWatchedCountryNames(watchlists: Watchlist[]): string[] {
+  const names = new Set<string>();
+  for (const watchlist of watchlists) {
+    for (const subscription of watchlist.countries) {
+      names.add(subscription.countryName.toLowerCase());
+    }
+  }
+  return Array.from(names);
+}
+
+/**
+ * Order countries for a refresh pass: watched countries first, then the rest without duplicates
+ */
+export function prioritizeWatchedCountries(watched: string[], others: Iterable<string>): string[] {
+  const ordered = new Set(watched);
+  for (const name of Array.from(others)) {
+    ordered.add(name);
+  }
+  return Array.from(ordered);
+}
+
+/**
+ * Build a notification filter that only lets through changes someone is watching.
+ * With no watchlists defined every change is delivered, as before watchlists existed.
+ */
+export function createWatchlistFilter(
+  loadWatchlists: () => Promise<Watchlist[]>,
+  resolveSourceId: (sourceLabel: string) => string | undefined,
+): (event: AdvisoryChanged) => Promise<boolean> {
+  return async (event) => {
+    const watchlists = await loadWatchlists();
+    if (watchlists.length === 0) return true;
+    return findWatchlistMatches(watchlists, event, resolveSourceId(event.source)).length > 0;
+  };
+}
@@ -1,7 +1,7 @@
-import { type Country, type Alert, type BackgroundInfo, type BulkJob, type JobCountryProgress, type EmbassyConsulate, type InsertCountry, type InsertAlert, type InsertBackgroundInfo, type InsertBulkJob, type InsertJobCountryProgress, type InsertEmbassyConsulate, type CountryData, countries, alerts, backgroundInfo, bulkJobs, jobCountryProgress, embassiesConsulates } from "@shared/schema";
+import { type Country, type Alert, type AlertRevision, type InsertAlertRevision, type BackgroundInfo, type BulkJob, type JobCountryProgress, type EmbassyConsulate, type InsertCountry, type InsertAlert, type InsertBackgroundInfo, type InsertBulkJob, type InsertJobCountryProgress, type InsertEmbassyConsulate, type ScheduledJob, type InsertScheduledJob, type Lease, type AIEnhancement, type AIConfidence, type AlertTranslations, type AIUsage, type InsertAIUsage, type RefreshQueueEntry, type Watchlist, type InsertWatchlist, type Trip, type InsertTrip, type RegionAdvisory, type InsertRegionAdvisory, type AdvisorySection, type InsertAdvisorySection, type EntryRequirement, type InsertEntryRequirement, type CountryData, JOB_PRIORITIES, countries, alerts, alertRevisions, backgroundInfo, bulkJobs, jobCountryProgress, embassiesConsulates, scheduledJobs, leases, aiEnhancements, aiUsage, refreshQueue, watchlists, trips, regionAdvisories, advisorySections, entryRequirements } from "@shared/schema";
 import { randomUUID } from "crypto";
 import { waitForDb, getDatabaseStatus } from "./db";
-import { eq, inArray, and, desc } from "drizzle-orm";
+import { eq, inArray, and, or, asc, desc, gte, lt, sql } from "drizzle-orm";
 
 export interface IStorage {
   // Countries
@@ -14,6 +14,12 @@ export interface IStorage {
   getAlertsByCountryId(countryId: string): Promise<Alert[]>;
   createAlert(alert: InsertAlert): Promise<Alert>;
   deleteAlertsByCountryId(countryId: string): Promise<void>;
+  deleteAlertsByCountryIdAndSource(countryId: string, source: string): Promise<void>;
+
+  // Alert Revisions (append-only)
+  getLatestAlertRevision(countryId: string, source: string, advisoryKey: string): Promise<AlertRevision | undefined>;
+  createAlertRevision(revision: InsertAlertRevision): Promise<AlertRevision>;
+  getAlertRevisionsByCountryId(countryId: string, source?: string): Promise<AlertRevision[]>;
 
   // Background Info
   getBackgroundInfoByCountryId(countryId: string): Promise<BackgroundInfo | undefined>;
@@ -29,6 +35,7 @@ export interface IStorage {
   createBulkJob(job: InsertBulkJob): Promise<BulkJob>;
   updateBulkJob(id: string, updates: Partial<BulkJob>): Promise<BulkJob | undefined>;
   getAllBulkJobs(limit?: number): Promise<BulkJob[]>;
+  getBulkJobsByStatus(statuses: string[]): Promise<BulkJob[]>;
   getLastRunDate(): Promise<Date | null>;
   
   // Job Country Progress
@@ -36,31 +43,106 @@ export interface IStorage {
   updateJobCountryProgress(id: string, updates: Partial<import("@shared/schema").JobCountryProgress>): Promise<import("@shared/schema").JobCountryProgress | undefined>;
   getJobCountryProgress(jobId: string): Promise<import("@shared/schema").JobCountryProgress[]>;
   getLastProcessedCountry(jobId: string): Promise<import("@shared/schema").JobCountryProgress | undefined>;
-  updateJobWithTransaction(jobId: string, countryName: string, countryStatus: 'completed' | 'failed', error?: string): Promise<void>;
+  updateJobWithTransaction(jobId: string, countryName: string, countryStatus: 'completed' | 'failed', error?: string, retryCount?: number): Promise<void>;
   
   // Embassies & Consulates
   getEmbassiesByCountryCode(countryCode: string): Promise<EmbassyConsulate[]>;
   getAllEmbassies(): Promise<EmbassyConsulate[]>;
   createEmbassy(embassy: InsertEmbassyConsulate): Promise<EmbassyConsulate>;
   deleteAllEmbassies(): Promise<void>;
+  deleteEmbassiesByCountryCode(countryCode: string): Promise<void>;
   bulkCreateEmbassies(embassies: InsertEmbassyConsulate[]): Promise<void>;
+
+  // Scheduled Jobs
+  getAllScheduledJobs(): Promise<ScheduledJob[]>;
+  getScheduledJob(id: string): Promise<ScheduledJob | undefined>;
+  createScheduledJob(job: InsertScheduledJob & { nextRunAt?: Date | null }): Promise<ScheduledJob>;
+  updateScheduledJob(id: string, updates: Partial<ScheduledJob>): Promise<ScheduledJob | undefined>;
+  deleteScheduledJob(id: string): Promise<boolean>;
+
+  // Leases
+  getLease(name: string): Promise<Lease | undefined>;
+  acquireLease(name: string, holderId: string, ttlMs: number): Promise<Lease | null>; // Also renews a lease the holder already has
+  releaseLease(name: string, holderId: string): Promise<boolean>;
+
+  // AI Enhancement Cache
+  getAIEnhancement(advisoryLink: string): Promise<AIEnhancement | undefined>;
+  saveAIEnhancement(enhancement: AIEnhancement): Promise<AIEnhancement>; // Replaces the previous analysis
+
+  // AI Usage
+  recordAIUsage(usage: InsertAIUsage): Promise<AIUsage>;
+  getAIUsage(from: Date, to: Date): Promise<AIUsage[]>; // Calls made in [from, to), oldest first
+
+  // Refresh Queue
+  recordCountryAccess(countryName: string): Promise<RefreshQueueEntry>;
+  getRefreshQueue(accessedSince?: Date): Promise<RefreshQueueEntry[]>;
+  markCountryRefreshed(countryName: string, kind: 'alerts' | 'background', at?: Date): Promise<void>;
+  markSourcesRefreshed(countryName: string, sourceIds: string[], at?: Date): Promise<void>;
+
+  // Watchlists
+  getAllWatchlists(): Promise<Watchlist[]>;
+  getWatchlist(id: string): Promise<Watchlist | undefined>;
+  createWatchlist(watchlist: InsertWatchlist): Promise<Watchlist>;
+  updateWatchlist(id: string, updates: Partial<InsertWatchlist>): Promise<Watchlist | undefined>;
+  deleteWatchlist(id: string): Promise<boolean>;
+
+  // Trips
+  getAllTrips(): Promise<Trip[]>;
+  getTrip(id: string): Promise<Trip | undefined>;
+  createTrip(trip: InsertTrip): Promise<Trip>;
+  updateTrip(id: string, updates: Partial<InsertTrip>): Promise<Trip | undefined>;
+  deleteTrip(id: string): Promise<boolean>;
+
+  // Advisory Sections
+  getAdvisorySectionsByCountryId(countryId: string): Promise<AdvisorySection[]>; // By source, then position
+  replaceAdvisorySections(countryId: string, source: string, sections: InsertAdvisorySection[]): Promise<AdvisorySection[]>;
+
+  // Entry Requirements
+  getEntryRequirements(countryId: string, nationality?: string): Promise<EntryRequirement[]>;
+  replaceEntryRequirements(countryId: string, nationality: string, source: string, requirements: InsertEntryRequirement[]): Promise<EntryRequirement[]>;
+
+  // Region Advisories
+  getRegionAdvisories(countryId?: string): Promise<RegionAdvisory[]>;
+  replaceRegionAdvisories(countryId: string, source: string, advisories: InsertRegionAdvisory[]): Promise<RegionAdvisory[]>;
 }
 
 export class MemStorage implements IStorage {
   private countries: Map<string, Country>;
   private alerts: Map<string, Alert>;
+  private alertRevisions: AlertRevision[];
   private backgroundInfo: Map<string, BackgroundInfo>;
   private bulkJobs: Map<string, BulkJob>;
   private jobProgress: Map<string, JobCountryProgress>;
   private embassies: Map<string, EmbassyConsulate>;
+  private scheduledJobs: Map<string, ScheduledJob>;
+  private leases: Map<string, Lease>;
+  private aiEnhancements: Map<string, AIEnhancement>;
+  private aiUsage: AIUsage[];
+  private refreshQueue: Map<string, RefreshQueueEntry>;
+  private watchlists: Map<string, Watchlist>;
+  private trips: Map<string, Trip>;
+  private regionAdvisories: RegionAdvisory[];
+  private advisorySections: AdvisorySection[];
+  private entryRequirements: EntryRequirement[];
 
   constructor() {
     this.countries = new Map();
     this.alerts = new Map();
+    this.alertRevisions = [];
     this.backgroundInfo = new Map();
     this.bulkJobs = new Map();
     this.jobProgress = new Map();
     this.embassies = new Map();
+    this.scheduledJobs = new Map();
+    this.leases = new Map();
+    this.aiEnhancements = new Map();
+    this.aiUsage = [];
+    this.refreshQueue = new Map();
+    this.watchlists = new Map();
+    this.trips = new Map();
+    this.regionAdvisories = [];
+    this.advisorySections = [];
+    this.entryRequirements = [];
   }
 
   // Helper to normalize arrays for type safety
@@ -114,6 +196,8 @@ export class MemStorage implements IStorage {
       safetyRecommendations: this.toStringArray(insertAlert.safetyRecommendations),
       specificAreas: this.toStringArray(insertAlert.specificAreas),
       aiEnhanced: insertAlert.aiEnhanced || null,
+      aiConfidence: (insertAlert.aiConfidence as AIConfidence | null | undefined) || null,
+      translations: (insertAlert.translations as AlertTranslations | null | undefined) || null,
     };
     this.alerts.set(alert.id, alert);
     return alert;
@@ -129,6 +213,47 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async deleteAlertsByCountryIdAndSource(countryId: string, source: string): Promise<void> {
+    const alertsToDelete = Array.from(this.alerts.entries()).filter(
+      ([_, alert]) => alert.countryId === countryId && alert.source === source
+    );
+
+    for (const [alertId] of alertsToDelete) {
+      this.alerts.delete(alertId);
+    }
+  }
+
+  async getLatestAlertRevision(countryId: string, source: string, advisoryKey: string): Promise<AlertRevision | undefined> {
+    // Revisions are appended in order, so the last match is the latest
+    for (let i = this.alertRevisions.length - 1; i >= 0; i--) {
+      const revision = this.alertRevisions[i];
+      if (revision.countryId === countryId && revision.source === source && revision.advisoryKey === advisoryKey) {
+        return revision;
+      }
+    }
+    return undefined;
+  }
+
+  async createAlertRevision(insertRevision: InsertAlertRevision): Promise<AlertRevision> {
+    const revision: AlertRevision = {
+      ...insertRevision,
+      id: randomUUID(),
+      level: insertRevision.level || null,
+      keyRisks: this.toStringArray(insertRevision.keyRisks),
+      safetyRecommendations: this.toStringArray(insertRevision.safetyRecommendations),
+      specificAreas: this.toStringArray(insertRevision.specificAreas),
+      recordedAt: new Date(),
+    };
+    this.alertRevisions.push(revision);
+    return revision;
+  }
+
+  async getAlertRevisionsByCountryId(countryId: string, source?: string): Promise<AlertRevision[]> {
+    return this.alertRevisions.filter(
+      (revision) => revision.countryId === countryId && (!source || revision.source === source)
+    );
+  }
+
   async getBackgroundInfoByCountryId(countryId: string): Promise<BackgroundInfo | undefined> {
     return Array.from(this.backgroundInfo.values()).find(
       (info) => info.countryId === countryId
@@ -178,12 +303,14 @@ export class MemStorage implements IStorage {
     const alerts = await this.getAlertsByCountryId(country.id);
     const background = await this.getBackgroundInfoByCountryId(country.id);
     const embassies = await this.getEmbassiesByCountryCode(country.code);
+    const sections = await this.getAdvisorySectionsByCountryId(country.id);
 
     return {
       country,
       alerts,
       background: background || null,
       embassies,
+      sections,
     };
   }
 
@@ -207,6 +334,7 @@ export class MemStorage implements IStorage {
       const alerts = await this.getAlertsByCountryId(country.id);
       const background = await this.getBackgroundInfoByCountryId(country.id);
       const embassies = await this.getEmbassiesByCountryCode(country.code);
+      const sections = await this.getAdvisorySectionsByCountryId(country.id);
       
       // Only include countries that have alerts (meaning they have cached data)
       if (alerts.length > 0) {
@@ -215,6 +343,7 @@ export class MemStorage implements IStorage {
           alerts,
           background: background || null,
           embassies,
+          sections,
         });
       }
     }
@@ -229,11 +358,21 @@ export class MemStorage implements IStorage {
   async createBulkJob(insertJob: InsertBulkJob): Promise<BulkJob> {
     const job: BulkJob = {
       ...insertJob,
+      type: insertJob.type || 'alerts',
+      priority: insertJob.priority ?? JOB_PRIORITIES.normal,
+      countries: (insertJob.countries || null) as string[] | null,
+      region: insertJob.region || null,
+      sourceIds: (insertJob.sourceIds || null) as string[] | null,
+      queuedAt: insertJob.queuedAt || new Date(),
+      startedAt: insertJob.startedAt || null,
       processedCountries: insertJob.processedCountries || 0,
       failedCountries: insertJob.failedCountries || 0,
       completedAt: insertJob.completedAt || null,
       errorLog: (insertJob.errorLog || null) as { country: string; error: string; }[] | null,
       lastRunDate: insertJob.lastRunDate || null,
+      parentJobId: insertJob.parentJobId || null,
+      aiCacheHits: insertJob.aiCacheHits || 0,
+      aiCacheMisses: insertJob.aiCacheMisses || 0,
     };
     this.bulkJobs.set(job.id, job);
     return job;
@@ -250,11 +389,15 @@ export class MemStorage implements IStorage {
 
   async getAllBulkJobs(limit?: number): Promise<BulkJob[]> {
     const jobs = Array.from(this.bulkJobs.values());
-    // Sort by startedAt descending (most recent first)
-    jobs.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+    // Sort by queuedAt descending (most recent first)
+    jobs.sort((a, b) => b.queuedAt.getTime() - a.queuedAt.getTime());
     return limit ? jobs.slice(0, limit) : jobs;
   }
 
+  async getBulkJobsByStatus(statuses: string[]): Promise<BulkJob[]> {
+    return Array.from(this.bulkJobs.values()).filter(job => statuses.includes(job.status));
+  }
+
   async getLastRunDate(): Promise<Date | null> {
     const jobs = await this.getAllBulkJobs();
     const completedJobs = jobs.filter(job => job.status === 'completed' && job.lastRunDate);
@@ -306,7 +449,7 @@ export class MemStorage implements IStorage {
     return completed[0];
   }
 
-  async updateJobWithTransaction(jobId: string, countryName: string, countryStatus: 'completed' | 'failed', error?: string): Promise<void> {
+  async updateJobWithTransaction(jobId: string, countryName: string, countryStatus: 'completed' | 'failed', error?: string, retryCount: number = 0): Promise<void> {
     // For in-memory storage, we just do the operations sequentially (no real transactions)
     const job = await this.getBulkJob(jobId);
     if (!job) {
@@ -323,6 +466,7 @@ export class MemStorage implements IStorage {
         status: countryStatus,
         completedAt: new Date(),
         error: error || null,
+        retryCount,
       });
     } else {
       await this.createJobCountryProgress({
@@ -332,7 +476,7 @@ export class MemStorage implements IStorage {
         startedAt: new Date(),
         completedAt: new Date(),
         error: error || null,
-        retryCount: 0,
+        retryCount,
       });
     }
 
@@ -377,11 +521,291 @@ export class MemStorage implements IStorage {
     this.embassies.clear();
   }
 
+  async deleteEmbassiesByCountryCode(countryCode: string): Promise<void> {
+    for (const [id, embassy] of Array.from(this.embassies.entries())) {
+      if (embassy.countryCode.toUpperCase() === countryCode.toUpperCase()) {
+        this.embassies.delete(id);
+      }
+    }
+  }
+
   async bulkCreateEmbassies(embassies: InsertEmbassyConsulate[]): Promise<void> {
     for (const embassy of embassies) {
       await this.createEmbassy(embassy);
     }
   }
+
+  // Scheduled job methods
+  async getAllScheduledJobs(): Promise<ScheduledJob[]> {
+    return Array.from(this.scheduledJobs.values()).sort(
+      (a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0)
+    );
+  }
+
+  async getScheduledJob(id: string): Promise<ScheduledJob | undefined> {
+    return this.scheduledJobs.get(id);
+  }
+
+  async createScheduledJob(insertJob: InsertScheduledJob & { nextRunAt?: Date | null }): Promise<ScheduledJob> {
+    const now = new Date();
+    const job: ScheduledJob = {
+      id: insertJob.id || randomUUID(),
+      name: insertJob.name,
+      task: insertJob.task,
+      cronExpression: insertJob.cronExpression,
+      timezone: insertJob.timezone || 'UTC',
+      enabled: insertJob.enabled ?? true,
+      catchUpPolicy: insertJob.catchUpPolicy || 'run-once',
+      lastRunAt: null,
+      lastRunStatus: null,
+      lastRunMessage: null,
+      lastRunDurationMs: null,
+      nextRunAt: insertJob.nextRunAt || null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.scheduledJobs.set(job.id, job);
+    return job;
+  }
+
+  async updateScheduledJob(id: string, updates: Partial<ScheduledJob>): Promise<ScheduledJob | undefined> {
+    const job = this.scheduledJobs.get(id);
+    if (!job) return undefined;
+
+    const updated = { ...job, ...updates, id, updatedAt: new Date() };
+    this.scheduledJobs.set(id, updated);
+    return updated;
+  }
+
+  async deleteScheduledJob(id: string): Promise<boolean> {
+    return this.scheduledJobs.delete(id);
+  }
+
+  // Lease methods
+  async getLease(name: string): Promise<Lease | undefined> {
+    return this.leases.get(name);
+  }
+
+  async acquireLease(name: string, holderId: string, ttlMs: number): Promise<Lease | null> {
+    const now = new Date();
+    const existing = this.leases.get(name);
+    if (existing && existing.holderId !== holderId && existing.expiresAt > now) {
+      return null;
+    }
+
+    const lease: Lease = {
+      name,
+      holderId,
+      acquiredAt: existing?.holderId === holderId ? existing.acquiredAt : now,
+      renewedAt: now,
+      expiresAt: new Date(now.getTime() + ttlMs),
+    };
+    this.leases.set(name, lease);
+    return lease;
+  }
+
+  async releaseLease(name: string, holderId: string): Promise<boolean> {
+    if (this.leases.get(name)?.holderId !== holderId) return false;
+    return this.leases.delete(name);
+  }
+
+  // AI enhancement cache methods
+  async getAIEnhancement(advisoryLink: string): Promise<AIEnhancement | undefined> {
+    return this.aiEnhancements.get(advisoryLink);
+  }
+
+  async saveAIEnhancement(enhancement: AIEnhancement): Promise<AIEnhancement> {
+    this.aiEnhancements.set(enhancement.advisoryLink, enhancement);
+    return enhancement;
+  }
+
+  // AI usage methods
+  async recordAIUsage(usage: InsertAIUsage): Promise<AIUsage> {
+    const record: AIUsage = {
+      ...usage,
+      id: randomUUID(),
+      countryName: usage.countryName ?? null,
+      jobId: usage.jobId ?? null,
+      promptTokens: usage.promptTokens ?? 0,
+      completionTokens: usage.completionTokens ?? 0,
+      estimatedCostUsd: usage.estimatedCostUsd ?? 0,
+      createdAt: usage.createdAt ?? new Date(),
+    };
+    this.aiUsage.push(record);
+    return record;
+  }
+
+  async getAIUsage(from: Date, to: Date): Promise<AIUsage[]> {
+    return this.aiUsage
+      .filter(usage => usage.createdAt >= from && usage.createdAt < to)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  // Refresh queue methods
+  async recordCountryAccess(countryName: string): Promise<RefreshQueueEntry> {
+    const now = new Date();
+    const existing = this.refreshQueue.get(countryName);
+    const entry: RefreshQueueEntry = existing
+      ? { ...existing, accessCount: existing.accessCount + 1, lastAccessed: now }
+      : {
+          countryName,
+          accessCount: 1,
+          firstAccessed: now,
+          lastAccessed: now,
+          lastRefreshed: null,
+          sourceRefreshes: null,
+          lastBackgroundRefresh: null,
+        };
+    this.refreshQueue.set(countryName, entry);
+    return entry;
+  }
+
+  async getRefreshQueue(accessedSince?: Date): Promise<RefreshQueueEntry[]> {
+    return Array.from(this.refreshQueue.values()).filter(
+      entry => !accessedSince || entry.lastAccessed >= accessedSince
+    );
+  }
+
+  async markCountryRefreshed(countryName: string, kind: 'alerts' | 'background', at: Date = new Date()): Promise<void> {
+    const entry = this.refreshQueue.get(countryName);
+    if (!entry) return;
+    this.refreshQueue.set(countryName, kind === 'alerts'
+      ? { ...entry, lastRefreshed: at }
+      : { ...entry, lastBackgroundRefresh: at });
+  }
+
+  async markSourcesRefreshed(countryName: string, sourceIds: string[], at: Date = new Date()): Promise<void> {
+    const entry = this.refreshQueue.get(countryName);
+    if (!entry) return;
+    const refreshed = Object.fromEntries(sourceIds.map(sourceId => [sourceId, at.toISOString()]));
+    this.refreshQueue.set(countryName, {
+      ...entry,
+      lastRefreshed: at,
+      sourceRefreshes: { ...entry.sourceRefreshes, ...refreshed },
+    });
+  }
+
+  // Watchlist methods
+  async getAllWatchlists(): Promise<Watchlist[]> {
+    return Array.from(this.watchlists.values()).sort(
+      (a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0)
+    );
+  }
+
+  async getWatchlist(id: string): Promise<Watchlist | undefined> {
+    return this.watchlists.get(id);
+  }
+
+  async createWatchlist(insertWatchlist: InsertWatchlist): Promise<Watchlist> {
+    const now = new Date();
+    const watchlist: Watchlist = {
+      id: randomUUID(),
+      name: insertWatchlist.name,
+      countries: insertWatchlist.countries,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.watchlists.set(watchlist.id, watchlist);
+    return watchlist;
+  }
+
+  async updateWatchlist(id: string, updates: Partial<InsertWatchlist>): Promise<Watchlist | undefined> {
+    const watchlist = this.watchlists.get(id);
+    if (!watchlist) return undefined;
+
+    const updated = { ...watchlist, ...updates, updatedAt: new Date() };
+    this.watchlists.set(id, updated);
+    return updated;
+  }
+
+  async deleteWatchlist(id: string): Promise<boolean> {
+    return this.watchlists.delete(id);
+  }
+
+  // Trip methods
+  async getAllTrips(): Promise<Trip[]> {
+    return Array.from(this.trips.values()).sort(
+      (a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0)
+    );
+  }
+
+  async getTrip(id: string): Promise<Trip | undefined> {
+    return this.trips.get(id);
+  }
+
+  async createTrip(insertTrip: InsertTrip): Promise<Trip> {
+    const now = new Date();
+    const trip: Trip = {
+      id: randomUUID(),
+      name: insertTrip.name,
+      notes: insertTrip.notes || null,
+      legs: insertTrip.legs,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.trips.set(trip.id, trip);
+    return trip;
+  }
+
+  async updateTrip(id: string, updates: Partial<InsertTrip>): Promise<Trip | undefined> {
+    const trip = this.trips.get(id);
+    if (!trip) return undefined;
+
+    const updated = { ...trip, ...updates, updatedAt: new Date() };
+    this.trips.set(id, updated);
+    return updated;
+  }
+
+  async deleteTrip(id: string): Promise<boolean> {
+    return this.trips.delete(id);
+  }
+
+  // Advisory section methods
+  async getAdvisorySectionsByCountryId(countryId: string): Promise<AdvisorySection[]> {
+    return this.advisorySections
+      .filter(section => section.countryId === countryId)
+      .sort((a, b) => a.source.localeCompare(b.source) || a.position - b.position);
+  }
+
+  async replaceAdvisorySections(countryId: string, source: string, sections: InsertAdvisorySection[]): Promise<AdvisorySection[]> {
+    const now = new Date();
+    const created: AdvisorySection[] = sections.map(section => ({ ...section, id: randomUUID(), fetchedAt: now }));
+    this.advisorySections = this.advisorySections
+      .filter(section => section.countryId !== countryId || section.source !== source)
+      .concat(created);
+    return created;
+  }
+
+  // Entry requirement methods
+  async getEntryRequirements(countryId: string, nationality?: string): Promise<EntryRequirement[]> {
+    return this.entryRequirements.filter(requirement =>
+      requirement.countryId === countryId && (!nationality || requirement.nationality === nationality)
+    );
+  }
+
+  async replaceEntryRequirements(countryId: string, nationality: string, source: string, requirements: InsertEntryRequirement[]): Promise<EntryRequirement[]> {
+    const created: EntryRequirement[] = requirements.map(requirement => ({ ...requirement, id: randomUUID() }));
+    this.entryRequirements = this.entryRequirements
+      .filter(requirement =>
+        requirement.countryId !== countryId || requirement.nationality !== nationality || requirement.source !== source
+      )
+      .concat(created);
+    return created;
+  }
+
+  // Region advisory methods
+  async getRegionAdvisories(countryId?: string): Promise<RegionAdvisory[]> {
+    return this.regionAdvisories.filter(advisory => !countryId || advisory.countryId === countryId);
+  }
+
+  async replaceRegionAdvisories(countryId: string, source: string, advisories: InsertRegionAdvisory[]): Promise<RegionAdvisory[]> {
+    const now = new Date();
+    const created: RegionAdvisory[] = advisories.map(advisory => ({ ...advisory, id: randomUUID(), updatedAt: now }));
+    this.regionAdvisories = this.regionAdvisories
+      .filter(advisory => advisory.countryId !== countryId || advisory.source !== source)
+      .concat(created);
+    return created;
+  }
 }
 
 export class DBStorage implements IStorage {
@@ -435,6 +859,36 @@ export class DBStorage implements IStorage {
     await this.db.delete(alerts).where(eq(alerts.countryId, countryId));
   }
 
+  async deleteAlertsByCountryIdAndSource(countryId: string, source: string): Promise<void> {
+    await this.db.delete(alerts).where(and(eq(alerts.countryId, countryId), eq(alerts.source, source)));
+  }
+
+  async getLatestAlertRevision(countryId: string, source: string, advisoryKey: string): Promise<AlertRevision | undefined> {
+    const result = await this.db.select().from(alertRevisions)
+      .where(and(
+        eq(alertRevisions.countryId, countryId),
+        eq(alertRevisions.source, source),
+        eq(alertRevisions.advisoryKey, advisoryKey)
+      ))
+      .orderBy(desc(alertRevisions.recordedAt))
+      .limit(1);
+    return result[0];
+  }
+
+  async createAlertRevision(insertRevision: InsertAlertRevision): Promise<AlertRevision> {
+    const result = await this.db.insert(alertRevisions).values([insertRevision as any]).returning();
+    return result[0];
+  }
+
+  async getAlertRevisionsByCountryId(countryId: string, source?: string): Promise<AlertRevision[]> {
+    const condition = source
+      ? and(eq(alertRevisions.countryId, countryId), eq(alertRevisions.source, source))
+      : eq(alertRevisions.countryId, countryId);
+    return await this.db.select().from(alertRevisions)
+      .where(condition)
+      .orderBy(asc(alertRevisions.recordedAt));
+  }
+
   async getBackgroundInfoByCountryId(countryId: string): Promise<BackgroundInfo | undefined> {
     const result = await this.db.select().from(backgroundInfo).where(eq(backgroundInfo.countryId, countryId)).limit(1);
     return result[0];
@@ -452,10 +906,11 @@ export class DBStorage implements IStorage {
     const country = await this.getCountryByName(countryName);
     if (!country) return undefined;
 
-    const [countryAlerts, background, embassies] = await Promise.all([
+    const [countryAlerts, background, embassies, sections] = await Promise.all([
       this.getAlertsByCountryId(country.id),
       this.getBackgroundInfoByCountryId(country.id),
       this.getEmbassiesByCountryCode(country.code),
+      this.getAdvisorySectionsByCountryId(country.id),
     ]);
 
     return {
@@ -463,6 +918,7 @@ export class DBStorage implements IStorage {
       alerts: countryAlerts,
       background: background || null,
       embassies,
+      sections,
     };
   }
 
@@ -474,10 +930,11 @@ export class DBStorage implements IStorage {
 
     const results: CountryData[] = [];
     for (const country of countriesResults) {
-      const [countryAlerts, background, embassies] = await Promise.all([
+      const [countryAlerts, background, embassies, sections] = await Promise.all([
         this.getAlertsByCountryId(country.id),
         this.getBackgroundInfoByCountryId(country.id),
         this.getEmbassiesByCountryCode(country.code),
+        this.getAdvisorySectionsByCountryId(country.id),
       ]);
 
       results.push({
@@ -485,6 +942,7 @@ export class DBStorage implements IStorage {
         alerts: countryAlerts,
         background: background || null,
         embassies,
+        sections,
       });
     }
 
@@ -496,10 +954,11 @@ export class DBStorage implements IStorage {
     const results: CountryData[] = [];
 
     for (const country of allCountries) {
-      const [countryAlerts, background, embassies] = await Promise.all([
+      const [countryAlerts, background, embassies, sections] = await Promise.all([
         this.getAlertsByCountryId(country.id),
         this.getBackgroundInfoByCountryId(country.id),
         this.getEmbassiesByCountryCode(country.code),
+        this.getAdvisorySectionsByCountryId(country.id),
       ]);
 
       results.push({
@@ -507,6 +966,7 @@ export class DBStorage implements IStorage {
         alerts: countryAlerts,
         background: background || null,
         embassies,
+        sections,
       });
     }
 
@@ -532,13 +992,17 @@ export class DBStorage implements IStorage {
   }
 
   async getAllBulkJobs(limit?: number): Promise<BulkJob[]> {
-    const query = this.db.select().from(bulkJobs).orderBy(bulkJobs.startedAt);
+    const query = this.db.select().from(bulkJobs).orderBy(bulkJobs.queuedAt);
     if (limit) {
       return await query.limit(limit);
     }
     return await query;
   }
 
+  async getBulkJobsByStatus(statuses: string[]): Promise<BulkJob[]> {
+    return await this.db.select().from(bulkJobs).where(inArray(bulkJobs.status, statuses));
+  }
+
   async getLastRunDate(): Promise<Date | null> {
     const result = await this.db.select().from(bulkJobs)
       .where(eq(bulkJobs.status, 'completed'))
@@ -574,7 +1038,7 @@ export class DBStorage implements IStorage {
     return result[0];
   }
 
-  async updateJobWithTransaction(jobId: string, countryName: string, countryStatus: 'completed' | 'failed', error?: string): Promise<void> {
+  async updateJobWithTransaction(jobId: string, countryName: string, countryStatus: 'completed' | 'failed', error?: string, retryCount: number = 0): Promise<void> {
     // Execute in a transaction for atomicity
     await this.db.transaction(async (tx) => {
       // Get current job
@@ -597,6 +1061,7 @@ export class DBStorage implements IStorage {
             status: countryStatus,
             completedAt: new Date(),
             error: error || null,
+            retryCount,
           })
           .where(eq(jobCountryProgress.id, existing[0].id));
       } else {
@@ -607,7 +1072,7 @@ export class DBStorage implements IStorage {
           startedAt: new Date(),
           completedAt: new Date(),
           error: error || null,
-          retryCount: 0,
+          retryCount,
         });
       }
 
@@ -646,10 +1111,255 @@ export class DBStorage implements IStorage {
     await this.db.delete(embassiesConsulates);
   }
 
+  async deleteEmbassiesByCountryCode(countryCode: string): Promise<void> {
+    await this.db.delete(embassiesConsulates).where(eq(embassiesConsulates.countryCode, countryCode.toUpperCase()));
+  }
+
   async bulkCreateEmbassies(embassies: InsertEmbassyConsulate[]): Promise<void> {
     if (embassies.length === 0) return;
     await this.db.insert(embassiesConsulates).values(embassies as any[]);
   }
+
+  // Scheduled job methods
+  async getAllScheduledJobs(): Promise<ScheduledJob[]> {
+    return await this.db.select().from(scheduledJobs).orderBy(asc(scheduledJobs.createdAt));
+  }
+
+  async getScheduledJob(id: string): Promise<ScheduledJob | undefined> {
+    const result = await this.db.select().from(scheduledJobs).where(eq(scheduledJobs.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createScheduledJob(insertJob: InsertScheduledJob & { nextRunAt?: Date | null }): Promise<ScheduledJob> {
+    const result = await this.db.insert(scheduledJobs).values([insertJob as any]).returning();
+    return result[0];
+  }
+
+  async updateScheduledJob(id: string, updates: Partial<ScheduledJob>): Promise<ScheduledJob | undefined> {
+    const { id: _id, ...rest } = updates;
+    const result = await this.db.update(scheduledJobs)
+      .set({ ...rest, updatedAt: new Date() })
+      .where(eq(scheduledJobs.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteScheduledJob(id: string): Promise<boolean> {
+    const result = await this.db.delete(scheduledJobs).where(eq(scheduledJobs.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Lease methods
+  async getLease(name: string): Promise<Lease | undefined> {
+    const result = await this.db.select().from(leases).where(eq(leases.name, name));
+    return result[0];
+  }
+
+  async acquireLease(name: string, holderId: string, ttlMs: number): Promise<Lease | null> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlMs);
+    // Single statement so two instances can't both take an expired lease
+    const result = await this.db.insert(leases).values({
+      name,
+      holderId,
+      acquiredAt: now,
+      renewedAt: now,
+      expiresAt,
+    }).onConflictDoUpdate({
+      target: leases.name,
+      set: {
+        holderId,
+        acquiredAt: sql`CASE WHEN ${leases.holderId} = ${holderId} THEN ${leases.acquiredAt} ELSE excluded.acquired_at END`,
+        renewedAt: now,
+        expiresAt,
+      },
+      setWhere: or(eq(leases.holderId, holderId), lt(leases.expiresAt, now)),
+    }).returning();
+    return result[0] ?? null;
+  }
+
+  async releaseLease(name: string, holderId: string): Promise<boolean> {
+    const result = await this.db.delete(leases)
+      .where(and(eq(leases.name, name), eq(leases.holderId, holderId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  // AI enhancement cache methods
+  async getAIEnhancement(advisoryLink: string): Promise<AIEnhancement | undefined> {
+    const result = await this.db.select().from(aiEnhancements).where(eq(aiEnhancements.advisoryLink, advisoryLink));
+    return result[0];
+  }
+
+  async saveAIEnhancement(enhancement: AIEnhancement): Promise<AIEnhancement> {
+    const { advisoryLink, ...analysis } = enhancement;
+    const result = await this.db.insert(aiEnhancements).values(enhancement).onConflictDoUpdate({
+      target: aiEnhancements.advisoryLink,
+      set: analysis,
+    }).returning();
+    return result[0];
+  }
+
+  // AI usage methods
+  async recordAIUsage(usage: InsertAIUsage): Promise<AIUsage> {
+    const result = await this.db.insert(aiUsage).values(usage).returning();
+    return result[0];
+  }
+
+  async getAIUsage(from: Date, to: Date): Promise<AIUsage[]> {
+    return await this.db.select().from(aiUsage)
+      .where(and(gte(aiUsage.createdAt, from), lt(aiUsage.createdAt, to)))
+      .orderBy(asc(aiUsage.createdAt));
+  }
+
+  // Refresh queue methods
+  async recordCountryAccess(countryName: string): Promise<RefreshQueueEntry> {
+    const now = new Date();
+    const result = await this.db.insert(refreshQueue).values({
+      countryName,
+      accessCount: 1,
+      firstAccessed: now,
+      lastAccessed: now,
+    }).onConflictDoUpdate({
+      target: refreshQueue.countryName,
+      set: {
+        accessCount: sql`${refreshQueue.accessCount} + 1`,
+        lastAccessed: now,
+      },
+    }).returning();
+    return result[0];
+  }
+
+  async getRefreshQueue(accessedSince?: Date): Promise<RefreshQueueEntry[]> {
+    if (accessedSince) {
+      return await this.db.select().from(refreshQueue).where(gte(refreshQueue.lastAccessed, accessedSince));
+    }
+    return await this.db.select().from(refreshQueue);
+  }
+
+  async markCountryRefreshed(countryName: string, kind: 'alerts' | 'background', at: Date = new Date()): Promise<void> {
+    await this.db.update(refreshQueue)
+      .set(kind === 'alerts' ? { lastRefreshed: at } : { lastBackgroundRefresh: at })
+      .where(eq(refreshQueue.countryName, countryName));
+  }
+
+  async markSourcesRefreshed(countryName: string, sourceIds: string[], at: Date = new Date()): Promise<void> {
+    // Only the scheduler lease holder writes refresh times, so read-then-write is safe
+    const [entry] = await this.db.select().from(refreshQueue).where(eq(refreshQueue.countryName, countryName)).limit(1);
+    if (!entry) return;
+    const refreshed = Object.fromEntries(sourceIds.map(sourceId => [sourceId, at.toISOString()]));
+    await this.db.update(refreshQueue)
+      .set({ lastRefreshed: at, sourceRefreshes: { ...entry.sourceRefreshes, ...refreshed } })
+      .where(eq(refreshQueue.countryName, countryName));
+  }
+
+  // Watchlist methods
+  async getAllWatchlists(): Promise<Watchlist[]> {
+    return await this.db.select().from(watchlists).orderBy(asc(watchlists.createdAt));
+  }
+
+  async getWatchlist(id: string): Promise<Watchlist | undefined> {
+    const result = await this.db.select().from(watchlists).where(eq(watchlists.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createWatchlist(insertWatchlist: InsertWatchlist): Promise<Watchlist> {
+    const result = await this.db.insert(watchlists).values([insertWatchlist as any]).returning();
+    return result[0];
+  }
+
+  async updateWatchlist(id: string, updates: Partial<InsertWatchlist>): Promise<Watchlist | undefined> {
+    const result = await this.db.update(watchlists)
+      .set({ ...updates, updatedAt: new Date() } as any)
+      .where(eq(watchlists.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteWatchlist(id: string): Promise<boolean> {
+    const result = await this.db.delete(watchlists).where(eq(watchlists.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Trip methods
+  async getAllTrips(): Promise<Trip[]> {
+    return await this.db.select().from(trips).orderBy(desc(trips.createdAt));
+  }
+
+  async getTrip(id: string): Promise<Trip | undefined> {
+    const result = await this.db.select().from(trips).where(eq(trips.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createTrip(insertTrip: InsertTrip): Promise<Trip> {
+    const result = await this.db.insert(trips).values([insertTrip as any]).returning();
+    return result[0];
+  }
+
+  async updateTrip(id: string, updates: Partial<InsertTrip>): Promise<Trip | undefined> {
+    const result = await this.db.update(trips)
+      .set({ ...updates, updatedAt: new Date() } as any)
+      .where(eq(trips.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteTrip(id: string): Promise<boolean> {
+    const result = await this.db.delete(trips).where(eq(trips.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Advisory section methods
+  async getAdvisorySectionsByCountryId(countryId: string): Promise<AdvisorySection[]> {
+    return await this.db.select().from(advisorySections)
+      .where(eq(advisorySections.countryId, countryId))
+      .orderBy(asc(advisorySections.source), asc(advisorySections.position));
+  }
+
+  async replaceAdvisorySections(countryId: string, source: string, sections: InsertAdvisorySection[]): Promise<AdvisorySection[]> {
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(advisorySections)
+        .where(and(eq(advisorySections.countryId, countryId), eq(advisorySections.source, source)));
+      if (sections.length === 0) return [];
+      return await tx.insert(advisorySections).values(sections).returning();
+    });
+  }
+
+  // Entry requirement methods
+  async getEntryRequirements(countryId: string, nationality?: string): Promise<EntryRequirement[]> {
+    const conditions = [eq(entryRequirements.countryId, countryId)];
+    if (nationality) conditions.push(eq(entryRequirements.nationality, nationality));
+    return await this.db.select().from(entryRequirements).where(and(...conditions));
+  }
+
+  async replaceEntryRequirements(countryId: string, nationality: string, source: string, requirements: InsertEntryRequirement[]): Promise<EntryRequirement[]> {
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(entryRequirements).where(and(
+        eq(entryRequirements.countryId, countryId),
+        eq(entryRequirements.nationality, nationality),
+        eq(entryRequirements.source, source)
+      ));
+      if (requirements.length === 0) return [];
+      return await tx.insert(entryRequirements).values(requirements).returning();
+    });
+  }
+
+  // Region advisory methods
+  async getRegionAdvisories(countryId?: string): Promise<RegionAdvisory[]> {
+    const query = this.db.select().from(regionAdvisories);
+    return countryId
+      ? await query.where(eq(regionAdvisories.countryId, countryId))
+      : await query;
+  }
+
+  async replaceRegionAdvisories(countryId: string, source: string, advisories: InsertRegionAdvisory[]): Promise<RegionAdvisory[]> {
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(regionAdvisories)
+        .where(and(eq(regionAdvisories.countryId, countryId), eq(regionAdvisories.source, source)));
+      if (advisories.length === 0) return [];
+      return await tx.insert(regionAdvisories).values(advisories).returning();
+    });
+  }
 }
 
 // Initialize storage with database status check
@@ -0,0 +1,180 @@
+/**
+ * Advisory Section Tests
+ * Runs offline against a recorded FCDO Content API fixture: HTML sanitizing, section
+ * categories and order, per-section update timestamps and storing sections with country data
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  AdvisorySectionService,
+  buildAdvisorySections,
+  classifyAdvisorySection,
+  sanitizeAdvisoryHtml,
+  type AdvisoryPart,
+} from '../services/advisorySections';
+import { MemStorage } from '../storage';
+import type { AdvisorySection } from '@shared/schema';
+
+interface TestResult {
+  test: string;
+  passed: boolean;
+  details?: string;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+const FIXTURES_DIR = path.join(process.cwd(), 'server', 'tests', 'fixtures');
+const ADVICE_LINK = 'https://www.gov.uk/foreign-travel-advice/pakistan';
+
+function logTest(test: string, passed: boolean, details?: string, error?: string) {
+  results.push({ test, passed, details, error });
+  const status = passed ? "✓ PASS" : "✗ FAIL";
+  console.log(`${status}: ${test}`);
+  if (details) console.log(`  Details: ${details}`);
+  if (error) console.error(`  Error: ${error}`);
+}
+
+const advice = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, 'fcdo-travel-advice.json'), 'utf-8'));
+const parts: AdvisoryPart[] = advice.details.parts;
+const publishedAt = new Date(advice.public_updated_at);
+
+function testSanitizing() {
+  try {
+    const entry = sanitizeAdvisoryHtml(parts[1].body!, `${ADVICE_LINK}/entry-requirements`);
+    logTest(
+      "Scripts and event handlers are removed and relative links made absolute",
+      !entry.includes('<script') && !entry.includes('onclick') &&
+        entry.includes('href="https://www.gov.uk/apply-visa"') && entry.includes('rel="noopener noreferrer"') &&
+        entry.includes('<h2>Visa requirements</h2>'),
+      entry
+    );
+
+    const safety = sanitizeAdvisoryHtml(parts[2].body!, `${ADVICE_LINK}/safety-and-security`);
+    logTest(
+      "Layout wrappers are unwrapped and styles, comments and javascript: links dropped",
+      safety === '<p>Protests can happen at short notice.</p><p><a>Stay informed</a></p>',
+      safety
+    );
+
+    const laws = sanitizeAdvisoryHtml(parts[4].body!, `${ADVICE_LINK}/local-laws-and-customs`);
+    const help = sanitizeAdvisoryHtml(parts[7].body!, `${ADVICE_LINK}/getting-help`);
+    logTest(
+      "Embedded frames are removed and in-page anchors point at the section's page",
+      laws === '<p>Blasphemy is a serious offence.</p>' &&
+        help.includes(`href="${ADVICE_LINK}/getting-help#consular"`),
+      `${laws} | ${help}`
+    );
+  } catch (error) {
+    logTest("Sanitizing", false, undefined, String(error));
+  }
+}
+
+function testBuildingSections() {
+  try {
+    const sections = buildAdvisorySections('pakistan', 'UK FCDO', ADVICE_LINK, parts, publishedAt);
+    const categories = sections.map(s => s.category).join(',');
+    logTest(
+      "Every non-empty part becomes a section in published order with its category",
+      sections.length === 8 &&
+        categories === 'warnings,entry-requirements,safety-and-security,terrorism,local-laws,health,natural-disasters,getting-help' &&
+        sections.every((s, i) => s.position === i),
+      categories
+    );
+
+    logTest(
+      "Sections link to their own page and carry the advice's publication time",
+      sections[3].link === `${ADVICE_LINK}/terrorism` && sections[3].title === 'Terrorism' &&
+        sections.every(s => s.updatedAt.getTime() === publishedAt.getTime())
+    );
+
+    logTest(
+      "Unknown parts fall into 'other'; summaries and help pages are recognized by title",
+      classifyAdvisorySection('travel-advice-help-and-support', 'Travel advice help and support') === 'getting-help' &&
+        classifyAdvisorySection('summary', 'Summary') === 'summary' &&
+        classifyAdvisorySection('money', 'Money') === 'other'
+    );
+  } catch (error) {
+    logTest("Building sections", false, undefined, String(error));
+  }
+}
+
+async function testStoringSections() {
+  try {
+    const store = new MemStorage();
+    const service = new AdvisorySectionService(store);
+
+    await service.saveSections('pakistan', 'UK FCDO', ADVICE_LINK, parts, publishedAt);
+
+    // A later publication that only changes the health section
+    const republishedAt = new Date('2026-10-15T09:00:00Z');
+    const updatedParts = parts.map(part => part.slug === 'health'
+      ? { ...part, body: '<p>Polio vaccination is required when leaving Pakistan.</p>' }
+      : part);
+    const saved = await service.saveSections('pakistan', 'UK FCDO', ADVICE_LINK, updatedParts, republishedAt);
+
+    const bySlug = new Map((saved || []).map(s => [s.slug, s] as [string, AdvisorySection]));
+    logTest(
+      "Only sections whose content changed get the new publication time",
+      saved?.length === 8 &&
+        bySlug.get('health')?.updatedAt.getTime() === republishedAt.getTime() &&
+        bySlug.get('terrorism')?.updatedAt.getTime() === publishedAt.getTime(),
+      `health ${bySlug.get('health')?.updatedAt.toISOString()}, terrorism ${bySlug.get('terrorism')?.updatedAt.toISOString()}`
+    );
+
+    await store.createCountry({ id: 'pakistan', name: 'pakistan', code: 'PK', flagUrl: null });
+    const countryData = await store.getCountryData('pakistan');
+    logTest(
+      "Country data includes the sections, replaced rather than duplicated",
+      countryData?.sections.length === 8 && countryData.sections[0].slug === 'warnings-and-insurance',
+      `${countryData?.sections.length} sections`
+    );
+  } catch (error) {
+    logTest("Storing sections", false, undefined, String(error));
+  }
+}
+
+async function runAllTests() {
+  console.log("\n========================================");
+  console.log("ADVISORY SECTION TEST SUITE");
+  console.log("========================================\n");
+
+  testSanitizing();
+  testBuildingSections();
+  await testStoringSections();
+
+  // Print summary
+  console.log("\n========================================");
+  console.log("TEST SUMMARY");
+  console.log("========================================");
+
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  const total = results.length;
+  const passRate = ((passed / total) * 100).toFixed(1);
+
+  console.log(`Total Tests: ${total}`);
+  console.log(`Passed: ${passed} (${passRate}%)`);
+  console.log(`Failed: ${failed}`);
+  console.log("========================================\n");
+
+  if (failed > 0) {
+    console.log("Failed Tests:");
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`  - ${r.test}`);
+      if (r.error) console.log(`    Error: ${r.error}`);
+    });
+    console.log();
+  }
+
+  return failed === 0;
+}
+
+// Execute tests
+runAllTests().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error("Test suite failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,283 @@
+/**
+ * AI Enhancement Tests
+ * Runs offline with the mock LLM provider and a recorded advisory page: page extraction,
+ * the base-summary fallback, response validation and repair, grounding, the content-hash cache
+ * and provider selection
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { AI_PROMPT_VERSION, enhanceStateDeptSummary, hashPageContent, reanalyzeEnhancements, setEnhancementCache, setLLMProvider, setPageFetcher, trackEnhancementCache } from '../aiService';
+import { MockLLMProvider, createLLMProviderFromEnv } from '../services/llmProvider';
+import { groundItems } from '../services/advisoryAnalysis';
+import { MemStorage } from '../storage';
+
+interface TestResult {
+  test: string;
+  passed: boolean;
+  details?: string;
+  error?: string;
+}
+
+const FIXTURES_DIR = path.join(process.cwd(), 'server', 'tests', 'fixtures');
+const ADVISORY_LINK = 'https://travel.state.gov/content/travel/en/traveladvisories/traveladvisories/colombia-travel-advisory.html';
+const BASE_SUMMARY = 'Reconsider travel due to crime and terrorism. Exercise increased caution due to civil unrest.';
+const results: TestResult[] = [];
+
+function logTest(test: string, passed: boolean, details?: string, error?: string) {
+  results.push({ test, passed, details, error });
+  const status = passed ? "✓ PASS" : "✗ FAIL";
+  console.log(`${status}: ${test}`);
+  if (details) console.log(`  Details: ${details}`);
+  if (error) console.error(`  Error: ${error}`);
+}
+
+const advisoryPage = fs.readFileSync(path.join(FIXTURES_DIR, 'state-dept-advisory.html'), 'utf-8');
+const servePage = async () => new Response(advisoryPage, { status: 200 });
+const pageNotFound = async () => new Response('Not found', { status: 404 });
+
+async function testFullAdvisory() {
+  try {
+    const provider = MockLLMProvider.fromFile(path.join(FIXTURES_DIR, 'llm-fixtures.json'));
+    setLLMProvider(provider);
+    setPageFetcher(servePage);
+
+    const enhanced = await enhanceStateDeptSummary(BASE_SUMMARY, ADVISORY_LINK, 'colombia');
+    logTest(
+      "Advisory page is analyzed end-to-end",
+      enhanced.aiApplied && enhanced.threatLevel === 3 && enhanced.keyRisks.length === 4 && enhanced.specificAreas.includes('Cauca'),
+      `threat level ${enhanced.threatLevel}, ${enhanced.keyRisks.length} risks`
+    );
+
+    const prompt = provider.requests[0]?.messages.find(m => m.role === 'user')?.content || '';
+    logTest(
+      "Only the advisory text is sent to the model",
+      provider.requests.length === 1 && prompt.includes('Norte de Santander') && !prompt.includes('analytics') && !prompt.includes('Congressional Liaison'),
+      `${prompt.length} prompt characters`
+    );
+  } catch (error) {
+    logTest("Full advisory", false, undefined, String(error));
+  }
+}
+
+async function testFallbacks() {
+  try {
+    const provider = MockLLMProvider.fromFile(path.join(FIXTURES_DIR, 'llm-fixtures.json'));
+    setLLMProvider(provider);
+    setPageFetcher(pageNotFound);
+
+    const fromSummary = await enhanceStateDeptSummary(BASE_SUMMARY, ADVISORY_LINK, 'colombia');
+    logTest(
+      "Base summary is analyzed when the page is unavailable",
+      fromSummary.aiApplied && fromSummary.keyRisks.join(',') === 'Crime,Terrorism' && fromSummary.threatLevel === undefined &&
+        fromSummary.confidence.keyRisks.every(c => c.confidence === 'unverified'),
+      fromSummary.summary
+    );
+
+    const malformedProvider = new MockLLMProvider([{ response: 'not json' }]);
+    setLLMProvider(malformedProvider);
+    setPageFetcher(servePage);
+    const malformed = await enhanceStateDeptSummary(BASE_SUMMARY, ADVISORY_LINK, 'colombia');
+    logTest(
+      "Malformed model output keeps the original summary after repair attempts",
+      !malformed.aiApplied && malformed.summary === BASE_SUMMARY && malformed.keyRisks.length === 0 && malformedProvider.requests.length === 3,
+      `model calls=${malformedProvider.requests.length}`
+    );
+  } catch (error) {
+    logTest("Fallbacks", false, undefined, String(error));
+  }
+}
+
+async function testRepair() {
+  try {
+    const validResponse = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, 'llm-fixtures.json'), 'utf-8'))[0].response;
+    const provider = new MockLLMProvider([
+      { match: 'did not match the requested format', response: validResponse },
+      { response: { threatLevel: 'three', summary: 'Be careful', keyRisks: 'crime' } },
+    ]);
+    setLLMProvider(provider);
+    setPageFetcher(servePage);
+
+    const repaired = await enhanceStateDeptSummary(BASE_SUMMARY, ADVISORY_LINK, 'colombia');
+    const repairPrompt = provider.requests[1]?.messages.at(-1)?.content || '';
+    logTest(
+      "An invalid response is repaired by sending the problems back to the model",
+      repaired.aiApplied && repaired.threatLevel === 3 && provider.requests.length === 2 &&
+        repairPrompt.includes('threatLevel') && repairPrompt.includes('summary') && repairPrompt.includes('keyRisks') &&
+        provider.requests[1].messages.some(m => m.role === 'assistant' && m.content.includes('Be careful')),
+      repairPrompt.split('\n').slice(1, 4).join(' ')
+    );
+  } catch (error) {
+    logTest("Repair", false, undefined, String(error));
+  }
+}
+
+async function testGrounding() {
+  try {
+    const provider = new MockLLMProvider([{
+      response: {
+        threatLevel: 3,
+        summary: 'Travelers should reconsider travel to Colombia because of crime and terrorism.',
+        keyRisks: ['Kidnapping and extortion', 'Landmines in rural border areas', 'Volcanic eruptions near Nevado del Ruiz'],
+        safetyRecommendations: ['Enroll in the Smart Traveler Enrollment Program'],
+        specificAreas: ['Cauca', 'Popayan', 'Medellín'],
+      },
+    }]);
+    setLLMProvider(provider);
+    setPageFetcher(servePage);
+
+    const enhanced = await enhanceStateDeptSummary(BASE_SUMMARY, ADVISORY_LINK, 'colombia');
+    const level = (item: string) => [...enhanced.confidence.keyRisks, ...enhanced.confidence.specificAreas].find(c => c.item === item)?.confidence;
+    logTest(
+      "Items with no support in the advisory are dropped",
+      enhanced.keyRisks.join(',') === 'Kidnapping and extortion,Landmines in rural border areas' &&
+        enhanced.specificAreas.join(',') === 'Cauca,Popayan',
+      `risks: ${enhanced.keyRisks.join('; ')}; areas: ${enhanced.specificAreas.join('; ')}`
+    );
+    logTest(
+      "Kept items carry a confidence flag",
+      level('Kidnapping and extortion') === 'grounded' && level('Landmines in rural border areas') === 'unverified' &&
+        level('Cauca') === 'grounded' && level('Popayan') === 'grounded',
+      JSON.stringify(enhanced.confidence)
+    );
+
+    const grounded = groundItems(['Terrorist attacks with little warning', 'Bogotá nightlife'], 'Terrorist groups may attack with little or no warning. Use caution in Bogota.');
+    logTest(
+      "Matching tolerates word endings and accents",
+      grounded.confidence[0]?.confidence === 'grounded' && grounded.confidence[1]?.confidence === 'unverified',
+      JSON.stringify(grounded.confidence)
+    );
+  } catch (error) {
+    logTest("Grounding", false, undefined, String(error));
+  }
+}
+
+async function testCache() {
+  try {
+    const cache = new MemStorage();
+    const provider = MockLLMProvider.fromFile(path.join(FIXTURES_DIR, 'llm-fixtures.json'));
+    setEnhancementCache(cache);
+    setLLMProvider(provider);
+    setPageFetcher(servePage);
+
+    const stats = { hits: 0, misses: 0 };
+    const first = await trackEnhancementCache(stats, () => enhanceStateDeptSummary(BASE_SUMMARY, ADVISORY_LINK, 'colombia'));
+    const second = await trackEnhancementCache(stats, () => enhanceStateDeptSummary(BASE_SUMMARY, ADVISORY_LINK, 'colombia'));
+    const stored = await cache.getAIEnhancement(ADVISORY_LINK);
+    logTest(
+      "An unchanged page reuses the stored analysis",
+      provider.requests.length === 1 && stats.hits === 1 && stats.misses === 1 &&
+        second.aiApplied && second.threatLevel === first.threatLevel && second.keyRisks.join() === first.keyRisks.join(),
+      `model calls=${provider.requests.length}, hits=${stats.hits}, misses=${stats.misses}`
+    );
+    logTest(
+      "The analysis is stored with the page hash and prompt version",
+      stored?.promptVersion === AI_PROMPT_VERSION && stored.contentHash.length === 64 && stored.model === 'mock'
+    );
+
+    setPageFetcher(async () => new Response(advisoryPage.replace('Level 3: Reconsider Travel', 'Level 4: Do Not Travel'), { status: 200 }));
+    await trackEnhancementCache(stats, () => enhanceStateDeptSummary(BASE_SUMMARY, ADVISORY_LINK, 'colombia'));
+    logTest("A changed page is analyzed again", provider.requests.length === 2 && stats.misses === 2);
+
+    // An analysis made with older prompts is redone even though the page is the same
+    await cache.saveAIEnhancement({ ...(await cache.getAIEnhancement(ADVISORY_LINK))!, promptVersion: 'old' });
+    await trackEnhancementCache(stats, () => enhanceStateDeptSummary(BASE_SUMMARY, ADVISORY_LINK, 'colombia'));
+    logTest(
+      "A new prompt version invalidates stored analyses",
+      provider.requests.length === 3 && (await cache.getAIEnhancement(ADVISORY_LINK))?.promptVersion === AI_PROMPT_VERSION
+    );
+
+    // Re-enhancement jobs analyze the page again even though the stored analysis is current
+    const before = { ...stats };
+    const analyzedAt = (await cache.getAIEnhancement(ADVISORY_LINK))!.analyzedAt;
+    const forced = await trackEnhancementCache(stats, () =>
+      reanalyzeEnhancements(() => enhanceStateDeptSummary(BASE_SUMMARY, ADVISORY_LINK, 'colombia'))
+    );
+    logTest(
+      "A forced re-analysis bypasses the cache, calls the model and stores the new analysis",
+      forced.aiApplied && provider.requests.length === 4 && stats.misses === before.misses + 1 && stats.hits === before.hits &&
+        (await cache.getAIEnhancement(ADVISORY_LINK))!.analyzedAt.getTime() >= analyzedAt.getTime(),
+      `model calls=${provider.requests.length}, hits=${stats.hits}, misses=${stats.misses}`
+    );
+    logTest("Page hashes are stable", hashPageContent('same text') === hashPageContent('same text'));
+  } catch (error) {
+    logTest("Cache", false, undefined, String(error));
+  }
+}
+
+function testProviderSelection() {
+  try {
+    const openai = createLLMProviderFromEnv({});
+    const compatible = createLLMProviderFromEnv({ LLM_PROVIDER: 'openai-compatible', LLM_BASE_URL: 'http://localhost:11434/v1', LLM_MODEL: 'llama3.1' });
+    const mock = createLLMProviderFromEnv({ LLM_PROVIDER: 'mock', LLM_FIXTURES: path.join(FIXTURES_DIR, 'llm-fixtures.json') });
+    logTest(
+      "Provider and model are chosen by configuration",
+      openai.id === 'openai' && openai.model === 'gpt-4o-mini' && !openai.isAvailable() &&
+        compatible.id === 'openai-compatible' && compatible.model === 'llama3.1' && compatible.isAvailable() &&
+        mock.id === 'mock' && mock.isAvailable(),
+      `${openai.id}/${openai.model}, ${compatible.id}/${compatible.model}, ${mock.id}/${mock.model}`
+    );
+
+    let rejected = false;
+    try {
+      createLLMProviderFromEnv({ LLM_PROVIDER: 'openai-compatible', LLM_MODEL: 'llama3.1' });
+    } catch {
+      rejected = true;
+    }
+    logTest("An OpenAI-compatible provider needs a base URL", rejected);
+  } catch (error) {
+    logTest("Provider selection", false, undefined, String(error));
+  }
+}
+
+async function runAllTests() {
+  console.log("\n========================================");
+  console.log("AI ENHANCEMENT TEST SUITE");
+  console.log("========================================\n");
+
+  // Each test starts from an empty cache so the model is actually called
+  setEnhancementCache(new MemStorage());
+  await testFullAdvisory();
+  setEnhancementCache(new MemStorage());
+  await testFallbacks();
+  setEnhancementCache(new MemStorage());
+  await testRepair();
+  setEnhancementCache(new MemStorage());
+  await testGrounding();
+  await testCache();
+  testProviderSelection();
+
+  // Print summary
+  console.log("\n========================================");
+  console.log("TEST SUMMARY");
+  console.log("========================================");
+
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  const total = results.length;
+  const passRate = ((passed / total) * 100).toFixed(1);
+
+  console.log(`Total Tests: ${total}`);
+  console.log(`Passed: ${passed} (${passRate}%)`);
+  console.log(`Failed: ${failed}`);
+  console.log("========================================\n");
+
+  if (failed > 0) {
+    console.log("Failed Tests:");
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`  - ${r.test}`);
+      if (r.error) console.log(`    Error: ${r.error}`);
+    });
+    console.log();
+  }
+
+  return failed === 0;
+}
+
+// Execute tests
+runAllTests().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error("Test suite failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,262 @@
+/**
+ * AI Usage Tests
+ * Tests per-call usage records, cost estimates, monthly summaries and the budget cap,
+ * using the mock LLM provider and in-memory storage
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { enhanceStateDeptSummary, isAIEnhancementAvailable, setEnhancementCache, setLLMProvider, setPageFetcher } from '../aiService';
+import { MockLLMProvider, type LLMFixture } from '../services/llmProvider';
+import { aiUsageTracker, createAIUsageTrackerFromEnv, estimateCost, getMonthKey, getMonthRange, summarizeAIUsage } from '../services/aiUsage';
+import { DataFetcher } from '../services/dataFetcher';
+import { MemStorage, storage, waitForStorage } from '../storage';
+
+interface TestResult {
+  test: string;
+  passed: boolean;
+  details?: string;
+  error?: string;
+}
+
+const FIXTURES_DIR = path.join(process.cwd(), 'server', 'tests', 'fixtures');
+const ADVISORY_LINK = 'https://travel.state.gov/content/travel/en/traveladvisories/traveladvisories/colombia-travel-advisory.html';
+const BASE_SUMMARY = 'Reconsider travel due to crime and terrorism. Exercise increased caution due to civil unrest.';
+const results: TestResult[] = [];
+
+function logTest(test: string, passed: boolean, details?: string, error?: string) {
+  results.push({ test, passed, details, error });
+  const status = passed ? "✓ PASS" : "✗ FAIL";
+  console.log(`${status}: ${test}`);
+  if (details) console.log(`  Details: ${details}`);
+  if (error) console.error(`  Error: ${error}`);
+}
+
+const advisoryPage = fs.readFileSync(path.join(FIXTURES_DIR, 'state-dept-advisory.html'), 'utf-8');
+const fixtures: LLMFixture[] = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, 'llm-fixtures.json'), 'utf-8'));
+
+function useFreshStorage(): MemStorage {
+  const store = new MemStorage();
+  setEnhancementCache(store);
+  aiUsageTracker.setStore(store);
+  return store;
+}
+
+function thisMonth(store: MemStorage) {
+  const { from, to } = getMonthRange(getMonthKey());
+  return store.getAIUsage(from, to);
+}
+
+// A separate page per country, so analyses aren't served from the cache
+const advisoryLink = (country: string) => ADVISORY_LINK.replace('colombia', country);
+
+// Serves advisory levels without calling the State Dept API
+class OfflineDataFetcher extends DataFetcher {
+  protected async fetchStateDeptThreatLevels(): Promise<Map<string, number>> {
+    return new Map([['colombia', 3]]);
+  }
+}
+
+function testCostEstimates() {
+  try {
+    const dated = estimateCost('gpt-4o-mini-2024-07-18', 1_000_000, 1_000_000);
+    const local = estimateCost('llama3.1', 1_000_000, 1_000_000);
+    logTest(
+      "Cost is estimated from model prices, including dated model names",
+      Math.abs(dated - 0.75) < 1e-9 && local === 0,
+      `gpt-4o-mini-2024-07-18: $${dated}, llama3.1: $${local}`
+    );
+
+    const priced = createAIUsageTrackerFromEnv({ LLM_MODEL: 'llama3.1', LLM_INPUT_COST_PER_MILLION: '1', LLM_OUTPUT_COST_PER_MILLION: '2', AI_MONTHLY_BUDGET_USD: '5' });
+    const budget = priced.getBudgetStatus();
+    logTest(
+      "Budget and prices for the configured model come from the environment",
+      budget.limitUsd === 5 && budget.remainingUsd === 5 && !budget.exhausted &&
+        createAIUsageTrackerFromEnv({}).getBudgetStatus().limitUsd === null
+    );
+  } catch (error) {
+    logTest("Cost estimates", false, undefined, String(error));
+  }
+}
+
+async function testRecording() {
+  try {
+    const store = useFreshStorage();
+    setLLMProvider(new MockLLMProvider(fixtures, 'gpt-4o-mini'));
+    setPageFetcher(async () => new Response(advisoryPage, { status: 200 }));
+
+    await aiUsageTracker.runForJob('job-1', () => enhanceStateDeptSummary(BASE_SUMMARY, ADVISORY_LINK, 'colombia'));
+    const [usage] = await thisMonth(store);
+    logTest(
+      "Each model call is recorded with tokens, cost, country, job and latency",
+      usage?.model === 'gpt-4o-mini' && usage.provider === 'mock' && usage.operation === 'full-advisory' &&
+        usage.countryName === 'colombia' && usage.jobId === 'job-1' && usage.succeeded &&
+        usage.promptTokens > 0 && usage.completionTokens > 0 && usage.estimatedCostUsd > 0 && usage.latencyMs >= 0,
+      usage ? `${usage.promptTokens} prompt + ${usage.completionTokens} completion tokens, $${usage.estimatedCostUsd.toFixed(6)}` : 'nothing recorded'
+    );
+
+    // A repaired response costs two calls; a call that throws is recorded as failed
+    setLLMProvider(new MockLLMProvider([
+      { match: 'did not match the requested format', response: fixtures[0].response },
+      { response: 'not json' },
+    ], 'gpt-4o-mini'));
+    await enhanceStateDeptSummary(BASE_SUMMARY, advisoryLink('peru'), 'peru');
+    setLLMProvider(new MockLLMProvider([], 'gpt-4o-mini'));
+    await enhanceStateDeptSummary(BASE_SUMMARY, advisoryLink('chile'), 'chile');
+
+    const rows = await thisMonth(store);
+    const peru = rows.filter(u => u.countryName === 'peru');
+    const chile = rows.filter(u => u.countryName === 'chile');
+    logTest(
+      "Repair attempts and failed calls are recorded too",
+      peru.length === 2 && peru.every(u => u.succeeded && u.jobId === null) &&
+        chile.length === 1 && !chile[0].succeeded && chile[0].estimatedCostUsd === 0,
+      `peru: ${peru.length} calls, chile: ${chile.map(u => u.succeeded ? 'ok' : 'failed').join(',')}`
+    );
+
+    const summary = summarizeAIUsage('this month', rows);
+    logTest(
+      "Usage is summarized per model, job and country",
+      summary.totals.calls === 4 && summary.totals.failedCalls === 1 &&
+        summary.byModel.length === 1 && summary.byModel[0].calls === 4 &&
+        summary.byJob.find(j => j.jobId === 'job-1')?.calls === 1 && summary.byJob.find(j => j.jobId === null)?.calls === 3 &&
+        summary.byCountry[0].countryName === 'peru',
+      `$${summary.totals.estimatedCostUsd.toFixed(6)} over ${summary.totals.calls} calls`
+    );
+  } catch (error) {
+    logTest("Recording", false, undefined, String(error));
+  }
+}
+
+async function testBudget() {
+  try {
+    const store = useFreshStorage();
+    setLLMProvider(new MockLLMProvider(fixtures, 'gpt-4o-mini'));
+    setPageFetcher(async () => new Response(advisoryPage, { status: 200 }));
+    aiUsageTracker.setMonthlyBudget(0.0001);
+    await aiUsageTracker.refresh();
+
+    const availableBefore = isAIEnhancementAvailable();
+    await enhanceStateDeptSummary(BASE_SUMMARY, ADVISORY_LINK, 'colombia');
+    const status = aiUsageTracker.getBudgetStatus();
+    logTest(
+      "AI enhancement turns off once the monthly budget is spent",
+      availableBefore && !isAIEnhancementAvailable() && status.exhausted && status.remainingUsd === 0,
+      `spent $${status.spentUsd.toFixed(6)} of $${status.limitUsd}`
+    );
+
+    const nextMonth = new Date();
+    nextMonth.setUTCMonth(nextMonth.getUTCMonth() + 1, 1);
+    logTest("The budget starts over each month", !aiUsageTracker.isBudgetExhausted(nextMonth));
+
+    // Spend recorded elsewhere (another instance) is picked up on refresh
+    aiUsageTracker.setMonthlyBudget(1);
+    await aiUsageTracker.refresh();
+    const beforeOtherInstance = aiUsageTracker.isBudgetExhausted();
+    await store.recordAIUsage({
+      provider: 'openai', model: 'gpt-4o', operation: 'full-advisory', countryName: 'peru',
+      estimatedCostUsd: 2, latencyMs: 900, succeeded: true,
+    });
+    await aiUsageTracker.refresh();
+    logTest(
+      "Refreshing picks up spend from other instances",
+      !beforeOtherInstance && aiUsageTracker.isBudgetExhausted()
+    );
+  } catch (error) {
+    logTest("Budget", false, undefined, String(error));
+  } finally {
+    aiUsageTracker.setMonthlyBudget(null);
+  }
+}
+
+async function testBudgetKeepsStoredAnalysis() {
+  try {
+    await waitForStorage();
+    useFreshStorage();
+    setLLMProvider(new MockLLMProvider(fixtures, 'gpt-4o-mini'));
+    setPageFetcher(async () => new Response(advisoryPage, { status: 200 }));
+    const country = await storage.getCountryByName('colombia') ?? await storage.createCountry({
+      id: 'colombia', name: 'colombia', code: 'CO', flagUrl: 'https://flagcdn.com/w40/co.png',
+    });
+    await storage.deleteAlertsByCountryId(country.id);
+
+    const fetcher = new OfflineDataFetcher();
+    const [analyzed] = await fetcher.fetchStateDeptAdvisories('colombia');
+    await storage.createAlert(analyzed);
+
+    // The page has changed since it was analyzed, and there is no budget left to analyze it again
+    const provider = new MockLLMProvider(fixtures, 'gpt-4o-mini');
+    setLLMProvider(provider);
+    setPageFetcher(async () => new Response(advisoryPage.replace('Level 3: Reconsider Travel', 'Level 4: Do Not Travel'), { status: 200 }));
+    aiUsageTracker.setMonthlyBudget(0);
+    const [refreshed] = await fetcher.fetchStateDeptAdvisories('colombia');
+    logTest(
+      "Once the budget is spent, a refresh keeps the stored analysis instead of clearing it",
+      !!analyzed.keyRisks?.length && provider.requests.length === 0 &&
+        refreshed.keyRisks?.join() === analyzed.keyRisks.join() && refreshed.summary === analyzed.summary &&
+        refreshed.title === analyzed.title && refreshed.aiEnhanced?.getTime() === analyzed.aiEnhanced?.getTime() &&
+        JSON.stringify(refreshed.aiConfidence) === JSON.stringify(analyzed.aiConfidence),
+      refreshed.title
+    );
+
+    // With nothing stored, an analysis of the same page text still comes from the cache
+    await storage.deleteAlertsByCountryId(country.id);
+    setPageFetcher(async () => new Response(advisoryPage, { status: 200 }));
+    const [cached] = await fetcher.fetchStateDeptAdvisories('colombia');
+    logTest(
+      "Once the budget is spent, a cached analysis of an unchanged page is still used",
+      provider.requests.length === 0 && !!cached.aiEnhanced && cached.keyRisks?.join() === analyzed.keyRisks?.join(),
+      `${cached.keyRisks?.length ?? 0} risks`
+    );
+    await storage.deleteAlertsByCountryId(country.id);
+  } catch (error) {
+    logTest("Budget and stored analyses", false, undefined, String(error));
+  } finally {
+    aiUsageTracker.setMonthlyBudget(null);
+  }
+}
+
+async function runAllTests() {
+  console.log("\n========================================");
+  console.log("AI USAGE TEST SUITE");
+  console.log("========================================\n");
+
+  testCostEstimates();
+  await testRecording();
+  await testBudget();
+  await testBudgetKeepsStoredAnalysis();
+
+  // Print summary
+  console.log("\n========================================");
+  console.log("TEST SUMMARY");
+  console.log("========================================");
+
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  const total = results.length;
+  const passRate = ((passed / total) * 100).toFixed(1);
+
+  console.log(`Total Tests: ${total}`);
+  console.log(`Passed: ${passed} (${passRate}%)`);
+  console.log(`Failed: ${failed}`);
+  console.log("========================================\n");
+
+  if (failed > 0) {
+    console.log("Failed Tests:");
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`  - ${r.test}`);
+      if (r.error) console.log(`    Error: ${r.error}`);
+    });
+    console.log();
+  }
+
+  return failed === 0;
+}
+
+// Execute tests
+runAllTests().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error("Test suite failed:", error);
+  process.exit(1);
+});
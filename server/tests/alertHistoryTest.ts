@@ -0,0 +1,173 @@
+/**
+ * Advisory History Tests
+ * Runs offline against in-memory storage: revision hashing, recording only changed advisories
+ * and the timeline's changed fields and previous levels
+ */
+
+import { buildAdvisoryTimeline, computeRevisionHash, recordAlertRevisions } from '../services/alertHistory';
+import { storage, waitForStorage } from '../storage';
+import type { InsertAlert } from '@shared/schema';
+
+interface TestResult {
+  test: string;
+  passed: boolean;
+  details?: string;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(test: string, passed: boolean, details?: string, error?: string) {
+  results.push({ test, passed, details, error });
+  const status = passed ? "✓ PASS" : "✗ FAIL";
+  console.log(`${status}: ${test}`);
+  if (details) console.log(`  Details: ${details}`);
+  if (error) console.error(`  Error: ${error}`);
+}
+
+function makeAlert(overrides: Partial<InsertAlert> = {}): InsertAlert {
+  return {
+    countryId: 'kenya',
+    source: 'US State Dept',
+    title: 'Travel Advisory - Level 2',
+    level: 'Level 2',
+    severity: 'medium',
+    summary: 'Exercise increased caution in Kenya due to crime and terrorism.',
+    link: 'https://travel.state.gov/kenya',
+    date: new Date('2026-10-01T00:00:00Z'),
+    keyRisks: ['Crime', 'Terrorism'],
+    safetyRecommendations: null,
+    specificAreas: null,
+    ...overrides,
+  };
+}
+
+function testHashing() {
+  try {
+    const base = computeRevisionHash(makeAlert());
+    logTest(
+      "Identical content hashes the same, ignoring title, date and missing vs null fields",
+      base === computeRevisionHash(makeAlert({ title: 'Kenya', date: new Date() })) &&
+        computeRevisionHash({ severity: 'low', summary: 'x' }) ===
+          computeRevisionHash({ severity: 'low', summary: 'x', level: null, keyRisks: null })
+    );
+
+    const changed = [
+      makeAlert({ level: 'Level 3' }),
+      makeAlert({ severity: 'high' }),
+      makeAlert({ summary: 'Reconsider travel.' }),
+      makeAlert({ keyRisks: ['Crime'] }),
+      makeAlert({ safetyRecommendations: ['Avoid demonstrations'] }),
+      makeAlert({ specificAreas: ['Lamu County'] }),
+    ].map(computeRevisionHash);
+    logTest(
+      "Any tracked field, including AI-extracted lists, changes the hash",
+      changed.every(hash => hash !== base) && new Set(changed).size === changed.length
+    );
+  } catch (error) {
+    logTest("Hashing", false, undefined, String(error));
+  }
+}
+
+async function testRecording() {
+  try {
+    const first = await recordAlertRevisions([makeAlert()]);
+    const repeat = await recordAlertRevisions([makeAlert({ date: new Date('2026-10-02T00:00:00Z') })]);
+    logTest(
+      "An advisory is recorded once and not again while its content is unchanged",
+      first.length === 1 && first[0].previous === undefined && repeat.length === 0,
+      `${first.length} then ${repeat.length}`
+    );
+
+    const upgraded = await recordAlertRevisions([makeAlert({ level: 'Level 3', severity: 'high', title: 'Travel Advisory - Level 3' })]);
+    logTest(
+      "A level change records a new revision linked to the previous one",
+      upgraded.length === 1 && upgraded[0].previous?.id === first[0].revision.id &&
+        upgraded[0].revision.level === 'Level 3'
+    );
+
+    const enhanced = await recordAlertRevisions([
+      makeAlert({ level: 'Level 3', severity: 'high', keyRisks: ['Crime', 'Terrorism', 'Kidnapping'], specificAreas: ['Lamu County'] }),
+      makeAlert({ source: 'UK FCDO', link: 'https://www.gov.uk/foreign-travel-advice/kenya', level: 'Standard', severity: 'info' }),
+    ]);
+    logTest(
+      "AI field changes record a revision, and each source's advisory is tracked separately",
+      enhanced.length === 2 && enhanced[0].previous?.id === upgraded[0].revision.id && enhanced[1].previous === undefined,
+      `${enhanced.length} recorded`
+    );
+  } catch (error) {
+    logTest("Recording", false, undefined, String(error));
+  }
+}
+
+async function testTimeline() {
+  try {
+    const timeline = buildAdvisoryTimeline(await storage.getAlertRevisionsByCountryId('kenya'));
+    const us = timeline.filter(entry => entry.source === 'US State Dept');
+    const fcdo = timeline.filter(entry => entry.source === 'UK FCDO');
+
+    logTest(
+      "The timeline lists revisions in order with the previous level",
+      us.length === 3 && us[0].isInitial && us[0].previousLevel === null &&
+        us[1].level === 'Level 3' && us[1].previousLevel === 'Level 2' && us[1].previousSeverity === 'medium' &&
+        us[2].previousLevel === 'Level 3',
+      us.map(entry => `${entry.previousLevel ?? '-'} -> ${entry.level}`).join(', ')
+    );
+
+    logTest(
+      "Each entry names the fields that changed from the previous revision",
+      us[0].changedFields.length === 0 &&
+        us[1].changedFields.join(',') === 'level,severity' &&
+        us[2].changedFields.join(',') === 'keyRisks,specificAreas' &&
+        fcdo.length === 1 && fcdo[0].isInitial,
+      us.map(entry => `[${entry.changedFields.join(',')}]`).join(' ')
+    );
+  } catch (error) {
+    logTest("Timeline", false, undefined, String(error));
+  }
+}
+
+async function runAllTests() {
+  console.log("\n========================================");
+  console.log("ADVISORY HISTORY TEST SUITE");
+  console.log("========================================\n");
+
+  await waitForStorage();
+  testHashing();
+  await testRecording();
+  await testTimeline();
+
+  // Print summary
+  console.log("\n========================================");
+  console.log("TEST SUMMARY");
+  console.log("========================================");
+
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  const total = results.length;
+  const passRate = ((passed / total) * 100).toFixed(1);
+
+  console.log(`Total Tests: ${total}`);
+  console.log(`Passed: ${passed} (${passRate}%)`);
+  console.log(`Failed: ${failed}`);
+  console.log("========================================\n");
+
+  if (failed > 0) {
+    console.log("Failed Tests:");
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`  - ${r.test}`);
+      if (r.error) console.log(`    Error: ${r.error}`);
+    });
+    console.log();
+  }
+
+  return failed === 0;
+}
+
+// Execute tests
+runAllTests().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error("Test suite failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,216 @@
+/**
+ * CDC Travel Health Notices Tests
+ * Runs offline against a recorded RSS fixture: level parsing, disease extraction
+ * and fan-out of multi-country notices, plus sharing of the feed download between lookups
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  parseNoticesFeed,
+  matchNoticeCountries,
+  groupNoticesByCountry,
+  noticesToAlerts,
+  CDCNoticesFetcher,
+} from '../services/cdcNoticesFetcher';
+
+interface TestResult {
+  test: string;
+  passed: boolean;
+  details?: string;
+  error?: string;
+}
+
+const FIXTURES_DIR = path.join(process.cwd(), 'server', 'tests', 'fixtures');
+const KNOWN_COUNTRIES = ['colombia', 'peru', 'brazil', 'mexico', 'guinea', 'papua new guinea', 'japan'];
+const results: TestResult[] = [];
+
+function logTest(test: string, passed: boolean, details?: string, error?: string) {
+  results.push({ test, passed, details, error });
+  const status = passed ? "✓ PASS" : "✗ FAIL";
+  console.log(`${status}: ${test}`);
+  if (details) console.log(`  Details: ${details}`);
+  if (error) console.error(`  Error: ${error}`);
+}
+
+const feedXml = fs.readFileSync(path.join(FIXTURES_DIR, 'cdc-notices.xml'), 'utf-8');
+const notices = parseNoticesFeed(feedXml);
+
+function testFeedParsing() {
+  try {
+    const yellowFever = notices.find(n => n.disease === 'Yellow Fever');
+
+    logTest(
+      "Items without a notice level are skipped",
+      notices.length === 3,
+      `Parsed ${notices.length} notices`
+    );
+
+    logTest(
+      "Level, CDC wording, disease and publish date parsed",
+      !!yellowFever &&
+        yellowFever.level === 2 &&
+        yellowFever.levelName === 'Practice Enhanced Precautions' &&
+        yellowFever.title === 'Yellow Fever in Colombia and Peru' &&
+        yellowFever.publishedAt.toISOString() === '2025-10-07T14:00:00.000Z',
+      yellowFever ? `${yellowFever.disease}, level ${yellowFever.level}` : 'Notice not found'
+    );
+
+    logTest(
+      "HTML stripped from description",
+      !!yellowFever && !yellowFever.description.includes('<p>'),
+      yellowFever?.description
+    );
+  } catch (error) {
+    logTest("Feed parsing", false, undefined, String(error));
+  }
+}
+
+function testCountryMatching() {
+  try {
+    const yellowFever = notices.find(n => n.disease === 'Yellow Fever')!;
+    const dengue = notices.find(n => n.disease === 'Dengue')!;
+    const diphtheria = notices.find(n => n.disease === 'Diphtheria')!;
+
+    const yellowFeverCountries = matchNoticeCountries(yellowFever, KNOWN_COUNTRIES);
+    const dengueCountries = matchNoticeCountries(dengue, KNOWN_COUNTRIES);
+    const diphtheriaCountries = matchNoticeCountries(diphtheria, KNOWN_COUNTRIES);
+
+    logTest(
+      "Countries named in the title",
+      yellowFeverCountries.length === 2 && yellowFeverCountries.includes('colombia') && yellowFeverCountries.includes('peru'),
+      yellowFeverCountries.join(', ')
+    );
+
+    logTest(
+      "Regional notice falls back to countries named in the description",
+      dengueCountries.length === 3 && ['brazil', 'colombia', 'mexico'].every(c => dengueCountries.includes(c)),
+      dengueCountries.join(', ')
+    );
+
+    logTest(
+      "Longer country names win over contained names",
+      diphtheriaCountries.length === 1 && diphtheriaCountries[0] === 'papua new guinea',
+      diphtheriaCountries.join(', ')
+    );
+  } catch (error) {
+    logTest("Country matching", false, undefined, String(error));
+  }
+}
+
+function testFanOut() {
+  try {
+    const byCountry = groupNoticesByCountry(notices, KNOWN_COUNTRIES);
+    const colombiaAlerts = noticesToAlerts(byCountry.get('colombia') || [], 'colombia');
+    const peruAlerts = noticesToAlerts(byCountry.get('peru') || [], 'peru');
+
+    logTest(
+      "Multi-country notice fans out to each country",
+      colombiaAlerts.length === 2 && peruAlerts.length === 1,
+      `Colombia: ${colombiaAlerts.length}, Peru: ${peruAlerts.length}`
+    );
+
+    const [first] = colombiaAlerts;
+    logTest(
+      "Alerts carry CDC level wording, sorted highest level first",
+      first.source === 'CDC' &&
+        first.level === 'Level 2 - Practice Enhanced Precautions' &&
+        first.severity === 'medium' &&
+        first.summary.includes('Affected destinations: Colombia, Peru'),
+      `${first.level}: ${first.summary}`
+    );
+
+    logTest(
+      "Country without notices gets no alerts",
+      !byCountry.has('japan') && noticesToAlerts(byCountry.get('japan') || [], 'japan').length === 0
+    );
+  } catch (error) {
+    logTest("Fan-out", false, undefined, String(error));
+  }
+}
+
+class CountingFetcher extends CDCNoticesFetcher {
+  feedDownloads = 0;
+  failNextFeed = false;
+
+  protected async downloadFeed(): Promise<string> {
+    this.feedDownloads++;
+    await new Promise(resolve => setTimeout(resolve, 20));
+    if (this.failNextFeed) {
+      this.failNextFeed = false;
+      throw new Error('CDC notices feed returned 503');
+    }
+    return feedXml;
+  }
+}
+
+async function testSharedDownload() {
+  try {
+    const fetcher = new CountingFetcher();
+    const countries = ['colombia', 'peru', 'brazil', 'japan'];
+    const alerts = await Promise.all(countries.map(name => fetcher.fetchCountryNoticeAlerts(name, name, KNOWN_COUNTRIES)));
+    logTest(
+      "Concurrent country lookups share one feed download",
+      fetcher.feedDownloads === 1 && alerts[0].length === 2 && alerts[3].length === 0,
+      `feed downloads ${fetcher.feedDownloads}`
+    );
+
+    const failing = new CountingFetcher();
+    failing.failNextFeed = true;
+    const failed = await Promise.allSettled(countries.map(name => failing.fetchCountryNoticeAlerts(name, name, KNOWN_COUNTRIES)));
+    const retried = await failing.fetchCountryNoticeAlerts('colombia', 'colombia', KNOWN_COUNTRIES);
+    logTest(
+      "A failed feed download fails the lookups sharing it and is tried again on the next lookup",
+      failed.every(result => result.status === 'rejected') && failing.feedDownloads === 2 && retried.length === 2,
+      `feed downloads ${failing.feedDownloads}`
+    );
+  } catch (error) {
+    logTest("Shared feed download", false, undefined, String(error));
+  }
+}
+
+// Run all tests
+async function runAllTests() {
+  console.log("\n========================================");
+  console.log("CDC TRAVEL HEALTH NOTICES TEST SUITE");
+  console.log("========================================\n");
+
+  testFeedParsing();
+  testCountryMatching();
+  testFanOut();
+  await testSharedDownload();
+
+  // Print summary
+  console.log("\n========================================");
+  console.log("TEST SUMMARY");
+  console.log("========================================");
+
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  const total = results.length;
+  const passRate = ((passed / total) * 100).toFixed(1);
+
+  console.log(`Total Tests: ${total}`);
+  console.log(`Passed: ${passed} (${passRate}%)`);
+  console.log(`Failed: ${failed}`);
+  console.log("========================================\n");
+
+  if (failed > 0) {
+    console.log("Failed Tests:");
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`  - ${r.test}`);
+      if (r.error) console.log(`    Error: ${r.error}`);
+    });
+    console.log();
+  }
+
+  return failed === 0;
+}
+
+// Execute tests
+runAllTests().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error("Test suite failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,146 @@
+/**
+ * Country Registry Tests
+ * Checks the shared ISO 3166 registry: code lookups, alias resolution,
+ * provider slugs and the two Congos staying distinct
+ */
+
+import { COUNTRIES, resolveCountry, getCountryByCode, getCountrySlug } from '@shared/countries';
+
+interface TestResult {
+  test: string;
+  passed: boolean;
+  details?: string;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(test: string, passed: boolean, details?: string, error?: string) {
+  results.push({ test, passed, details, error });
+  const status = passed ? "✓ PASS" : "✗ FAIL";
+  console.log(`${status}: ${test}`);
+  if (details) console.log(`  Details: ${details}`);
+  if (error) console.error(`  Error: ${error}`);
+}
+
+function testRegistryIntegrity() {
+  try {
+    const duplicates = (key: 'alpha2' | 'alpha3' | 'name') => {
+      const seen = new Set<string>();
+      return COUNTRIES.filter(c => seen.has(c[key]) || !seen.add(c[key])).map(c => c[key]);
+    };
+    const dupes = [...duplicates('alpha2'), ...duplicates('alpha3'), ...duplicates('name')];
+
+    logTest(
+      "Codes and canonical names are unique",
+      dupes.length === 0,
+      dupes.length === 0 ? `${COUNTRIES.length} countries` : `Duplicates: ${dupes.join(', ')}`
+    );
+  } catch (error) {
+    logTest("Registry integrity", false, undefined, String(error));
+  }
+}
+
+function testCodeLookups() {
+  try {
+    const byAlpha3 = getCountryByCode('jpn');
+    const byNumeric = getCountryByCode('840');
+
+    logTest(
+      "Lookup by alpha-3 and numeric code",
+      byAlpha3?.alpha2 === 'JP' && byNumeric?.name === 'united states',
+      `JPN -> ${byAlpha3?.name}, 840 -> ${byNumeric?.name}`
+    );
+  } catch (error) {
+    logTest("Code lookups", false, undefined, String(error));
+  }
+}
+
+function testCongoDisambiguation() {
+  try {
+    const drcAliases = ['drc', 'congo-kinshasa', 'democratic republic of congo', 'Democratic Republic of the Congo'];
+    const roc = ['congo', 'congo-brazzaville', 'republic of the congo'];
+    const drcCodes = drcAliases.map(a => resolveCountry(a)?.alpha2);
+    const rocCodes = roc.map(a => resolveCountry(a)?.alpha2);
+
+    logTest(
+      "DRC aliases resolve to CD",
+      drcCodes.every(c => c === 'CD'),
+      drcCodes.join(', ')
+    );
+
+    logTest(
+      "Republic of the Congo aliases resolve to CG",
+      rocCodes.every(c => c === 'CG'),
+      rocCodes.join(', ')
+    );
+  } catch (error) {
+    logTest("Congo disambiguation", false, undefined, String(error));
+  }
+}
+
+function testProviderSlugs() {
+  try {
+    const cases: Array<[string, 'stateDept' | 'fcdo' | 'cdc', string]> = [
+      ['south korea', 'stateDept', 'korea-south'],
+      ['united states', 'fcdo', 'usa'],
+      ['ivory coast', 'fcdo', 'cote-d-ivoire'],
+      ['new zealand', 'cdc', 'new-zealand'],
+    ];
+    const failures = cases.filter(([name, source, slug]) => getCountrySlug(name, source) !== slug);
+
+    logTest(
+      "Provider slugs with overrides and hyphenated defaults",
+      failures.length === 0,
+      failures.length === 0 ? `${cases.length} slugs checked` : `Mismatched: ${failures.map(([n, s]) => `${n}/${s}`).join(', ')}`
+    );
+  } catch (error) {
+    logTest("Provider slugs", false, undefined, String(error));
+  }
+}
+
+// Run all tests
+async function runAllTests() {
+  console.log("\n========================================");
+  console.log("COUNTRY REGISTRY TEST SUITE");
+  console.log("========================================\n");
+
+  testRegistryIntegrity();
+  testCodeLookups();
+  testCongoDisambiguation();
+  testProviderSlugs();
+
+  // Print summary
+  console.log("\n========================================");
+  console.log("TEST SUMMARY");
+  console.log("========================================");
+
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  const total = results.length;
+  const passRate = ((passed / total) * 100).toFixed(1);
+
+  console.log(`Total Tests: ${total}`);
+  console.log(`Passed: ${passed} (${passRate}%)`);
+  console.log(`Failed: ${failed}`);
+  console.log("========================================\n");
+
+  if (failed > 0) {
+    console.log("Failed Tests:");
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`  - ${r.test}`);
+      if (r.error) console.log(`    Error: ${r.error}`);
+    });
+    console.log();
+  }
+
+  return failed === 0;
+}
+
+// Execute tests
+runAllTests().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error("Test suite failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,162 @@
+/**
+ * Cron Schedule Tests
+ * Runs offline: cron validation, time zone handling and catch-up of missed runs
+ */
+
+import type { ScheduledJob } from '@shared/schema';
+import { validateSchedule, getNextRunAt, getRunsBetween, planDueRuns, MAX_CATCH_UP_RUNS } from '../services/cronSchedule';
+
+interface TestResult {
+  test: string;
+  passed: boolean;
+  details?: string;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(test: string, passed: boolean, details?: string, error?: string) {
+  results.push({ test, passed, details, error });
+  const status = passed ? "✓ PASS" : "✗ FAIL";
+  console.log(`${status}: ${test}`);
+  if (details) console.log(`  Details: ${details}`);
+  if (error) console.error(`  Error: ${error}`);
+}
+
+const GRACE_MS = 5 * 60 * 1000;
+const WEEKLY = '0 1 * * 0'; // Sundays at 1 AM
+
+type SchedulableJob = Pick<ScheduledJob, 'enabled' | 'nextRunAt' | 'cronExpression' | 'timezone' | 'catchUpPolicy'>;
+
+function makeJob(overrides: Partial<SchedulableJob>): SchedulableJob {
+  return {
+    enabled: true,
+    nextRunAt: new Date('2026-03-15T01:00:00Z'),
+    cronExpression: WEEKLY,
+    timezone: 'UTC',
+    catchUpPolicy: 'run-once',
+    ...overrides,
+  };
+}
+
+function testValidation() {
+  try {
+    logTest("A standard cron expression is valid", validateSchedule(WEEKLY, 'UTC') === null);
+
+    const badCron = validateSchedule('0 25 * * *', 'UTC');
+    logTest("An out-of-range cron field is rejected", badCron !== null, badCron ?? undefined);
+
+    const badZone = validateSchedule(WEEKLY, 'Mars/Olympus_Mons');
+    logTest("An unknown time zone is rejected", badZone !== null && badZone.includes('time zone'), badZone ?? undefined);
+  } catch (error) {
+    logTest("Schedule validation", false, undefined, String(error));
+  }
+}
+
+function testTimezones() {
+  try {
+    const after = new Date('2026-03-10T12:00:00Z');
+    const utc = getNextRunAt(WEEKLY, 'UTC', after);
+    logTest(
+      "Next run is computed in UTC",
+      utc.toISOString() === '2026-03-15T01:00:00.000Z',
+      utc.toISOString()
+    );
+
+    // Tokyo is UTC+9 with no daylight saving, so 1 AM Sunday is 4 PM Saturday UTC
+    const tokyo = getNextRunAt(WEEKLY, 'Asia/Tokyo', after);
+    logTest(
+      "Next run is computed in the job's own time zone",
+      tokyo.toISOString() === '2026-03-14T16:00:00.000Z',
+      tokyo.toISOString()
+    );
+
+    const runs = getRunsBetween(WEEKLY, 'UTC', new Date('2026-03-01T01:00:00Z'), new Date('2026-03-22T01:00:00Z'));
+    logTest(
+      "Occurrences between two times exclude the start and include the end",
+      runs.map(r => r.toISOString().slice(0, 10)).join(',') === '2026-03-08,2026-03-15,2026-03-22',
+      runs.map(r => r.toISOString()).join(', ')
+    );
+  } catch (error) {
+    logTest("Time zone handling", false, undefined, String(error));
+  }
+}
+
+function testCatchUp() {
+  try {
+    const onTime = planDueRuns(makeJob({}), new Date('2026-03-15T01:02:00Z'), GRACE_MS);
+    logTest("A run picked up within the grace window runs once, nothing missed", onTime.runs === 1 && onTime.missed === 0);
+
+    const notDue = planDueRuns(makeJob({}), new Date('2026-03-15T00:59:00Z'), GRACE_MS);
+    const disabled = planDueRuns(makeJob({ enabled: false }), new Date('2026-04-01T00:00:00Z'), GRACE_MS);
+    logTest("Jobs not yet due or disabled do not run", notDue.runs === 0 && disabled.runs === 0 && disabled.missed === 0);
+
+    // Server was down for three weekly occurrences: Mar 15, 22 and 29
+    const afterOutage = new Date('2026-03-30T09:00:00Z');
+    const skip = planDueRuns(makeJob({ catchUpPolicy: 'skip' }), afterOutage, GRACE_MS);
+    const once = planDueRuns(makeJob({ catchUpPolicy: 'run-once' }), afterOutage, GRACE_MS);
+    const all = planDueRuns(makeJob({ catchUpPolicy: 'run-all' }), afterOutage, GRACE_MS);
+    logTest(
+      "Catch-up policy decides how many missed runs execute",
+      skip.runs === 0 && once.runs === 1 && all.runs === 3 && skip.missed === 3,
+      `skip=${skip.runs}, run-once=${once.runs}, run-all=${all.runs}, missed=${skip.missed}`
+    );
+
+    const longOutage = planDueRuns(
+      makeJob({ catchUpPolicy: 'run-all', cronExpression: '0 * * * *' }),
+      new Date('2026-03-16T01:00:00Z'),
+      GRACE_MS
+    );
+    logTest(
+      "Run-all catch-up is capped",
+      longOutage.runs === MAX_CATCH_UP_RUNS && longOutage.missed === 25,
+      `runs=${longOutage.runs}, missed=${longOutage.missed}`
+    );
+  } catch (error) {
+    logTest("Catch-up planning", false, undefined, String(error));
+  }
+}
+
+async function runAllTests() {
+  console.log("\n========================================");
+  console.log("CRON SCHEDULE TEST SUITE");
+  console.log("========================================\n");
+
+  testValidation();
+  testTimezones();
+  testCatchUp();
+
+  // Print summary
+  console.log("\n========================================");
+  console.log("TEST SUMMARY");
+  console.log("========================================");
+
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  const total = results.length;
+  const passRate = ((passed / total) * 100).toFixed(1);
+
+  console.log(`Total Tests: ${total}`);
+  console.log(`Passed: ${passed} (${passRate}%)`);
+  console.log(`Failed: ${failed}`);
+  console.log("========================================\n");
+
+  if (failed > 0) {
+    console.log("Failed Tests:");
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`  - ${r.test}`);
+      if (r.error) console.log(`    Error: ${r.error}`);
+    });
+    console.log();
+  }
+
+  return failed === 0;
+}
+
+// Execute tests
+runAllTests().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error("Test suite failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,253 @@
+/**
+ * USGS Earthquake Feed Tests
+ * Runs offline against recorded GeoJSON fixtures: feed parsing, point-in-polygon
+ * country assignment, magnitude severity, alert mapping and shared downloads
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  parseEarthquakeFeed,
+  prepareBoundaries,
+  findCountryForPoint,
+  assignEarthquakesToCountries,
+  earthquakesToAlerts,
+  mapMagnitudeToSeverity,
+  EarthquakeDataFetcher,
+  type BoundaryCollection,
+  type USGSFeed,
+} from '../services/earthquakeFetcher';
+
+interface TestResult {
+  test: string;
+  passed: boolean;
+  details?: string;
+  error?: string;
+}
+
+const FIXTURES_DIR = path.join(process.cwd(), 'server', 'tests', 'fixtures');
+const results: TestResult[] = [];
+
+function logTest(test: string, passed: boolean, details?: string, error?: string) {
+  results.push({ test, passed, details, error });
+  const status = passed ? "✓ PASS" : "✗ FAIL";
+  console.log(`${status}: ${test}`);
+  if (details) console.log(`  Details: ${details}`);
+  if (error) console.error(`  Error: ${error}`);
+}
+
+function loadFixture(name: string) {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf-8'));
+}
+
+const feed = loadFixture('usgs-4.5_week.geojson');
+const boundaries = prepareBoundaries(loadFixture('country-boundaries.geojson'));
+
+function testFeedParsing() {
+  try {
+    const earthquakes = parseEarthquakeFeed(feed);
+    const skippedNullMagnitude = !earthquakes.some(q => q.id === 'us7000qa06');
+    const first = earthquakes.find(q => q.id === 'us7000qa01');
+
+    logTest(
+      "Feed parsing skips events without magnitude",
+      earthquakes.length === 7 && skippedNullMagnitude,
+      `Parsed ${earthquakes.length} of ${feed.features.length} features`
+    );
+
+    logTest(
+      "Feed parsing keeps time, depth and detail URL",
+      !!first &&
+        first.time.getTime() === 1760312345000 &&
+        first.depthKm === 41.5 &&
+        first.url === 'https://earthquake.usgs.gov/earthquakes/eventpage/us7000qa01',
+      first ? `time=${first.time.toISOString()}, depth=${first.depthKm}` : 'Event not found'
+    );
+  } catch (error) {
+    logTest("Feed parsing", false, undefined, String(error));
+  }
+}
+
+function testPointInPolygon() {
+  try {
+    const japanMainland = findCountryForPoint(141.2, 38.3, boundaries);
+    const hokkaido = findCountryForPoint(142.5, 43.0, boundaries);
+    const sanMarino = findCountryForPoint(12.45, 43.94, boundaries);
+    const italy = findCountryForPoint(13.4, 42.35, boundaries);
+    const ocean = findCountryForPoint(-29.1, 0.9, boundaries);
+
+    logTest("Point in polygon (Japan)", japanMainland === 'japan', `Got ${japanMainland}`);
+    logTest("Point in MultiPolygon second part (Hokkaido)", hokkaido === 'japan', `Got ${hokkaido}`);
+    logTest("Polygon hole excludes enclave (San Marino inside Italy)", sanMarino === 'san marino', `Got ${sanMarino}`);
+    logTest("Point in polygon (Italy)", italy === 'italy', `Got ${italy}`);
+    logTest("Open ocean point matches no country", ocean === null, `Got ${ocean}`);
+  } catch (error) {
+    logTest("Point in polygon", false, undefined, String(error));
+  }
+}
+
+function testCountryAssignment() {
+  try {
+    const byCountry = assignEarthquakesToCountries(parseEarthquakeFeed(feed), boundaries);
+    const japan = byCountry.get('japan') || [];
+
+    logTest(
+      "Offshore event assigned by place name",
+      japan.some(q => q.id === 'us7000qa02'),
+      `Japan events: ${japan.map(q => q.id).join(', ')}`
+    );
+
+    logTest(
+      "Unmatched region is dropped (Alaska not in fixture boundaries)",
+      !Array.from(byCountry.values()).flat().some(q => q.id === 'ak0257qa07'),
+      `Countries with events: ${Array.from(byCountry.keys()).join(', ')}`
+    );
+  } catch (error) {
+    logTest("Country assignment", false, undefined, String(error));
+  }
+}
+
+function testSeverityMapping() {
+  try {
+    const cases: Array<[number, string]> = [[7.2, 'high'], [6.5, 'high'], [5.9, 'medium'], [4.7, 'low'], [3.1, 'info']];
+    const failures = cases.filter(([mag, expected]) => mapMagnitudeToSeverity(mag) !== expected);
+
+    logTest(
+      "Magnitude-based severity",
+      failures.length === 0,
+      failures.length === 0 ? `${cases.length} thresholds checked` : `Mismatched: ${failures.map(([m]) => m).join(', ')}`
+    );
+  } catch (error) {
+    logTest("Magnitude-based severity", false, undefined, String(error));
+  }
+}
+
+function testAlertMapping() {
+  try {
+    const byCountry = assignEarthquakesToCountries(parseEarthquakeFeed(feed), boundaries);
+    const japanAlerts = earthquakesToAlerts(byCountry.get('japan') || [], 'japan');
+    const indonesiaAlerts = earthquakesToAlerts(byCountry.get('indonesia') || [], 'indonesia');
+    const [strongest] = japanAlerts;
+
+    logTest(
+      "Alerts sorted strongest first with event date and link",
+      japanAlerts.length === 2 &&
+        strongest.source === 'USGS' &&
+        strongest.level === 'Magnitude 6.8' &&
+        strongest.severity === 'high' &&
+        strongest.date.getTime() === 1760312345000 &&
+        strongest.link.endsWith('us7000qa01'),
+      `First alert: ${strongest?.title}`
+    );
+
+    logTest(
+      "Tsunami flag mentioned in summary",
+      indonesiaAlerts.length === 1 && indonesiaAlerts[0].summary.includes('tsunami'),
+      indonesiaAlerts[0]?.summary
+    );
+
+    logTest(
+      "Country without events gets no alerts",
+      earthquakesToAlerts(byCountry.get('united states') || [], 'united-states').length === 0
+    );
+  } catch (error) {
+    logTest("Alert mapping", false, undefined, String(error));
+  }
+}
+
+// Serves the fixtures instead of downloading, counting downloads; the first feed download can be made to fail
+class CountingFetcher extends EarthquakeDataFetcher {
+  boundaryDownloads = 0;
+  feedDownloads = 0;
+  failNextFeed = false;
+
+  protected async downloadBoundaries(): Promise<BoundaryCollection> {
+    this.boundaryDownloads++;
+    await new Promise(resolve => setTimeout(resolve, 20));
+    return loadFixture('country-boundaries.geojson');
+  }
+
+  protected async downloadFeed(): Promise<USGSFeed> {
+    this.feedDownloads++;
+    await new Promise(resolve => setTimeout(resolve, 20));
+    if (this.failNextFeed) {
+      this.failNextFeed = false;
+      throw new Error('USGS feed returned 503');
+    }
+    return feed;
+  }
+}
+
+async function testSharedDownloads() {
+  try {
+    const fetcher = new CountingFetcher();
+    const countries = ['japan', 'indonesia', 'chile', 'peru', 'united states'];
+    const alerts = await Promise.all(countries.map(name => fetcher.fetchCountryEarthquakeAlerts(name, name)));
+    logTest(
+      "Concurrent country lookups share one boundary and one feed download",
+      fetcher.boundaryDownloads === 1 && fetcher.feedDownloads === 1 && alerts[0].length === 2,
+      `boundaries ${fetcher.boundaryDownloads}, feed ${fetcher.feedDownloads}`
+    );
+
+    const failing = new CountingFetcher();
+    failing.failNextFeed = true;
+    const failed = await Promise.allSettled(countries.map(name => failing.fetchCountryEarthquakeAlerts(name, name)));
+    const retried = await failing.fetchCountryEarthquakeAlerts('japan', 'japan');
+    logTest(
+      "A failed feed download fails the lookups sharing it and is tried again on the next lookup",
+      failed.every(result => result.status === 'rejected') && failing.feedDownloads === 2 &&
+        failing.boundaryDownloads === 1 && retried.length === 2,
+      `feed downloads ${failing.feedDownloads}`
+    );
+  } catch (error) {
+    logTest("Shared downloads", false, undefined, String(error));
+  }
+}
+
+// Run all tests
+async function runAllTests() {
+  console.log("\n========================================");
+  console.log("USGS EARTHQUAKE FEED TEST SUITE");
+  console.log("========================================\n");
+
+  testFeedParsing();
+  testPointInPolygon();
+  testCountryAssignment();
+  testSeverityMapping();
+  testAlertMapping();
+  await testSharedDownloads();
+
+  // Print summary
+  console.log("\n========================================");
+  console.log("TEST SUMMARY");
+  console.log("========================================");
+
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  const total = results.length;
+  const passRate = ((passed / total) * 100).toFixed(1);
+
+  console.log(`Total Tests: ${total}`);
+  console.log(`Passed: ${passed} (${passRate}%)`);
+  console.log(`Failed: ${failed}`);
+  console.log("========================================\n");
+
+  if (failed > 0) {
+    console.log("Failed Tests:");
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`  - ${r.test}`);
+      if (r.error) console.log(`    Error: ${r.error}`);
+    });
+    console.log();
+  }
+
+  return failed === 0;
+}
+
+// Execute tests
+runAllTests().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error("Test suite failed:", error);
+  process.exit(1);
+});
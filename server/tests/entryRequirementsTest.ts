@@ -0,0 +1,202 @@
+/**
+ * Entry Requirement Tests
+ * Runs offline against recorded FCDO and State Dept pages: requirement classification,
+ * parsing both sources and storing requirements per destination, nationality and source
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  classifyEntryRequirement,
+  EntryRequirementsService,
+  FCDO_NATIONALITY,
+  getStateDeptInfoPageUrl,
+  parseFCDOEntryRequirements,
+  parseStateDeptQuickFacts,
+  STATE_DEPT_NATIONALITY,
+} from '../services/entryRequirements';
+import { MemStorage } from '../storage';
+
+interface TestResult {
+  test: string;
+  passed: boolean;
+  details?: string;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+const FIXTURES_DIR = path.join(process.cwd(), 'server', 'tests', 'fixtures');
+
+function logTest(test: string, passed: boolean, details?: string, error?: string) {
+  results.push({ test, passed, details, error });
+  const status = passed ? "✓ PASS" : "✗ FAIL";
+  console.log(`${status}: ${test}`);
+  if (details) console.log(`  Details: ${details}`);
+  if (error) console.error(`  Error: ${error}`);
+}
+
+function readFixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf-8');
+}
+
+function testClassification() {
+  try {
+    const requirements = [
+      'TOURIST VISA REQUIRED',
+      'Passport validity requirements',
+      'BLANK PASSPORT PAGES',
+      'Vaccine requirements',
+      'Taking money into Pakistan',
+      'CURRENCY RESTRICTIONS FOR EXIT',
+      'Airport security',
+    ].map(classifyEntryRequirement);
+    logTest(
+      "Headings and quick-facts labels map onto requirement types",
+      requirements.join(',') === 'visa,passport-validity,blank-pages,vaccinations,currency,currency,',
+      requirements.join(', ')
+    );
+  } catch (error) {
+    logTest("Classification", false, undefined, String(error));
+  }
+}
+
+function testFCDOParsing() {
+  try {
+    const parsed = parseFCDOEntryRequirements(readFixture('fcdo-entry-requirements-pakistan.html'));
+    const byType = Object.fromEntries(parsed.map(r => [r.requirement, r.details]));
+    logTest(
+      "FCDO requirements are read in order from their sections, skipping unrelated ones",
+      parsed.map(r => r.requirement).join(',') === 'passport-validity,visa,vaccinations,currency' &&
+        !parsed.some(r => r.details.includes('tasers') || r.details.includes('British citizens')),
+      parsed.map(r => r.requirement).join(', ')
+    );
+
+    logTest(
+      "Sub-sections and list items are merged into their requirement",
+      byType['visa'] === 'You must have a visa to enter Pakistan. Apply online through the Pakistan Online Visa System. ' +
+        'Allow at least 4 weeks for your application. Business visas on arrival are only available with a pre-approved letter.' &&
+        byType['currency'] === 'You can take up to 10,000 US dollars in foreign currency out of Pakistan.',
+      byType['visa']
+    );
+
+    const long = parseFCDOEntryRequirements(`<h2>Visa requirements</h2><p>${'Visa rules apply. '.repeat(60)}</p>`);
+    logTest(
+      "Long requirement text is shortened on a word boundary",
+      long[0].details.length <= 603 && long[0].details.endsWith('apply. Visa...'),
+      `${long[0].details.length} characters`
+    );
+  } catch (error) {
+    logTest("FCDO parsing", false, undefined, String(error));
+  }
+}
+
+function testStateDeptParsing() {
+  try {
+    const parsed = parseStateDeptQuickFacts(readFixture('statedept-country-info-pakistan.html'));
+    const byType = Object.fromEntries(parsed.map(r => [r.requirement, r.details]));
+    logTest(
+      "State Dept quick facts become requirements, ignoring boxes that are not entry rules",
+      parsed.length === 5 &&
+        byType['passport-validity'] === 'Must be valid for at least six months beyond the date of arrival' &&
+        byType['visa'] === 'Yes' &&
+        byType['vaccinations'] === 'Polio vaccination may be required for stays of more than four weeks',
+      parsed.map(r => r.requirement).join(', ')
+    );
+
+    logTest(
+      "Entry and exit currency rules are combined and labelled",
+      byType['currency'] === 'Entry: Foreign currency over $10,000 must be declared Exit: No more than 10,000 rupees',
+      byType['currency']
+    );
+
+    logTest(
+      "Country information pages are addressed by the PascalCase State Dept name",
+      getStateDeptInfoPageUrl('pakistan').endsWith('/International-Travel-Country-Information-Pages/Pakistan.html') &&
+        getStateDeptInfoPageUrl('myanmar').endsWith('/Burma.html'),
+      getStateDeptInfoPageUrl('myanmar')
+    );
+  } catch (error) {
+    logTest("State Dept parsing", false, undefined, String(error));
+  }
+}
+
+async function testStoringRequirements() {
+  try {
+    const store = new MemStorage();
+    const service = new EntryRequirementsService(store);
+    const firstVerified = new Date('2026-10-01T08:00:00Z');
+    const reverified = new Date('2026-10-08T08:00:00Z');
+    const fcdoLink = 'https://www.gov.uk/foreign-travel-advice/pakistan/entry-requirements';
+    const stateDeptLink = getStateDeptInfoPageUrl('pakistan');
+
+    await service.saveRequirements('pakistan', FCDO_NATIONALITY, 'UK FCDO', fcdoLink,
+      parseFCDOEntryRequirements(readFixture('fcdo-entry-requirements-pakistan.html')), firstVerified);
+    await service.saveRequirements('pakistan', STATE_DEPT_NATIONALITY, 'US State Dept', stateDeptLink,
+      parseStateDeptQuickFacts(readFixture('statedept-country-info-pakistan.html')), firstVerified);
+    const saved = await service.saveRequirements('pakistan', STATE_DEPT_NATIONALITY, 'US State Dept', stateDeptLink,
+      [{ requirement: 'visa', details: 'Yes' }], reverified);
+
+    const all = await store.getEntryRequirements('pakistan');
+    const us = await store.getEntryRequirements('pakistan', 'US');
+    logTest(
+      "Requirements are replaced per nationality and source, keeping other nationalities",
+      saved?.length === 1 && all.length === 5 && us.length === 1 &&
+        all.filter(r => r.nationality === 'GB').length === 4,
+      `${all.length} rows, ${us.length} for US travelers`
+    );
+
+    logTest(
+      "Each requirement carries its source link and when it was last verified",
+      us[0].link === stateDeptLink && us[0].lastVerified.getTime() === reverified.getTime() &&
+        all.filter(r => r.nationality === 'GB').every(r => r.link === fcdoLink && r.lastVerified.getTime() === firstVerified.getTime())
+    );
+  } catch (error) {
+    logTest("Storing requirements", false, undefined, String(error));
+  }
+}
+
+async function runAllTests() {
+  console.log("\n========================================");
+  console.log("ENTRY REQUIREMENT TEST SUITE");
+  console.log("========================================\n");
+
+  testClassification();
+  testFCDOParsing();
+  testStateDeptParsing();
+  await testStoringRequirements();
+
+  // Print summary
+  console.log("\n========================================");
+  console.log("TEST SUMMARY");
+  console.log("========================================");
+
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  const total = results.length;
+  const passRate = ((passed / total) * 100).toFixed(1);
+
+  console.log(`Total Tests: ${total}`);
+  console.log(`Passed: ${passed} (${passRate}%)`);
+  console.log(`Failed: ${failed}`);
+  console.log("========================================\n");
+
+  if (failed > 0) {
+    console.log("Failed Tests:");
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`  - ${r.test}`);
+      if (r.error) console.log(`    Error: ${r.error}`);
+    });
+    console.log();
+  }
+
+  return failed === 0;
+}
+
+// Execute tests
+runAllTests().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error("Test suite failed:", error);
+  process.exit(1);
+});
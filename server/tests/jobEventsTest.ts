@@ -0,0 +1,131 @@
+/**
+ * Job Event Tests
+ * Runs offline: ETA estimates, per-job subscriptions and Server-Sent Events formatting
+ */
+
+import { JobEventBus, estimateEta, formatSseEvent, type JobEvent } from '../services/jobEvents';
+
+interface TestResult {
+  test: string;
+  passed: boolean;
+  details?: string;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(test: string, passed: boolean, details?: string, error?: string) {
+  results.push({ test, passed, details, error });
+  const status = passed ? "✓ PASS" : "✗ FAIL";
+  console.log(`${status}: ${test}`);
+  if (details) console.log(`  Details: ${details}`);
+  if (error) console.error(`  Error: ${error}`);
+}
+
+function testEta() {
+  try {
+    const start = 0;
+    // Four countries finished in the first two minutes: 2 per minute
+    const early = estimateEta([30000, 60000, 90000, 120000], start, 10, 120000);
+    logTest(
+      "ETA uses throughput since the run started",
+      early?.countriesPerMinute === 2 && early.estimatedSecondsRemaining === 300,
+      JSON.stringify(early)
+    );
+
+    // 30 countries at one per 10s, then the last 20 slow down to one per 30s
+    const finishTimes: number[] = [];
+    let t = 0;
+    for (let i = 0; i < 10; i++) finishTimes.push(t += 10000);
+    for (let i = 0; i < 20; i++) finishTimes.push(t += 30000);
+    const slowed = estimateEta(finishTimes, start, 4, t);
+    logTest(
+      "ETA follows the most recent throughput",
+      slowed?.countriesPerMinute === 2 && slowed.estimatedSecondsRemaining === 120,
+      JSON.stringify(slowed)
+    );
+
+    logTest("No estimate before any country finishes", estimateEta([], start, 10, 5000) === null);
+  } catch (error) {
+    logTest("ETA", false, undefined, String(error));
+  }
+}
+
+function testSubscriptions() {
+  try {
+    const bus = new JobEventBus();
+    const received: JobEvent[] = [];
+    const unsubscribe = bus.subscribe('job-a', event => received.push(event));
+
+    bus.publish({ type: 'country-started', jobId: 'job-a', country: 'france' });
+    bus.publish({ type: 'country-started', jobId: 'job-b', country: 'spain' });
+    unsubscribe();
+    bus.publish({ type: 'country-started', jobId: 'job-a', country: 'italy' });
+
+    logTest(
+      "Subscribers only receive their own job's events until they unsubscribe",
+      received.length === 1 && received[0].type === 'country-started' && received[0].country === 'france' && received[0].at instanceof Date,
+      `received ${received.length} event(s)`
+    );
+    logTest("Unsubscribing removes the listener", bus.listenerCount('JobEvent') === 0);
+  } catch (error) {
+    logTest("Subscriptions", false, undefined, String(error));
+  }
+}
+
+function testSseFormat() {
+  try {
+    const message = formatSseEvent('status', { jobId: 'job-a', status: 'running' });
+    logTest(
+      "Events are framed as named SSE messages",
+      message === 'event: status\ndata: {"jobId":"job-a","status":"running"}\n\n',
+      JSON.stringify(message)
+    );
+  } catch (error) {
+    logTest("SSE format", false, undefined, String(error));
+  }
+}
+
+async function runAllTests() {
+  console.log("\n========================================");
+  console.log("JOB EVENT TEST SUITE");
+  console.log("========================================\n");
+
+  testEta();
+  testSubscriptions();
+  testSseFormat();
+
+  // Print summary
+  console.log("\n========================================");
+  console.log("TEST SUMMARY");
+  console.log("========================================");
+
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  const total = results.length;
+  const passRate = ((passed / total) * 100).toFixed(1);
+
+  console.log(`Total Tests: ${total}`);
+  console.log(`Passed: ${passed} (${passRate}%)`);
+  console.log(`Failed: ${failed}`);
+  console.log("========================================\n");
+
+  if (failed > 0) {
+    console.log("Failed Tests:");
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`  - ${r.test}`);
+      if (r.error) console.log(`    Error: ${r.error}`);
+    });
+    console.log();
+  }
+
+  return failed === 0;
+}
+
+// Execute tests
+runAllTests().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error("Test suite failed:", error);
+  process.exit(1);
+});
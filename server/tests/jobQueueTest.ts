@@ -0,0 +1,210 @@
+/**
+ * Job Queue Tests
+ * Runs offline: queue ordering, preemption, region filters, duplicate detection, raising the
+ * priority of pending work and per-country retry records
+ */
+
+import { JOB_PRIORITIES, type BulkJob } from '@shared/schema';
+import { bulkDownloadService } from '../services/bulkDownloadService';
+import { selectNextJob, shouldYield, getCountriesInRegion, isSameWork } from '../services/jobQueue';
+import { MemStorage, storage, waitForStorage } from '../storage';
+
+interface TestResult {
+  test: string;
+  passed: boolean;
+  details?: string;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(test: string, passed: boolean, details?: string, error?: string) {
+  results.push({ test, passed, details, error });
+  const status = passed ? "✓ PASS" : "✗ FAIL";
+  console.log(`${status}: ${test}`);
+  if (details) console.log(`  Details: ${details}`);
+  if (error) console.error(`  Error: ${error}`);
+}
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000);
+
+function makeJob(overrides: Partial<BulkJob>): BulkJob {
+  return {
+    id: 'job',
+    type: 'alerts',
+    priority: JOB_PRIORITIES.normal,
+    countries: null,
+    region: null,
+    sourceIds: null,
+    queuedAt: minutesAgo(10),
+    startedAt: null,
+    completedAt: null,
+    status: 'queued',
+    totalCountries: 0,
+    processedCountries: 0,
+    failedCountries: 0,
+    errorLog: [],
+    lastRunDate: null,
+    parentJobId: null,
+    aiCacheHits: 0,
+    aiCacheMisses: 0,
+    ...overrides,
+  };
+}
+
+function testQueueOrder() {
+  try {
+    const jobs = [
+      makeJob({ id: 'weekly', priority: JOB_PRIORITIES.low, queuedAt: minutesAgo(60) }),
+      makeJob({ id: 'manual-late', queuedAt: minutesAgo(1) }),
+      makeJob({ id: 'manual-early', queuedAt: minutesAgo(5) }),
+      makeJob({ id: 'done', priority: JOB_PRIORITIES.high, status: 'completed' }),
+    ];
+    const next = selectNextJob(jobs);
+    logTest(
+      "Highest priority queued job runs first, earliest queued breaks ties",
+      next?.id === 'manual-early',
+      next?.id
+    );
+
+    logTest("An empty queue has no next job", selectNextJob([makeJob({ status: 'running' })]) === undefined);
+  } catch (error) {
+    logTest("Queue order", false, undefined, String(error));
+  }
+}
+
+function testPreemption() {
+  try {
+    const weekly = makeJob({ id: 'weekly', priority: JOB_PRIORITIES.low, status: 'running' });
+    const manual = makeJob({ id: 'manual', priority: JOB_PRIORITIES.normal, countries: ['japan'] });
+    logTest("A low priority job yields to a queued manual job", shouldYield(weekly, [weekly, manual]));
+
+    const sameLevel = makeJob({ id: 'other', priority: JOB_PRIORITIES.low });
+    logTest(
+      "A job does not yield to equal priority or cancelled jobs",
+      !shouldYield(weekly, [sameLevel, makeJob({ priority: JOB_PRIORITIES.high, status: 'cancelled' })])
+    );
+  } catch (error) {
+    logTest("Preemption", false, undefined, String(error));
+  }
+}
+
+function testFiltersAndDuplicates() {
+  try {
+    const region = getCountriesInRegion('south-eastern asia');
+    const subregion = getCountriesInRegion('South-Eastern Asia');
+    logTest(
+      "Region filters match regions and subregions case-insensitively",
+      subregion.includes('thailand') && region.length === subregion.length && getCountriesInRegion('Atlantis').length === 0,
+      `${subregion.length} countries`
+    );
+
+    const weekly = makeJob({ type: 'alerts' });
+    logTest(
+      "Jobs doing the same work are detected regardless of country order",
+      isSameWork(
+        makeJob({ countries: ['japan', 'peru'], sourceIds: ['usgs'] }),
+        { type: 'alerts', countries: ['peru', 'japan'], sourceIds: ['usgs'] }
+      ) &&
+        !isSameWork(weekly, { type: 'background', countries: null, sourceIds: null }) &&
+        !isSameWork(weekly, { type: 'alerts', countries: ['japan'], sourceIds: null })
+    );
+  } catch (error) {
+    logTest("Filters and duplicates", false, undefined, String(error));
+  }
+}
+
+async function testDuplicatePriority() {
+  try {
+    // Without the scheduler lease nothing runs, so the jobs stay queued
+    await waitForStorage();
+    const weekly = await bulkDownloadService.enqueueJob({ type: 'background', countries: ['japan', 'peru'], priority: JOB_PRIORITIES.low });
+    const manual = await bulkDownloadService.enqueueJob({ type: 'background', countries: ['peru', 'japan'], priority: JOB_PRIORITIES.high });
+    const again = await bulkDownloadService.enqueueJob({ type: 'background', countries: ['japan', 'peru'], priority: JOB_PRIORITIES.low });
+    const job = await storage.getBulkJob(weekly);
+    logTest(
+      "A higher priority request for pending work raises the pending job instead of queueing a duplicate",
+      manual === weekly && again === weekly && job?.priority === JOB_PRIORITIES.high && job.status === 'queued',
+      `priority ${job?.priority}`
+    );
+    await bulkDownloadService.cancelJob(weekly);
+  } catch (error) {
+    logTest("Duplicate priority", false, undefined, String(error));
+  }
+}
+
+async function testCountryProgress() {
+  try {
+    const storage = new MemStorage();
+    await storage.createBulkJob({ id: 'parent', startedAt: new Date(), status: 'running', totalCountries: 3 });
+    await storage.updateJobWithTransaction('parent', 'france', 'completed', undefined, 1);
+    await storage.updateJobWithTransaction('parent', 'chad', 'failed', 'HTTP 503', 2);
+    await storage.updateJobWithTransaction('parent', 'mali', 'failed', 'Timeout', 2);
+
+    const progress = await storage.getJobCountryProgress('parent');
+    const france = progress.find(p => p.countryName === 'france');
+    const failed = progress.filter(p => p.status === 'failed').map(p => p.countryName).sort();
+    logTest(
+      "Per-country status, error and retry count are recorded",
+      france?.retryCount === 1 && failed.join(',') === 'chad,mali' &&
+        progress.find(p => p.countryName === 'chad')?.error === 'HTTP 503',
+      `failed: ${failed.join(', ')}`
+    );
+
+    // A retry covers only the failed countries, so it isn't the same work as the whole job
+    const parent = makeJob({ id: 'parent', countries: ['france', 'chad', 'mali'], status: 'completed' });
+    const child = makeJob({ id: 'child', countries: failed, parentJobId: 'parent' });
+    logTest(
+      "A retry of failed countries is distinct work from its parent job",
+      !isSameWork(parent, child) && isSameWork(child, { type: 'alerts', countries: ['mali', 'chad'], sourceIds: null })
+    );
+  } catch (error) {
+    logTest("Country progress", false, undefined, String(error));
+  }
+}
+
+async function runAllTests() {
+  console.log("\n========================================");
+  console.log("JOB QUEUE TEST SUITE");
+  console.log("========================================\n");
+
+  testQueueOrder();
+  testPreemption();
+  testFiltersAndDuplicates();
+  await testDuplicatePriority();
+  await testCountryProgress();
+
+  // Print summary
+  console.log("\n========================================");
+  console.log("TEST SUMMARY");
+  console.log("========================================");
+
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  const total = results.length;
+  const passRate = ((passed / total) * 100).toFixed(1);
+
+  console.log(`Total Tests: ${total}`);
+  console.log(`Passed: ${passed} (${passRate}%)`);
+  console.log(`Failed: ${failed}`);
+  console.log("========================================\n");
+
+  if (failed > 0) {
+    console.log("Failed Tests:");
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`  - ${r.test}`);
+      if (r.error) console.log(`    Error: ${r.error}`);
+    });
+    console.log();
+  }
+
+  return failed === 0;
+}
+
+// Execute tests
+runAllTests().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error("Test suite failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,262 @@
+/**
+ * Job Task Tests
+ * Runs offline with stub alert sources, the mock LLM provider and a recorded advisory page:
+ * alert and AI enhancement tasks fail when their sources or the analysis fail, so a bulk job
+ * records the country as failed and a retry job can run it again
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { setEnhancementCache, setLLMProvider, setPageFetcher } from '../aiService';
+import { alertSourceRegistry, type AlertSource } from '../services/alertSources';
+import { bulkDownloadService } from '../services/bulkDownloadService';
+import { createCountryTask } from '../services/jobTasks';
+import { schedulerLease } from '../services/leaderLease';
+import { MockLLMProvider } from '../services/llmProvider';
+import { MemStorage, storage, waitForStorage } from '../storage';
+import type { BulkJob } from '@shared/schema';
+
+interface TestResult {
+  test: string;
+  passed: boolean;
+  details?: string;
+  error?: string;
+}
+
+const FIXTURES_DIR = path.join(process.cwd(), 'server', 'tests', 'fixtures');
+const results: TestResult[] = [];
+
+function logTest(test: string, passed: boolean, details?: string, error?: string) {
+  results.push({ test, passed, details, error });
+  const status = passed ? "✓ PASS" : "✗ FAIL";
+  console.log(`${status}: ${test}`);
+  if (details) console.log(`  Details: ${details}`);
+  if (error) console.error(`  Error: ${error}`);
+}
+
+// Whether the stub source is currently down
+let sourceDown = true;
+
+const stubSource: AlertSource = {
+  id: 'stub-feed',
+  label: 'Stub Feed',
+  refreshIntervalMs: 60000,
+  timeoutMs: 1000,
+  enabled: true,
+  fetchAlerts: async () => {
+    if (sourceDown) throw new Error('Feed returned 503');
+    return [{
+      countryId: 'japan',
+      source: 'Stub Feed',
+      title: 'Stub advisory',
+      level: 'Level 1',
+      severity: 'low',
+      summary: 'Exercise normal precautions.',
+      link: 'https://example.test/japan',
+      date: new Date(),
+    }];
+  },
+};
+
+// Always answers, so it can fail alongside the stub feed
+const steadySource: AlertSource = {
+  id: 'steady-feed',
+  label: 'Steady Feed',
+  refreshIntervalMs: 60000,
+  timeoutMs: 1000,
+  enabled: true,
+  fetchAlerts: async () => [{
+    countryId: 'peru',
+    source: 'Steady Feed',
+    title: 'Steady advisory',
+    level: 'Level 2',
+    severity: 'medium',
+    summary: 'Exercise increased caution.',
+    link: 'https://example.test/peru',
+    date: new Date(),
+  }],
+};
+
+/**
+ * Wait for a queued job to finish, up to the given time
+ */
+async function waitForJob(jobId: string, timeoutMs = 30000): Promise<BulkJob | undefined> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const job = await storage.getBulkJob(jobId);
+    if (job && (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled')) {
+      return job;
+    }
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+  return storage.getBulkJob(jobId);
+}
+
+async function testTasksThrow() {
+  try {
+    sourceDown = true;
+    let alertsError = '';
+    try {
+      await createCountryTask({ type: 'alerts', sourceIds: ['stub-feed'] })('japan');
+    } catch (error) {
+      alertsError = error instanceof Error ? error.message : String(error);
+    }
+    logTest(
+      "An alerts task throws when every source it refreshes failed",
+      alertsError.includes('stub-feed: Feed returned 503'),
+      alertsError
+    );
+
+    sourceDown = false;
+    let succeeded = true;
+    try {
+      await createCountryTask({ type: 'alerts', sourceIds: ['stub-feed'] })('japan');
+    } catch {
+      succeeded = false;
+    }
+    logTest("An alerts task succeeds once its source answers", succeeded);
+
+    sourceDown = true;
+    let partialError = '';
+    try {
+      await createCountryTask({ type: 'alerts', sourceIds: ['stub-feed', 'steady-feed'] })('peru');
+    } catch (error) {
+      partialError = error instanceof Error ? error.message : String(error);
+    }
+    const peru = await storage.getCountryByName('peru');
+    const peruAlerts = peru ? await storage.getAlertsByCountryId(peru.id) : [];
+    logTest(
+      "An alerts task throws when some of its sources failed, after storing the others' alerts",
+      partialError.includes('stub-feed: Feed returned 503') && !partialError.includes('steady-feed') &&
+        peruAlerts.some(alert => alert.source === 'Steady Feed'),
+      partialError
+    );
+  } catch (error) {
+    logTest("Tasks", false, undefined, String(error));
+  }
+}
+
+async function testFailedCountryIsRetried() {
+  try {
+    sourceDown = true;
+    const jobId = await bulkDownloadService.enqueueJob({ type: 'alerts', countries: ['japan'], sourceIds: ['stub-feed'] });
+    const job = await waitForJob(jobId);
+    const failed = (await storage.getJobCountryProgress(jobId)).filter(progress => progress.status === 'failed');
+    logTest(
+      "A country whose sources all failed is retried, then recorded as failed",
+      job?.status === 'completed' && job.failedCountries === 1 && job.processedCountries === 0 &&
+        failed.length === 1 && failed[0].countryName === 'japan' && failed[0].retryCount === 2 &&
+        !!failed[0].error?.includes('Feed returned 503'),
+      `${job?.status}, ${failed.map(p => `${p.countryName}: ${p.error}`).join('; ')}`
+    );
+    logTest(
+      "The job records when it was queued and, separately, when it first ran",
+      !!job?.startedAt && job.startedAt.getTime() >= job.queuedAt.getTime(),
+      `queued ${job?.queuedAt.toISOString()}, started ${job?.startedAt?.toISOString()}`
+    );
+
+    sourceDown = false;
+    const retryJobId = await bulkDownloadService.retryFailedCountries(job!, failed.map(progress => progress.countryName));
+    const retryJob = await waitForJob(retryJobId);
+    const country = await storage.getCountryByName('japan');
+    const alerts = country ? await storage.getAlertsByCountryId(country.id) : [];
+    logTest(
+      "The retry job re-runs the failed country and stores its alerts",
+      retryJob?.parentJobId === jobId && retryJob.status === 'completed' && retryJob.processedCountries === 1 &&
+        retryJob.failedCountries === 0 && alerts.some(alert => alert.source === 'Stub Feed'),
+      `${retryJob?.status}, processed ${retryJob?.processedCountries}`
+    );
+  } catch (error) {
+    logTest("Failed country retry", false, undefined, String(error));
+  }
+}
+
+async function testAIEnhancementTask() {
+  const advisoryPage = fs.readFileSync(path.join(FIXTURES_DIR, 'state-dept-advisory.html'), 'utf-8');
+  try {
+    alertSourceRegistry.setEnabled('us-state-dept', true);
+    setEnhancementCache(new MemStorage());
+    setPageFetcher(async () => new Response(advisoryPage, { status: 200 }));
+
+    // No fixture matches, so every analysis fails
+    setLLMProvider(new MockLLMProvider([]));
+    let aiError = '';
+    try {
+      await createCountryTask({ type: 'ai-enhancement', sourceIds: null })('colombia');
+    } catch (error) {
+      aiError = error instanceof Error ? error.message : String(error);
+    }
+    logTest(
+      "An AI enhancement task throws when the analysis fails",
+      aiError.includes('AI enhancement was not applied'),
+      aiError
+    );
+
+    setLLMProvider(MockLLMProvider.fromFile(path.join(FIXTURES_DIR, 'llm-fixtures.json')));
+    await createCountryTask({ type: 'ai-enhancement', sourceIds: null })('colombia');
+    const colombia = await storage.getCountryByName('colombia');
+    const advisory = colombia ? (await storage.getAlertsByCountryId(colombia.id)).find(alert => alert.source === 'US State Dept') : undefined;
+    logTest(
+      "An AI enhancement task succeeds once the analysis is applied",
+      !!advisory?.aiEnhanced && !!advisory.keyRisks?.length,
+      advisory?.title
+    );
+  } catch (error) {
+    logTest("AI enhancement task", false, undefined, String(error));
+  } finally {
+    alertSourceRegistry.setEnabled('us-state-dept', false);
+  }
+}
+
+async function runAllTests() {
+  console.log("\n========================================");
+  console.log("JOB TASK TEST SUITE");
+  console.log("========================================\n");
+
+  await waitForStorage();
+  for (const source of alertSourceRegistry.getAll()) {
+    alertSourceRegistry.setEnabled(source.id, false);
+  }
+  alertSourceRegistry.register(stubSource);
+  alertSourceRegistry.register(steadySource);
+  await schedulerLease.start();
+
+  await testTasksThrow();
+  await testAIEnhancementTask();
+  await testFailedCountryIsRetried();
+  await schedulerLease.stop();
+
+  // Print summary
+  console.log("\n========================================");
+  console.log("TEST SUMMARY");
+  console.log("========================================");
+
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  const total = results.length;
+  const passRate = ((passed / total) * 100).toFixed(1);
+
+  console.log(`Total Tests: ${total}`);
+  console.log(`Passed: ${passed} (${passRate}%)`);
+  console.log(`Failed: ${failed}`);
+  console.log("========================================\n");
+
+  if (failed > 0) {
+    console.log("Failed Tests:");
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`  - ${r.test}`);
+      if (r.error) console.log(`    Error: ${r.error}`);
+    });
+    console.log();
+  }
+
+  return failed === 0;
+}
+
+// Execute tests
+runAllTests().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error("Test suite failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,228 @@
+/**
+ * Lease Tests
+ * Runs offline: two app instances competing for the scheduler, job and scheduled job leases in one in-memory storage
+ */
+
+import { MemStorage, storage as appStorage, waitForStorage } from '../storage';
+import { LeaseManager } from '../services/leaderLease';
+import { cronJobScheduler } from '../services/jobScheduler';
+
+interface TestResult {
+  test: string;
+  passed: boolean;
+  details?: string;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(test: string, passed: boolean, details?: string, error?: string) {
+  results.push({ test, passed, details, error });
+  const status = passed ? "✓ PASS" : "✗ FAIL";
+  console.log(`${status}: ${test}`);
+  if (details) console.log(`  Details: ${details}`);
+  if (error) console.error(`  Error: ${error}`);
+}
+
+const TTL_MS = 200;
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function testSingleHolder() {
+  try {
+    const storage = new MemStorage();
+    const instanceA = new LeaseManager(storage, 'scheduler', 'instance-a', TTL_MS);
+    const instanceB = new LeaseManager(storage, 'scheduler', 'instance-b', TTL_MS);
+
+    const acquiredA = await instanceA.heartbeat();
+    const acquiredB = await instanceB.heartbeat();
+    logTest(
+      "Only the first instance acquires the lease",
+      acquiredA && !acquiredB && instanceA.isHolder() && !instanceB.isHolder(),
+      `A=${acquiredA}, B=${acquiredB}`
+    );
+
+    const first = await storage.getLease('scheduler');
+    await sleep(TTL_MS / 2);
+    await instanceA.heartbeat();
+    await sleep(TTL_MS / 2);
+    const renewed = await storage.getLease('scheduler');
+    const stillBlocked = !(await instanceB.heartbeat());
+    logTest(
+      "Heartbeats keep the lease past its original expiry",
+      stillBlocked && renewed!.holderId === 'instance-a' &&
+        renewed!.expiresAt > first!.expiresAt && renewed!.acquiredAt.getTime() === first!.acquiredAt.getTime(),
+      `expires ${first!.expiresAt.toISOString()} -> ${renewed!.expiresAt.toISOString()}`
+    );
+  } catch (error) {
+    logTest("Single holder", false, undefined, String(error));
+  }
+}
+
+async function testFailover() {
+  try {
+    const storage = new MemStorage();
+    const instanceA = new LeaseManager(storage, 'scheduler', 'instance-a', TTL_MS);
+    const instanceB = new LeaseManager(storage, 'scheduler', 'instance-b', TTL_MS);
+    const events: string[] = [];
+    instanceA.onLost(() => events.push('a-lost'));
+    instanceB.onAcquired(() => events.push('b-acquired'));
+
+    await instanceA.heartbeat();
+    await instanceB.heartbeat();
+
+    // Instance A stops heartbeating, e.g. because it crashed or stalled
+    await sleep(TTL_MS + 50);
+    const takenOver = await instanceB.heartbeat();
+    const aRejoins = await instanceA.heartbeat();
+    logTest(
+      "Another instance takes over once the lease expires",
+      takenOver && !aRejoins && (await storage.getLease('scheduler'))!.holderId === 'instance-b',
+      `B=${takenOver}, A=${aRejoins}`
+    );
+    logTest(
+      "Gaining and losing the lease notify listeners",
+      events.join(',') === 'b-acquired,a-lost',
+      events.join(', ')
+    );
+
+    await instanceB.stop();
+    const afterRelease = await instanceA.heartbeat();
+    logTest("A released lease can be taken immediately", afterRelease && !instanceB.isHolder());
+    await instanceA.stop();
+  } catch (error) {
+    logTest("Failover", false, undefined, String(error));
+  }
+}
+
+async function testJobResumption() {
+  try {
+    const storage = new MemStorage();
+    await storage.createBulkJob({
+      id: 'bulk-1',
+      startedAt: new Date(),
+      status: 'running',
+      totalCountries: 10,
+      processedCountries: 4,
+      failedCountries: 0,
+      errorLog: [],
+    });
+
+    // Both instances restart and see the same running job
+    const leaders = [
+      new LeaseManager(storage, 'scheduler', 'instance-a', TTL_MS),
+      new LeaseManager(storage, 'scheduler', 'instance-b', TTL_MS),
+    ];
+    const resumedBy: string[] = [];
+    for (const leader of leaders) {
+      if (!(await leader.heartbeat())) continue;
+      for (const job of (await storage.getAllBulkJobs()).filter(j => j.status === 'running')) {
+        const jobLease = new LeaseManager(storage, `bulk-job:${job.id}`, `${leader.holderId}-job`, TTL_MS);
+        if (await jobLease.heartbeat()) resumedBy.push(leader.holderId);
+      }
+    }
+    logTest(
+      "A running job is resumed by the lease holder only",
+      resumedBy.join(',') === 'instance-a',
+      resumedBy.join(', ') || 'nobody'
+    );
+
+    // A second resume attempt while the job lease is alive is refused, even from the holder
+    const retry = new LeaseManager(storage, 'bulk-job:bulk-1', 'instance-a-retry', TTL_MS);
+    logTest("A job already being processed is not resumed twice", !(await retry.heartbeat()));
+  } catch (error) {
+    logTest("Job resumption", false, undefined, String(error));
+  }
+}
+
+async function testScheduledJobLease() {
+  try {
+    await waitForStorage();
+    let release: () => void = () => {};
+    let runs = 0;
+    cronJobScheduler.registerTask('lease-test', async () => {
+      runs++;
+      await new Promise<void>(resolve => { release = resolve; });
+      return 'done';
+    });
+    const job = await appStorage.createScheduledJob({
+      id: 'lease-test-job',
+      name: 'Lease test',
+      task: 'lease-test',
+      cronExpression: '0 1 * * 0',
+      timezone: 'UTC',
+    });
+
+    // Another instance is running the job
+    const other = new LeaseManager(appStorage, `scheduled-job:${job.id}`, 'instance-b', TTL_MS);
+    await other.heartbeat();
+    const whileHeldElsewhere = await cronJobScheduler.startJob(job);
+    await other.stop();
+
+    const started = await cronJobScheduler.startJob(job);
+    const secondStart = await cronJobScheduler.startJob(job);
+    const fromOther = await new LeaseManager(appStorage, `scheduled-job:${job.id}`, 'instance-b', TTL_MS).heartbeat();
+    logTest(
+      "A manual run is refused while the job runs on this or another instance",
+      !whileHeldElsewhere && started && !secondStart && !fromOther && runs === 1,
+      `held elsewhere: ${whileHeldElsewhere}, started: ${started}, second: ${secondStart}, other instance: ${fromOther}`
+    );
+
+    release();
+    await sleep(50);
+    const finished = await appStorage.getScheduledJob(job.id);
+    const afterRun = new LeaseManager(appStorage, `scheduled-job:${job.id}`, 'instance-b', TTL_MS);
+    logTest(
+      "The job lease is released when the run finishes",
+      finished?.lastRunStatus === 'succeeded' && !cronJobScheduler.isRunning(job.id) && await afterRun.heartbeat(),
+      `status: ${finished?.lastRunStatus}`
+    );
+    await afterRun.stop();
+  } catch (error) {
+    logTest("Scheduled job lease", false, undefined, String(error));
+  }
+}
+
+async function runAllTests() {
+  console.log("\n========================================");
+  console.log("LEASE TEST SUITE");
+  console.log("========================================\n");
+
+  await testSingleHolder();
+  await testFailover();
+  await testJobResumption();
+  await testScheduledJobLease();
+
+  // Print summary
+  console.log("\n========================================");
+  console.log("TEST SUMMARY");
+  console.log("========================================");
+
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  const total = results.length;
+  const passRate = ((passed / total) * 100).toFixed(1);
+
+  console.log(`Total Tests: ${total}`);
+  console.log(`Passed: ${passed} (${passRate}%)`);
+  console.log(`Failed: ${failed}`);
+  console.log("========================================\n");
+
+  if (failed > 0) {
+    console.log("Failed Tests:");
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`  - ${r.test}`);
+      if (r.error) console.log(`    Error: ${r.error}`);
+    });
+    console.log();
+  }
+
+  return failed === 0;
+}
+
+// Execute tests
+runAllTests().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error("Test suite failed:", error);
+  process.exit(1);
+});
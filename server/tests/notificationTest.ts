@@ -0,0 +1,339 @@
+/**
+ * Advisory Change Notification Tests
+ * Runs offline: change detection on recorded revisions, and delivery through the
+ * webhook, Slack and SMTP notifiers against local stand-in servers
+ */
+
+import http from 'http';
+import net from 'net';
+import type { AddressInfo } from 'net';
+import type { AlertRevision } from '@shared/schema';
+import { detectAdvisoryChanges, publishAdvisoryChanges, advisoryEvents, type AdvisoryChanged } from '../services/changeDetection';
+import { WebhookNotifier, SlackNotifier, EmailNotifier, NotificationService } from '../services/notifiers';
+
+interface TestResult {
+  test: string;
+  passed: boolean;
+  details?: string;
+  error?: string;
+}
+
+interface CapturedRequest {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+const results: TestResult[] = [];
+
+function logTest(test: string, passed: boolean, details?: string, error?: string) {
+  results.push({ test, passed, details, error });
+  const status = passed ? "✓ PASS" : "✗ FAIL";
+  console.log(`${status}: ${test}`);
+  if (details) console.log(`  Details: ${details}`);
+  if (error) console.error(`  Error: ${error}`);
+}
+
+function makeRevision(overrides: Partial<AlertRevision>): AlertRevision {
+  return {
+    id: Math.random().toString(36).slice(2),
+    countryId: 'mexico',
+    source: 'US State Dept',
+    advisoryKey: 'https://travel.state.gov/mexico',
+    title: 'Travel Advisory',
+    level: 'Level 2',
+    severity: 'medium',
+    summary: 'Exercise increased caution.',
+    link: 'https://travel.state.gov/mexico',
+    keyRisks: null,
+    safetyRecommendations: null,
+    specificAreas: null,
+    contentHash: 'hash',
+    advisoryDate: new Date(),
+    recordedAt: new Date(),
+    ...overrides,
+  };
+}
+
+/**
+ * Stand-in HTTP server that records every request; paths under /fail return 500
+ */
+async function startHttpStandIn(): Promise<{ url: string; requests: CapturedRequest[]; close: () => Promise<void> }> {
+  const requests: CapturedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => raw += chunk);
+    req.on('end', () => {
+      requests.push({ path: req.url || '', headers: req.headers, body: raw ? JSON.parse(raw) : null });
+      res.statusCode = req.url?.startsWith('/fail') ? 500 : 200;
+      res.end('ok');
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Minimal SMTP stand-in that accepts one message per DATA command
+ */
+async function startSmtpStandIn(): Promise<{ port: number; messages: string[]; close: () => Promise<void> }> {
+  const messages: string[] = [];
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    let data = '';
+    socket.write('220 localhost ESMTP stand-in\r\n');
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            messages.push(data);
+            data = '';
+            socket.write('250 Queued\r\n');
+          } else {
+            data += line + '\n';
+          }
+          continue;
+        }
+
+        const command = line.split(' ')[0].toUpperCase();
+        if (command === 'EHLO' || command === 'HELO') socket.write('250 localhost\r\n');
+        else if (command === 'DATA') { inData = true; socket.write('354 End data with <CR><LF>.<CR><LF>\r\n'); }
+        else if (command === 'QUIT') { socket.write('221 Bye\r\n'); socket.end(); }
+        else socket.write('250 OK\r\n');
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    port,
+    messages,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+const sampleEvent: AdvisoryChanged = {
+  type: 'AdvisoryChanged',
+  countryId: 'mexico',
+  countryName: 'mexico',
+  source: 'US State Dept',
+  direction: 'upgraded',
+  oldLevel: 'Level 2',
+  newLevel: 'Level 3',
+  oldSeverity: 'medium',
+  newSeverity: 'medium',
+  title: 'Travel Advisory - Level 3',
+  link: 'https://travel.state.gov/mexico',
+  detectedAt: new Date('2025-10-12T08:00:00Z'),
+};
+
+function testChangeDetection() {
+  try {
+    const stateDept = detectAdvisoryChanges('mexico', [{
+      previous: makeRevision({ level: 'Level 2' }),
+      revision: makeRevision({ level: 'Level 3' }),
+    }]);
+
+    logTest(
+      "State Dept level increase is an upgrade",
+      stateDept.length === 1 && stateDept[0].direction === 'upgraded' &&
+        stateDept[0].oldLevel === 'Level 2' && stateDept[0].newLevel === 'Level 3',
+      stateDept[0] ? `${stateDept[0].oldLevel} -> ${stateDept[0].newLevel}: ${stateDept[0].direction}` : 'No event'
+    );
+
+    const fcdo = detectAdvisoryChanges('mexico', [{
+      previous: makeRevision({ source: 'UK FCDO', level: 'Advise against all but essential travel', severity: 'high' }),
+      revision: makeRevision({ source: 'UK FCDO', level: 'Advise against travel to parts of the country', severity: 'medium' }),
+    }]);
+
+    logTest(
+      "FCDO move to a less restrictive status is a downgrade",
+      fcdo.length === 1 && fcdo[0].direction === 'downgraded' && fcdo[0].source === 'UK FCDO',
+      fcdo[0]?.direction
+    );
+
+    // FCDO's statuses for parts of a country are stored in their title-cased form
+    const fromParts = detectAdvisoryChanges('mexico', [{
+      previous: makeRevision({ source: 'UK FCDO', level: 'Avoid All But Essential Travel To Parts', severity: 'high' }),
+      revision: makeRevision({ source: 'UK FCDO', level: 'Advise against all travel', severity: 'high' }),
+    }]);
+    const withinParts = detectAdvisoryChanges('mexico', [{
+      previous: makeRevision({ source: 'UK FCDO', level: 'Avoid All Travel To Parts', severity: 'high' }),
+      revision: makeRevision({ source: 'UK FCDO', level: 'Avoid All But Essential Travel To Parts', severity: 'high' }),
+    }]);
+    const toParts = detectAdvisoryChanges('mexico', [{
+      previous: makeRevision({ source: 'UK FCDO', level: 'Advise against all but essential travel', severity: 'high' }),
+      revision: makeRevision({ source: 'UK FCDO', level: 'Avoid All Travel To Parts', severity: 'high' }),
+    }]);
+    logTest(
+      "FCDO changes to and from advice for parts of a country are detected at the same severity",
+      fromParts[0]?.direction === 'upgraded' && withinParts[0]?.direction === 'downgraded' && toParts[0]?.direction === 'downgraded',
+      `${fromParts[0]?.direction}, ${withinParts[0]?.direction}, ${toParts[0]?.direction}`
+    );
+
+    const quiet = detectAdvisoryChanges('mexico', [
+      { previous: undefined, revision: makeRevision({ level: 'Level 4' }) },
+      { previous: makeRevision({ summary: 'Old text' }), revision: makeRevision({ summary: 'New text' }) },
+    ]);
+
+    logTest(
+      "First sightings and summary-only edits emit no events",
+      quiet.length === 0,
+      `${quiet.length} events`
+    );
+  } catch (error) {
+    logTest("Change detection", false, undefined, String(error));
+  }
+}
+
+async function testWebhookAndSlack() {
+  const standIn = await startHttpStandIn();
+  try {
+    await new WebhookNotifier(`${standIn.url}/hook`, 's3cret').send(sampleEvent);
+    await new SlackNotifier(`${standIn.url}/slack`).send(sampleEvent);
+
+    const hook = standIn.requests.find(r => r.path === '/hook');
+    const slack = standIn.requests.find(r => r.path === '/slack');
+
+    logTest(
+      "Generic webhook receives the event as JSON with secret header",
+      !!hook && hook.body.type === 'AdvisoryChanged' && hook.body.newLevel === 'Level 3' &&
+        hook.headers['x-webhook-secret'] === 's3cret',
+      hook ? JSON.stringify(hook.body).slice(0, 120) : 'No request'
+    );
+
+    logTest(
+      "Slack webhook receives a formatted text message",
+      !!slack && typeof slack.body.text === 'string' && slack.body.text.includes('Mexico') &&
+        slack.body.text.includes('Level 2 → Level 3'),
+      slack?.body.text
+    );
+  } catch (error) {
+    logTest("Webhook delivery", false, undefined, String(error));
+  } finally {
+    await standIn.close();
+  }
+}
+
+async function testEmail() {
+  const smtp = await startSmtpStandIn();
+  try {
+    const notifier = new EmailNotifier({
+      host: '127.0.0.1',
+      port: smtp.port,
+      secure: false,
+      from: 'alerts@example.test',
+      to: ['analyst@example.test'],
+    });
+    await notifier.send(sampleEvent);
+
+    const [message] = smtp.messages;
+    logTest(
+      "SMTP notifier delivers an email to the stand-in server",
+      smtp.messages.length === 1 && message.includes('analyst@example.test') && message.includes('Mexico upgraded to Level 3'),
+      message ? message.split('\n').find(l => l.startsWith('Subject:')) : 'No message'
+    );
+  } catch (error) {
+    logTest("SMTP delivery", false, undefined, String(error));
+  } finally {
+    await smtp.close();
+  }
+}
+
+async function testServiceIsolationAndBus() {
+  const standIn = await startHttpStandIn();
+  try {
+    const service = new NotificationService();
+    service.setNotifiers([
+      new WebhookNotifier(`${standIn.url}/fail`),
+      new SlackNotifier(`${standIn.url}/slack`),
+    ]);
+
+    const outcome = await service.notify(sampleEvent);
+    logTest(
+      "A failing channel does not block the others",
+      outcome.failed.includes('webhook') && outcome.delivered.includes('slack'),
+      `delivered=${outcome.delivered.join(',')} failed=${outcome.failed.join(',')}`
+    );
+
+    const busService = new NotificationService();
+    busService.setNotifiers([new WebhookNotifier(`${standIn.url}/bus`)]);
+    busService.attach(advisoryEvents);
+
+    publishAdvisoryChanges('mexico', [{
+      previous: makeRevision({ level: 'Level 3' }),
+      revision: makeRevision({ level: 'Level 2' }),
+    }]);
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    const busRequest = standIn.requests.find(r => r.path === '/bus');
+    logTest(
+      "Published changes reach attached notifiers",
+      !!busRequest && busRequest.body.direction === 'downgraded',
+      busRequest ? `${busRequest.body.oldLevel} -> ${busRequest.body.newLevel}` : 'No request'
+    );
+  } catch (error) {
+    logTest("Notification service", false, undefined, String(error));
+  } finally {
+    await standIn.close();
+  }
+}
+
+// Run all tests
+async function runAllTests() {
+  console.log("\n========================================");
+  console.log("ADVISORY CHANGE NOTIFICATION TEST SUITE");
+  console.log("========================================\n");
+
+  testChangeDetection();
+  await testWebhookAndSlack();
+  await testEmail();
+  await testServiceIsolationAndBus();
+
+  // Print summary
+  console.log("\n========================================");
+  console.log("TEST SUMMARY");
+  console.log("========================================");
+
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  const total = results.length;
+  const passRate = ((passed / total) * 100).toFixed(1);
+
+  console.log(`Total Tests: ${total}`);
+  console.log(`Passed: ${passed} (${passRate}%)`);
+  console.log(`Failed: ${failed}`);
+  console.log("========================================\n");
+
+  if (failed > 0) {
+    console.log("Failed Tests:");
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`  - ${r.test}`);
+      if (r.error) console.log(`    Error: ${r.error}`);
+    });
+    console.log();
+  }
+
+  return failed === 0;
+}
+
+// Execute tests
+runAllTests().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error("Test suite failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,180 @@
+/**
+ * Outbound HTTP Tests
+ * Runs offline: token buckets, Retry-After handling, slowdown on 429/5xx and the sliding window
+ */
+
+import { OutboundHttpClient, TokenBucket, parseRetryAfter } from '../utils/outboundHttp';
+import { runSlidingWindow } from '../utils/slidingWindow';
+
+interface TestResult {
+  test: string;
+  passed: boolean;
+  details?: string;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(test: string, passed: boolean, details?: string, error?: string) {
+  results.push({ test, passed, details, error });
+  const status = passed ? "✓ PASS" : "✗ FAIL";
+  console.log(`${status}: ${test}`);
+  if (details) console.log(`  Details: ${details}`);
+  if (error) console.error(`  Error: ${error}`);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function testRetryAfter() {
+  try {
+    const now = Date.parse('2026-01-01T12:00:00Z');
+    const seconds = parseRetryAfter('30', now);
+    const date = parseRetryAfter('Thu, 01 Jan 2026 12:01:00 GMT', now);
+    const past = parseRetryAfter('Thu, 01 Jan 2026 11:00:00 GMT', now);
+    logTest(
+      "Retry-After accepts seconds and HTTP dates",
+      seconds === 30000 && date === 60000 && past === 0,
+      `seconds=${seconds}, date=${date}, past=${past}`
+    );
+    logTest("Missing or malformed Retry-After is ignored", parseRetryAfter(null) === null && parseRetryAfter('soon') === null);
+  } catch (error) {
+    logTest("Retry-After", false, undefined, String(error));
+  }
+}
+
+function testTokenBucket() {
+  try {
+    const bucket = new TokenBucket({ ratePerSecond: 2, burst: 2 }, 0);
+    const burst = [bucket.tryTake(0), bucket.tryTake(0), bucket.tryTake(0)];
+    logTest(
+      "Bucket allows a burst, then makes callers wait for the refill",
+      burst[0] === 0 && burst[1] === 0 && burst[2] === 500 && bucket.tryTake(500) === 0,
+      `waits: ${burst.join(', ')}`
+    );
+
+    bucket.slowDown(1000, 5000);
+    logTest(
+      "Throttling halves the rate and pauses until Retry-After",
+      bucket.getRate() === 1 && bucket.tryTake(3000) === 3000 && bucket.tryTake(6000) === 0,
+      `rate=${bucket.getRate()}`
+    );
+
+    for (let i = 0; i < 20; i++) bucket.recover(6000);
+    logTest("Successful responses restore the configured rate", bucket.getRate() === 2 && bucket.getHealth() === 1);
+  } catch (error) {
+    logTest("Token bucket", false, undefined, String(error));
+  }
+}
+
+async function testClientRetries() {
+  try {
+    const statuses = [429, 503, 200];
+    let calls = 0;
+    const client = new OutboundHttpClient({}, async () => {
+      const status = statuses[calls++];
+      return new Response(status === 200 ? 'ok' : 'busy', { status, headers: { 'Retry-After': '0' } });
+    });
+
+    const response = await client.fetch('https://api.example.test/data');
+    const throttled = client.getThrottledHosts();
+    logTest(
+      "429 and 5xx responses are retried and the host is slowed down",
+      response.status === 200 && calls === 3 && throttled.length === 1 && throttled[0].currentRate < throttled[0].configuredRate,
+      `calls=${calls}, rate=${throttled[0]?.currentRate}`
+    );
+    logTest(
+      "Throttled hosts are reported",
+      throttled.map(h => h.host).join(',') === 'api.example.test'
+    );
+
+    let posts = 0;
+    const noRetry = new OutboundHttpClient({}, async () => {
+      posts++;
+      return new Response('busy', { status: 500 });
+    });
+    const post = await noRetry.fetch('https://hooks.example.test/notify', { method: 'POST', body: '{}' });
+    logTest("POST requests are not retried unless asked", post.status === 500 && posts === 1, `calls=${posts}`);
+  } catch (error) {
+    logTest("Client retries", false, undefined, String(error));
+  }
+}
+
+async function testSlidingWindow() {
+  try {
+    const finished: string[] = [];
+    let running = 0;
+    let maxRunning = 0;
+    const durations: Record<string, number> = { slow: 150, a: 10, b: 10, c: 10, d: 10 };
+
+    await runSlidingWindow(Object.keys(durations), {
+      concurrency: () => 2,
+      worker: async (item) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await sleep(durations[item]);
+        running--;
+        finished.push(item);
+      },
+    });
+    logTest(
+      "A slow item doesn't hold up the rest of the window",
+      finished.join(',') === 'a,b,c,d,slow' && maxRunning === 2,
+      `order=${finished.join(', ')}, max in flight=${maxRunning}`
+    );
+
+    const processed: number[] = [];
+    const started = await runSlidingWindow([1, 2, 3, 4, 5], {
+      concurrency: () => 1,
+      worker: async (item) => { processed.push(item); },
+      beforeEach: (count) => count < 3,
+    });
+    logTest("Returning false from beforeEach stops starting new items", started === 3 && processed.join(',') === '1,2,3');
+  } catch (error) {
+    logTest("Sliding window", false, undefined, String(error));
+  }
+}
+
+async function runAllTests() {
+  console.log("\n========================================");
+  console.log("OUTBOUND HTTP TEST SUITE");
+  console.log("========================================\n");
+
+  testRetryAfter();
+  testTokenBucket();
+  await testClientRetries();
+  await testSlidingWindow();
+
+  // Print summary
+  console.log("\n========================================");
+  console.log("TEST SUMMARY");
+  console.log("========================================");
+
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  const total = results.length;
+  const passRate = ((passed / total) * 100).toFixed(1);
+
+  console.log(`Total Tests: ${total}`);
+  console.log(`Passed: ${passed} (${passRate}%)`);
+  console.log(`Failed: ${failed}`);
+  console.log("========================================\n");
+
+  if (failed > 0) {
+    console.log("Failed Tests:");
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`  - ${r.test}`);
+      if (r.error) console.log(`    Error: ${r.error}`);
+    });
+    console.log();
+  }
+
+  return failed === 0;
+}
+
+// Execute tests
+runAllTests().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error("Test suite failed:", error);
+  process.exit(1);
+});
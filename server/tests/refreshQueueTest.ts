@@ -0,0 +1,188 @@
+/**
+ * Refresh Queue Tests
+ * Runs offline: decay of the persisted refresh queue, ordering, and per-source alert and
+ * background due times
+ */
+
+import type { RefreshQueueEntry } from '@shared/schema';
+import { getEligibleEntries, getBackgroundDueAt, getNextBackgroundRefreshes, getSourceDueAt } from '../services/refreshQueue';
+import { prioritizeWatchedCountries } from '../services/watchlists';
+import { MemStorage } from '../storage';
+
+interface TestResult {
+  test: string;
+  passed: boolean;
+  details?: string;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(test: string, passed: boolean, details?: string, error?: string) {
+  results.push({ test, passed, details, error });
+  const status = passed ? "✓ PASS" : "✗ FAIL";
+  console.log(`${status}: ${test}`);
+  if (details) console.log(`  Details: ${details}`);
+  if (error) console.error(`  Error: ${error}`);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-03-15T12:00:00Z');
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * DAY_MS);
+
+function makeEntry(overrides: Partial<RefreshQueueEntry>): RefreshQueueEntry {
+  return {
+    countryName: 'japan',
+    accessCount: 1,
+    firstAccessed: daysAgo(30),
+    lastAccessed: daysAgo(1),
+    lastRefreshed: null,
+    sourceRefreshes: null,
+    lastBackgroundRefresh: null,
+    ...overrides,
+  };
+}
+
+const queue = [
+  makeEntry({ countryName: 'japan', accessCount: 3, lastAccessed: daysAgo(2) }),
+  makeEntry({ countryName: 'peru', accessCount: 9, lastAccessed: daysAgo(13) }),
+  makeEntry({ countryName: 'chile', accessCount: 3, lastAccessed: daysAgo(1) }),
+  makeEntry({ countryName: 'norway', accessCount: 20, lastAccessed: daysAgo(15) }),
+];
+
+function testDecayAndOrdering() {
+  try {
+    const eligible = getEligibleEntries(queue, NOW, 14).map(e => e.countryName);
+    logTest(
+      "Countries not viewed within the decay window drop out",
+      !eligible.includes('norway') && eligible.length === 3,
+      eligible.join(', ')
+    );
+
+    logTest(
+      "Eligible countries are ordered by views, then most recent view",
+      eligible.join(',') === 'peru,chile,japan',
+      eligible.join(', ')
+    );
+
+    const order = prioritizeWatchedCountries(['norway', 'japan'], eligible);
+    logTest(
+      "Watched countries stay at the front even after decaying",
+      order.join(',') === 'norway,japan,peru,chile',
+      order.join(', ')
+    );
+  } catch (error) {
+    logTest("Decay and ordering", false, undefined, String(error));
+  }
+}
+
+function testBackgroundDue() {
+  try {
+    const week = 7 * DAY_MS;
+    const neverRefreshed = makeEntry({ firstAccessed: daysAgo(3) });
+    const refreshed = makeEntry({ firstAccessed: daysAgo(30), lastBackgroundRefresh: daysAgo(8) });
+
+    logTest(
+      "Background refresh is due a week after the last refresh or first view",
+      getBackgroundDueAt(neverRefreshed, week).getTime() === daysAgo(-4).getTime() &&
+        getBackgroundDueAt(refreshed, week) <= NOW
+    );
+
+    const next = getNextBackgroundRefreshes([
+      makeEntry({ countryName: 'japan', lastBackgroundRefresh: daysAgo(1) }),
+      makeEntry({ countryName: 'peru', lastBackgroundRefresh: daysAgo(6) }),
+      makeEntry({ countryName: 'chile', lastBackgroundRefresh: daysAgo(3) }),
+    ], week, 2);
+    logTest(
+      "Next background refreshes are listed soonest first",
+      next.map(n => n.countryName).join(',') === 'peru,chile',
+      next.map(n => `${n.countryName} @ ${n.dueAt.toISOString()}`).join(', ')
+    );
+  } catch (error) {
+    logTest("Background due times", false, undefined, String(error));
+  }
+}
+
+async function testSourceDue() {
+  try {
+    const sixHours = 6 * 60 * 60 * 1000;
+    const hour = 60 * 60 * 1000;
+    const hoursAgo = (hours: number) => new Date(NOW.getTime() - hours * hour);
+
+    const entry = makeEntry({
+      firstAccessed: daysAgo(30),
+      lastRefreshed: hoursAgo(2),
+      sourceRefreshes: { 'uk-fcdo': hoursAgo(7).toISOString(), 'usgs': hoursAgo(0.5).toISOString() },
+    });
+    logTest(
+      "Each source is due its own interval after its last refresh of the country",
+      getSourceDueAt(entry, 'uk-fcdo', sixHours) <= NOW &&
+        getSourceDueAt(entry, 'usgs', hour).getTime() === hoursAgo(-0.5).getTime()
+    );
+    logTest(
+      "A source never refreshed for a country falls back to the last alert refresh, then the first view",
+      getSourceDueAt(entry, 'cdc', sixHours).getTime() === hoursAgo(-4).getTime() &&
+        getSourceDueAt(makeEntry({ firstAccessed: daysAgo(3) }), 'cdc', sixHours) <= NOW
+    );
+
+    // Refresh times are kept in storage, so a restarted scheduler sees the same due times
+    const store = new MemStorage();
+    await store.recordCountryAccess('japan');
+    await store.markSourcesRefreshed('japan', ['uk-fcdo', 'usgs'], hoursAgo(7));
+    await store.markSourcesRefreshed('japan', ['usgs'], hoursAgo(1));
+    const [stored] = await store.getRefreshQueue();
+    logTest(
+      "Refreshing some sources keeps the recorded times of the others",
+      stored.sourceRefreshes?.['uk-fcdo'] === hoursAgo(7).toISOString() &&
+        stored.sourceRefreshes?.['usgs'] === hoursAgo(1).toISOString() &&
+        stored.lastRefreshed?.getTime() === hoursAgo(1).getTime(),
+      JSON.stringify(stored.sourceRefreshes)
+    );
+  } catch (error) {
+    logTest("Source due times", false, undefined, String(error));
+  }
+}
+
+async function runAllTests() {
+  console.log("\n========================================");
+  console.log("REFRESH QUEUE TEST SUITE");
+  console.log("========================================\n");
+
+  testDecayAndOrdering();
+  testBackgroundDue();
+  await testSourceDue();
+
+  // Print summary
+  console.log("\n========================================");
+  console.log("TEST SUMMARY");
+  console.log("========================================");
+
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  const total = results.length;
+  const passRate = ((passed / total) * 100).toFixed(1);
+
+  console.log(`Total Tests: ${total}`);
+  console.log(`Passed: ${passed} (${passRate}%)`);
+  console.log(`Failed: ${failed}`);
+  console.log("========================================\n");
+
+  if (failed > 0) {
+    console.log("Failed Tests:");
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`  - ${r.test}`);
+      if (r.error) console.log(`    Error: ${r.error}`);
+    });
+    console.log();
+  }
+
+  return failed === 0;
+}
+
+// Execute tests
+runAllTests().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error("Test suite failed:", error);
+  process.exit(1);
+});
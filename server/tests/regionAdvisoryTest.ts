@@ -0,0 +1,357 @@
+/**
+ * Region Advisory Tests
+ * Runs offline against recorded fixtures: region name matching to admin-1 boundaries,
+ * FCDO area parsing, region levels and storing and serving region advisories
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  Admin1BoundaryFetcher,
+  buildRegionAdvisories,
+  findRegionMentions,
+  getRegionAdvisoryLevel,
+  normalizeRegionName,
+  parseFCDORegionAdvice,
+  prepareAdmin1Boundaries,
+  RegionAdvisoryService,
+  type Admin1Boundary,
+} from '../services/regionAdvisories';
+import { MemStorage } from '../storage';
+import type { Country, InsertAlert } from '@shared/schema';
+
+interface TestResult {
+  test: string;
+  passed: boolean;
+  details?: string;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+const FIXTURES_DIR = path.join(process.cwd(), 'server', 'tests', 'fixtures');
+
+function logTest(test: string, passed: boolean, details?: string, error?: string) {
+  results.push({ test, passed, details, error });
+  const status = passed ? "✓ PASS" : "✗ FAIL";
+  console.log(`${status}: ${test}`);
+  if (details) console.log(`  Details: ${details}`);
+  if (error) console.error(`  Error: ${error}`);
+}
+
+function readFixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf-8');
+}
+
+const boundaries = prepareAdmin1Boundaries(JSON.parse(readFixture('admin1-pakistan.geojson')));
+
+const pakistan: Country = { id: 'pakistan', name: 'pakistan', code: 'PK', flagUrl: null, lastUpdated: new Date() };
+
+function makeAlert(overrides: Partial<InsertAlert>): InsertAlert {
+  return {
+    countryId: 'pakistan',
+    source: 'US State Dept',
+    title: 'Travel Advisory - Level 3',
+    level: 'Level 3',
+    severity: 'medium',
+    summary: 'Reconsider travel to Pakistan due to terrorism.',
+    link: 'https://travel.state.gov/pakistan',
+    date: new Date(),
+    ...overrides,
+  };
+}
+
+const stateDeptAlert = makeAlert({
+  specificAreas: [
+    'Balochistan province: Do not travel due to terrorism and kidnapping',
+    'Khyber Pakhtunkhwa (KPK), including the former FATA - Level 4',
+    'Karachi and other parts of Sindh: reconsider travel due to crime',
+    'Tourist sites in Balochistan',
+    'Sindhi-speaking rural areas',
+  ],
+});
+
+function testMatching() {
+  try {
+    logTest(
+      "Region names are normalized without accents, punctuation or administrative words",
+      normalizeRegionName('Khyber-Pakhtunkhwa Province') === 'khyber pakhtunkhwa' &&
+        normalizeRegionName('Balochistán') === 'balochistan' &&
+        normalizeRegionName('Islamabad Capital Territory') === 'islamabad capital'
+    );
+
+    const codes = boundaries.map(b => b.code);
+    logTest(
+      "Boundaries use the ISO 3166-2 code, falling back to the dataset's shape id",
+      codes.length === 5 && codes.includes('PK-BA') && codes.includes('PAK-ADM1-5'),
+      codes.join(', ')
+    );
+
+    const mentions = (text: string) => findRegionMentions(text, boundaries).map(b => b.code).sort().join(',');
+    const both = mentions('Do not travel to Balochistan province and Khyber-Pakhtunkhwa.');
+    const partialWord = mentions('Sindhi-speaking rural areas');
+    logTest(
+      "Regions are found by whole words in advisory text",
+      both === 'PK-BA,PK-KP' && partialWord === '',
+      `"${both}", "${partialWord}"`
+    );
+
+    const nested: Admin1Boundary[] = [
+      { code: 'CD-NK', name: 'North Kivu', key: 'north kivu', geometry: boundaries[0].geometry },
+      { code: 'CD-KV', name: 'Kivu', key: 'kivu', geometry: boundaries[0].geometry },
+    ];
+    const nestedMatch = findRegionMentions('Do not travel to North Kivu', nested).map(b => b.code).join(',');
+    logTest(
+      "A longer region name is not also counted as the shorter name inside it",
+      nestedMatch === 'CD-NK',
+      nestedMatch
+    );
+  } catch (error) {
+    logTest("Matching", false, undefined, String(error));
+  }
+}
+
+function testLevels() {
+  try {
+    const levels = [
+      'Do not travel to Balochistan',
+      'Level 4: Do Not Travel',
+      'Advise against all travel - Bajaur',
+      'Advise against all but essential travel - Quetta',
+      'Reconsider travel due to crime',
+      'Exercise increased caution in Lahore',
+      'Tourist sites in Lahore',
+    ].map(getRegionAdvisoryLevel);
+    logTest(
+      "US and FCDO wording map onto levels 1-4",
+      levels.join(',') === '4,4,4,3,3,2,',
+      levels.join(', ')
+    );
+  } catch (error) {
+    logTest("Levels", false, undefined, String(error));
+  }
+}
+
+function testFCDOParsing() {
+  try {
+    const areas = parseFCDORegionAdvice(readFixture('fcdo-warnings-pakistan.html'));
+    const expected = [
+      'Advise against all travel - the districts of Kech, Panjgur and Awaran',
+      'Advise against all travel - within 10km of the border with Afghanistan',
+      'Advise against all but essential travel - the rest of Balochistan province',
+      'Advise against all travel - the districts of Bajaur, Mohmand and Khyber in Khyber Pakhtunkhwa province',
+    ];
+    logTest(
+      "FCDO areas are read from advice lists and sentences, ignoring unrelated lists",
+      JSON.stringify(areas) === JSON.stringify(expected),
+      areas.join(' | ')
+    );
+
+    const advisories = buildRegionAdvisories('pakistan', 'UK FCDO', [{ level: 'Advise against travel to parts of the country', specificAreas: areas }], boundaries);
+    const byCode = Object.fromEntries(advisories.map(a => [a.admin1Code, a.level]));
+    logTest(
+      "FCDO areas become region advisories at the level of their advice",
+      advisories.length === 2 && byCode['PK-BA'] === 3 && byCode['PK-KP'] === 4,
+      JSON.stringify(byCode)
+    );
+  } catch (error) {
+    logTest("FCDO parsing", false, undefined, String(error));
+  }
+}
+
+function testBuildingAdvisories() {
+  try {
+    const advisories = buildRegionAdvisories('pakistan', 'US State Dept', [stateDeptAlert], boundaries);
+    const byCode = Object.fromEntries(advisories.map(a => [a.admin1Code, a]));
+    logTest(
+      "Each region keeps its highest level and the wording it came from",
+      advisories.length === 3 &&
+        byCode['PK-BA']?.level === 4 && byCode['PK-BA'].sourceText.startsWith('Balochistan province') &&
+        byCode['PK-KP']?.level === 4 && byCode['PK-SD']?.level === 3 &&
+        byCode['PK-BA'].regionName === 'Balochistan',
+      advisories.map(a => `${a.admin1Code}=${a.level}`).join(', ')
+    );
+
+    const fallback = buildRegionAdvisories('pakistan', 'US State Dept', [makeAlert({ level: 'Level 2', specificAreas: ['Tourist sites in Punjab'] })], boundaries);
+    logTest(
+      "Areas without level wording take the alert's own level",
+      fallback.length === 1 && fallback[0].admin1Code === 'PK-PB' && fallback[0].level === 2
+    );
+  } catch (error) {
+    logTest("Building advisories", false, undefined, String(error));
+  }
+}
+
+async function testService() {
+  try {
+    const store = new MemStorage();
+    let failBoundaries = false;
+    let loads = 0;
+    const service = new RegionAdvisoryService({
+      getBoundaries: async (iso3) => {
+        loads++;
+        if (failBoundaries) throw new Error('Boundary service unavailable');
+        return iso3 === 'PAK' ? boundaries : [];
+      },
+    }, store);
+
+    await service.updateFromAlerts('pakistan', 'pakistan', 'US State Dept', [stateDeptAlert]);
+    await service.updateFromAlerts('pakistan', 'pakistan', 'UK FCDO', [makeAlert({
+      source: 'UK FCDO',
+      level: 'Advise against travel to parts of the country',
+      specificAreas: ['Advise against all but essential travel - the rest of Balochistan province'],
+    })]);
+    const stored = await store.getRegionAdvisories('pakistan');
+    logTest(
+      "Region advisories are stored per source",
+      stored.length === 4 && stored.filter(a => a.source === 'UK FCDO').length === 1,
+      `${stored.length} rows`
+    );
+
+    failBoundaries = true;
+    const failed = await service.updateFromAlerts('pakistan', 'pakistan', 'US State Dept', [makeAlert({ specificAreas: ['Sindh: Level 2'] })]);
+    const keptRows = (await store.getRegionAdvisories('pakistan')).length;
+    const cleared = await service.updateFromAlerts('pakistan', 'pakistan', 'US State Dept', [makeAlert({ specificAreas: null })]);
+    const afterClear = await store.getRegionAdvisories('pakistan');
+    logTest(
+      "Previous rows are kept when boundaries fail, and cleared when a source names no areas",
+      failed === null && keptRows === 4 && cleared?.length === 0 &&
+        afterClear.length === 1 && afterClear[0].source === 'UK FCDO'
+    );
+
+    failBoundaries = false;
+    await service.updateFromAlerts('pakistan', 'pakistan', 'US State Dept', [stateDeptAlert]);
+    const loadsBefore = loads;
+    const collection = await service.getBoundaryCollection([pakistan]);
+    const balochistan = collection.features.find(f => f.properties.admin1Code === 'PK-BA');
+    logTest(
+      "Boundaries are served as one GeoJSON feature per region with every source's advice",
+      collection.features.length === 3 && loads === loadsBefore + 1 &&
+        balochistan?.properties.level === 4 && balochistan.properties.advisories.length === 2 &&
+        balochistan.geometry.type === 'Polygon',
+      collection.features.map(f => `${f.properties.regionName}=${f.properties.level}`).join(', ')
+    );
+  } catch (error) {
+    logTest("Service", false, undefined, String(error));
+  }
+}
+
+async function testBoundaryCache() {
+  try {
+    // Counts dataset loads instead of downloading them
+    class CountingFetcher extends Admin1BoundaryFetcher {
+      loads: string[] = [];
+      protected async loadBoundaries(iso3: string): Promise<Admin1Boundary[]> {
+        this.loads.push(iso3);
+        return boundaries;
+      }
+    }
+
+    const fetcher = new CountingFetcher(2);
+    for (const iso3 of ['PAK', 'AFG', 'PAK', 'IRN', 'PAK', 'AFG']) {
+      await fetcher.getBoundaries(iso3);
+    }
+    logTest(
+      "The boundary cache evicts the least recently used country",
+      fetcher.loads.join(',') === 'PAK,AFG,IRN,AFG',
+      fetcher.loads.join(', ')
+    );
+  } catch (error) {
+    logTest("Boundary cache", false, undefined, String(error));
+  }
+}
+
+async function testParallelBoundaryLoading() {
+  try {
+    const store = new MemStorage();
+    const names = ['pakistan', 'afghanistan', 'iran', 'india', 'nepal', 'bangladesh'];
+    const countries: Country[] = names.map(name => ({ id: name, name, code: 'XX', flagUrl: null, lastUpdated: new Date() }));
+    for (const country of countries) {
+      await store.replaceRegionAdvisories(country.id, 'US State Dept', [{
+        countryId: country.id,
+        source: 'US State Dept',
+        regionName: 'Balochistan',
+        admin1Code: 'PK-BA',
+        level: 4,
+        sourceText: 'Balochistan',
+      }]);
+    }
+
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const service = new RegionAdvisoryService({
+      getBoundaries: async (iso3) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, iso3 === 'PAK' ? 60 : 20));
+        inFlight--;
+        if (iso3 === 'IRN') throw new Error('Boundary service unavailable');
+        return boundaries;
+      },
+    }, store);
+
+    const collection = await service.getBoundaryCollection(countries);
+    const order = collection.features.map(f => f.properties.countryId).join(',');
+    logTest(
+      "Boundaries load a few countries at a time and keep the requested order, skipping failures",
+      maxInFlight > 1 && maxInFlight <= 4 && order === 'pakistan,afghanistan,india,nepal,bangladesh',
+      `max ${maxInFlight} at once, ${order}`
+    );
+
+    const one = await service.getBoundaryCollection([countries[1]]);
+    logTest(
+      "Only the requested countries' boundaries are returned",
+      one.features.length === 1 && one.features[0].properties.countryId === 'afghanistan'
+    );
+  } catch (error) {
+    logTest("Parallel boundary loading", false, undefined, String(error));
+  }
+}
+
+async function runAllTests() {
+  console.log("\n========================================");
+  console.log("REGION ADVISORY TEST SUITE");
+  console.log("========================================\n");
+
+  testMatching();
+  testLevels();
+  testFCDOParsing();
+  testBuildingAdvisories();
+  await testService();
+  await testBoundaryCache();
+  await testParallelBoundaryLoading();
+
+  // Print summary
+  console.log("\n========================================");
+  console.log("TEST SUMMARY");
+  console.log("========================================");
+
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  const total = results.length;
+  const passRate = ((passed / total) * 100).toFixed(1);
+
+  console.log(`Total Tests: ${total}`);
+  console.log(`Passed: ${passed} (${passRate}%)`);
+  console.log(`Failed: ${failed}`);
+  console.log("========================================\n");
+
+  if (failed > 0) {
+    console.log("Failed Tests:");
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`  - ${r.test}`);
+      if (r.error) console.log(`    Error: ${r.error}`);
+    });
+    console.log();
+  }
+
+  return failed === 0;
+}
+
+// Execute tests
+runAllTests().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error("Test suite failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,182 @@
+/**
+ * ReliefWeb Tests
+ * Runs offline against recorded API responses: disaster and report alerts with their real
+ * titles, dates, types and links, deduplication by id and no alerts for empty responses
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  disastersToAlerts,
+  reportsToAlerts,
+  ReliefWebDataFetcher,
+  type DisasterFields,
+  type ReliefWebResponse,
+  type ReportFields,
+} from '../services/reliefWebFetcher';
+
+interface TestResult {
+  test: string;
+  passed: boolean;
+  details?: string;
+  error?: string;
+}
+
+const FIXTURES_DIR = path.join(process.cwd(), 'server', 'tests', 'fixtures');
+const results: TestResult[] = [];
+
+function logTest(test: string, passed: boolean, details?: string, error?: string) {
+  results.push({ test, passed, details, error });
+  const status = passed ? "✓ PASS" : "✗ FAIL";
+  console.log(`${status}: ${test}`);
+  if (details) console.log(`  Details: ${details}`);
+  if (error) console.error(`  Error: ${error}`);
+}
+
+function readFixture<T>(name: string): T {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf-8'));
+}
+
+const disasters = readFixture<ReliefWebResponse<DisasterFields>>('reliefweb-disasters.json');
+const reports = readFixture<ReliefWebResponse<ReportFields>>('reliefweb-reports.json');
+
+function testDisasters() {
+  try {
+    const alerts = disastersToAlerts(disasters, 'sudan');
+    logTest(
+      "Disasters are deduplicated by id, with string and numeric ids alike",
+      alerts.length === 2,
+      alerts.map(a => a.title).join(' | ')
+    );
+
+    const [cholera, floods] = alerts;
+    logTest(
+      "Disaster alerts carry the real name, event date, types and ReliefWeb link",
+      cholera.source === 'ReliefWeb' &&
+        cholera.title === 'Sudan: Cholera Outbreak - Aug 2026' &&
+        cholera.level === 'Epidemic' &&
+        cholera.date.toISOString() === '2026-08-10T00:00:00.000Z' &&
+        cholera.link === 'https://reliefweb.int/disaster/ep-2026-000131-sdn' &&
+        floods.level === 'Flood, Flash Flood' &&
+        floods.date.toISOString() === '2026-07-22T11:40:00.000Z',
+      `${cholera.level} ${cholera.date.toISOString()}, ${floods.level}`
+    );
+
+    logTest(
+      "Alert-status disasters are graded higher than ongoing ones; a missing URL links to the disaster page",
+      cholera.severity === 'high' && floods.severity === 'medium' &&
+        floods.link === 'https://reliefweb.int/disaster/51874' &&
+        cholera.summary.includes('disaster alert (Epidemic)') && floods.summary.includes('ongoing disaster'),
+      floods.link
+    );
+  } catch (error) {
+    logTest("Disasters", false, undefined, String(error));
+  }
+}
+
+function testReports() {
+  try {
+    const alerts = reportsToAlerts(reports, 'sudan');
+    logTest(
+      "Reports are deduplicated by id and untitled reports skipped",
+      alerts.length === 2,
+      alerts.map(a => a.title).join(' | ')
+    );
+
+    const [sitrep, access] = alerts;
+    logTest(
+      "Report alerts carry the real title, original date, type, publishers and link",
+      sitrep.title === 'Sudan: Cholera Situation Report No. 6 (as of 2 October 2026)' &&
+        sitrep.level === 'Epidemic' && sitrep.severity === 'info' &&
+        sitrep.date.toISOString() === '2026-10-02T00:00:00.000Z' &&
+        sitrep.summary === 'Report published by OCHA, World Health Organization on ReliefWeb.' &&
+        sitrep.link === 'https://reliefweb.int/report/sudan/sudan-cholera-situation-report-no-6',
+      sitrep.summary
+    );
+
+    logTest(
+      "Reports without a type, publisher or URL fall back to generic wording and the node link",
+      access.level === 'Situation Report' &&
+        access.summary === 'Report published on ReliefWeb.' &&
+        access.link === 'https://reliefweb.int/node/4119870' &&
+        access.date.toISOString() === '2026-09-28T15:30:00.000Z',
+      `${access.level}, ${access.link}`
+    );
+  } catch (error) {
+    logTest("Reports", false, undefined, String(error));
+  }
+}
+
+async function testEmptyResponses() {
+  try {
+    logTest(
+      "Empty or missing responses produce no alerts",
+      disastersToAlerts(null, 'japan').length === 0 &&
+        disastersToAlerts({ data: [] }, 'japan').length === 0 &&
+        reportsToAlerts(null, 'japan').length === 0 &&
+        reportsToAlerts({ totalCount: 0, count: 0, data: [] }, 'japan').length === 0
+    );
+
+    const fetcher = new ReliefWebDataFetcher();
+    fetcher.fetchDisasters = async () => ({ totalCount: 0, count: 0, data: [] });
+    fetcher.fetchReports = async () => ({ totalCount: 0, count: 0, data: [] });
+    const none = await fetcher.fetchCountryAlerts('JPN', 'japan');
+
+    fetcher.fetchDisasters = async () => disasters;
+    fetcher.fetchReports = async () => reports;
+    const both = await fetcher.fetchCountryAlerts('SDN', 'sudan');
+    logTest(
+      "A country ReliefWeb has nothing on gets no alert; otherwise disasters come before reports",
+      none.length === 0 && both.length === 4 &&
+        both[0].title.startsWith('Sudan: Cholera Outbreak') && both[2].title.startsWith('Sudan: Cholera Situation Report'),
+      `${none.length} and ${both.length} alerts`
+    );
+  } catch (error) {
+    logTest("Empty responses", false, undefined, String(error));
+  }
+}
+
+// Run all tests
+async function runAllTests() {
+  console.log("\n========================================");
+  console.log("RELIEFWEB TEST SUITE");
+  console.log("========================================\n");
+
+  testDisasters();
+  testReports();
+  await testEmptyResponses();
+
+  // Print summary
+  console.log("\n========================================");
+  console.log("TEST SUMMARY");
+  console.log("========================================");
+
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  const total = results.length;
+  const passRate = ((passed / total) * 100).toFixed(1);
+
+  console.log(`Total Tests: ${total}`);
+  console.log(`Passed: ${passed} (${passRate}%)`);
+  console.log(`Failed: ${failed}`);
+  console.log("========================================\n");
+
+  if (failed > 0) {
+    console.log("Failed Tests:");
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`  - ${r.test}`);
+      if (r.error) console.log(`    Error: ${r.error}`);
+    });
+    console.log();
+  }
+
+  return failed === 0;
+}
+
+// Execute tests
+runAllTests().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error("Test suite failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,204 @@
+/**
+ * Risk Score Tests
+ * Tests normalizing each alert source onto the common scale, the weighted composite score
+ * and flagging advisories that disagree
+ */
+
+import { createRiskScorerFromEnv, parseRiskWeights, RiskScorer } from '../services/riskScore';
+import type { Alert } from '@shared/schema';
+
+interface TestResult {
+  test: string;
+  passed: boolean;
+  details?: string;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(test: string, passed: boolean, details?: string, error?: string) {
+  results.push({ test, passed, details, error });
+  const status = passed ? "✓ PASS" : "✗ FAIL";
+  console.log(`${status}: ${test}`);
+  if (details) console.log(`  Details: ${details}`);
+  if (error) console.error(`  Error: ${error}`);
+}
+
+function makeAlert(overrides: Partial<Alert>): Alert {
+  return {
+    id: Math.random().toString(36).slice(2),
+    countryId: 'egypt',
+    source: 'US State Dept',
+    title: 'Travel Advisory',
+    level: 'Level 2',
+    severity: 'medium',
+    summary: 'Exercise increased caution.',
+    link: 'https://travel.state.gov/',
+    date: new Date(),
+    createdAt: new Date(),
+    keyRisks: null,
+    safetyRecommendations: null,
+    specificAreas: null,
+    aiEnhanced: null,
+    aiConfidence: null,
+    translations: null,
+    ...overrides,
+  };
+}
+
+const usLevel = (level: number) => makeAlert({ source: 'US State Dept', level: `Level ${level}` });
+const fcdo = (level: string, severity = 'high') => makeAlert({ source: 'UK FCDO', level, severity });
+
+function testNormalization() {
+  try {
+    const scorer = new RiskScorer();
+    const scoreOf = (alert: Alert) => scorer.score([alert])?.sources[0].score;
+
+    const us = [1, 2, 3, 4].map(level => scoreOf(usLevel(level)));
+    logTest(
+      "US State Dept levels map onto 0-100",
+      us.join(',') === '10,40,70,100',
+      us.join(', ')
+    );
+
+    const fcdoScores = [
+      fcdo('Advise against all travel'),
+      fcdo('Advise against all but essential travel'),
+      fcdo('Avoid All Travel To Parts'),
+      fcdo('Advise against travel to parts of the country', 'medium'),
+      fcdo('See travel advice', 'medium'),
+      fcdo('Standard', 'info'),
+    ].map(scoreOf);
+    logTest(
+      "FCDO advice scores whole-country advice above advice for parts",
+      fcdoScores.join(',') === '100,75,60,50,25,10',
+      fcdoScores.join(', ')
+    );
+
+    const cdc = scoreOf(makeAlert({ source: 'CDC', level: 'Level 3 - Reconsider Nonessential Travel', severity: 'high' }));
+    const quake = scoreOf(makeAlert({ source: 'USGS', level: 'Magnitude 6.8', severity: 'high' }));
+    const custom = scoreOf(makeAlert({ source: 'Local Police Feed', level: null, severity: 'low' }));
+    logTest(
+      "CDC uses its level; hazard feeds and unknown sources use severity",
+      cdc === 70 && quake === 75 && custom === 25,
+      `CDC ${cdc}, USGS ${quake}, custom ${custom}`
+    );
+  } catch (error) {
+    logTest("Normalization", false, undefined, String(error));
+  }
+}
+
+function testComposite() {
+  try {
+    const scorer = new RiskScorer({ 'us-state-dept': 3, 'uk-fcdo': 1, 'usgs': 0 });
+    const result = scorer.score([
+      usLevel(3),
+      fcdo('Advise against all travel'),
+      makeAlert({ source: 'USGS', level: 'Magnitude 4.6', severity: 'low' }),
+      makeAlert({ source: 'USGS', level: 'Magnitude 6.9', severity: 'high' }),
+    ]);
+    const usgs = result?.sources.find(s => s.sourceId === 'usgs');
+    logTest(
+      "The composite is the weighted average of each source's most severe alert",
+      result?.score === Math.round((70 * 3 + 100 * 1) / 4) && result.sources.length === 3 &&
+        usgs?.score === 75 && usgs.weight === 0 && result.sources[0].sourceId === 'us-state-dept',
+      result ? `score ${result.score}: ${result.sources.map(s => `${s.sourceId}=${s.score}x${s.weight}`).join(', ')}` : 'no score'
+    );
+
+    logTest(
+      "Countries without alerts have no score",
+      scorer.score([]) === null
+    );
+  } catch (error) {
+    logTest("Composite", false, undefined, String(error));
+  }
+}
+
+function testDisagreements() {
+  try {
+    const scorer = new RiskScorer();
+    const conflicting = scorer.score([usLevel(1), fcdo('Advise against all travel')]);
+    const [disagreement] = conflicting?.disagreements ?? [];
+    logTest(
+      "US Level 1 while the FCDO advises against all travel is flagged",
+      conflicting?.disagreements.length === 1 && disagreement.higher.source === 'UK FCDO' &&
+        disagreement.lower.source === 'US State Dept' && disagreement.difference === 90,
+      disagreement ? `${disagreement.higher.level} vs ${disagreement.lower.level}` : 'not flagged'
+    );
+
+    const close = scorer.score([usLevel(2), fcdo('Advise against travel to parts of the country', 'medium')]);
+    const healthOnly = scorer.score([usLevel(1), makeAlert({ source: 'CDC', level: 'Level 4 - Avoid Nonessential Travel', severity: 'high' })]);
+    logTest(
+      "Close advisories, and health or hazard feeds, are not flagged",
+      close?.disagreements.length === 0 && healthOnly?.disagreements.length === 0
+    );
+  } catch (error) {
+    logTest("Disagreements", false, undefined, String(error));
+  }
+}
+
+function testConfiguration() {
+  try {
+    const weights = parseRiskWeights('uk-fcdo=50, usgs=0, bogus, cdc=-1');
+    logTest(
+      "Weights from the environment override the defaults and skip invalid entries",
+      weights['uk-fcdo'] === 50 && weights['usgs'] === 0 && weights['cdc'] === 15 && !('bogus' in weights)
+    );
+
+    const strict = createRiskScorerFromEnv({ RISK_DISAGREEMENT_THRESHOLD: '20', RISK_SCORE_WEIGHTS: 'us-state-dept=0,uk-fcdo=0' });
+    const result = strict.score([usLevel(2), fcdo('See travel advice', 'medium')]);
+    logTest(
+      "The disagreement threshold is configurable, and all-zero weights give no composite",
+      result?.disagreements.length === 0 && result.score === null &&
+        strict.score([usLevel(2), fcdo('Advise against travel to parts of the country', 'medium')])?.disagreements.length === 0 &&
+        strict.score([usLevel(1), fcdo('Advise against travel to parts of the country', 'medium')])?.disagreements.length === 1
+    );
+  } catch (error) {
+    logTest("Configuration", false, undefined, String(error));
+  }
+}
+
+async function runAllTests() {
+  console.log("\n========================================");
+  console.log("RISK SCORE TEST SUITE");
+  console.log("========================================\n");
+
+  testNormalization();
+  testComposite();
+  testDisagreements();
+  testConfiguration();
+
+  // Print summary
+  console.log("\n========================================");
+  console.log("TEST SUMMARY");
+  console.log("========================================");
+
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  const total = results.length;
+  const passRate = ((passed / total) * 100).toFixed(1);
+
+  console.log(`Total Tests: ${total}`);
+  console.log(`Passed: ${passed} (${passRate}%)`);
+  console.log(`Failed: ${failed}`);
+  console.log("========================================\n");
+
+  if (failed > 0) {
+    console.log("Failed Tests:");
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`  - ${r.test}`);
+      if (r.error) console.log(`    Error: ${r.error}`);
+    });
+    console.log();
+  }
+
+  return failed === 0;
+}
+
+// Execute tests
+runAllTests().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error("Test suite failed:", error);
+  process.exit(1);
+});
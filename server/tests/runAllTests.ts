@@ -19,6 +19,29 @@ const testSuites = [
   { name: 'Search Functionality', file: 'server/tests/searchTest.ts' },
   { name: 'Bulk Refresh', file: 'server/tests/bulkRefreshTest.ts' },
   { name: 'PDF Export', file: 'server/tests/pdfExportTest.ts' },
+  { name: 'USGS Earthquake Feed', file: 'server/tests/earthquakeFeedTest.ts' },
+  { name: 'CDC Travel Health Notices', file: 'server/tests/cdcNoticesTest.ts' },
+  { name: 'ReliefWeb', file: 'server/tests/reliefWebTest.ts' },
+  { name: 'Country Registry', file: 'server/tests/countryRegistryTest.ts' },
+  { name: 'Advisory Change Notifications', file: 'server/tests/notificationTest.ts' },
+  { name: 'Watchlists', file: 'server/tests/watchlistTest.ts' },
+  { name: 'Trip Assessment', file: 'server/tests/tripAssessmentTest.ts' },
+  { name: 'Refresh Queue', file: 'server/tests/refreshQueueTest.ts' },
+  { name: 'Cron Schedules', file: 'server/tests/cronScheduleTest.ts' },
+  { name: 'Leases', file: 'server/tests/leaseTest.ts' },
+  { name: 'Job Queue', file: 'server/tests/jobQueueTest.ts' },
+  { name: 'Outbound HTTP', file: 'server/tests/outboundHttpTest.ts' },
+  { name: 'Job Events', file: 'server/tests/jobEventsTest.ts' },
+  { name: 'AI Enhancement', file: 'server/tests/aiEnhancementTest.ts' },
+  { name: 'AI Usage', file: 'server/tests/aiUsageTest.ts' },
+  { name: 'Translations', file: 'server/tests/translationTest.ts' },
+  { name: 'Risk Score', file: 'server/tests/riskScoreTest.ts' },
+  { name: 'Region Advisories', file: 'server/tests/regionAdvisoryTest.ts' },
+  { name: 'Advisory Sections', file: 'server/tests/advisorySectionTest.ts' },
+  { name: 'Entry Requirements', file: 'server/tests/entryRequirementsTest.ts' },
+  { name: 'Alert Sources', file: 'server/tests/alertSourcesTest.ts' },
+  { name: 'Job Tasks', file: 'server/tests/jobTasksTest.ts' },
+  { name: 'Advisory History', file: 'server/tests/alertHistoryTest.ts' },
 ];
 
 async function runTestSuite(name: string, file: string): Promise<TestSuiteResult> {
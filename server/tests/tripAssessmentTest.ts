@@ -0,0 +1,207 @@
+/**
+ * Trip Assessment Tests
+ * Runs offline: leg validation, per-leg risk, trip-wide highest level and nearest embassy
+ */
+
+import { tripLegSchema, type Alert, type CountryData, type EmbassyConsulate, type Trip } from '@shared/schema';
+import { assessTrip, findNearestEmbassy, haversineKm } from '../services/tripAssessment';
+
+interface TestResult {
+  test: string;
+  passed: boolean;
+  details?: string;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(test: string, passed: boolean, details?: string, error?: string) {
+  results.push({ test, passed, details, error });
+  const status = passed ? "✓ PASS" : "✗ FAIL";
+  console.log(`${status}: ${test}`);
+  if (details) console.log(`  Details: ${details}`);
+  if (error) console.error(`  Error: ${error}`);
+}
+
+function makeEmbassy(overrides: Partial<EmbassyConsulate>): EmbassyConsulate {
+  return {
+    id: Math.random().toString(36).slice(2),
+    countryCode: 'TR',
+    name: 'U.S. Embassy Ankara',
+    type: 'embassy',
+    latitude: '39.9030',
+    longitude: '32.8597',
+    streetAddress: null,
+    city: 'Ankara',
+    phone: null,
+    website: null,
+    lastUpdated: new Date(),
+    ...overrides,
+  };
+}
+
+function makeAlert(overrides: Partial<Alert>): Alert {
+  return {
+    id: Math.random().toString(36).slice(2),
+    countryId: 'turkey',
+    source: 'US State Dept',
+    title: 'Travel Advisory',
+    level: 'Level 2',
+    severity: 'medium',
+    summary: 'Exercise increased caution.',
+    link: 'https://travel.state.gov/',
+    date: new Date(),
+    createdAt: new Date(),
+    keyRisks: null,
+    safetyRecommendations: null,
+    specificAreas: null,
+    aiEnhanced: null,
+    aiConfidence: null,
+    translations: null,
+    ...overrides,
+  };
+}
+
+function makeCountryData(name: string, code: string, alerts: Alert[], embassies: EmbassyConsulate[]): CountryData {
+  return {
+    country: { id: name, name, code, flagUrl: null, lastUpdated: new Date() },
+    alerts,
+    background: null,
+    embassies,
+    sections: [],
+  };
+}
+
+const ankara = makeEmbassy({});
+const istanbul = makeEmbassy({ name: 'U.S. Consulate General Istanbul', type: 'consulate_general', latitude: '41.1339', longitude: '29.0577', city: 'Istanbul' });
+const ISTANBUL_CITY = { latitude: 41.0082, longitude: 28.9784 };
+
+function testLegValidation() {
+  try {
+    const valid = tripLegSchema.safeParse({ countryName: 'turkey', startDate: '2026-05-01', endDate: '2026-05-04' });
+    const backwards = tripLegSchema.safeParse({ countryName: 'turkey', city: 'Istanbul', startDate: '2026-05-04', endDate: '2026-05-01' });
+    const badFormat = tripLegSchema.safeParse({ countryName: 'turkey', startDate: '05/01/2026', endDate: '2026-05-04' });
+
+    logTest(
+      "Leg validation defaults city and rejects bad date ranges",
+      valid.success && valid.data.city === null && !backwards.success && !badFormat.success
+    );
+  } catch (error) {
+    logTest("Leg validation", false, undefined, String(error));
+  }
+}
+
+function testNearestEmbassy() {
+  try {
+    const distance = haversineKm({ latitude: 51.5074, longitude: -0.1278 }, { latitude: 48.8566, longitude: 2.3522 });
+    logTest(
+      "Haversine distance London-Paris is about 344 km",
+      Math.abs(distance - 344) < 5,
+      `${distance.toFixed(1)} km`
+    );
+
+    const byLocation = findNearestEmbassy([ankara, istanbul], ISTANBUL_CITY, 'Istanbul');
+    logTest(
+      "Located city picks the closest mission",
+      byLocation?.embassy.name === istanbul.name && byLocation.distanceKm !== null && byLocation.distanceKm < 25,
+      `${byLocation?.embassy.name} (${byLocation?.distanceKm} km)`
+    );
+
+    const byCity = findNearestEmbassy([ankara, istanbul], null, 'istanbul');
+    const fallback = findNearestEmbassy([istanbul, ankara], null, 'Antalya');
+    logTest(
+      "Without coordinates, a same-city mission wins, then the embassy",
+      byCity?.embassy.name === istanbul.name && byCity.distanceKm === null &&
+        fallback?.embassy.name === ankara.name,
+      `${byCity?.embassy.name}; ${fallback?.embassy.name}`
+    );
+  } catch (error) {
+    logTest("Nearest embassy", false, undefined, String(error));
+  }
+}
+
+function testAssessTrip() {
+  try {
+    const trip: Trip = {
+      id: 'trip-1',
+      name: 'Spring tour',
+      notes: null,
+      legs: [
+        { countryName: 'turkey', city: 'Istanbul', startDate: '2026-05-01', endDate: '2026-05-04' },
+        { countryName: 'egypt', city: null, startDate: '2026-05-05', endDate: '2026-05-09' },
+        { countryName: 'atlantis', city: null, startDate: '2026-05-10', endDate: '2026-05-11' },
+      ],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const turkey = makeCountryData('turkey', 'TR', [makeAlert({}), makeAlert({ source: 'CDC', level: null, severity: 'high' })], [ankara, istanbul]);
+    const egypt = makeCountryData('egypt', 'EG', [makeAlert({ countryId: 'egypt', level: 'Level 3', severity: 'high' })], []);
+
+    const assessment = assessTrip(trip, [
+      { countryData: turkey, cityLocation: ISTANBUL_CITY, embassies: turkey.embassies },
+      { countryData: egypt, cityLocation: null, embassies: [] },
+      { countryData: undefined, cityLocation: null, embassies: [] },
+    ]);
+
+    const [first, second, third] = assessment.legs;
+    logTest(
+      "Each leg carries its State Dept level and highest severity",
+      first.stateDeptLevel === 2 && first.highestSeverity === 'high' &&
+        second.stateDeptLevel === 3 && third.stateDeptLevel === null && third.country === null,
+      assessment.legs.map(l => `${l.leg.countryName}: ${l.stateDeptLevel}/${l.highestSeverity}`).join(', ')
+    );
+
+    logTest(
+      "Trip reports its highest level and nearest embassy per leg",
+      assessment.highestLevel === 3 && first.nearestEmbassy?.name === istanbul.name && second.nearestEmbassy === null,
+      `highest: Level ${assessment.highestLevel}`
+    );
+  } catch (error) {
+    logTest("Trip assessment", false, undefined, String(error));
+  }
+}
+
+async function runAllTests() {
+  console.log("\n========================================");
+  console.log("TRIP ASSESSMENT TEST SUITE");
+  console.log("========================================\n");
+
+  testLegValidation();
+  testNearestEmbassy();
+  testAssessTrip();
+
+  // Print summary
+  console.log("\n========================================");
+  console.log("TEST SUMMARY");
+  console.log("========================================");
+
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  const total = results.length;
+  const passRate = ((passed / total) * 100).toFixed(1);
+
+  console.log(`Total Tests: ${total}`);
+  console.log(`Passed: ${passed} (${passRate}%)`);
+  console.log(`Failed: ${failed}`);
+  console.log("========================================\n");
+
+  if (failed > 0) {
+    console.log("Failed Tests:");
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`  - ${r.test}`);
+      if (r.error) console.log(`    Error: ${r.error}`);
+    });
+    console.log();
+  }
+
+  return failed === 0;
+}
+
+// Execute tests
+runAllTests().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error("Test suite failed:", error);
+  process.exit(1);
+});
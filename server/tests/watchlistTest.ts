@@ -0,0 +1,213 @@
+/**
+ * Watchlist Tests
+ * Runs offline: subscription matching, the notification filter and refresh ordering
+ */
+
+import type { Watchlist } from '@shared/schema';
+import type { AdvisoryChanged } from '../services/changeDetection';
+import { NotificationService, type Notifier } from '../services/notifiers';
+import {
+  subscriptionMatches,
+  findWatchlistMatches,
+  getWatchedCountryNames,
+  prioritizeWatchedCountries,
+  createWatchlistFilter,
+} from '../services/watchlists';
+
+interface TestResult {
+  test: string;
+  passed: boolean;
+  details?: string;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(test: string, passed: boolean, details?: string, error?: string) {
+  results.push({ test, passed, details, error });
+  const status = passed ? "✓ PASS" : "✗ FAIL";
+  console.log(`${status}: ${test}`);
+  if (details) console.log(`  Details: ${details}`);
+  if (error) console.error(`  Error: ${error}`);
+}
+
+function makeWatchlist(overrides: Partial<Watchlist>): Watchlist {
+  return {
+    id: Math.random().toString(36).slice(2),
+    name: 'Trips',
+    countries: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function makeEvent(overrides: Partial<AdvisoryChanged>): AdvisoryChanged {
+  return {
+    type: 'AdvisoryChanged',
+    countryId: 'mexico',
+    countryName: 'mexico',
+    source: 'US State Dept',
+    direction: 'upgraded',
+    oldLevel: 'Level 2',
+    newLevel: 'Level 3',
+    oldSeverity: 'medium',
+    newSeverity: 'high',
+    title: 'Mexico Travel Advisory',
+    link: 'https://travel.state.gov/mexico',
+    detectedAt: new Date(),
+    ...overrides,
+  };
+}
+
+const SOURCE_IDS: Record<string, string> = {
+  'US State Dept': 'us-state-dept',
+  'UK FCDO': 'uk-fcdo',
+  'CDC': 'cdc',
+};
+
+function testSubscriptionMatching() {
+  try {
+    const allSources = { countryName: 'mexico', sources: [], minSeverity: 'medium' as const };
+    const fcdoOnly = { countryName: 'mexico', sources: ['uk-fcdo'], minSeverity: 'info' as const };
+    const highOnly = { countryName: 'mexico', sources: [], minSeverity: 'high' as const };
+
+    logTest(
+      "Empty source list matches any source",
+      subscriptionMatches(allSources, makeEvent({}), 'us-state-dept') &&
+        subscriptionMatches(allSources, makeEvent({ source: 'CDC' }), 'cdc')
+    );
+
+    logTest(
+      "Source list restricts which sources notify",
+      !subscriptionMatches(fcdoOnly, makeEvent({}), 'us-state-dept') &&
+        subscriptionMatches(fcdoOnly, makeEvent({ source: 'UK FCDO' }), 'uk-fcdo')
+    );
+
+    const lowChange = makeEvent({ oldSeverity: 'low', newSeverity: 'medium' });
+    const downgradeFromHigh = makeEvent({ direction: 'downgraded', oldSeverity: 'high', newSeverity: 'medium' });
+    logTest(
+      "Minimum severity compares against the higher of old and new severity",
+      !subscriptionMatches(highOnly, lowChange, 'us-state-dept') &&
+        subscriptionMatches(highOnly, downgradeFromHigh, 'us-state-dept')
+    );
+
+    logTest(
+      "Other countries never match",
+      !subscriptionMatches(allSources, makeEvent({ countryName: 'canada' }), 'us-state-dept')
+    );
+
+    const matches = findWatchlistMatches([
+      makeWatchlist({ name: 'Work', countries: [allSources] }),
+      makeWatchlist({ name: 'Family', countries: [fcdoOnly] }),
+    ], makeEvent({}), 'us-state-dept');
+    logTest(
+      "Matches are collected across watchlists",
+      matches.length === 1 && matches[0].watchlist.name === 'Work',
+      matches.map(m => m.watchlist.name).join(', ')
+    );
+  } catch (error) {
+    logTest("Subscription matching", false, undefined, String(error));
+  }
+}
+
+function testRefreshOrdering() {
+  try {
+    const watched = getWatchedCountryNames([
+      makeWatchlist({ countries: [{ countryName: 'japan', sources: [], minSeverity: 'low' }] }),
+      makeWatchlist({ countries: [
+        { countryName: 'japan', sources: ['cdc'], minSeverity: 'high' },
+        { countryName: 'peru', sources: [], minSeverity: 'medium' },
+      ] }),
+    ]);
+    const order = prioritizeWatchedCountries(watched, new Set(['france', 'peru', 'chile']));
+
+    logTest(
+      "Watched countries are refreshed first without duplicates",
+      order.join(',') === 'japan,peru,france,chile',
+      order.join(', ')
+    );
+  } catch (error) {
+    logTest("Refresh ordering", false, undefined, String(error));
+  }
+}
+
+async function testNotificationFilter() {
+  try {
+    const sent: string[] = [];
+    const notifier: Notifier = {
+      id: 'capture',
+      send: async (event) => { sent.push(`${event.countryName}:${event.source}`); },
+    };
+
+    let watchlists: Watchlist[] = [];
+    const service = new NotificationService();
+    service.setNotifiers([notifier]);
+    service.setFilter(createWatchlistFilter(async () => watchlists, label => SOURCE_IDS[label]));
+
+    await service.dispatch(makeEvent({ countryName: 'canada' }));
+    logTest(
+      "Every change is delivered while no watchlists exist",
+      sent.length === 1,
+      sent.join(', ')
+    );
+
+    watchlists = [makeWatchlist({ countries: [{ countryName: 'mexico', sources: ['us-state-dept'], minSeverity: 'medium' }] })];
+    const skipped = await service.dispatch(makeEvent({ countryName: 'canada' }));
+    const skippedSource = await service.dispatch(makeEvent({ source: 'CDC' }));
+    const delivered = await service.dispatch(makeEvent({}));
+
+    logTest(
+      "Once watchlists exist only subscribed changes are delivered",
+      skipped === null && skippedSource === null && delivered?.delivered[0] === 'capture' &&
+        sent.length === 2 && sent[1] === 'mexico:US State Dept',
+      sent.join(', ')
+    );
+  } catch (error) {
+    logTest("Notification filter", false, undefined, String(error));
+  }
+}
+
+async function runAllTests() {
+  console.log("\n========================================");
+  console.log("WATCHLIST TEST SUITE");
+  console.log("========================================\n");
+
+  testSubscriptionMatching();
+  testRefreshOrdering();
+  await testNotificationFilter();
+
+  // Print summary
+  console.log("\n========================================");
+  console.log("TEST SUMMARY");
+  console.log("========================================");
+
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  const total = results.length;
+  const passRate = ((passed / total) * 100).toFixed(1);
+
+  console.log(`Total Tests: ${total}`);
+  console.log(`Passed: ${passed} (${passRate}%)`);
+  console.log(`Failed: ${failed}`);
+  console.log("========================================\n");
+
+  if (failed > 0) {
+    console.log("Failed Tests:");
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`  - ${r.test}`);
+      if (r.error) console.log(`    Error: ${r.error}`);
+    });
+    console.log();
+  }
+
+  return failed === 0;
+}
+
+// Execute tests
+runAllTests().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error("Test suite failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,256 @@
+/**
+ * Shared outbound HTTP layer. Every request to a third-party API goes through a per-host
+ * token bucket, so concurrent fetchers don't overrun the same upstream. Hosts that answer
+ * 429 or 5xx are slowed down automatically and recover gradually as requests succeed.
+ */
+
+export interface HostLimit {
+  ratePerSecond: number;
+  burst: number;
+}
+
+export interface OutboundRequestInit extends RequestInit {
+  retries?: number; // Defaults to 3 for GET/HEAD; other methods are not retried unless set
+}
+
+export interface HostStats {
+  host: string;
+  configuredRate: number;
+  currentRate: number;
+  pausedUntil: Date | null;
+}
+
+export const DEFAULT_HOST_LIMIT: HostLimit = { ratePerSecond: 5, burst: 5 };
+
+// Upstream APIs we call regularly, with what they tolerate
+export const HOST_LIMITS: Record<string, HostLimit> = {
+  'www.gov.uk': { ratePerSecond: 10, burst: 10 },
+  'restcountries.com': { ratePerSecond: 5, burst: 5 },
+  'api.worldbank.org': { ratePerSecond: 5, burst: 5 },
+  'travel.state.gov': { ratePerSecond: 2, burst: 4 },
+  'cadataapi.state.gov': { ratePerSecond: 1, burst: 1 },
+  'api.openai.com': { ratePerSecond: 5, burst: 10 },
+  'api.reliefweb.int': { ratePerSecond: 2, burst: 2 },
+  'overpass-api.de': { ratePerSecond: 0.5, burst: 1 },
+  'nominatim.openstreetmap.org': { ratePerSecond: 1, burst: 1 }, // Usage policy allows 1 request per second
+  'www.geoboundaries.org': { ratePerSecond: 1, burst: 2 },
+};
+
+const MIN_RATE_FRACTION = 0.05; // Slowdowns never drop a host below 5% of its configured rate
+const RECOVERY_FRACTION = 0.1; // Each successful response restores 10% of the configured rate
+const DEFAULT_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000; // Ignore absurd Retry-After values
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds from now
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | null {
+  if (!value) return null;
+
+  const trimmed = value.trim();
+  const delayMs = /^\d+$/.test(trimmed)
+    ? parseInt(trimmed, 10) * 1000
+    : Date.parse(trimmed) - now;
+
+  if (isNaN(delayMs)) return null;
+  return Math.min(Math.max(delayMs, 0), MAX_RETRY_AFTER_MS);
+}
+
+/**
+ * Whether a response status means the host is overloaded or failing
+ */
+export function isThrottleStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Exponential backoff for the given retry attempt (1-based): 1s, 2s, 4s ... capped at 30s
+ */
+export function getBackoffDelay(attempt: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Token bucket whose refill rate adapts to how the host responds
+ */
+export class TokenBucket {
+  private tokens: number;
+  private rate: number;
+  private lastRefill: number;
+  private pausedUntil = 0;
+
+  constructor(readonly limit: HostLimit, now: number = Date.now()) {
+    this.tokens = limit.burst;
+    this.rate = limit.ratePerSecond;
+    this.lastRefill = now;
+  }
+
+  getRate(): number {
+    return this.rate;
+  }
+
+  getPausedUntil(): number {
+    return this.pausedUntil;
+  }
+
+  /**
+   * Current rate as a fraction of the configured rate; 1 means not throttled
+   */
+  getHealth(): number {
+    return this.rate / this.limit.ratePerSecond;
+  }
+
+  /**
+   * Take a token if one is available. Returns 0 when taken, otherwise how long to wait before trying again.
+   */
+  tryTake(now: number = Date.now()): number {
+    this.refill(now);
+
+    if (now < this.pausedUntil) {
+      return this.pausedUntil - now;
+    }
+
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+
+    return Math.ceil(((1 - this.tokens) / this.rate) * 1000);
+  }
+
+  /**
+   * Halve the rate, and stop handing out tokens until Retry-After has passed
+   */
+  slowDown(now: number = Date.now(), retryAfterMs: number | null = null): void {
+    this.refill(now);
+    this.rate = Math.max(this.rate / 2, this.limit.ratePerSecond * MIN_RATE_FRACTION);
+    this.tokens = Math.min(this.tokens, 1);
+
+    if (retryAfterMs !== null) {
+      this.pausedUntil = Math.max(this.pausedUntil, now + retryAfterMs);
+    }
+  }
+
+  /**
+   * Step the rate back up towards the configured rate after a successful response
+   */
+  recover(now: number = Date.now()): void {
+    this.refill(now);
+    this.rate = Math.min(this.rate + this.limit.ratePerSecond * RECOVERY_FRACTION, this.limit.ratePerSecond);
+  }
+
+  private refill(now: number): void {
+    const elapsed = Math.max(now - this.lastRefill, 0);
+    this.tokens = Math.min(this.limit.burst, this.tokens + (elapsed / 1000) * this.rate);
+    this.lastRefill = now;
+  }
+}
+
+function getHost(input: string | URL | Request): string {
+  const url = input instanceof Request ? input.url : input.toString();
+  return new URL(url).host;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class OutboundHttpClient {
+  private buckets: Map<string, TokenBucket> = new Map();
+
+  constructor(
+    private readonly limits: Record<string, HostLimit> = HOST_LIMITS,
+    private readonly fetchImpl: typeof fetch = (input, init) => fetch(input, init),
+  ) {}
+
+  private getBucket(host: string): TokenBucket {
+    let bucket = this.buckets.get(host);
+    if (!bucket) {
+      bucket = new TokenBucket(this.limits[host] ?? DEFAULT_HOST_LIMIT);
+      this.buckets.set(host, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Wait until the host's bucket allows another request
+   */
+  async acquire(host: string): Promise<void> {
+    const bucket = this.getBucket(host);
+    let wait: number;
+    while ((wait = bucket.tryTake(Date.now())) > 0) {
+      await delay(wait);
+    }
+  }
+
+  /**
+   * Adjust the host's rate from a response. Used directly by callers that can't go through fetch().
+   */
+  recordResponse(host: string, status: number, retryAfter?: string | null): void {
+    const bucket = this.getBucket(host);
+    if (isThrottleStatus(status)) {
+      bucket.slowDown(Date.now(), parseRetryAfter(retryAfter));
+      console.warn(`[OutboundHttp] ${host} returned ${status}, slowing to ${bucket.getRate().toFixed(2)} req/s`);
+    } else {
+      bucket.recover(Date.now());
+    }
+  }
+
+  /**
+   * fetch() through the host's rate limit. 429 and 5xx responses slow the host down and are retried,
+   * after Retry-After when the host sends one. The last response is returned even if it still failed.
+   */
+  async fetch(input: string | URL | Request, init: OutboundRequestInit = {}): Promise<Response> {
+    const { retries, ...requestInit } = init;
+    const host = getHost(input);
+    const method = (requestInit.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase();
+    const maxRetries = retries ?? (method === 'GET' || method === 'HEAD' ? DEFAULT_RETRIES : 0);
+
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(host);
+
+      let response: Response;
+      try {
+        response = await this.fetchImpl(input, requestInit);
+      } catch (error) {
+        if (attempt >= maxRetries || requestInit.signal?.aborted) {
+          throw error;
+        }
+        const backoff = getBackoffDelay(attempt + 1);
+        console.warn(`[OutboundHttp] Request to ${host} failed, retry ${attempt + 1}/${maxRetries} in ${backoff}ms`);
+        await delay(backoff);
+        continue;
+      }
+
+      this.recordResponse(host, response.status, response.headers.get('retry-after'));
+      if (!isThrottleStatus(response.status) || attempt >= maxRetries) {
+        return response;
+      }
+
+      // Retry-After pauses the bucket itself, so only back off when the host didn't say how long to wait
+      await response.body?.cancel();
+      if (parseRetryAfter(response.headers.get('retry-after')) === null) {
+        await delay(getBackoffDelay(attempt + 1));
+      }
+    }
+  }
+
+  /**
+   * Hosts currently running below their configured rate
+   */
+  getThrottledHosts(): HostStats[] {
+    const now = Date.now();
+    return Array.from(this.buckets.entries())
+      .filter(([, bucket]) => bucket.getHealth() < 1 || bucket.getPausedUntil() > now)
+      .map(([host, bucket]) => ({
+        host,
+        configuredRate: bucket.limit.ratePerSecond,
+        currentRate: bucket.getRate(),
+        pausedUntil: bucket.getPausedUntil() > now ? new Date(bucket.getPausedUntil()) : null,
+      }));
+  }
+}
+
+export const outboundHttp = new OutboundHttpClient();
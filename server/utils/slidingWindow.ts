@@ -0,0 +1,47 @@
+/**
+ * Run a worker over items with at most `concurrency()` in flight. A new item starts as soon as
+ * any running one finishes, so one slow item doesn't hold up the rest. The limit is re-read
+ * before every start, which lets callers shrink or grow the window while it runs.
+ *
+ * `beforeEach` runs right before an item starts; returning false stops starting new items
+ * (items already running still finish). Resolves with the number of items started.
+ */
+export async function runSlidingWindow<T>(
+  items: T[],
+  options: {
+    concurrency: () => number;
+    worker: (item: T) => Promise<void>;
+    beforeEach?: (started: number) => boolean | Promise<boolean>;
+  }
+): Promise<number> {
+  const inFlight = new Set<Promise<void>>();
+  let firstError: unknown = null;
+  let started = 0;
+
+  for (const item of items) {
+    while (inFlight.size >= Math.max(1, options.concurrency())) {
+      await Promise.race(inFlight);
+    }
+
+    if (firstError !== null || (options.beforeEach && !(await options.beforeEach(started)))) {
+      break;
+    }
+
+    const running: Promise<void> = options.worker(item)
+      .catch(error => {
+        if (firstError === null) firstError = error;
+      })
+      .finally(() => {
+        inFlight.delete(running);
+      });
+    inFlight.add(running);
+    started++;
+  }
+
+  await Promise.all(Array.from(inFlight));
+
+  if (firstError !== null) {
+    throw firstError;
+  }
+  return started;
+}
@@ -0,0 +1,456 @@
+/**
+ * Canonical ISO 3166 country registry shared by the server and client.
+ * Canonical names are lowercase common names; record ids are derived from them.
+ */
+
+export type CountrySource = "stateDept" | "fcdo" | "cdc";
+
+export interface CountryRecord {
+  alpha2: string;
+  alpha3: string;
+  numeric: string | null; // Kosovo has no ISO numeric code
+  name: string; // canonical lowercase name used across the app
+  commonName: string;
+  officialName: string;
+  aliases: string[];
+  region: string;
+  subregion: string;
+  slugs: Record<CountrySource, string>;
+}
+
+// [alpha2, alpha3, numeric, commonName, officialName, region, subregion]
+type CountryRow = [string, string, string | null, string, string, string, string];
+
+const ISO_3166_ROWS: CountryRow[] = [
+  // Africa
+  ["DZ", "DZA", "012", "Algeria", "People's Democratic Republic of Algeria", "Africa", "Northern Africa"],
+  ["EG", "EGY", "818", "Egypt", "Arab Republic of Egypt", "Africa", "Northern Africa"],
+  ["LY", "LBY", "434", "Libya", "State of Libya", "Africa", "Northern Africa"],
+  ["MA", "MAR", "504", "Morocco", "Kingdom of Morocco", "Africa", "Northern Africa"],
+  ["SD", "SDN", "729", "Sudan", "Republic of the Sudan", "Africa", "Northern Africa"],
+  ["TN", "TUN", "788", "Tunisia", "Republic of Tunisia", "Africa", "Northern Africa"],
+  ["EH", "ESH", "732", "Western Sahara", "Western Sahara", "Africa", "Northern Africa"],
+  ["IO", "IOT", "086", "British Indian Ocean Territory", "British Indian Ocean Territory", "Africa", "Eastern Africa"],
+  ["BI", "BDI", "108", "Burundi", "Republic of Burundi", "Africa", "Eastern Africa"],
+  ["KM", "COM", "174", "Comoros", "Union of the Comoros", "Africa", "Eastern Africa"],
+  ["DJ", "DJI", "262", "Djibouti", "Republic of Djibouti", "Africa", "Eastern Africa"],
+  ["ER", "ERI", "232", "Eritrea", "State of Eritrea", "Africa", "Eastern Africa"],
+  ["ET", "ETH", "231", "Ethiopia", "Federal Democratic Republic of Ethiopia", "Africa", "Eastern Africa"],
+  ["TF", "ATF", "260", "French Southern Territories", "French Southern and Antarctic Lands", "Africa", "Eastern Africa"],
+  ["KE", "KEN", "404", "Kenya", "Republic of Kenya", "Africa", "Eastern Africa"],
+  ["MG", "MDG", "450", "Madagascar", "Republic of Madagascar", "Africa", "Eastern Africa"],
+  ["MW", "MWI", "454", "Malawi", "Republic of Malawi", "Africa", "Eastern Africa"],
+  ["MU", "MUS", "480", "Mauritius", "Republic of Mauritius", "Africa", "Eastern Africa"],
+  ["YT", "MYT", "175", "Mayotte", "Department of Mayotte", "Africa", "Eastern Africa"],
+  ["MZ", "MOZ", "508", "Mozambique", "Republic of Mozambique", "Africa", "Eastern Africa"],
+  ["RE", "REU", "638", "Reunion", "Réunion", "Africa", "Eastern Africa"],
+  ["RW", "RWA", "646", "Rwanda", "Republic of Rwanda", "Africa", "Eastern Africa"],
+  ["SC", "SYC", "690", "Seychelles", "Republic of Seychelles", "Africa", "Eastern Africa"],
+  ["SO", "SOM", "706", "Somalia", "Federal Republic of Somalia", "Africa", "Eastern Africa"],
+  ["SS", "SSD", "728", "South Sudan", "Republic of South Sudan", "Africa", "Eastern Africa"],
+  ["TZ", "TZA", "834", "Tanzania", "United Republic of Tanzania", "Africa", "Eastern Africa"],
+  ["UG", "UGA", "800", "Uganda", "Republic of Uganda", "Africa", "Eastern Africa"],
+  ["ZM", "ZMB", "894", "Zambia", "Republic of Zambia", "Africa", "Eastern Africa"],
+  ["ZW", "ZWE", "716", "Zimbabwe", "Republic of Zimbabwe", "Africa", "Eastern Africa"],
+  ["AO", "AGO", "024", "Angola", "Republic of Angola", "Africa", "Middle Africa"],
+  ["CM", "CMR", "120", "Cameroon", "Republic of Cameroon", "Africa", "Middle Africa"],
+  ["CF", "CAF", "140", "Central African Republic", "Central African Republic", "Africa", "Middle Africa"],
+  ["TD", "TCD", "148", "Chad", "Republic of Chad", "Africa", "Middle Africa"],
+  ["CG", "COG", "178", "Congo", "Republic of the Congo", "Africa", "Middle Africa"],
+  ["CD", "COD", "180", "Democratic Republic of the Congo", "Democratic Republic of the Congo", "Africa", "Middle Africa"],
+  ["GQ", "GNQ", "226", "Equatorial Guinea", "Republic of Equatorial Guinea", "Africa", "Middle Africa"],
+  ["GA", "GAB", "266", "Gabon", "Gabonese Republic", "Africa", "Middle Africa"],
+  ["ST", "STP", "678", "Sao Tome and Principe", "Democratic Republic of São Tomé and Príncipe", "Africa", "Middle Africa"],
+  ["BW", "BWA", "072", "Botswana", "Republic of Botswana", "Africa", "Southern Africa"],
+  ["SZ", "SWZ", "748", "Eswatini", "Kingdom of Eswatini", "Africa", "Southern Africa"],
+  ["LS", "LSO", "426", "Lesotho", "Kingdom of Lesotho", "Africa", "Southern Africa"],
+  ["NA", "NAM", "516", "Namibia", "Republic of Namibia", "Africa", "Southern Africa"],
+  ["ZA", "ZAF", "710", "South Africa", "Republic of South Africa", "Africa", "Southern Africa"],
+  ["BJ", "BEN", "204", "Benin", "Republic of Benin", "Africa", "Western Africa"],
+  ["BF", "BFA", "854", "Burkina Faso", "Burkina Faso", "Africa", "Western Africa"],
+  ["CV", "CPV", "132", "Cape Verde", "Republic of Cabo Verde", "Africa", "Western Africa"],
+  ["CI", "CIV", "384", "Ivory Coast", "Republic of Côte d'Ivoire", "Africa", "Western Africa"],
+  ["GM", "GMB", "270", "Gambia", "Republic of the Gambia", "Africa", "Western Africa"],
+  ["GH", "GHA", "288", "Ghana", "Republic of Ghana", "Africa", "Western Africa"],
+  ["GN", "GIN", "324", "Guinea", "Republic of Guinea", "Africa", "Western Africa"],
+  ["GW", "GNB", "624", "Guinea-Bissau", "Republic of Guinea-Bissau", "Africa", "Western Africa"],
+  ["LR", "LBR", "430", "Liberia", "Republic of Liberia", "Africa", "Western Africa"],
+  ["ML", "MLI", "466", "Mali", "Republic of Mali", "Africa", "Western Africa"],
+  ["MR", "MRT", "478", "Mauritania", "Islamic Republic of Mauritania", "Africa", "Western Africa"],
+  ["NE", "NER", "562", "Niger", "Republic of the Niger", "Africa", "Western Africa"],
+  ["NG", "NGA", "566", "Nigeria", "Federal Republic of Nigeria", "Africa", "Western Africa"],
+  ["SH", "SHN", "654", "Saint Helena", "Saint Helena, Ascension and Tristan da Cunha", "Africa", "Western Africa"],
+  ["SN", "SEN", "686", "Senegal", "Republic of Senegal", "Africa", "Western Africa"],
+  ["SL", "SLE", "694", "Sierra Leone", "Republic of Sierra Leone", "Africa", "Western Africa"],
+  ["TG", "TGO", "768", "Togo", "Togolese Republic", "Africa", "Western Africa"],
+
+  // Americas
+  ["AI", "AIA", "660", "Anguilla", "Anguilla", "Americas", "Caribbean"],
+  ["AG", "ATG", "028", "Antigua and Barbuda", "Antigua and Barbuda", "Americas", "Caribbean"],
+  ["AW", "ABW", "533", "Aruba", "Aruba", "Americas", "Caribbean"],
+  ["BS", "BHS", "044", "Bahamas", "Commonwealth of the Bahamas", "Americas", "Caribbean"],
+  ["BB", "BRB", "052", "Barbados", "Barbados", "Americas", "Caribbean"],
+  ["BQ", "BES", "535", "Caribbean Netherlands", "Bonaire, Sint Eustatius and Saba", "Americas", "Caribbean"],
+  ["VG", "VGB", "092", "British Virgin Islands", "Virgin Islands (British)", "Americas", "Caribbean"],
+  ["KY", "CYM", "136", "Cayman Islands", "Cayman Islands", "Americas", "Caribbean"],
+  ["CU", "CUB", "192", "Cuba", "Republic of Cuba", "Americas", "Caribbean"],
+  ["CW", "CUW", "531", "Curacao", "Country of Curaçao", "Americas", "Caribbean"],
+  ["DM", "DMA", "212", "Dominica", "Commonwealth of Dominica", "Americas", "Caribbean"],
+  ["DO", "DOM", "214", "Dominican Republic", "Dominican Republic", "Americas", "Caribbean"],
+  ["GD", "GRD", "308", "Grenada", "Grenada", "Americas", "Caribbean"],
+  ["GP", "GLP", "312", "Guadeloupe", "Guadeloupe", "Americas", "Caribbean"],
+  ["HT", "HTI", "332", "Haiti", "Republic of Haiti", "Americas", "Caribbean"],
+  ["JM", "JAM", "388", "Jamaica", "Jamaica", "Americas", "Caribbean"],
+  ["MQ", "MTQ", "474", "Martinique", "Martinique", "Americas", "Caribbean"],
+  ["MS", "MSR", "500", "Montserrat", "Montserrat", "Americas", "Caribbean"],
+  ["PR", "PRI", "630", "Puerto Rico", "Commonwealth of Puerto Rico", "Americas", "Caribbean"],
+  ["BL", "BLM", "652", "Saint Barthelemy", "Collectivity of Saint Barthélemy", "Americas", "Caribbean"],
+  ["KN", "KNA", "659", "Saint Kitts and Nevis", "Federation of Saint Kitts and Nevis", "Americas", "Caribbean"],
+  ["LC", "LCA", "662", "Saint Lucia", "Saint Lucia", "Americas", "Caribbean"],
+  ["MF", "MAF", "663", "Saint Martin", "Saint Martin (French part)", "Americas", "Caribbean"],
+  ["VC", "VCT", "670", "Saint Vincent and the Grenadines", "Saint Vincent and the Grenadines", "Americas", "Caribbean"],
+  ["SX", "SXM", "534", "Sint Maarten", "Sint Maarten (Dutch part)", "Americas", "Caribbean"],
+  ["TT", "TTO", "780", "Trinidad and Tobago", "Republic of Trinidad and Tobago", "Americas", "Caribbean"],
+  ["TC", "TCA", "796", "Turks and Caicos Islands", "Turks and Caicos Islands", "Americas", "Caribbean"],
+  ["VI", "VIR", "850", "US Virgin Islands", "Virgin Islands of the United States", "Americas", "Caribbean"],
+  ["BZ", "BLZ", "084", "Belize", "Belize", "Americas", "Central America"],
+  ["CR", "CRI", "188", "Costa Rica", "Republic of Costa Rica", "Americas", "Central America"],
+  ["SV", "SLV", "222", "El Salvador", "Republic of El Salvador", "Americas", "Central America"],
+  ["GT", "GTM", "320", "Guatemala", "Republic of Guatemala", "Americas", "Central America"],
+  ["HN", "HND", "340", "Honduras", "Republic of Honduras", "Americas", "Central America"],
+  ["MX", "MEX", "484", "Mexico", "United Mexican States", "Americas", "Central America"],
+  ["NI", "NIC", "558", "Nicaragua", "Republic of Nicaragua", "Americas", "Central America"],
+  ["PA", "PAN", "591", "Panama", "Republic of Panama", "Americas", "Central America"],
+  ["AR", "ARG", "032", "Argentina", "Argentine Republic", "Americas", "South America"],
+  ["BO", "BOL", "068", "Bolivia", "Plurinational State of Bolivia", "Americas", "South America"],
+  ["BV", "BVT", "074", "Bouvet Island", "Bouvet Island", "Americas", "South America"],
+  ["BR", "BRA", "076", "Brazil", "Federative Republic of Brazil", "Americas", "South America"],
+  ["CL", "CHL", "152", "Chile", "Republic of Chile", "Americas", "South America"],
+  ["CO", "COL", "170", "Colombia", "Republic of Colombia", "Americas", "South America"],
+  ["EC", "ECU", "218", "Ecuador", "Republic of Ecuador", "Americas", "South America"],
+  ["FK", "FLK", "238", "Falkland Islands", "Falkland Islands (Malvinas)", "Americas", "South America"],
+  ["GF", "GUF", "254", "French Guiana", "French Guiana", "Americas", "South America"],
+  ["GY", "GUY", "328", "Guyana", "Co-operative Republic of Guyana", "Americas", "South America"],
+  ["PY", "PRY", "600", "Paraguay", "Republic of Paraguay", "Americas", "South America"],
+  ["PE", "PER", "604", "Peru", "Republic of Peru", "Americas", "South America"],
+  ["GS", "SGS", "239", "South Georgia", "South Georgia and the South Sandwich Islands", "Americas", "South America"],
+  ["SR", "SUR", "740", "Suriname", "Republic of Suriname", "Americas", "South America"],
+  ["UY", "URY", "858", "Uruguay", "Oriental Republic of Uruguay", "Americas", "South America"],
+  ["VE", "VEN", "862", "Venezuela", "Bolivarian Republic of Venezuela", "Americas", "South America"],
+  ["BM", "BMU", "060", "Bermuda", "Bermuda", "Americas", "Northern America"],
+  ["CA", "CAN", "124", "Canada", "Canada", "Americas", "Northern America"],
+  ["GL", "GRL", "304", "Greenland", "Greenland", "Americas", "Northern America"],
+  ["PM", "SPM", "666", "Saint Pierre and Miquelon", "Saint Pierre and Miquelon", "Americas", "Northern America"],
+  ["US", "USA", "840", "United States", "United States of America", "Americas", "Northern America"],
+
+  // Asia
+  ["KZ", "KAZ", "398", "Kazakhstan", "Republic of Kazakhstan", "Asia", "Central Asia"],
+  ["KG", "KGZ", "417", "Kyrgyzstan", "Kyrgyz Republic", "Asia", "Central Asia"],
+  ["TJ", "TJK", "762", "Tajikistan", "Republic of Tajikistan", "Asia", "Central Asia"],
+  ["TM", "TKM", "795", "Turkmenistan", "Turkmenistan", "Asia", "Central Asia"],
+  ["UZ", "UZB", "860", "Uzbekistan", "Republic of Uzbekistan", "Asia", "Central Asia"],
+  ["CN", "CHN", "156", "China", "People's Republic of China", "Asia", "Eastern Asia"],
+  ["HK", "HKG", "344", "Hong Kong", "Hong Kong Special Administrative Region of China", "Asia", "Eastern Asia"],
+  ["MO", "MAC", "446", "Macau", "Macao Special Administrative Region of China", "Asia", "Eastern Asia"],
+  ["JP", "JPN", "392", "Japan", "Japan", "Asia", "Eastern Asia"],
+  ["MN", "MNG", "496", "Mongolia", "Mongolia", "Asia", "Eastern Asia"],
+  ["KP", "PRK", "408", "North Korea", "Democratic People's Republic of Korea", "Asia", "Eastern Asia"],
+  ["KR", "KOR", "410", "South Korea", "Republic of Korea", "Asia", "Eastern Asia"],
+  ["TW", "TWN", "158", "Taiwan", "Taiwan", "Asia", "Eastern Asia"],
+  ["BN", "BRN", "096", "Brunei", "Brunei Darussalam", "Asia", "South-eastern Asia"],
+  ["KH", "KHM", "116", "Cambodia", "Kingdom of Cambodia", "Asia", "South-eastern Asia"],
+  ["ID", "IDN", "360", "Indonesia", "Republic of Indonesia", "Asia", "South-eastern Asia"],
+  ["LA", "LAO", "418", "Laos", "Lao People's Democratic Republic", "Asia", "South-eastern Asia"],
+  ["MY", "MYS", "458", "Malaysia", "Malaysia", "Asia", "South-eastern Asia"],
+  ["MM", "MMR", "104", "Myanmar", "Republic of the Union of Myanmar", "Asia", "South-eastern Asia"],
+  ["PH", "PHL", "608", "Philippines", "Republic of the Philippines", "Asia", "South-eastern Asia"],
+  ["SG", "SGP", "702", "Singapore", "Republic of Singapore", "Asia", "South-eastern Asia"],
+  ["TH", "THA", "764", "Thailand", "Kingdom of Thailand", "Asia", "South-eastern Asia"],
+  ["TL", "TLS", "626", "Timor-Leste", "Democratic Republic of Timor-Leste", "Asia", "South-eastern Asia"],
+  ["VN", "VNM", "704", "Vietnam", "Socialist Republic of Viet Nam", "Asia", "South-eastern Asia"],
+  ["AF", "AFG", "004", "Afghanistan", "Islamic Republic of Afghanistan", "Asia", "Southern Asia"],
+  ["BD", "BGD", "050", "Bangladesh", "People's Republic of Bangladesh", "Asia", "Southern Asia"],
+  ["BT", "BTN", "064", "Bhutan", "Kingdom of Bhutan", "Asia", "Southern Asia"],
+  ["IN", "IND", "356", "India", "Republic of India", "Asia", "Southern Asia"],
+  ["IR", "IRN", "364", "Iran", "Islamic Republic of Iran", "Asia", "Southern Asia"],
+  ["MV", "MDV", "462", "Maldives", "Republic of Maldives", "Asia", "Southern Asia"],
+  ["NP", "NPL", "524", "Nepal", "Federal Democratic Republic of Nepal", "Asia", "Southern Asia"],
+  ["PK", "PAK", "586", "Pakistan", "Islamic Republic of Pakistan", "Asia", "Southern Asia"],
+  ["LK", "LKA", "144", "Sri Lanka", "Democratic Socialist Republic of Sri Lanka", "Asia", "Southern Asia"],
+  ["AM", "ARM", "051", "Armenia", "Republic of Armenia", "Asia", "Western Asia"],
+  ["AZ", "AZE", "031", "Azerbaijan", "Republic of Azerbaijan", "Asia", "Western Asia"],
+  ["BH", "BHR", "048", "Bahrain", "Kingdom of Bahrain", "Asia", "Western Asia"],
+  ["CY", "CYP", "196", "Cyprus", "Republic of Cyprus", "Asia", "Western Asia"],
+  ["GE", "GEO", "268", "Georgia", "Georgia", "Asia", "Western Asia"],
+  ["IQ", "IRQ", "368", "Iraq", "Republic of Iraq", "Asia", "Western Asia"],
+  ["IL", "ISR", "376", "Israel", "State of Israel", "Asia", "Western Asia"],
+  ["JO", "JOR", "400", "Jordan", "Hashemite Kingdom of Jordan", "Asia", "Western Asia"],
+  ["KW", "KWT", "414", "Kuwait", "State of Kuwait", "Asia", "Western Asia"],
+  ["LB", "LBN", "422", "Lebanon", "Lebanese Republic", "Asia", "Western Asia"],
+  ["OM", "OMN", "512", "Oman", "Sultanate of Oman", "Asia", "Western Asia"],
+  ["PS", "PSE", "275", "Palestine", "State of Palestine", "Asia", "Western Asia"],
+  ["QA", "QAT", "634", "Qatar", "State of Qatar", "Asia", "Western Asia"],
+  ["SA", "SAU", "682", "Saudi Arabia", "Kingdom of Saudi Arabia", "Asia", "Western Asia"],
+  ["SY", "SYR", "760", "Syria", "Syrian Arab Republic", "Asia", "Western Asia"],
+  ["TR", "TUR", "792", "Turkey", "Republic of Türkiye", "Asia", "Western Asia"],
+  ["AE", "ARE", "784", "United Arab Emirates", "United Arab Emirates", "Asia", "Western Asia"],
+  ["YE", "YEM", "887", "Yemen", "Republic of Yemen", "Asia", "Western Asia"],
+
+  // Europe
+  ["BY", "BLR", "112", "Belarus", "Republic of Belarus", "Europe", "Eastern Europe"],
+  ["BG", "BGR", "100", "Bulgaria", "Republic of Bulgaria", "Europe", "Eastern Europe"],
+  ["CZ", "CZE", "203", "Czech Republic", "Czech Republic", "Europe", "Eastern Europe"],
+  ["HU", "HUN", "348", "Hungary", "Hungary", "Europe", "Eastern Europe"],
+  ["MD", "MDA", "498", "Moldova", "Republic of Moldova", "Europe", "Eastern Europe"],
+  ["PL", "POL", "616", "Poland", "Republic of Poland", "Europe", "Eastern Europe"],
+  ["RO", "ROU", "642", "Romania", "Romania", "Europe", "Eastern Europe"],
+  ["RU", "RUS", "643", "Russia", "Russian Federation", "Europe", "Eastern Europe"],
+  ["SK", "SVK", "703", "Slovakia", "Slovak Republic", "Europe", "Eastern Europe"],
+  ["UA", "UKR", "804", "Ukraine", "Ukraine", "Europe", "Eastern Europe"],
+  ["AX", "ALA", "248", "Aland Islands", "Åland Islands", "Europe", "Northern Europe"],
+  ["DK", "DNK", "208", "Denmark", "Kingdom of Denmark", "Europe", "Northern Europe"],
+  ["EE", "EST", "233", "Estonia", "Republic of Estonia", "Europe", "Northern Europe"],
+  ["FO", "FRO", "234", "Faroe Islands", "Faroe Islands", "Europe", "Northern Europe"],
+  ["FI", "FIN", "246", "Finland", "Republic of Finland", "Europe", "Northern Europe"],
+  ["GG", "GGY", "831", "Guernsey", "Bailiwick of Guernsey", "Europe", "Northern Europe"],
+  ["IS", "ISL", "352", "Iceland", "Iceland", "Europe", "Northern Europe"],
+  ["IE", "IRL", "372", "Ireland", "Ireland", "Europe", "Northern Europe"],
+  ["IM", "IMN", "833", "Isle of Man", "Isle of Man", "Europe", "Northern Europe"],
+  ["JE", "JEY", "832", "Jersey", "Bailiwick of Jersey", "Europe", "Northern Europe"],
+  ["LV", "LVA", "428", "Latvia", "Republic of Latvia", "Europe", "Northern Europe"],
+  ["LT", "LTU", "440", "Lithuania", "Republic of Lithuania", "Europe", "Northern Europe"],
+  ["NO", "NOR", "578", "Norway", "Kingdom of Norway", "Europe", "Northern Europe"],
+  ["SJ", "SJM", "744", "Svalbard and Jan Mayen", "Svalbard and Jan Mayen", "Europe", "Northern Europe"],
+  ["SE", "SWE", "752", "Sweden", "Kingdom of Sweden", "Europe", "Northern Europe"],
+  ["GB", "GBR", "826", "United Kingdom", "United Kingdom of Great Britain and Northern Ireland", "Europe", "Northern Europe"],
+  ["AL", "ALB", "008", "Albania", "Republic of Albania", "Europe", "Southern Europe"],
+  ["AD", "AND", "020", "Andorra", "Principality of Andorra", "Europe", "Southern Europe"],
+  ["BA", "BIH", "070", "Bosnia and Herzegovina", "Bosnia and Herzegovina", "Europe", "Southern Europe"],
+  ["HR", "HRV", "191", "Croatia", "Republic of Croatia", "Europe", "Southern Europe"],
+  ["GI", "GIB", "292", "Gibraltar", "Gibraltar", "Europe", "Southern Europe"],
+  ["GR", "GRC", "300", "Greece", "Hellenic Republic", "Europe", "Southern Europe"],
+  ["VA", "VAT", "336", "Vatican City", "Holy See", "Europe", "Southern Europe"],
+  ["IT", "ITA", "380", "Italy", "Italian Republic", "Europe", "Southern Europe"],
+  ["XK", "XKX", null, "Kosovo", "Republic of Kosovo", "Europe", "Southern Europe"],
+  ["MT", "MLT", "470", "Malta", "Republic of Malta", "Europe", "Southern Europe"],
+  ["ME", "MNE", "499", "Montenegro", "Montenegro", "Europe", "Southern Europe"],
+  ["MK", "MKD", "807", "North Macedonia", "Republic of North Macedonia", "Europe", "Southern Europe"],
+  ["PT", "PRT", "620", "Portugal", "Portuguese Republic", "Europe", "Southern Europe"],
+  ["SM", "SMR", "674", "San Marino", "Republic of San Marino", "Europe", "Southern Europe"],
+  ["RS", "SRB", "688", "Serbia", "Republic of Serbia", "Europe", "Southern Europe"],
+  ["SI", "SVN", "705", "Slovenia", "Republic of Slovenia", "Europe", "Southern Europe"],
+  ["ES", "ESP", "724", "Spain", "Kingdom of Spain", "Europe", "Southern Europe"],
+  ["AT", "AUT", "040", "Austria", "Republic of Austria", "Europe", "Western Europe"],
+  ["BE", "BEL", "056", "Belgium", "Kingdom of Belgium", "Europe", "Western Europe"],
+  ["FR", "FRA", "250", "France", "French Republic", "Europe", "Western Europe"],
+  ["DE", "DEU", "276", "Germany", "Federal Republic of Germany", "Europe", "Western Europe"],
+  ["LI", "LIE", "438", "Liechtenstein", "Principality of Liechtenstein", "Europe", "Western Europe"],
+  ["LU", "LUX", "442", "Luxembourg", "Grand Duchy of Luxembourg", "Europe", "Western Europe"],
+  ["MC", "MCO", "492", "Monaco", "Principality of Monaco", "Europe", "Western Europe"],
+  ["NL", "NLD", "528", "Netherlands", "Kingdom of the Netherlands", "Europe", "Western Europe"],
+  ["CH", "CHE", "756", "Switzerland", "Swiss Confederation", "Europe", "Western Europe"],
+
+  // Oceania
+  ["AU", "AUS", "036", "Australia", "Commonwealth of Australia", "Oceania", "Australia and New Zealand"],
+  ["CX", "CXR", "162", "Christmas Island", "Territory of Christmas Island", "Oceania", "Australia and New Zealand"],
+  ["CC", "CCK", "166", "Cocos Islands", "Cocos (Keeling) Islands", "Oceania", "Australia and New Zealand"],
+  ["HM", "HMD", "334", "Heard Island and McDonald Islands", "Heard Island and McDonald Islands", "Oceania", "Australia and New Zealand"],
+  ["NZ", "NZL", "554", "New Zealand", "New Zealand", "Oceania", "Australia and New Zealand"],
+  ["NF", "NFK", "574", "Norfolk Island", "Norfolk Island", "Oceania", "Australia and New Zealand"],
+  ["FJ", "FJI", "242", "Fiji", "Republic of Fiji", "Oceania", "Melanesia"],
+  ["NC", "NCL", "540", "New Caledonia", "New Caledonia", "Oceania", "Melanesia"],
+  ["PG", "PNG", "598", "Papua New Guinea", "Independent State of Papua New Guinea", "Oceania", "Melanesia"],
+  ["SB", "SLB", "090", "Solomon Islands", "Solomon Islands", "Oceania", "Melanesia"],
+  ["VU", "VUT", "548", "Vanuatu", "Republic of Vanuatu", "Oceania", "Melanesia"],
+  ["GU", "GUM", "316", "Guam", "Guam", "Oceania", "Micronesia"],
+  ["KI", "KIR", "296", "Kiribati", "Republic of Kiribati", "Oceania", "Micronesia"],
+  ["MH", "MHL", "584", "Marshall Islands", "Republic of the Marshall Islands", "Oceania", "Micronesia"],
+  ["FM", "FSM", "583", "Micronesia", "Federated States of Micronesia", "Oceania", "Micronesia"],
+  ["NR", "NRU", "520", "Nauru", "Republic of Nauru", "Oceania", "Micronesia"],
+  ["MP", "MNP", "580", "Northern Mariana Islands", "Commonwealth of the Northern Mariana Islands", "Oceania", "Micronesia"],
+  ["PW", "PLW", "585", "Palau", "Republic of Palau", "Oceania", "Micronesia"],
+  ["UM", "UMI", "581", "US Minor Outlying Islands", "United States Minor Outlying Islands", "Oceania", "Micronesia"],
+  ["AS", "ASM", "016", "American Samoa", "American Samoa", "Oceania", "Polynesia"],
+  ["CK", "COK", "184", "Cook Islands", "Cook Islands", "Oceania", "Polynesia"],
+  ["PF", "PYF", "258", "French Polynesia", "French Polynesia", "Oceania", "Polynesia"],
+  ["NU", "NIU", "570", "Niue", "Niue", "Oceania", "Polynesia"],
+  ["PN", "PCN", "612", "Pitcairn Islands", "Pitcairn, Henderson, Ducie and Oeno Islands", "Oceania", "Polynesia"],
+  ["WS", "WSM", "882", "Samoa", "Independent State of Samoa", "Oceania", "Polynesia"],
+  ["TK", "TKL", "772", "Tokelau", "Tokelau", "Oceania", "Polynesia"],
+  ["TO", "TON", "776", "Tonga", "Kingdom of Tonga", "Oceania", "Polynesia"],
+  ["TV", "TUV", "798", "Tuvalu", "Tuvalu", "Oceania", "Polynesia"],
+  ["WF", "WLF", "876", "Wallis and Futuna", "Territory of the Wallis and Futuna Islands", "Oceania", "Polynesia"],
+
+  // Antarctica
+  ["AQ", "ATA", "010", "Antarctica", "Antarctica", "Antarctica", "Antarctica"],
+];
+
+// Alternate names and spellings, keyed by alpha-2 code
+const COUNTRY_ALIASES: Record<string, string[]> = {
+  US: ["usa", "us", "u.s.", "america"],
+  GB: ["uk", "britain", "great britain", "england", "scotland", "wales", "northern ireland"],
+  RU: ["russian federation"],
+  CZ: ["czechia"],
+  MM: ["burma", "burma (myanmar)"],
+  CI: ["cote d'ivoire", "côte d'ivoire"],
+  TL: ["east timor"],
+  CV: ["cabo verde"],
+  SZ: ["swaziland"],
+  MK: ["macedonia"],
+  CG: ["republic of congo", "congo-brazzaville", "congo (brazzaville)", "congo republic"],
+  CD: ["drc", "dr congo", "democratic republic of congo", "congo-kinshasa", "congo (kinshasa)", "zaire"],
+  KR: ["korea, south"],
+  KP: ["korea, north", "dprk"],
+  TR: ["turkiye", "türkiye"],
+  VA: ["holy see", "vatican"],
+  PS: ["palestinian territories", "occupied palestinian territories", "west bank", "gaza"],
+  VN: ["viet nam"],
+  LA: ["lao pdr"],
+  AE: ["uae"],
+  NL: ["holland"],
+  BS: ["the bahamas"],
+  GM: ["the gambia"],
+  MO: ["macao"],
+  CW: ["curaçao"],
+  RE: ["réunion"],
+  ST: ["são tomé and príncipe"],
+  KN: ["st kitts and nevis"],
+  LC: ["st lucia"],
+  VC: ["st vincent and the grenadines"],
+  SH: ["st helena"],
+  MF: ["st martin"],
+  SX: ["st maarten"],
+  BL: ["saint barthélemy", "st barthelemy"],
+  BQ: ["bonaire", "bonaire, sint eustatius and saba"],
+  PN: ["pitcairn"],
+  FK: ["falklands"],
+  CC: ["cocos (keeling) islands"],
+  VI: ["virgin islands, u.s.", "united states virgin islands"],
+  VG: ["virgin islands, british"],
+  GS: ["south georgia and the south sandwich islands"],
+  UM: ["united states minor outlying islands"],
+  GW: ["guinea bissau"],
+  RS: ["republic of serbia"],
+  TZ: ["united republic of tanzania"],
+  BN: ["brunei darussalam"],
+  MD: ["republic of moldova"],
+};
+
+// Provider URL slugs that differ from the canonical hyphenated name
+const SOURCE_SLUG_OVERRIDES: Record<CountrySource, Record<string, string>> = {
+  stateDept: {
+    US: "usa",
+    KR: "korea-south",
+    KP: "korea-north",
+    MM: "burma",
+    CI: "cote-d-ivoire",
+    CV: "cabo-verde",
+    CD: "democratic-republic-of-the-congo",
+    CG: "republic-of-the-congo",
+    VA: "holy-see",
+    PS: "israel-west-bank-and-gaza",
+  },
+  fcdo: {
+    US: "usa",
+    CI: "cote-d-ivoire",
+    CD: "democratic-republic-of-the-congo",
+    PS: "the-occupied-palestinian-territories",
+    GM: "the-gambia",
+    MO: "macao",
+    KN: "st-kitts-and-nevis",
+    LC: "st-lucia",
+    VC: "st-vincent-and-the-grenadines",
+    SH: "st-helena-ascension-and-tristan-da-cunha",
+    MF: "st-martin",
+    SX: "st-maarten",
+    BL: "st-barthelemy",
+    PM: "st-pierre-and-miquelon",
+    PN: "pitcairn-island",
+    BQ: "bonaire-st-eustatius-saba",
+  },
+  cdc: {
+    US: "usa",
+    KR: "korea-south",
+    KP: "korea-north",
+    MM: "burma",
+  },
+};
+
+/**
+ * Convert a canonical country name to the hyphenated slug used for record ids and URLs
+ */
+export function toCountrySlug(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, '-');
+}
+
+export const COUNTRIES: readonly CountryRecord[] = ISO_3166_ROWS.map(
+  ([alpha2, alpha3, numeric, commonName, officialName, region, subregion]) => {
+    const name = commonName.toLowerCase();
+    const defaultSlug = toCountrySlug(name);
+    return {
+      alpha2,
+      alpha3,
+      numeric,
+      name,
+      commonName,
+      officialName,
+      aliases: COUNTRY_ALIASES[alpha2] || [],
+      region,
+      subregion,
+      slugs: {
+        stateDept: SOURCE_SLUG_OVERRIDES.stateDept[alpha2] || defaultSlug,
+        fcdo: SOURCE_SLUG_OVERRIDES.fcdo[alpha2] || defaultSlug,
+        cdc: SOURCE_SLUG_OVERRIDES.cdc[alpha2] || defaultSlug,
+      },
+    };
+  }
+);
+
+const byCode = new Map<string, CountryRecord>();
+const byName = new Map<string, CountryRecord>();
+
+for (const country of COUNTRIES) {
+  byCode.set(country.alpha2, country);
+  byCode.set(country.alpha3, country);
+  if (country.numeric) byCode.set(country.numeric, country);
+
+  // Canonical and official names take precedence over aliases
+  for (const name of [country.name, country.officialName.toLowerCase()]) {
+    if (!byName.has(name)) byName.set(name, country);
+  }
+}
+for (const country of COUNTRIES) {
+  for (const alias of country.aliases) {
+    if (!byName.has(alias)) byName.set(alias, country);
+  }
+}
+
+/**
+ * Resolve a country by canonical name, official name or alias (case-insensitive)
+ */
+export function resolveCountry(name: string | null | undefined): CountryRecord | undefined {
+  if (!name) return undefined;
+  return byName.get(name.toLowerCase().trim());
+}
+
+/**
+ * Look up a country by ISO alpha-2, alpha-3 or numeric code
+ */
+export function getCountryByCode(code: string | null | undefined): CountryRecord | undefined {
+  if (!code) return undefined;
+  return byCode.get(code.toUpperCase().trim());
+}
+
+/**
+ * All canonical country names
+ */
+export function getCountryNames(): string[] {
+  return COUNTRIES.map(country => country.name);
+}
+
+/**
+ * The URL slug a provider uses for a country, falling back to the hyphenated name
+ */
+export function getCountrySlug(name: string, source: CountrySource): string {
+  return resolveCountry(name)?.slugs[source] || toCountrySlug(name);
+}
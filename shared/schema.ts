@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, json, timestamp, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, json, timestamp, integer, boolean, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -27,6 +27,27 @@ export const alerts = pgTable("alerts", {
   safetyRecommendations: json("safety_recommendations").$type<string[]>(),
   specificAreas: json("specific_areas").$type<string[]>(),
   aiEnhanced: timestamp("ai_enhanced"), // When AI enhancement was last performed
+  aiConfidence: json("ai_confidence").$type<AIConfidence>(), // Whether each key risk and area was found in the advisory text
+  translations: json("translations").$type<AlertTranslations>(), // AI fields in other languages, keyed by ISO 639-1 code
+});
+
+// Append-only history of each distinct version of an advisory, per source
+export const alertRevisions = pgTable("alert_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  countryId: varchar("country_id").notNull(),
+  source: text("source").notNull(),
+  advisoryKey: text("advisory_key").notNull(), // Identifies the advisory within a source (its link)
+  title: text("title").notNull(),
+  level: text("level"),
+  severity: text("severity").notNull(),
+  summary: text("summary").notNull(),
+  link: text("link").notNull(),
+  keyRisks: json("key_risks").$type<string[]>(),
+  safetyRecommendations: json("safety_recommendations").$type<string[]>(),
+  specificAreas: json("specific_areas").$type<string[]>(),
+  contentHash: text("content_hash").notNull(), // Hash of level, severity, summary and AI fields
+  advisoryDate: timestamp("advisory_date").notNull(),
+  recordedAt: timestamp("recorded_at").defaultNow(),
 });
 
 export const backgroundInfo = pgTable("background_info", {
@@ -42,27 +63,47 @@ export const backgroundInfo = pgTable("background_info", {
   lastUpdated: timestamp("last_updated").defaultNow(),
 });
 
+// Work a queued job does for each of its countries
+export const BULK_JOB_TYPES = ["alerts", "background", "embassies", "ai-enhancement"] as const;
+export type BulkJobType = typeof BULK_JOB_TYPES[number];
+
+// Queued jobs run highest priority first; a running job yields to a higher priority one
+export const JOB_PRIORITIES = { low: 0, normal: 5, high: 10 } as const;
+export type JobPriorityName = keyof typeof JOB_PRIORITIES;
+
 export const bulkJobs = pgTable("bulk_jobs", {
   id: varchar("id").primaryKey(),
-  startedAt: timestamp("started_at").notNull(),
+  type: text("type").notNull().default("alerts"), // See BULK_JOB_TYPES
+  priority: integer("priority").notNull().default(JOB_PRIORITIES.normal),
+  countries: json("countries").$type<string[]>(), // Countries to process; null means every country
+  region: text("region"), // Region filter the country list came from, if any
+  sourceIds: json("source_ids").$type<string[]>(), // Alert sources to refresh; null means every enabled source
+  queuedAt: timestamp("queued_at").notNull().defaultNow(),
+  startedAt: timestamp("started_at"), // Set when the job first runs
   completedAt: timestamp("completed_at"),
-  status: text("status").notNull(), // 'running', 'completed', 'failed', 'cancelled'
+  status: text("status").notNull(), // 'queued', 'running', 'completed', 'failed', 'cancelled'
   totalCountries: integer("total_countries").notNull(),
   processedCountries: integer("processed_countries").notNull().default(0),
   failedCountries: integer("failed_countries").notNull().default(0),
   errorLog: json("error_log").$type<Array<{ country: string; error: string }>>(),
   lastRunDate: timestamp("last_run_date"), // For preventing duplicate daily runs
+  parentJobId: varchar("parent_job_id"), // Set on jobs that retry the failed countries of another job
+  aiCacheHits: integer("ai_cache_hits").notNull().default(0), // Advisories whose stored AI analysis was reused
+  aiCacheMisses: integer("ai_cache_misses").notNull().default(0), // Advisories sent to the model
 });
 
+export const JOB_COUNTRY_STATUSES = ["pending", "processing", "completed", "failed"] as const;
+export type JobCountryStatus = typeof JOB_COUNTRY_STATUSES[number];
+
 export const jobCountryProgress = pgTable("job_country_progress", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   jobId: varchar("job_id").notNull(),
   countryName: text("country_name").notNull(),
-  status: text("status").notNull(), // 'pending', 'processing', 'completed', 'failed'
+  status: text("status").notNull(), // See JOB_COUNTRY_STATUSES
   startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
   error: text("error"),
-  retryCount: integer("retry_count").notNull().default(0),
+  retryCount: integer("retry_count").notNull().default(0), // Attempts beyond the first
 });
 
 export const embassiesConsulates = pgTable("embassies_consulates", {
@@ -79,6 +120,233 @@ export const embassiesConsulates = pgTable("embassies_consulates", {
   lastUpdated: timestamp("last_updated").defaultNow(),
 });
 
+// How a job handles runs missed while the server was down
+export const CATCH_UP_POLICIES = ["skip", "run-once", "run-all"] as const;
+
+// Recurring jobs driven by cron expressions, evaluated in the job's own time zone
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  task: text("task").notNull(), // Registered task to run, e.g. 'bulk-download', 'embassy-refresh'
+  cronExpression: text("cron_expression").notNull(),
+  timezone: text("timezone").notNull().default("UTC"),
+  enabled: boolean("enabled").notNull().default(true),
+  catchUpPolicy: text("catch_up_policy").notNull().default("run-once"), // 'skip', 'run-once', 'run-all'
+  lastRunAt: timestamp("last_run_at"),
+  lastRunStatus: text("last_run_status"), // 'running', 'succeeded', 'failed', 'skipped'
+  lastRunMessage: text("last_run_message"),
+  lastRunDurationMs: integer("last_run_duration_ms"),
+  nextRunAt: timestamp("next_run_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Time-limited locks shared by all app instances. The holder renews its lease with a heartbeat;
+// once it stops, the lease expires and another instance can take it over.
+export const leases = pgTable("leases", {
+  name: text("name").primaryKey(), // e.g. 'scheduler', 'bulk-job:<jobId>'
+  holderId: text("holder_id").notNull(),
+  acquiredAt: timestamp("acquired_at").notNull(),
+  renewedAt: timestamp("renewed_at").notNull(), // Last heartbeat
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// 'grounded' items were found in the advisory text; 'unverified' ones only partly, or had no
+// page text to check against, and may be hallucinated
+export type AIConfidenceLevel = 'grounded' | 'unverified';
+
+export type AIItemConfidence = {
+  item: string;
+  confidence: AIConfidenceLevel;
+};
+
+export type AIConfidence = {
+  keyRisks: AIItemConfidence[];
+  specificAreas: AIItemConfidence[];
+};
+
+// The AI fields of an alert in another language. Lists keep the order of the English ones.
+export type AlertTranslation = {
+  summary: string;
+  keyRisks: string[];
+  safetyRecommendations: string[];
+  specificAreas: string[];
+};
+
+export type AlertTranslations = Record<string, AlertTranslation>;
+
+// Fields the model extracts from an advisory page
+export type AIEnhancementResult = {
+  summary: string;
+  keyRisks: string[];
+  safetyRecommendations: string[];
+  specificAreas: string[];
+  threatLevel?: number;
+  confidence: AIConfidence;
+  translations?: AlertTranslations; // Added as configured languages are first needed
+};
+
+// Last AI analysis of each advisory page. It is reused until the page text (by hash) or the
+// prompt version changes.
+export const aiEnhancements = pgTable("ai_enhancements", {
+  advisoryLink: text("advisory_link").primaryKey(),
+  contentHash: text("content_hash").notNull(), // SHA-256 of the cleaned page text
+  promptVersion: text("prompt_version").notNull(),
+  model: text("model").notNull(),
+  result: json("result").$type<AIEnhancementResult>().notNull(),
+  analyzedAt: timestamp("analyzed_at").notNull(),
+});
+
+// One row per LLM call, for usage reporting and the monthly AI budget
+export const aiUsage = pgTable("ai_usage", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  operation: text("operation").notNull(), // 'full-advisory', 'base-summary' or 'translation'
+  countryName: text("country_name"),
+  jobId: varchar("job_id"), // Bulk job that triggered the call, if any
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  estimatedCostUsd: doublePrecision("estimated_cost_usd").notNull().default(0),
+  latencyMs: integer("latency_ms").notNull(),
+  succeeded: boolean("succeeded").notNull(), // False when the call errored or timed out
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Countries the scheduler keeps fresh, ranked by how recently and how often they are viewed.
+// One row per country ever viewed; stale rows are skipped rather than deleted.
+export const refreshQueue = pgTable("refresh_queue", {
+  countryName: text("country_name").primaryKey(),
+  accessCount: integer("access_count").notNull().default(0),
+  firstAccessed: timestamp("first_accessed").notNull(),
+  lastAccessed: timestamp("last_accessed").notNull(),
+  lastRefreshed: timestamp("last_refreshed"), // Last scheduled alert refresh
+  sourceRefreshes: json("source_refreshes").$type<Record<string, string>>(), // Last scheduled refresh (ISO time) per alert source id
+  lastBackgroundRefresh: timestamp("last_background_refresh"),
+});
+
+// Topics a full advisory is split into; 'other' covers parts that fit none of them
+export const ADVISORY_SECTION_CATEGORIES = [
+  "summary",
+  "warnings",
+  "safety-and-security",
+  "terrorism",
+  "local-laws",
+  "entry-requirements",
+  "health",
+  "natural-disasters",
+  "getting-help",
+  "other",
+] as const;
+
+export type AdvisorySectionCategory = typeof ADVISORY_SECTION_CATEGORIES[number];
+
+// Full travel advice, one row per part of the advice (FCDO publishes it as parts).
+// Rows are replaced per country and source on every refresh.
+export const advisorySections = pgTable("advisory_sections", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  countryId: varchar("country_id").notNull(),
+  source: text("source").notNull(),
+  slug: text("slug").notNull(), // The part's own slug, e.g. 'local-laws-and-customs'
+  category: text("category").$type<AdvisorySectionCategory>().notNull(),
+  title: text("title").notNull(),
+  html: text("html").notNull(), // Sanitized body
+  link: text("link").notNull(),
+  position: integer("position").notNull(), // Order within the advice
+  contentHash: text("content_hash").notNull(),
+  updatedAt: timestamp("updated_at").notNull(), // When the section's content last changed
+  fetchedAt: timestamp("fetched_at").defaultNow(),
+});
+
+// What a traveler has to have to enter a destination
+export const ENTRY_REQUIREMENT_TYPES = ["visa", "passport-validity", "blank-pages", "vaccinations", "currency"] as const;
+
+export type EntryRequirementType = typeof ENTRY_REQUIREMENT_TYPES[number];
+
+// Entry rules per destination and traveler nationality, one row per requirement. Each source
+// writes for its own citizens (FCDO for British, State Dept for US passports); rows are
+// replaced per destination, nationality and source whenever the source page is read.
+export const entryRequirements = pgTable("entry_requirements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  countryId: varchar("country_id").notNull(), // Destination
+  nationality: text("nationality").notNull(), // ISO alpha-2 of the traveler's passport, e.g. 'US'
+  source: text("source").notNull(),
+  requirement: text("requirement").$type<EntryRequirementType>().notNull(),
+  details: text("details").notNull(),
+  link: text("link").notNull(),
+  lastVerified: timestamp("last_verified").notNull(), // When the source page last said this
+});
+
+// Sub-national areas an advisory singles out (e.g. "do not travel to X province"), matched to
+// admin-1 boundaries. Rows are replaced per country and source on every refresh.
+export const regionAdvisories = pgTable("region_advisories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  countryId: varchar("country_id").notNull(),
+  source: text("source").notNull(),
+  regionName: text("region_name").notNull(), // Name from the boundary dataset
+  admin1Code: text("admin1_code").notNull(), // ISO 3166-2 code where the boundary dataset has one, e.g. 'PK-BA'
+  level: integer("level").notNull(), // 1-4 on the US State Dept scale
+  sourceText: text("source_text").notNull(), // Advisory wording the region was found in
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Per-country alert subscription within a watchlist
+export const ALERT_SEVERITIES = ["info", "low", "medium", "high"] as const;
+
+export const watchlistSubscriptionSchema = z.object({
+  countryName: z.string().min(1),
+  sources: z.array(z.string()).default([]), // Alert source ids; empty means every source
+  minSeverity: z.enum(ALERT_SEVERITIES).default("medium"),
+});
+
+export type WatchlistSubscription = z.infer<typeof watchlistSubscriptionSchema>;
+
+export const watchlists = pgTable("watchlists", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  countries: json("countries").$type<WatchlistSubscription[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One stop on a trip; legs are kept in travel order
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+export const tripLegSchema = z.object({
+  countryName: z.string().min(1),
+  city: z.string().trim().min(1).nullable().default(null),
+  startDate: isoDate,
+  endDate: isoDate,
+}).refine(leg => leg.endDate >= leg.startDate, {
+  message: "endDate must not be before startDate",
+  path: ["endDate"],
+});
+
+export type TripLeg = z.infer<typeof tripLegSchema>;
+
+export const trips = pgTable("trips", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  notes: text("notes"),
+  legs: json("legs").$type<TripLeg[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Body of POST /api/jobs; countries and region are alternative ways to pick countries
+export const createBulkJobRequestSchema = z.object({
+  type: z.enum(BULK_JOB_TYPES),
+  countries: z.array(z.string().trim().min(1)).min(1).optional(),
+  region: z.string().trim().min(1).optional(),
+  sourceIds: z.array(z.string().min(1)).min(1).optional(),
+  priority: z.enum(["low", "normal", "high"]).default("normal"),
+}).refine(request => !(request.countries && request.region), {
+  message: "Specify either countries or region, not both",
+  path: ["region"],
+});
+
+export type CreateBulkJobRequest = z.infer<typeof createBulkJobRequestSchema>;
+
 // Insert schemas
 export const insertCountrySchema = createInsertSchema(countries).omit({
   lastUpdated: true,
@@ -89,6 +357,11 @@ export const insertAlertSchema = createInsertSchema(alerts).omit({
   createdAt: true,
 });
 
+export const insertAlertRevisionSchema = createInsertSchema(alertRevisions).omit({
+  id: true,
+  recordedAt: true,
+});
+
 export const insertBackgroundInfoSchema = createInsertSchema(backgroundInfo).omit({
   id: true,
   lastUpdated: true,
@@ -104,19 +377,93 @@ export const insertEmbassyConsulateSchema = createInsertSchema(embassiesConsulat
   lastUpdated: true,
 });
 
+export const insertScheduledJobSchema = createInsertSchema(scheduledJobs, {
+  name: z.string().trim().min(1),
+  task: z.string().min(1),
+  cronExpression: z.string().trim().min(1),
+  catchUpPolicy: z.enum(CATCH_UP_POLICIES).optional(),
+}).pick({
+  id: true,
+  name: true,
+  task: true,
+  cronExpression: true,
+  timezone: true,
+  enabled: true,
+  catchUpPolicy: true,
+});
+
+export const insertWatchlistSchema = createInsertSchema(watchlists, {
+  name: z.string().trim().min(1),
+  countries: z.array(watchlistSubscriptionSchema),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertTripSchema = createInsertSchema(trips, {
+  name: z.string().trim().min(1),
+  legs: z.array(tripLegSchema).min(1, "A trip needs at least one leg"),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertAIUsageSchema = createInsertSchema(aiUsage).omit({
+  id: true,
+});
+
+export const insertAdvisorySectionSchema = createInsertSchema(advisorySections, {
+  category: z.enum(ADVISORY_SECTION_CATEGORIES),
+}).omit({
+  id: true,
+  fetchedAt: true,
+});
+
+export const insertEntryRequirementSchema = createInsertSchema(entryRequirements, {
+  requirement: z.enum(ENTRY_REQUIREMENT_TYPES),
+}).omit({
+  id: true,
+});
+
+export const insertRegionAdvisorySchema = createInsertSchema(regionAdvisories).omit({
+  id: true,
+  updatedAt: true,
+});
+
 // Types
 export type Country = typeof countries.$inferSelect;
 export type Alert = typeof alerts.$inferSelect;
+export type AlertRevision = typeof alertRevisions.$inferSelect;
 export type BackgroundInfo = typeof backgroundInfo.$inferSelect;
 export type BulkJob = typeof bulkJobs.$inferSelect;
 export type JobCountryProgress = typeof jobCountryProgress.$inferSelect;
 export type EmbassyConsulate = typeof embassiesConsulates.$inferSelect;
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type Lease = typeof leases.$inferSelect;
+export type AIEnhancement = typeof aiEnhancements.$inferSelect;
+export type AIUsage = typeof aiUsage.$inferSelect;
+export type RefreshQueueEntry = typeof refreshQueue.$inferSelect;
+export type Watchlist = typeof watchlists.$inferSelect;
+export type Trip = typeof trips.$inferSelect;
+export type RegionAdvisory = typeof regionAdvisories.$inferSelect;
+export type AdvisorySection = typeof advisorySections.$inferSelect;
+export type EntryRequirement = typeof entryRequirements.$inferSelect;
 export type InsertCountry = z.infer<typeof insertCountrySchema>;
 export type InsertAlert = z.infer<typeof insertAlertSchema>;
+export type InsertAlertRevision = z.infer<typeof insertAlertRevisionSchema>;
 export type InsertBackgroundInfo = z.infer<typeof insertBackgroundInfoSchema>;
 export type InsertBulkJob = z.infer<typeof insertBulkJobSchema>;
 export type InsertJobCountryProgress = z.infer<typeof insertJobCountryProgressSchema>;
 export type InsertEmbassyConsulate = z.infer<typeof insertEmbassyConsulateSchema>;
+export type InsertScheduledJob = z.infer<typeof insertScheduledJobSchema>;
+export type InsertWatchlist = z.infer<typeof insertWatchlistSchema>;
+export type InsertTrip = z.infer<typeof insertTripSchema>;
+export type InsertAIUsage = z.infer<typeof insertAIUsageSchema>;
+export type InsertRegionAdvisory = z.infer<typeof insertRegionAdvisorySchema>;
+export type InsertAdvisorySection = z.infer<typeof insertAdvisorySectionSchema>;
+export type InsertEntryRequirement = z.infer<typeof insertEntryRequirementSchema>;
 
 // Combined types for API responses
 export type CountryData = {
@@ -124,6 +471,55 @@ export type CountryData = {
   alerts: Alert[];
   background: BackgroundInfo | null;
   embassies: EmbassyConsulate[];
+  sections: AdvisorySection[]; // Full advice by part, in the order each source publishes it
 };
 
 export type SearchResult = CountryData[];
+
+export type SourceRiskScore = {
+  sourceId: string; // Alert source id, e.g. 'uk-fcdo'
+  source: string; // Label stored in alerts.source, e.g. 'UK FCDO'
+  score: number; // 0-100, the source's most severe alert on the common scale
+  weight: number; // Configured weight; 0 leaves the source out of the composite
+  level: string | null; // The source's own level the score came from
+};
+
+export type RiskDisagreement = {
+  higher: { source: string; score: number; level: string | null };
+  lower: { source: string; score: number; level: string | null };
+  difference: number; // Points between the two scores
+};
+
+export type CompositeRiskScore = {
+  score: number | null; // 0-100 weighted average of the sources; null when every source present has weight 0
+  sources: SourceRiskScore[];
+  disagreements: RiskDisagreement[]; // Government advisories that are far apart
+};
+
+// Properties of each feature in GET /api/region-advisories/boundaries
+export type RegionBoundaryProperties = {
+  countryId: string;
+  countryName: string;
+  admin1Code: string;
+  regionName: string;
+  level: number; // Highest level any source gives the region
+  advisories: Array<{ source: string; level: number; sourceText: string }>;
+};
+
+export type TripLegAssessment = {
+  legIndex: number;
+  leg: TripLeg;
+  country: Country | null;
+  stateDeptLevel: number | null; // 1-4 from the US State Dept advisory
+  highestSeverity: string | null; // Highest severity across all stored alerts for the country
+  alerts: Alert[];
+  nearestEmbassy: EmbassyConsulate | null;
+  embassyDistanceKm: number | null; // Null when the leg's city could not be located
+};
+
+export type TripAssessment = {
+  trip: Trip;
+  legs: TripLegAssessment[];
+  highestLevel: number | null;
+  highestSeverity: string | null;
+};